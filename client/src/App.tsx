@@ -5,10 +5,20 @@ import Dashboard from './pages/Dashboard';
 import Inventory from './pages/Inventory';
 import CustomerList from './pages/CustomerList';
 import CustomerDetail from './pages/CustomerDetail';
-import { CreditCard, LayoutDashboard, Package, Users, History } from 'lucide-react';
+import LoanSchemes from './pages/LoanSchemes';
+import Holidays from './pages/Holidays';
+import WriteOffs from './pages/WriteOffs';
+import SalesHistory from './pages/SalesHistory';
+import PricingRules from './pages/PricingRules';
+import Purchasing from './pages/Purchasing';
+import Stocktake from './pages/Stocktake';
+import OperatorSignIn from './components/OperatorSignIn';
+import { CreditCard, LayoutDashboard, Package, Users, History, Percent, CalendarDays, FileX2, Tags, Truck, ClipboardList, LogOut } from 'lucide-react';
+import { signOut, useOperator, useOperatorSession } from './services/session';
 
 function Navbar() {
   const location = useLocation();
+  const operator = useOperator();
   
   return (
     <nav className="bg-white border-b border-gray-100 px-6 h-16 flex items-center justify-between shadow-sm sticky top-0 z-50">
@@ -41,6 +51,39 @@ function Navbar() {
             <Package className="w-4 h-4" />
             Inventaris
           </Link>
+          <Link 
+            to="/pricing" 
+            className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold transition-all ${
+              location.pathname === '/pricing' 
+                ? 'bg-blue-50 text-blue-600' 
+                : 'text-gray-400 hover:text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <Tags className="w-4 h-4" />
+            Harga Jual
+          </Link>
+          <Link 
+            to="/purchasing" 
+            className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold transition-all ${
+              location.pathname === '/purchasing' 
+                ? 'bg-blue-50 text-blue-600' 
+                : 'text-gray-400 hover:text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <Truck className="w-4 h-4" />
+            Pembelian
+          </Link>
+          <Link 
+            to="/stocktake" 
+            className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold transition-all ${
+              location.pathname === '/stocktake' 
+                ? 'bg-blue-50 text-blue-600' 
+                : 'text-gray-400 hover:text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <ClipboardList className="w-4 h-4" />
+            Stock Opname
+          </Link>
           <Link 
             to="/customers" 
             className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold transition-all ${
@@ -52,6 +95,39 @@ function Navbar() {
             <Users className="w-4 h-4" />
             Pelanggan
           </Link>
+          <Link 
+            to="/schemes" 
+            className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold transition-all ${
+              location.pathname === '/schemes' 
+                ? 'bg-blue-50 text-blue-600' 
+                : 'text-gray-400 hover:text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <Percent className="w-4 h-4" />
+            Skema Kredit
+          </Link>
+          <Link 
+            to="/holidays" 
+            className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold transition-all ${
+              location.pathname === '/holidays' 
+                ? 'bg-blue-50 text-blue-600' 
+                : 'text-gray-400 hover:text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <CalendarDays className="w-4 h-4" />
+            Hari Libur
+          </Link>
+          <Link 
+            to="/write-offs" 
+            className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold transition-all ${
+              location.pathname === '/write-offs' 
+                ? 'bg-blue-50 text-blue-600' 
+                : 'text-gray-400 hover:text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <FileX2 className="w-4 h-4" />
+            Kredit Macet
+          </Link>
           <Link 
             to="/history" 
             className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold transition-all ${
@@ -79,27 +155,43 @@ function Navbar() {
       
       <div className="flex items-center gap-3">
         <div className="text-right mr-2">
-          <p className="text-xs font-black text-gray-800">Admin Utama</p>
+          <p className="text-xs font-black text-gray-800">{operator}</p>
           <p className="text-[10px] text-emerald-500 font-bold">● Online</p>
         </div>
-        <div className="w-10 h-10 rounded-xl bg-gray-100 border border-gray-200 flex items-center justify-center text-gray-400">
-          <LayoutDashboard className="w-5 h-5" />
-        </div>
+        <button
+          onClick={signOut}
+          title="Ganti petugas"
+          className="w-10 h-10 rounded-xl bg-gray-100 border border-gray-200 flex items-center justify-center text-gray-400 hover:text-red-500 hover:bg-red-50 transition-all"
+        >
+          <LogOut className="w-5 h-5" />
+        </button>
       </div>
     </nav>
   );
 }
 
 function AppContent() {
+  // Nothing is recorded without a named operator
+  const operator = useOperatorSession();
+  if (!operator) {
+    return <OperatorSignIn />;
+  }
+
   return (
     <>
       <Navbar />
       <Routes>
         <Route path="/" element={<POSPage />} />
         <Route path="/inventory" element={<Inventory />} />
+        <Route path="/pricing" element={<PricingRules />} />
+        <Route path="/purchasing" element={<Purchasing />} />
+        <Route path="/stocktake" element={<Stocktake />} />
         <Route path="/customers" element={<CustomerList />} />
         <Route path="/customers/:id" element={<CustomerDetail />} />
-        <Route path="/history" element={<div className="p-8 font-black text-gray-400">Transaction History (Coming Soon)</div>} />
+        <Route path="/schemes" element={<LoanSchemes />} />
+        <Route path="/holidays" element={<Holidays />} />
+        <Route path="/write-offs" element={<WriteOffs />} />
+        <Route path="/history" element={<SalesHistory />} />
         <Route path="/dashboard" element={<Dashboard />} />
       </Routes>
     </>
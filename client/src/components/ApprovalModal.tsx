@@ -0,0 +1,113 @@
+// ApprovalModal: Supervisor sign-off for actions that need one (write-off, stock opname posting)
+import { useState } from 'react';
+import { X, ShieldCheck } from 'lucide-react';
+import { getErrorMessage } from '../services/api';
+
+export interface Approval {
+  reason: string;
+  approvedBy: string;
+}
+
+interface ApprovalModalProps {
+  title: string;
+  summary: React.ReactNode;
+  requireReason?: boolean; // Reason of at least 5 characters, as the write-off endpoint expects
+  confirmLabel: string;
+  onClose: () => void;
+  onConfirm: (approval: Approval) => Promise<void>;
+}
+
+const inputClass =
+  'w-full px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-bold text-gray-700 outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function ApprovalModal({
+  title,
+  summary,
+  requireReason = false,
+  confirmLabel,
+  onClose,
+  onConfirm,
+}: ApprovalModalProps) {
+  const [reason, setReason] = useState('');
+  const [approvedBy, setApprovedBy] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isComplete = approvedBy.trim() !== '' && (!requireReason || reason.trim().length >= 5);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isComplete) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await onConfirm({ reason: reason.trim(), approvedBy: approvedBy.trim() });
+    } catch (err) {
+      setError(getErrorMessage(err, 'Gagal memproses persetujuan'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-gray-900/40 backdrop-blur-xs" onClick={onClose}></div>
+      <div className="relative bg-white rounded-3xl shadow-2xl p-8 w-full max-w-sm">
+        <button onClick={onClose} className="absolute top-4 right-4 p-2 hover:bg-gray-100 rounded-full transition-all text-gray-400">
+          <X className="w-5 h-5" />
+        </button>
+        <ShieldCheck className="w-12 h-12 text-blue-500 mx-auto mb-4" />
+        <h3 className="text-xl font-black text-gray-800 mb-1 uppercase tracking-tighter text-center">{title}</h3>
+        <div className="text-xs text-gray-500 text-center mb-6 space-y-0.5">{summary}</div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {requireReason && (
+            <div>
+              <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Alasan</label>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={2}
+                autoFocus
+                className={inputClass}
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Disetujui Oleh</label>
+            <input
+              type="text"
+              value={approvedBy}
+              onChange={(e) => setApprovedBy(e.target.value)}
+              autoFocus={!requireReason}
+              placeholder="Nama kepala toko"
+              className={inputClass}
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 text-red-600 text-xs font-bold rounded-xl">{error}</div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 py-3 text-sm font-bold text-gray-400 hover:bg-gray-50 rounded-xl transition-all"
+            >
+              BATAL
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting || !isComplete}
+              className="flex-1 py-3 text-sm font-black bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-xl transition-all shadow-sm shadow-blue-100"
+            >
+              {isSubmitting ? '...' : confirmLabel}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { simulateCredit, type SimulationResult } from '../services/api';
+import { INTEREST_METHOD_LABELS } from '../constants/interestMethods';
 
 // ============================================================================
 // SCHEMA
@@ -33,6 +34,14 @@ function formatRupiah(value: string | number): string {
   }).format(num);
 }
 
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('id-ID', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  });
+}
+
 // ============================================================================
 // COMPONENT
 // ============================================================================
@@ -222,26 +231,74 @@ export default function CreditSimulator() {
               <span className="text-gray-600">Uang Muka (DP)</span>
               <span className="font-medium text-green-600">- {formatRupiah(result.simulation.dp)}</span>
             </div>
+            {result.simulation.charges.map((charge) => (
+              <div key={charge.name} className="flex justify-between py-2 border-b border-gray-200">
+                <span className="text-gray-600">
+                  {charge.name}{charge.type === 'PERCENT' ? ` (${charge.value}%)` : ''}
+                  <span className="text-xs text-gray-400"> • {charge.collection === 'UPFRONT' ? 'bayar di muka' : 'masuk pokok'}</span>
+                </span>
+                <span className="font-medium">
+                  {charge.collection === 'FINANCED' ? '+ ' : ''}{formatRupiah(charge.amount)}
+                </span>
+              </div>
+            ))}
             <div className="flex justify-between py-2 border-b border-gray-200">
               <span className="text-gray-600">Pokok Hutang</span>
               <span className="font-medium">{formatRupiah(result.simulation.principal)}</span>
             </div>
             <div className="flex justify-between py-2 border-b border-gray-200">
-              <span className="text-gray-600">Bunga ({result.simulation.interestRate}% x {result.simulation.tenorMonths} bln)</span>
+              <span className="text-gray-600">
+                {result.simulation.interestMethod === 'SYARIAH' ? 'Margin' : 'Bunga'} ({result.simulation.interestRate}% x {result.simulation.tenorMonths} bln)
+              </span>
               <span className="font-medium text-orange-600">+ {formatRupiah(result.simulation.interestAmount)}</span>
             </div>
             <div className="flex justify-between py-2 font-semibold text-base">
               <span className="text-gray-800">Total Kredit</span>
               <span className="text-blue-700">{formatRupiah(result.simulation.totalLoan)}</span>
             </div>
+            <div className="flex justify-between py-2 text-gray-600">
+              <span>Bayar di Muka (DP + biaya)</span>
+              <span className="font-medium">{formatRupiah(result.simulation.upfrontPayment)}</span>
+            </div>
+          </div>
+
+          {/* Schedule: principal / interest split per installment */}
+          <div className="mt-4 max-h-48 overflow-y-auto">
+            <table className="w-full text-xs text-right">
+              <thead>
+                <tr className="text-gray-500 border-b border-gray-200">
+                  <th className="py-1 text-left">Ke-</th>
+                  <th className="py-1">Angsuran</th>
+                  <th className="py-1">Pokok</th>
+                  <th className="py-1">Bunga</th>
+                  <th className="py-1">Sisa Pokok</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.simulation.schedule.map((line) => (
+                  <tr key={line.installmentNth} className="border-b border-gray-100">
+                    <td className="py-1 text-left">{line.installmentNth}</td>
+                    <td className="py-1 font-medium">{formatRupiah(line.amountDue)}</td>
+                    <td className="py-1">{formatRupiah(line.principal)}</td>
+                    <td className="py-1 text-orange-600">{formatRupiah(line.interest)}</td>
+                    <td className="py-1 text-gray-500">{formatRupiah(line.balance)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
           </div>
 
           {/* Scheme Info */}
           <div className="mt-4 pt-4 border-t border-gray-200">
             <p className="text-xs text-gray-500">
               Skema: <span className="font-medium">{result.scheme.name}</span> • 
-              Bunga Flat {result.scheme.interestRate}%/bulan
+              {INTEREST_METHOD_LABELS[result.scheme.interestMethod]} {result.scheme.interestRate}%/bulan
             </p>
+            {result.scheme.validUntil && (
+              <p className="text-xs font-medium text-amber-600 mt-1">
+                Promo berlaku sampai {formatDate(result.scheme.validUntil)}
+              </p>
+            )}
           </div>
         </div>
       )}
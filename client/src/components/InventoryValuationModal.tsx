@@ -0,0 +1,109 @@
+// InventoryValuationModal: Stock on hand valued at weighted-average cost (HPP)
+import { useEffect, useState } from 'react';
+import { X, Calculator } from 'lucide-react';
+import { fetchInventoryValuation, getErrorMessage, type InventoryValuation } from '../services/api';
+
+interface InventoryValuationModalProps {
+  category?: string; // Follows the inventory category filter
+  onClose: () => void;
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  ELECTRONIC: 'Elektronik',
+  FURNITURE: 'Furniture',
+  VEHICLE: 'Vehicle',
+};
+
+const formatRupiah = (value: string | number) => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+export default function InventoryValuationModal({ category, onClose }: InventoryValuationModalProps) {
+  const [report, setReport] = useState<InventoryValuation | null>(null);
+
+  useEffect(() => {
+    fetchInventoryValuation(category)
+      .then(setReport)
+      .catch((err) => alert(getErrorMessage(err, 'Gagal memuat nilai persediaan')));
+  }, [category]);
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-gray-900/40 backdrop-blur-xs" onClick={onClose}></div>
+      <div className="relative bg-white rounded-3xl shadow-2xl p-8 w-full max-w-3xl">
+        <button onClick={onClose} className="absolute top-4 right-4 p-2 hover:bg-gray-100 rounded-full transition-all text-gray-400">
+          <X className="w-5 h-5" />
+        </button>
+        <Calculator className="w-12 h-12 text-blue-500 mx-auto mb-4" />
+        <h3 className="text-xl font-black text-gray-800 mb-1 uppercase tracking-tighter text-center">Nilai Persediaan</h3>
+        <p className="text-xs text-gray-500 text-center mb-6">
+          HPP rata-rata tertimbang{category && ` • ${CATEGORY_LABELS[category] ?? category}`}
+        </p>
+
+        {!report ? (
+          <p className="py-8 text-center text-sm text-gray-400">Memuat...</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+              <div className="p-3 bg-blue-50 rounded-2xl">
+                <p className="text-[10px] font-bold text-blue-400 uppercase tracking-widest">Total Nilai</p>
+                <p className="text-sm font-black text-blue-700">{formatRupiah(report.totalValue)}</p>
+                <p className="text-[10px] text-blue-400">{report.totalQty} unit</p>
+              </div>
+              {report.byCategory.map((row) => (
+                <div key={row.category} className="p-3 bg-gray-50 rounded-2xl">
+                  <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+                    {CATEGORY_LABELS[row.category] ?? row.category}
+                  </p>
+                  <p className="text-sm font-black text-gray-700">{formatRupiah(row.value)}</p>
+                  <p className="text-[10px] text-gray-400">{row.qty} unit</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="max-h-[45vh] overflow-y-auto">
+              {report.products.length === 0 ? (
+                <p className="py-8 text-center text-sm text-gray-400">Tidak ada stok</p>
+              ) : (
+                <table className="w-full text-left text-xs">
+                  <thead>
+                    <tr className="text-[10px] font-bold text-gray-400 uppercase tracking-widest border-b border-gray-100">
+                      <th className="py-2">Produk</th>
+                      <th className="py-2 text-right">Stok</th>
+                      <th className="py-2 text-right">HPP / Unit</th>
+                      <th className="py-2 text-right">Nilai</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-50">
+                    {report.products.map((p) => (
+                      <tr key={p.productId}>
+                        <td className="py-2">
+                          <p className="font-bold text-gray-700">{p.name}</p>
+                          <p className="text-[10px] text-gray-400">
+                            {p.sku} • {p.subCategory}{p.isSecondHand && ' • Bekas'}
+                          </p>
+                        </td>
+                        <td className="py-2 text-right font-bold text-gray-700">{p.stockQty}</td>
+                        <td className="py-2 text-right text-gray-500">{formatRupiah(p.averageCost)}</td>
+                        <td className="py-2 text-right font-black text-gray-800">{formatRupiah(p.value)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <p className="mt-4 text-[10px] text-gray-400 text-right">
+              Per {new Date(report.asOf).toLocaleString('id-ID')}
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
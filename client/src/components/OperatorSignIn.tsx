@@ -0,0 +1,58 @@
+// OperatorSignIn: Start of shift; every cashier / audit field records this name
+import { useState } from 'react';
+import { CreditCard, LogIn } from 'lucide-react';
+import { signIn } from '../services/session';
+
+export default function OperatorSignIn() {
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim().length < 3) {
+      setError('Nama petugas minimal 3 karakter');
+      return;
+    }
+    signIn(name);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl p-8 w-full max-w-sm">
+        <h1 className="text-xl font-black text-blue-600 tracking-tighter flex items-center justify-center gap-2 mb-1">
+          <CreditCard className="w-6 h-6 fill-blue-600 text-white" />
+          AMALI-KREDIT
+        </h1>
+        <p className="text-xs text-gray-500 text-center mb-6">
+          Masukkan nama Anda. Nama ini dicatat pada setiap transaksi yang Anda proses.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Nama Petugas</label>
+            <input
+              type="text"
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-4 py-3 bg-gray-50 border-2 border-gray-100 rounded-2xl text-sm font-bold text-gray-700 focus:border-blue-500 focus:bg-white transition-all outline-none"
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 text-red-600 text-xs font-bold rounded-xl">{error}</div>
+          )}
+
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="w-full py-3 text-sm font-black bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-xl transition-all shadow-sm shadow-blue-100 flex items-center justify-center gap-2"
+          >
+            <LogIn className="w-4 h-4" />
+            MASUK
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
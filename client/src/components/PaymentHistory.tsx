@@ -0,0 +1,101 @@
+// PaymentHistory: Receipt ledger (kuitansi) table for a credit contract
+import { ReceiptText, Undo2 } from 'lucide-react';
+import { type ContractPayment } from '../services/api';
+
+interface PaymentHistoryProps {
+  payments: ContractPayment[];
+  isLoading?: boolean;
+  onReverse?: (payment: ContractPayment) => void;
+}
+
+const formatRupiah = (value: string | number) => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+const formatDateTime = (dateStr: string) => {
+  return new Date(dateStr).toLocaleString('id-ID', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export default function PaymentHistory({ payments, isLoading, onReverse }: PaymentHistoryProps) {
+  // Only the latest active receipt can be reversed
+  const reversibleId = payments.find((p) => p.type === 'RECEIPT' && !p.reversed_by)?.id;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-100 flex items-center gap-2">
+        <ReceiptText className="w-4 h-4 text-gray-400" />
+        <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Riwayat Pembayaran</span>
+      </div>
+
+      {isLoading ? (
+        <p className="px-4 py-6 text-center text-xs text-gray-400">Memuat riwayat...</p>
+      ) : payments.length === 0 ? (
+        <p className="px-4 py-6 text-center text-xs text-gray-400">Belum ada pembayaran.</p>
+      ) : (
+        <table className="w-full text-left text-xs">
+          <thead>
+            <tr className="text-[10px] font-bold text-gray-400 uppercase border-b border-gray-50">
+              <th className="px-4 py-2">No. Kuitansi</th>
+              <th className="px-4 py-2">Tanggal</th>
+              <th className="px-4 py-2">Metode</th>
+              <th className="px-4 py-2">Kasir</th>
+              <th className="px-4 py-2">Alokasi</th>
+              <th className="px-4 py-2 text-right">Jumlah</th>
+              {onReverse && <th className="px-4 py-2 w-10"></th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-50">
+            {payments.map((payment) => (
+              <tr key={payment.id} className={payment.reversed_by ? 'opacity-50' : ''}>
+                <td className="px-4 py-2 font-mono font-bold text-gray-700">
+                  <span className={payment.reversed_by ? 'line-through' : ''}>{payment.receipt_no}</span>
+                  {payment.type === 'RECOVERY' && (
+                    <p className="font-sans font-medium text-[10px] text-amber-600">Pemulihan kredit macet</p>
+                  )}
+                  {payment.type === 'REVERSAL' && (
+                    <p className="font-sans font-medium text-[10px] text-red-500" title={payment.reason ?? ''}>
+                      Batal {payment.reversal_of?.receipt_no}: {payment.reason}
+                    </p>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-gray-500">{formatDateTime(payment.paid_at)}</td>
+                <td className="px-4 py-2 text-gray-500">{payment.method === 'REPOSSESSION' ? 'Tarik barang' : payment.method}</td>
+                <td className="px-4 py-2 text-gray-500">{payment.cashier}</td>
+                <td className="px-4 py-2 text-gray-500">
+                  {payment.allocations.map((a) => `Ke-${a.installment.installment_nth}`).join(', ') || '-'}
+                </td>
+                <td className={`px-4 py-2 text-right font-black ${payment.type === 'REVERSAL' ? 'text-red-600' : 'text-gray-800'}`}>
+                  {formatRupiah(payment.amount)}
+                </td>
+                {onReverse && (
+                  <td className="px-4 py-2 text-right">
+                    {payment.id === reversibleId && (
+                      <button
+                        onClick={() => onReverse(payment)}
+                        title="Batalkan pembayaran"
+                        className="p-1.5 text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                      >
+                        <Undo2 className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+// PaymentModal: Cashier dialog for receiving an installment payment
+import { useState } from 'react';
+import { X, Wallet } from 'lucide-react';
+import {
+  payInstallment,
+  getErrorMessage,
+  type Installment,
+  type PaymentMethod,
+  type PaymentResult,
+} from '../services/api';
+import { useOperator } from '../services/session';
+
+interface PaymentModalProps {
+  installment: Installment;
+  onClose: () => void;
+  onPaid: (result: PaymentResult['data']) => void;
+}
+
+const formatRupiah = (value: string | number) => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+const METHOD_LABELS: Record<PaymentMethod, string> = {
+  CASH: 'Tunai',
+  TRANSFER: 'Transfer Bank',
+  QRIS: 'QRIS',
+};
+
+export default function PaymentModal({ installment, onClose, onPaid }: PaymentModalProps) {
+  const operator = useOperator();
+  const penalty = Math.max(parseFloat(installment.penalty_accrued) - parseFloat(installment.penalty_paid), 0);
+  const due = Math.max(parseFloat(installment.amount_due) - parseFloat(installment.amount_paid), 0);
+
+  const [amount, setAmount] = useState(Math.ceil(due + penalty));
+  const [method, setMethod] = useState<PaymentMethod>('CASH');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isNaN(amount) || amount <= 0) {
+      setError('Jumlah pembayaran tidak valid');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const result = await payInstallment(installment.id, { amount, method, cashier: operator });
+      if (result.success) onPaid(result.data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Gagal memproses pembayaran'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-gray-900/40 backdrop-blur-xs" onClick={onClose}></div>
+      <div className="relative bg-white rounded-3xl shadow-2xl p-8 w-full max-w-sm">
+        <button onClick={onClose} className="absolute top-4 right-4 p-2 hover:bg-gray-100 rounded-full transition-all text-gray-400">
+          <X className="w-5 h-5" />
+        </button>
+        <Wallet className="w-12 h-12 text-blue-500 mx-auto mb-4" />
+        <h3 className="text-xl font-black text-gray-800 mb-1 uppercase tracking-tighter text-center">
+          Terima Angsuran Ke-{installment.installment_nth}
+        </h3>
+        <div className="text-xs text-gray-500 text-center mb-6 space-y-0.5">
+          <p>Sisa tagihan: <span className="font-bold text-gray-700">{formatRupiah(due)}</span></p>
+          {penalty > 0 && <p>Denda berjalan: <span className="font-bold text-amber-600">{formatRupiah(penalty)}</span></p>}
+          <p className="italic">Kelebihan bayar dialokasikan ke angsuran berikutnya.</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Jumlah Diterima (Rp)</label>
+            <input
+              type="number"
+              min="1"
+              autoFocus
+              value={amount}
+              onChange={(e) => setAmount(parseFloat(e.target.value))}
+              className="w-full h-14 text-center text-2xl font-black bg-gray-50 border-2 border-gray-100 rounded-2xl focus:border-blue-500 focus:bg-white transition-all outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Metode</label>
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+              className="w-full px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-bold text-gray-700 outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(METHOD_LABELS) as PaymentMethod[]).map((m) => (
+                <option key={m} value={m}>{METHOD_LABELS[m]}</option>
+              ))}
+            </select>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 text-red-600 text-xs font-bold rounded-xl">{error}</div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 py-3 text-sm font-bold text-gray-400 hover:bg-gray-50 rounded-xl transition-all"
+            >
+              BATAL
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="flex-1 py-3 text-sm font-black bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-xl transition-all shadow-sm shadow-blue-100"
+            >
+              {isSubmitting ? '...' : 'TERIMA'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+// PayoffModal: Early payoff (pelunasan dipercepat) quote and settlement dialog
+import { useEffect, useState } from 'react';
+import { X, BadgeCheck } from 'lucide-react';
+import {
+  fetchPayoffQuote,
+  settleContract,
+  getErrorMessage,
+  type Contract,
+  type PaymentMethod,
+  type PayoffQuote,
+  type SettleContractResult,
+} from '../services/api';
+import { useOperator } from '../services/session';
+
+interface PayoffModalProps {
+  contract: Contract;
+  onClose: () => void;
+  onSettled: (result: SettleContractResult['data']) => void;
+}
+
+const formatRupiah = (value: string | number) => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+const METHOD_LABELS: Record<PaymentMethod, string> = {
+  CASH: 'Tunai',
+  TRANSFER: 'Transfer Bank',
+  QRIS: 'QRIS',
+};
+
+export default function PayoffModal({ contract, onClose, onSettled }: PayoffModalProps) {
+  const operator = useOperator();
+  const [quote, setQuote] = useState<PayoffQuote | null>(null);
+  const [method, setMethod] = useState<PaymentMethod>('CASH');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPayoffQuote(contract.id)
+      .then(setQuote)
+      .catch((err) => setError(getErrorMessage(err, 'Gagal menghitung nilai pelunasan')));
+  }, [contract.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!quote) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const result = await settleContract(contract.id, {
+        method,
+        cashier: operator,
+        expectedTotal: parseFloat(quote.totalPayoff),
+      });
+      if (result.success) onSettled(result.data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Gagal memproses pelunasan'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-gray-900/40 backdrop-blur-xs" onClick={onClose}></div>
+      <div className="relative bg-white rounded-3xl shadow-2xl p-8 w-full max-w-sm">
+        <button onClick={onClose} className="absolute top-4 right-4 p-2 hover:bg-gray-100 rounded-full transition-all text-gray-400">
+          <X className="w-5 h-5" />
+        </button>
+        <BadgeCheck className="w-12 h-12 text-emerald-500 mx-auto mb-4" />
+        <h3 className="text-xl font-black text-gray-800 mb-1 uppercase tracking-tighter text-center">
+          Pelunasan Dipercepat
+        </h3>
+        <p className="text-xs text-gray-500 text-center mb-6">{contract.transaction.customer_name}</p>
+
+        {!quote ? (
+          !error && <p className="text-center text-xs text-gray-400 py-6">Menghitung nilai pelunasan...</p>
+        ) : (
+          <div className="text-xs space-y-1.5 mb-6">
+            <div className="flex justify-between text-gray-500">
+              <span>Sisa pokok</span>
+              <span className="font-bold text-gray-700">{formatRupiah(quote.remainingPrincipal)}</span>
+            </div>
+            <div className="flex justify-between text-gray-500">
+              <span>Sisa bunga</span>
+              <span className="font-bold text-gray-700">{formatRupiah(quote.remainingInterest)}</span>
+            </div>
+            <div className="flex justify-between text-emerald-600">
+              <span>Diskon bunga ({parseFloat(quote.discountPercent)}% dari {formatRupiah(quote.unearnedInterest)})</span>
+              <span className="font-bold">- {formatRupiah(quote.interestDiscount)}</span>
+            </div>
+            {parseFloat(quote.accruedPenalty) > 0 && (
+              <div className="flex justify-between text-amber-600">
+                <span>Denda berjalan</span>
+                <span className="font-bold">{formatRupiah(quote.accruedPenalty)}</span>
+              </div>
+            )}
+            <div className="flex justify-between pt-2 mt-2 border-t border-gray-100 text-sm">
+              <span className="font-bold text-gray-800">Total Pelunasan</span>
+              <span className="font-black text-emerald-600">{formatRupiah(quote.totalPayoff)}</span>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Metode</label>
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+              className="w-full px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-bold text-gray-700 outline-none focus:ring-2 focus:ring-emerald-500"
+            >
+              {(Object.keys(METHOD_LABELS) as PaymentMethod[]).map((m) => (
+                <option key={m} value={m}>{METHOD_LABELS[m]}</option>
+              ))}
+            </select>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 text-red-600 text-xs font-bold rounded-xl">{error}</div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 py-3 text-sm font-bold text-gray-400 hover:bg-gray-50 rounded-xl transition-all"
+            >
+              BATAL
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting || !quote}
+              className="flex-1 py-3 text-sm font-black bg-emerald-600 hover:bg-emerald-700 disabled:bg-gray-300 text-white rounded-xl transition-all shadow-sm shadow-emerald-100"
+            >
+              {isSubmitting ? '...' : 'LUNASI'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
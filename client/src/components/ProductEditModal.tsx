@@ -0,0 +1,299 @@
+// ProductEditModal: Correct a product's master data and deactivate / reactivate it
+import { useEffect, useState } from 'react';
+import { z } from 'zod';
+import { X, Pencil, Lock } from 'lucide-react';
+import {
+  fetchProduct,
+  updateProduct,
+  setProductActive,
+  getErrorMessage,
+  type ProductDetail,
+} from '../services/api';
+import { PRODUCT_TYPES, type Category } from '../constants/productTypes';
+import {
+  electronicAttributesSchema,
+  furnitureAttributesSchema,
+  vehicleAttributesSchema,
+  defaultAttributes,
+} from '../constants/productAttributes';
+
+interface ProductEditModalProps {
+  productId: number;
+  onClose: () => void;
+  onSaved: () => void; // Product changed: reload the product list
+}
+
+const detailsSchema = z.object({
+  sku: z.string().trim().min(3, 'SKU minimal 3 karakter'),
+  name: z.string().trim().min(2, 'Nama produk minimal 2 karakter'),
+  sub_category: z.string().min(1, 'Tipe produk harus dipilih'),
+  cash_price: z.number().min(1000, 'Harga minimal Rp 1.000').nullable(),
+  credit_price: z.number().min(1000, 'Harga minimal Rp 1.000').nullable(),
+});
+
+const productEditSchema = z.discriminatedUnion('category', [
+  detailsSchema.extend({ category: z.literal('ELECTRONIC'), attributes: electronicAttributesSchema }),
+  detailsSchema.extend({ category: z.literal('FURNITURE'), attributes: furnitureAttributesSchema }),
+  detailsSchema.extend({ category: z.literal('VEHICLE'), attributes: vehicleAttributesSchema }),
+]);
+
+const ATTRIBUTE_FIELDS: Record<Category, Array<{ key: string; label: string; numeric?: boolean }>> = {
+  ELECTRONIC: [{ key: 'brand', label: 'Brand' }, { key: 'warranty', label: 'Garansi' }],
+  FURNITURE: [{ key: 'dimensions', label: 'Dimensi (P x L x T)' }, { key: 'material', label: 'Material' }, { key: 'color', label: 'Warna' }],
+  VEHICLE: [{ key: 'color', label: 'Warna' }, { key: 'year', label: 'Tahun', numeric: true }],
+};
+
+const CATEGORY_LABELS: Record<Category, string> = {
+  ELECTRONIC: '⚡ ELEKTRONIK',
+  FURNITURE: '🪑 FURNITURE',
+  VEHICLE: '🏍️ VEHICLE',
+};
+
+const toPrice = (value: string) => (value.trim() === '' ? null : Number(value));
+
+export default function ProductEditModal({ productId, onClose, onSaved }: ProductEditModalProps) {
+  const [product, setProduct] = useState<ProductDetail | null>(null);
+  const [sku, setSku] = useState('');
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState<Category>('ELECTRONIC');
+  const [subCategory, setSubCategory] = useState('');
+  const [cashPrice, setCashPrice] = useState('');
+  const [creditPrice, setCreditPrice] = useState('');
+  const [attributes, setAttributes] = useState<Record<string, unknown>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchProduct(productId)
+      .then((detail) => {
+        setProduct(detail);
+        setSku(detail.sku);
+        setName(detail.name);
+        setCategory(detail.category as Category);
+        setSubCategory(detail.sub_category);
+        setCashPrice(detail.cash_price !== null ? parseFloat(detail.cash_price).toString() : '');
+        setCreditPrice(detail.credit_price !== null ? parseFloat(detail.credit_price).toString() : '');
+        setAttributes(detail.attributes ?? {});
+      })
+      .catch((err) => alert(getErrorMessage(err, 'Gagal memuat produk')));
+  }, [productId]);
+
+  // Units were registered with this category's identifiers (serial vs engine / chassis number)
+  const categoryLocked = product !== null && product.track_units && product.unit_count > 0;
+
+  // Attributes belong to the category: switching starts from empty fields (switching back restores the saved ones)
+  const handleCategoryChange = (next: Category) => {
+    setCategory(next);
+    setSubCategory(PRODUCT_TYPES[next][0]);
+    setAttributes(next === product?.category ? product.attributes ?? {} : defaultAttributes(next));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!product) return;
+
+    // Validated like the add form; attribute keys outside the category's schema are dropped
+    const payload = {
+      sku: sku.trim(),
+      name: name.trim(),
+      category,
+      sub_category: subCategory,
+      cash_price: toPrice(cashPrice),
+      credit_price: toPrice(creditPrice),
+      attributes,
+    };
+    const result = productEditSchema.safeParse(payload);
+    if (!result.success) {
+      setErrors(Object.fromEntries(result.error.issues.map((issue) => [issue.path.join('.'), issue.message])));
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setErrors({});
+      await updateProduct(product.id, result.data);
+      alert('Produk berhasil diperbarui!');
+      onSaved();
+      onClose();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal memperbarui produk'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async () => {
+    if (!product) return;
+    const question = product.is_active
+      ? `Nonaktifkan "${product.name}"? Produk tidak tampil lagi di kasir, riwayat dan stok tetap tersimpan.`
+      : `Aktifkan kembali "${product.name}"?`;
+    if (!window.confirm(question)) return;
+
+    try {
+      setProduct(await setProductActive(product.id, !product.is_active));
+      onSaved();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal mengubah status produk'));
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all outline-none text-sm font-medium disabled:text-gray-400';
+  const fieldError = (path: string) =>
+    errors[path] && <p className="text-red-500 text-[10px] mt-1 font-bold">{errors[path]}</p>;
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-gray-900/40 backdrop-blur-xs" onClick={onClose}></div>
+      <div className="relative bg-white rounded-3xl shadow-2xl p-8 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <button onClick={onClose} className="absolute top-4 right-4 p-2 hover:bg-gray-100 rounded-full transition-all text-gray-400">
+          <X className="w-5 h-5" />
+        </button>
+        <Pencil className="w-12 h-12 text-blue-500 mx-auto mb-4" />
+        <h3 className="text-xl font-black text-gray-800 mb-1 uppercase tracking-tighter text-center">Ubah Produk</h3>
+
+        {!product ? (
+          <p className="py-8 text-center text-sm text-gray-400">Memuat...</p>
+        ) : (
+          <form onSubmit={handleSave} className="space-y-5">
+            <p className="text-xs text-center">
+              <span className={`font-black px-2 py-0.5 rounded ${product.is_active ? 'bg-emerald-50 text-emerald-600' : 'bg-gray-100 text-gray-500'}`}>
+                {product.is_active ? 'AKTIF' : 'NONAKTIF'}
+              </span>
+              <span className="text-gray-400"> • Stok {product.stock_qty} • stok & harga modal diubah lewat kartu stok</span>
+            </p>
+
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-2 uppercase tracking-tighter">Kategori Produk</label>
+              <div className="flex gap-2">
+                {(Object.keys(CATEGORY_LABELS) as Category[]).map((cat) => (
+                  <button
+                    key={cat}
+                    type="button"
+                    disabled={categoryLocked}
+                    onClick={() => handleCategoryChange(cat)}
+                    className={`flex-1 py-2 px-3 rounded-xl border-2 font-bold text-xs transition-all disabled:cursor-not-allowed ${
+                      category === cat
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-gray-100 bg-gray-50 text-gray-400 hover:border-gray-200'
+                    }`}
+                  >
+                    {CATEGORY_LABELS[cat]}
+                  </button>
+                ))}
+              </div>
+              {categoryLocked && (
+                <p className="text-[10px] text-gray-400 mt-1 flex items-center gap-1">
+                  <Lock className="w-3 h-3" /> Sudah ada {product.unit_count} unit terdaftar
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">Tipe Produk ({category})</label>
+              <select value={subCategory} onChange={(e) => setSubCategory(e.target.value)} className={inputClass}>
+                <option value="">Pilih Tipe Barangnya...</option>
+                {/* Keep a sub-category that is no longer in the list selectable */}
+                {!(PRODUCT_TYPES[category] as readonly string[]).includes(subCategory) && subCategory && (
+                  <option value={subCategory}>{subCategory}</option>
+                )}
+                {PRODUCT_TYPES[category].map((type) => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+              {fieldError('sub_category')}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">SKU (Kode Barang)</label>
+                <input
+                  type="text"
+                  value={sku}
+                  disabled={product.has_transactions}
+                  onChange={(e) => setSku(e.target.value)}
+                  className={inputClass}
+                />
+                {product.has_transactions && (
+                  <p className="text-[10px] text-gray-400 mt-1 flex items-center gap-1">
+                    <Lock className="w-3 h-3" /> Sudah pernah dijual
+                  </p>
+                )}
+                {fieldError('sku')}
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">Nama Produk</label>
+                <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+                {fieldError('name')}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">Harga Jual Tunai (Rp)</label>
+                <input
+                  type="number"
+                  value={cashPrice}
+                  onChange={(e) => setCashPrice(e.target.value)}
+                  placeholder="Ikuti aturan markup"
+                  className={inputClass}
+                />
+                {fieldError('cash_price')}
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">Harga Jual Kredit (Rp)</label>
+                <input
+                  type="number"
+                  value={creditPrice}
+                  onChange={(e) => setCreditPrice(e.target.value)}
+                  placeholder="Ikuti aturan markup"
+                  className={inputClass}
+                />
+                {fieldError('credit_price')}
+              </div>
+            </div>
+
+            <div className="bg-gray-50/50 p-4 rounded-2xl border border-gray-100 space-y-3">
+              <h3 className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Atribut Kategori</h3>
+              {ATTRIBUTE_FIELDS[category].map((field) => (
+                <div key={field.key}>
+                  <label className="block text-[10px] font-bold text-gray-500 mb-1 uppercase">{field.label}</label>
+                  <input
+                    type={field.numeric ? 'number' : 'text'}
+                    value={String(attributes[field.key] ?? '')}
+                    onChange={(e) => setAttributes({
+                      ...attributes,
+                      [field.key]: field.numeric ? Number(e.target.value) : e.target.value,
+                    })}
+                    className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg text-xs outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  {fieldError(`attributes.${field.key}`)}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-3 pt-2">
+              <button
+                type="button"
+                onClick={handleToggleActive}
+                className={`flex-1 py-3 rounded-xl font-bold text-xs transition-all ${
+                  product.is_active ? 'text-red-500 hover:bg-red-50' : 'text-emerald-600 hover:bg-emerald-50'
+                }`}
+              >
+                {product.is_active ? 'NONAKTIFKAN' : 'AKTIFKAN KEMBALI'}
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className={`flex-[2] py-3 px-6 rounded-xl font-black text-white transition-all text-sm ${
+                  isSaving ? 'bg-gray-300' : 'bg-blue-600 hover:bg-blue-700 active:scale-95'
+                }`}
+              >
+                {isSaving ? 'MENYIMPAN...' : 'SIMPAN PERUBAHAN'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,38 +3,28 @@ import { z } from 'zod';
 import { createProduct } from '../services/api';
 import { useState } from 'react';
 import { PRODUCT_TYPES } from '../constants/productTypes';
+import { parseUnitLines } from '../constants/productUnits';
+import { useOperator } from '../services/session';
+import {
+  electronicAttributesSchema,
+  furnitureAttributesSchema,
+  vehicleAttributesSchema,
+} from '../constants/productAttributes';
 
 // Base schema for common fields
 const baseProductSchema = z.object({
   sku: z.string().min(3, 'SKU minimal 3 karakter'),
   name: z.string().min(2, 'Nama produk minimal 2 karakter'),
   base_price: z.number().min(1000, 'Harga minimal Rp 1.000'),
+  // Selling prices; empty = follow the markup rule of the category
+  cash_price: z.number().min(1000, 'Harga minimal Rp 1.000').nullable(),
+  credit_price: z.number().min(1000, 'Harga minimal Rp 1.000').nullable(),
   stock_qty: z.number().int().min(0, 'Stok tidak boleh negatif'),
   category: z.enum(['ELECTRONIC', 'FURNITURE', 'VEHICLE']),
   sub_category: z.string().min(1, 'Tipe produk harus dipilih'),
-});
-
-// Electronic-specific attributes
-const electronicAttributesSchema = z.object({
-  sn: z.string().min(5, 'Serial Number minimal 5 karakter'),
-  brand: z.string().min(2, 'Brand minimal 2 karakter'),
-  warranty: z.string().min(1, 'Warranty harus diisi'),
-  imei: z.string().optional(),
-});
-
-// Furniture-specific attributes
-const furnitureAttributesSchema = z.object({
-  dimensions: z.string().min(3, 'Dimensi harus diisi (e.g., 200x100x80)'),
-  material: z.string().min(2, 'Material harus diisi'),
-  color: z.string().min(2, 'Warna harus diisi'),
-});
-
-// Vehicle-specific attributes
-const vehicleAttributesSchema = z.object({
-  engine_no: z.string().min(5, 'Nomor Mesin minimal 5 karakter'),
-  chassis_no: z.string().min(5, 'Nomor Rangka minimal 5 karakter'),
-  color: z.string().min(2, 'Warna harus diisi'),
-  year: z.number().int().min(2000, 'Tahun minimal 2000'),
+  // Per-unit stock: one serial / IMEI / engine & chassis number per line
+  track_units: z.boolean(),
+  unit_lines: z.string(),
 });
 
 // Combined schema with discriminated union
@@ -72,6 +62,7 @@ interface ProductFormProps {
 }
 
 export default function ProductForm({ onSuccess, onCancel }: ProductFormProps) {
+  const operator = useOperator();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [serverError, setServerError] = useState<string | null>(null);
 
@@ -105,20 +96,35 @@ export default function ProductForm({ onSuccess, onCancel }: ProductFormProps) {
       sku: '',
       name: '',
       base_price: 0,
+      cash_price: null,
+      credit_price: null,
       stock_qty: 1,
       sub_category: '',
+      track_units: true,
+      unit_lines: '',
       attributes: {},
     } as any,
   });
 
   // Watch category to conditionally render fields
   const selectedCategory = watch('category');
+  const trackUnits = watch('track_units');
+  const unitCount = parseUnitLines(watch('unit_lines') ?? '', selectedCategory).length;
 
   const onSubmit = async (data: ProductFormData) => {
+    const { unit_lines, ...product } = data;
+    const units = data.track_units ? parseUnitLines(unit_lines, data.category) : [];
+
     try {
       setIsSubmitting(true);
       setServerError(null);
-      await createProduct(data);
+      // Tracked products: the stock is the number of registered units
+      await createProduct({
+        ...product,
+        units,
+        stock_qty: data.track_units ? units.length : data.stock_qty,
+        cashier: operator,
+      });
       alert('Produk berhasil ditambahkan!');
       reset();
       if (onSuccess) onSuccess();
@@ -137,13 +143,16 @@ export default function ProductForm({ onSuccess, onCancel }: ProductFormProps) {
         ...currentValues,
         category: 'ELECTRONIC',
         sub_category: PRODUCT_TYPES.ELECTRONIC[0],
-        attributes: { sn: '', brand: '', warranty: '1 Tahun' },
+        track_units: true,
+        attributes: { brand: '', warranty: '1 Tahun' },
       } as any);
     } else if (newCategory === 'FURNITURE') {
       reset({
         ...currentValues,
         category: 'FURNITURE',
         sub_category: PRODUCT_TYPES.FURNITURE[0],
+        track_units: false,
+        unit_lines: '',
         attributes: { dimensions: '', material: '', color: '' },
       } as any);
     } else {
@@ -151,7 +160,8 @@ export default function ProductForm({ onSuccess, onCancel }: ProductFormProps) {
         ...currentValues,
         category: 'VEHICLE',
         sub_category: PRODUCT_TYPES.VEHICLE[0],
-        attributes: { engine_no: '', chassis_no: '', color: '', year: new Date().getFullYear() },
+        track_units: true,
+        attributes: { color: '', year: new Date().getFullYear() },
       } as any);
     }
   };
@@ -227,11 +237,17 @@ export default function ProductForm({ onSuccess, onCancel }: ProductFormProps) {
             <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">
               Stok Awal
             </label>
-            <input
-              type="number"
-              {...register('stock_qty', { valueAsNumber: true })}
-              className="w-full px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all outline-none text-sm font-medium"
-            />
+            {trackUnits ? (
+              <p className="px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-bold text-gray-700">
+                {unitCount} unit
+              </p>
+            ) : (
+              <input
+                type="number"
+                {...register('stock_qty', { valueAsNumber: true })}
+                className="w-full px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all outline-none text-sm font-medium"
+              />
+            )}
             {errors.stock_qty && <p className="text-red-500 text-[10px] mt-1 font-bold">{errors.stock_qty.message}</p>}
           </div>
         </div>
@@ -262,6 +278,33 @@ export default function ProductForm({ onSuccess, onCancel }: ProductFormProps) {
           {errors.base_price && <p className="text-red-500 text-[10px] mt-1 font-bold">{errors.base_price.message}</p>}
         </div>
 
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">
+              Harga Jual Tunai (Rp)
+            </label>
+            <input
+              type="number"
+              {...register('cash_price', { setValueAs: (v) => (v === '' || v === null ? null : Number(v)) })}
+              placeholder="Ikuti aturan markup"
+              className="w-full px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all outline-none text-sm font-medium"
+            />
+            {errors.cash_price && <p className="text-red-500 text-[10px] mt-1 font-bold">{errors.cash_price.message}</p>}
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">
+              Harga Jual Kredit (Rp)
+            </label>
+            <input
+              type="number"
+              {...register('credit_price', { setValueAs: (v) => (v === '' || v === null ? null : Number(v)) })}
+              placeholder="Ikuti aturan markup"
+              className="w-full px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all outline-none text-sm font-medium"
+            />
+            {errors.credit_price && <p className="text-red-500 text-[10px] mt-1 font-bold">{errors.credit_price.message}</p>}
+          </div>
+        </div>
+
         {/* Dynamic Attributes Section */}
         <div className="bg-gray-50/50 p-4 rounded-2xl border border-gray-100">
           <h3 className="text-[10px] font-black text-gray-400 uppercase tracking-widest mb-4">
@@ -270,15 +313,9 @@ export default function ProductForm({ onSuccess, onCancel }: ProductFormProps) {
 
           {selectedCategory === 'ELECTRONIC' ? (
             <div className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-[10px] font-bold text-gray-500 mb-1 uppercase">Serial Number</label>
-                  <input type="text" {...register('attributes.sn' as any)} className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg text-xs outline-none focus:ring-2 focus:ring-blue-500" />
-                </div>
-                <div>
-                  <label className="block text-[10px] font-bold text-gray-500 mb-1 uppercase">Brand</label>
-                  <input type="text" {...register('attributes.brand' as any)} className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg text-xs outline-none focus:ring-2 focus:ring-blue-500" />
-                </div>
+              <div>
+                <label className="block text-[10px] font-bold text-gray-500 mb-1 uppercase">Brand</label>
+                <input type="text" {...register('attributes.brand' as any)} className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg text-xs outline-none focus:ring-2 focus:ring-blue-500" />
               </div>
             </div>
           ) : selectedCategory === 'FURNITURE' ? (
@@ -290,20 +327,33 @@ export default function ProductForm({ onSuccess, onCancel }: ProductFormProps) {
             </div>
           ) : (
             <div className="space-y-4">
-               <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-[10px] font-bold text-gray-500 mb-1 uppercase">No. Mesin</label>
-                  <input type="text" {...register('attributes.engine_no' as any)} className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg text-xs outline-none focus:ring-2 focus:ring-purple-500" />
-                </div>
-                <div>
-                  <label className="block text-[10px] font-bold text-gray-500 mb-1 uppercase">No. Rangka</label>
-                  <input type="text" {...register('attributes.chassis_no' as any)} className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg text-xs outline-none focus:ring-2 focus:ring-purple-500" />
-                </div>
+               <div>
+                <label className="block text-[10px] font-bold text-gray-500 mb-1 uppercase">Warna</label>
+                <input type="text" {...register('attributes.color' as any)} className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg text-xs outline-none focus:ring-2 focus:ring-purple-500" />
               </div>
             </div>
           )}
         </div>
 
+        {/* Per-unit identifiers (serial / IMEI, engine & chassis number) */}
+        <div className="bg-gray-50/50 p-4 rounded-2xl border border-gray-100 space-y-3">
+          <label className="flex items-center gap-2 text-[10px] font-black text-gray-400 uppercase tracking-widest">
+            <input type="checkbox" {...register('track_units')} className="rounded" />
+            Catat stok per unit
+          </label>
+          {trackUnits && (
+            <div>
+              <textarea
+                {...register('unit_lines')}
+                rows={4}
+                placeholder={selectedCategory === 'VEHICLE' ? 'No. Mesin / No. Rangka (satu unit per baris)' : 'Nomor Seri / IMEI (satu unit per baris, IMEI opsional)'}
+                className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg text-xs font-mono outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-[10px] text-gray-400 mt-1">{unitCount} unit akan didaftarkan sebagai stok awal</p>
+            </div>
+          )}
+        </div>
+
         {/* Actions */}
         <div className="flex gap-3 pt-2">
           {onCancel && (
@@ -0,0 +1,133 @@
+// ProductUnitsModal: Physical units of a product, serial number lookup and warranty claims
+import { useEffect, useState } from 'react';
+import { X, Barcode, Search } from 'lucide-react';
+import {
+  fetchProductUnits,
+  searchProductUnits,
+  setUnitWarranty,
+  getErrorMessage,
+  type Product,
+  type ProductUnit,
+  type ProductUnitSearchResult,
+} from '../services/api';
+import { UNIT_STATUS_LABELS, formatUnit } from '../constants/productUnits';
+
+interface ProductUnitsModalProps {
+  product?: Product; // Without a product the modal only looks units up by number
+  onClose: () => void;
+}
+
+const STATUS_COLORS: Record<ProductUnit['status'], string> = {
+  IN_STOCK: 'bg-emerald-50 text-emerald-600',
+  SOLD: 'bg-gray-100 text-gray-500',
+  REPOSSESSED: 'bg-purple-50 text-purple-600',
+  WARRANTY: 'bg-amber-50 text-amber-600',
+  MISSING: 'bg-red-50 text-red-500',
+};
+
+export default function ProductUnitsModal({ product, onClose }: ProductUnitsModalProps) {
+  const [units, setUnits] = useState<Array<ProductUnit | ProductUnitSearchResult>>([]);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const loadUnits = async () => {
+      try {
+        setIsLoading(true);
+        if (query.trim().length >= 3) {
+          setUnits(await searchProductUnits(query.trim()));
+        } else {
+          setUnits(product ? await fetchProductUnits(product.id) : []);
+        }
+      } catch (err) {
+        alert(getErrorMessage(err, 'Gagal memuat unit'));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    const delayDebounceFn = setTimeout(loadUnits, 300);
+    return () => clearTimeout(delayDebounceFn);
+  }, [product, query, reloadKey]);
+
+  const handleWarranty = async (unit: ProductUnit) => {
+    const underWarranty = unit.status === 'SOLD';
+    if (!window.confirm(underWarranty ? `Catat klaim garansi untuk ${formatUnit(unit)}?` : `Klaim garansi ${formatUnit(unit)} selesai?`)) return;
+
+    try {
+      await setUnitWarranty(unit.id, underWarranty);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal mengubah status garansi'));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-gray-900/40 backdrop-blur-xs" onClick={onClose}></div>
+      <div className="relative bg-white rounded-3xl shadow-2xl p-8 w-full max-w-lg">
+        <button onClick={onClose} className="absolute top-4 right-4 p-2 hover:bg-gray-100 rounded-full transition-all text-gray-400">
+          <X className="w-5 h-5" />
+        </button>
+        <Barcode className="w-12 h-12 text-blue-500 mx-auto mb-4" />
+        <h3 className="text-xl font-black text-gray-800 mb-1 uppercase tracking-tighter text-center">
+          {product ? 'Daftar Unit' : 'Cek Nomor Seri'}
+        </h3>
+        {product && <p className="text-xs text-gray-500 text-center mb-6">{product.name} ({product.sku})</p>}
+
+        <div className="flex items-center gap-2 px-3 py-2 bg-gray-50 border border-gray-100 rounded-xl mb-4 mt-4">
+          <Search className="w-4 h-4 text-gray-300" />
+          <input
+            type="text"
+            autoFocus={!product}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Cari nomor seri / IMEI / mesin / rangka..."
+            className="flex-1 bg-transparent outline-none text-sm font-medium text-gray-700"
+          />
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto divide-y divide-gray-50">
+          {isLoading ? (
+            <p className="py-8 text-center text-sm text-gray-400">Memuat...</p>
+          ) : units.length === 0 ? (
+            <p className="py-8 text-center text-sm text-gray-400">
+              {product || query.trim().length >= 3 ? 'Tidak ada unit' : 'Ketik minimal 3 karakter'}
+            </p>
+          ) : units.map((unit) => (
+            <div key={unit.id} className="py-3 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-xs font-mono font-bold text-gray-800 break-all">{formatUnit(unit)}</p>
+                {'product' in unit && (
+                  <p className="text-[10px] text-gray-500">{unit.product.name} ({unit.product.sku})</p>
+                )}
+                {'sold_transaction' in unit && unit.sold_transaction && (
+                  <p className="text-[10px] text-gray-400">
+                    {unit.sold_transaction.sale_type === 'CASH'
+                      ? unit.sold_transaction.invoice_no
+                      : `Kontrak #${unit.sold_transaction.contract?.id ?? '-'}`}
+                    {' • '}{unit.sold_transaction.customer_name ?? 'Umum'}
+                    {' • '}{new Date(unit.sold_transaction.created_at).toLocaleDateString('id-ID')}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className={`px-2 py-0.5 rounded-full text-[9px] font-black uppercase ${STATUS_COLORS[unit.status]}`}>
+                  {UNIT_STATUS_LABELS[unit.status]}
+                </span>
+                {(unit.status === 'SOLD' || unit.status === 'WARRANTY') && (
+                  <button
+                    onClick={() => handleWarranty(unit)}
+                    className="px-2 py-1 bg-amber-50 text-amber-600 rounded-lg text-[10px] font-black hover:bg-amber-100 transition-all"
+                  >
+                    {unit.status === 'SOLD' ? 'GARANSI' : 'SELESAI'}
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
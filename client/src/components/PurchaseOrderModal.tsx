@@ -0,0 +1,172 @@
+// PurchaseOrderModal: Order goods from a supplier (stock only moves when they are received)
+import { useEffect, useState } from 'react';
+import { X, Truck, Trash2 } from 'lucide-react';
+import {
+  fetchProducts,
+  createPurchaseOrder,
+  getErrorMessage,
+  type Product,
+  type PurchaseOrder,
+  type Supplier,
+} from '../services/api';
+import { useOperator } from '../services/session';
+
+interface PurchaseOrderModalProps {
+  suppliers: Supplier[];
+  onClose: () => void;
+  onCreated: (order: PurchaseOrder) => void;
+}
+
+interface OrderLine {
+  product: Product;
+  quantity: number;
+  unitCost: number;
+}
+
+const formatRupiah = (value: string | number) => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+export default function PurchaseOrderModal({ suppliers, onClose, onCreated }: PurchaseOrderModalProps) {
+  const operator = useOperator();
+  const activeSuppliers = suppliers.filter((s) => s.is_active);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [supplierId, setSupplierId] = useState<number>(activeSuppliers[0]?.id ?? 0);
+  const [lines, setLines] = useState<OrderLine[]>([]);
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchProducts()
+      .then(setProducts)
+      .catch((err) => alert(getErrorMessage(err, 'Gagal memuat produk')));
+  }, []);
+
+  const handleAddLine = (productId: number) => {
+    const product = products.find((p) => p.id === productId);
+    if (!product || lines.some((line) => line.product.id === productId)) return;
+    // Last known harga modal as a starting point
+    setLines([...lines, { product, quantity: 1, unitCost: parseFloat(product.base_price) }]);
+  };
+
+  const updateLine = (productId: number, changes: Partial<OrderLine>) => {
+    setLines(lines.map((line) => (line.product.id === productId ? { ...line, ...changes } : line)));
+  };
+
+  const total = lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!supplierId || lines.length === 0) return;
+
+    try {
+      setIsSaving(true);
+      const order = await createPurchaseOrder({
+        supplierId,
+        items: lines.map((line) => ({ productId: line.product.id, quantity: line.quantity, unitCost: line.unitCost })),
+        ...(notes ? { notes } : {}),
+        cashier: operator,
+      });
+      onCreated(order);
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal membuat purchase order'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-gray-900/40 backdrop-blur-xs" onClick={onClose}></div>
+      <div className="relative bg-white rounded-3xl shadow-2xl p-8 w-full max-w-2xl">
+        <button onClick={onClose} className="absolute top-4 right-4 p-2 hover:bg-gray-100 rounded-full transition-all text-gray-400">
+          <X className="w-5 h-5" />
+        </button>
+        <Truck className="w-12 h-12 text-blue-500 mx-auto mb-4" />
+        <h3 className="text-xl font-black text-gray-800 mb-6 uppercase tracking-tighter text-center">Buat Purchase Order</h3>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <select
+            value={supplierId}
+            onChange={(e) => setSupplierId(parseInt(e.target.value))}
+            className="w-full px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-bold text-gray-700 outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {activeSuppliers.length === 0 && <option value={0}>Belum ada supplier aktif</option>}
+            {activeSuppliers.map((s) => (
+              <option key={s.id} value={s.id}>{s.name}</option>
+            ))}
+          </select>
+
+          <select
+            value=""
+            onChange={(e) => handleAddLine(parseInt(e.target.value))}
+            className="w-full px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-medium text-gray-700 outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">+ Tambah produk...</option>
+            {products.map((p) => (
+              <option key={p.id} value={p.id}>{p.sku} - {p.name}</option>
+            ))}
+          </select>
+
+          <div className="max-h-[40vh] overflow-y-auto divide-y divide-gray-50">
+            {lines.length === 0 ? (
+              <p className="py-6 text-center text-sm text-gray-400">Belum ada produk</p>
+            ) : lines.map((line) => (
+              <div key={line.product.id} className="py-2 flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-bold text-gray-800 truncate">{line.product.name}</p>
+                  <p className="text-[10px] font-mono text-gray-400">{line.product.sku}</p>
+                </div>
+                <input
+                  type="number"
+                  min="1"
+                  value={line.quantity}
+                  onChange={(e) => updateLine(line.product.id, { quantity: parseInt(e.target.value) || 1 })}
+                  className="w-16 px-2 py-1 bg-gray-50 border border-gray-100 rounded-lg text-sm text-center outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  value={line.unitCost}
+                  onChange={(e) => updateLine(line.product.id, { unitCost: parseFloat(e.target.value) || 0 })}
+                  className="w-32 px-2 py-1 bg-gray-50 border border-gray-100 rounded-lg text-sm text-right outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  type="button"
+                  onClick={() => setLines(lines.filter((l) => l.product.id !== line.product.id))}
+                  className="p-1.5 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Catatan (opsional)"
+            className="w-full px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-black text-gray-800">Total {formatRupiah(total)}</span>
+            <button
+              type="submit"
+              disabled={isSaving || !supplierId || lines.length === 0}
+              className="px-6 py-2.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-xl font-black text-xs transition-all"
+            >
+              {isSaving ? 'MENYIMPAN...' : 'BUAT PO'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
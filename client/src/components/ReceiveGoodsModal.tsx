@@ -0,0 +1,129 @@
+// ReceiveGoodsModal: Receive (part of) a purchase order into stock
+import { useState } from 'react';
+import { X, PackageCheck } from 'lucide-react';
+import {
+  receivePurchaseOrder,
+  getErrorMessage,
+  type PurchaseOrder,
+} from '../services/api';
+import { parseUnitLines } from '../constants/productUnits';
+import { useOperator } from '../services/session';
+
+interface ReceiveGoodsModalProps {
+  order: PurchaseOrder;
+  onClose: () => void;
+  onReceived: (order: PurchaseOrder) => void;
+}
+
+export default function ReceiveGoodsModal({ order, onClose, onReceived }: ReceiveGoodsModalProps) {
+  const operator = useOperator();
+  const openItems = order.items.filter((item) => item.received_qty < item.quantity);
+  // Per line: quantity arriving now, or one unit per line of text for per-unit products
+  const [quantities, setQuantities] = useState<Record<number, number>>(
+    Object.fromEntries(openItems.map((item) => [item.id, item.quantity - item.received_qty]))
+  );
+  const [unitLines, setUnitLines] = useState<Record<number, string>>({});
+  const [invoiceNo, setInvoiceNo] = useState(order.supplier_invoice_no ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const incoming = openItems
+    .map((item) => {
+      if (!item.product.track_units) {
+        return { itemId: item.id, quantity: quantities[item.id] ?? 0 };
+      }
+      const units = parseUnitLines(unitLines[item.id] ?? '', item.product.category);
+      return { itemId: item.id, quantity: units.length, units };
+    })
+    .filter((line) => line.quantity > 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (incoming.length === 0) return;
+
+    try {
+      setIsSaving(true);
+      const updated = await receivePurchaseOrder(order.id, {
+        items: incoming,
+        ...(invoiceNo ? { supplierInvoiceNo: invoiceNo } : {}),
+        cashier: operator,
+      });
+      onReceived(updated);
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal menerima barang'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-gray-900/40 backdrop-blur-xs" onClick={onClose}></div>
+      <div className="relative bg-white rounded-3xl shadow-2xl p-8 w-full max-w-xl">
+        <button onClick={onClose} className="absolute top-4 right-4 p-2 hover:bg-gray-100 rounded-full transition-all text-gray-400">
+          <X className="w-5 h-5" />
+        </button>
+        <PackageCheck className="w-12 h-12 text-emerald-500 mx-auto mb-4" />
+        <h3 className="text-xl font-black text-gray-800 mb-1 uppercase tracking-tighter text-center">Terima Barang</h3>
+        <p className="text-xs text-gray-500 text-center mb-6">{order.po_no} • {order.supplier.name}</p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <input
+            type="text"
+            value={invoiceNo}
+            onChange={(e) => setInvoiceNo(e.target.value)}
+            placeholder="No. faktur supplier (opsional)"
+            className="w-full px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          <div className="max-h-[50vh] overflow-y-auto divide-y divide-gray-50">
+            {openItems.map((item) => {
+              const remaining = item.quantity - item.received_qty;
+              return (
+                <div key={item.id} className="py-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-bold text-gray-800 truncate">{item.product.name}</p>
+                      <p className="text-[10px] text-gray-400">Diterima {item.received_qty} dari {item.quantity}</p>
+                    </div>
+                    {!item.product.track_units && (
+                      <input
+                        type="number"
+                        min="0"
+                        max={remaining}
+                        value={quantities[item.id] ?? 0}
+                        onChange={(e) => setQuantities({ ...quantities, [item.id]: parseInt(e.target.value) || 0 })}
+                        className="w-20 px-2 py-1 bg-gray-50 border border-gray-100 rounded-lg text-sm text-center outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    )}
+                  </div>
+                  {item.product.track_units && (
+                    <>
+                      <textarea
+                        rows={3}
+                        value={unitLines[item.id] ?? ''}
+                        onChange={(e) => setUnitLines({ ...unitLines, [item.id]: e.target.value })}
+                        placeholder={item.product.category === 'VEHICLE' ? 'No. Mesin / No. Rangka (satu unit per baris)' : 'No. Seri / IMEI (satu unit per baris)'}
+                        className="mt-2 w-full px-3 py-2 bg-gray-50 border border-gray-100 rounded-xl text-xs font-mono outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <p className="text-[10px] text-gray-400">
+                        {parseUnitLines(unitLines[item.id] ?? '', item.product.category).length} dari sisa {remaining} unit
+                      </p>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSaving || incoming.length === 0}
+            className="w-full py-3 bg-emerald-600 hover:bg-emerald-700 disabled:bg-gray-300 text-white rounded-xl font-black text-xs transition-all"
+          >
+            {isSaving ? 'MENYIMPAN...' : 'TERIMA KE STOK'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+// RepossessionModal: Record a repossessed unit (tarik barang) and its resale price
+import { useState } from 'react';
+import { X, PackageOpen } from 'lucide-react';
+import {
+  repossessContract,
+  getErrorMessage,
+  type ItemCondition,
+  type RepossessionLine,
+  type RepossessionResult,
+} from '../services/api';
+import { ITEM_CONDITION_LABELS } from '../constants/itemConditions';
+import { formatUnit } from '../constants/productUnits';
+import { useOperator } from '../services/session';
+
+interface RepossessionModalProps {
+  contractId: number;
+  customerName: string | null;
+  productName: string;
+  lines: RepossessionLine[]; // Cart lines; empty for sales from before multi-item carts
+  onClose: () => void;
+  onRepossessed: (result: RepossessionResult) => void;
+}
+
+const inputClass =
+  'w-full px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-bold text-gray-700 outline-none focus:ring-2 focus:ring-purple-500';
+
+// Local YYYY-MM-DD (toISOString would give yesterday before 07:00 WIB)
+const today = () => new Date().toLocaleDateString('en-CA');
+
+export default function RepossessionModal({
+  contractId,
+  customerName,
+  productName,
+  lines,
+  onClose,
+  onRepossessed,
+}: RepossessionModalProps) {
+  const operator = useOperator();
+  const [lineId, setLineId] = useState<number | null>(lines[0]?.id ?? null);
+  const [quantity, setQuantity] = useState('1');
+  const [unitId, setUnitId] = useState<number | null>(lines[0]?.units?.[0]?.unitId ?? null);
+  const [repossessedAt, setRepossessedAt] = useState(today());
+  const [condition, setCondition] = useState<ItemCondition>('GOOD');
+  const [conditionNotes, setConditionNotes] = useState('');
+  const [assessedValue, setAssessedValue] = useState('');
+  const [creditedAmount, setCreditedAmount] = useState('');
+  const [resalePrice, setResalePrice] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The credited amount follows the assessment until the cashier changes it
+  const handleAssessedChange = (value: string) => {
+    if (creditedAmount === '' || creditedAmount === assessedValue) setCreditedAmount(value);
+    setAssessedValue(value);
+  };
+
+  const line = lines.find((l) => l.id === lineId) ?? null;
+  const lineUnits = line?.units ?? [];
+
+  const handleLineChange = (id: number) => {
+    setLineId(id);
+    setQuantity('1');
+    setUnitId(lines.find((l) => l.id === id)?.units?.[0]?.unitId ?? null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const result = await repossessContract(contractId, {
+        repossessedAt,
+        condition,
+        ...(conditionNotes.trim() ? { conditionNotes: conditionNotes.trim() } : {}),
+        assessedValue: parseFloat(assessedValue),
+        creditedAmount: parseFloat(creditedAmount || '0'),
+        resalePrice: parseFloat(resalePrice),
+        ...(line ? { transactionItemId: line.id } : {}),
+        quantity: parseInt(quantity) || 1,
+        ...(unitId !== null ? { unitId } : {}),
+        cashier: operator,
+      });
+      if (result.success) onRepossessed(result);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Gagal mencatat tarik barang'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-gray-900/40 backdrop-blur-xs" onClick={onClose}></div>
+      <div className="relative bg-white rounded-3xl shadow-2xl p-8 w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <button onClick={onClose} className="absolute top-4 right-4 p-2 hover:bg-gray-100 rounded-full transition-all text-gray-400">
+          <X className="w-5 h-5" />
+        </button>
+        <PackageOpen className="w-12 h-12 text-purple-500 mx-auto mb-4" />
+        <h3 className="text-xl font-black text-gray-800 mb-1 uppercase tracking-tighter text-center">
+          Tarik Barang
+        </h3>
+        <p className="text-xs text-gray-500 text-center mb-6">
+          {customerName} • {productName}
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            {lines.length > 0 && (
+              <div className="col-span-2">
+                <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Barang yang Ditarik</label>
+                <select
+                  value={lineId ?? ''}
+                  onChange={(e) => handleLineChange(parseInt(e.target.value))}
+                  className={inputClass}
+                >
+                  {lines.map((l) => (
+                    <option key={l.id} value={l.id}>{l.productName} ({l.quantity}x)</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {lineUnits.length > 0 ? (
+              <div className="col-span-2">
+                <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Unit</label>
+                <select
+                  value={unitId ?? ''}
+                  onChange={(e) => setUnitId(parseInt(e.target.value))}
+                  className={`${inputClass} font-mono`}
+                >
+                  {lineUnits.map((unit) => (
+                    <option key={unit.unitId} value={unit.unitId}>{formatUnit(unit)}</option>
+                  ))}
+                </select>
+              </div>
+            ) : line && line.quantity > 1 && (
+              <div className="col-span-2">
+                <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Jumlah Ditarik (maks. {line.quantity})</label>
+                <input
+                  type="number"
+                  min="1"
+                  max={line.quantity}
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Tanggal Tarik</label>
+              <input
+                type="date"
+                value={repossessedAt}
+                onChange={(e) => setRepossessedAt(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Kondisi</label>
+              <select
+                value={condition}
+                onChange={(e) => setCondition(e.target.value as ItemCondition)}
+                className={inputClass}
+              >
+                {(Object.keys(ITEM_CONDITION_LABELS) as ItemCondition[]).map((c) => (
+                  <option key={c} value={c}>{ITEM_CONDITION_LABELS[c]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Catatan Kondisi</label>
+              <input
+                type="text"
+                value={conditionNotes}
+                onChange={(e) => setConditionNotes(e.target.value)}
+                placeholder="Remote hilang, body lecet"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Nilai Taksiran</label>
+              <input
+                type="number"
+                min="0"
+                value={assessedValue}
+                onChange={(e) => handleAssessedChange(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Dikreditkan ke Hutang</label>
+              <input
+                type="number"
+                min="0"
+                value={creditedAmount}
+                onChange={(e) => setCreditedAmount(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Harga Jual Barang Bekas / pcs</label>
+              <input
+                type="number"
+                min="0"
+                value={resalePrice}
+                onChange={(e) => setResalePrice(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 text-red-600 text-xs font-bold rounded-xl">{error}</div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 py-3 text-sm font-bold text-gray-400 hover:bg-gray-50 rounded-xl transition-all"
+            >
+              BATAL
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting || !assessedValue || !resalePrice}
+              className="flex-1 py-3 text-sm font-black bg-purple-600 hover:bg-purple-700 disabled:bg-gray-300 text-white rounded-xl transition-all shadow-sm shadow-purple-100"
+            >
+              {isSubmitting ? '...' : 'SIMPAN'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+// RestructureModal: Reschedule the outstanding balance of a contract (restrukturisasi)
+import { useState } from 'react';
+import { X, RefreshCcw } from 'lucide-react';
+import {
+  previewRestructure,
+  restructureContract,
+  getErrorMessage,
+  type Contract,
+  type RestructurePreview,
+  type RestructureResult,
+  type RestructureTerms,
+  type RestructureType,
+} from '../services/api';
+import { RESTRUCTURE_TYPE_LABELS } from '../constants/restructureTypes';
+import { useOperator } from '../services/session';
+
+interface RestructureModalProps {
+  contract: Contract;
+  onClose: () => void;
+  onRestructured: (result: RestructureResult['data']) => void;
+}
+
+const formatRupiah = (value: string | number) => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+const inputClass =
+  'w-full px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-bold text-gray-700 outline-none focus:ring-2 focus:ring-orange-500';
+
+export default function RestructureModal({ contract, onClose, onRestructured }: RestructureModalProps) {
+  const operator = useOperator();
+  const openCount = contract.installments.filter((i) => i.status !== 'PAID').length;
+
+  const [type, setType] = useState<RestructureType>('EXTEND_TENOR');
+  const [tenorMonths, setTenorMonths] = useState(openCount + 6);
+  const [deferMonths, setDeferMonths] = useState(0);
+  const [interestRate, setInterestRate] = useState('');
+  const [reason, setReason] = useState('');
+  const [approvedBy, setApprovedBy] = useState('');
+  const [preview, setPreview] = useState<RestructurePreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const terms = (): RestructureTerms => ({
+    type,
+    tenorMonths,
+    deferMonths,
+    ...(interestRate !== '' ? { interestRate: parseFloat(interestRate) } : {}),
+  });
+
+  // Any change of terms invalidates the shown preview
+  const resetPreview = () => {
+    setPreview(null);
+    setError(null);
+  };
+
+  const handlePreview = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setPreview(await previewRestructure(contract.id, terms()));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Gagal menghitung jadwal baru'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!preview) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const result = await restructureContract(contract.id, {
+        ...terms(),
+        reason: reason.trim(),
+        approvedBy: approvedBy.trim(),
+        cashier: operator,
+      });
+      if (result.success) onRestructured(result.data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Gagal memproses restrukturisasi'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-gray-900/40 backdrop-blur-xs" onClick={onClose}></div>
+      <div className="relative bg-white rounded-3xl shadow-2xl p-8 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <button onClick={onClose} className="absolute top-4 right-4 p-2 hover:bg-gray-100 rounded-full transition-all text-gray-400">
+          <X className="w-5 h-5" />
+        </button>
+        <RefreshCcw className="w-12 h-12 text-orange-500 mx-auto mb-4" />
+        <h3 className="text-xl font-black text-gray-800 mb-1 uppercase tracking-tighter text-center">
+          Restrukturisasi Kredit
+        </h3>
+        <p className="text-xs text-gray-500 text-center mb-6">
+          {contract.transaction.customer_name} • sisa {openCount} angsuran
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="col-span-2">
+              <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Jenis Keringanan</label>
+              <select
+                value={type}
+                onChange={(e) => { setType(e.target.value as RestructureType); resetPreview(); }}
+                className={inputClass}
+              >
+                {(Object.keys(RESTRUCTURE_TYPE_LABELS) as RestructureType[]).map((t) => (
+                  <option key={t} value={t}>{RESTRUCTURE_TYPE_LABELS[t]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Tenor Baru (Bulan)</label>
+              <input
+                type="number"
+                min="1"
+                value={tenorMonths}
+                onChange={(e) => { setTenorMonths(parseInt(e.target.value, 10)); resetPreview(); }}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Tunda (Bulan)</label>
+              <input
+                type="number"
+                min="0"
+                value={deferMonths}
+                onChange={(e) => { setDeferMonths(parseInt(e.target.value, 10)); resetPreview(); }}
+                className={inputClass}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">
+                Bunga Baru (% / Bulan, kosongkan = sesuai skema)
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                value={interestRate}
+                onChange={(e) => { setInterestRate(e.target.value); resetPreview(); }}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <button
+            type="button"
+            onClick={handlePreview}
+            disabled={isLoading}
+            className="w-full py-2.5 bg-gray-800 hover:bg-gray-900 disabled:bg-gray-300 text-white rounded-xl font-black text-xs transition-all"
+          >
+            {isLoading && !preview ? 'MENGHITUNG...' : 'HITUNG JADWAL BARU'}
+          </button>
+
+          {preview && (
+            <div className="text-xs space-y-1.5 p-4 bg-orange-50/50 rounded-2xl border border-orange-100">
+              <div className="flex justify-between text-gray-500">
+                <span>Sisa pokok</span>
+                <span className="font-bold text-gray-700">{formatRupiah(preview.outstandingPrincipal)}</span>
+              </div>
+              {parseFloat(preview.capitalizedInterest) > 0 && (
+                <div className="flex justify-between text-gray-500">
+                  <span>Bunga tertunggak</span>
+                  <span className="font-bold text-gray-700">+ {formatRupiah(preview.capitalizedInterest)}</span>
+                </div>
+              )}
+              {parseFloat(preview.capitalizedPenalty) > 0 && (
+                <div className="flex justify-between text-amber-600">
+                  <span>Denda tertunggak</span>
+                  <span className="font-bold">+ {formatRupiah(preview.capitalizedPenalty)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-gray-500">
+                <span>Pokok baru</span>
+                <span className="font-bold text-gray-800">{formatRupiah(preview.principal)}</span>
+              </div>
+              <div className="flex justify-between text-gray-500">
+                <span>Bunga {parseFloat(preview.interestRate)}% x {preview.tenorMonths} bln</span>
+                <span className="font-bold text-orange-600">{formatRupiah(preview.interestAmount)}</span>
+              </div>
+              <div className="flex justify-between pt-2 mt-2 border-t border-orange-100 text-sm">
+                <span className="font-bold text-gray-800">Cicilan Baru</span>
+                <span className="font-black text-orange-600">
+                  {formatRupiah(preview.monthlyInstallment)}
+                  <span className="text-[10px] text-gray-400 font-bold"> (dulu {formatRupiah(preview.previousMonthlyInstallment)})</span>
+                </span>
+              </div>
+              {parseFloat(preview.waivedInterest) > 0 && (
+                <p className="text-[10px] text-emerald-600">
+                  Bunga jadwal lama {formatRupiah(preview.waivedInterest)} yang belum jatuh tempo dihapus
+                </p>
+              )}
+              {preview.deferMonths > 0 && (
+                <p className="text-[10px] text-gray-400">Pembayaran ditunda {preview.deferMonths} bulan</p>
+              )}
+              <div className="max-h-40 overflow-y-auto mt-2 border-t border-orange-100 pt-2">
+                <table className="w-full text-[10px]">
+                  <tbody>
+                    {preview.schedule.map((line) => (
+                      <tr key={line.installmentNth} className="text-gray-500">
+                        <td className="py-0.5 font-bold">#{line.installmentNth}</td>
+                        <td className="py-0.5">{new Date(line.dueDate).toLocaleDateString('id-ID')}</td>
+                        <td className="py-0.5 text-right font-bold text-gray-700">{formatRupiah(line.amountDue)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Alasan</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              placeholder="Customer kehilangan pekerjaan"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Disetujui Oleh</label>
+            <input
+              type="text"
+              value={approvedBy}
+              onChange={(e) => setApprovedBy(e.target.value)}
+              placeholder="Nama kepala toko"
+              className={inputClass}
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 text-red-600 text-xs font-bold rounded-xl">{error}</div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 py-3 text-sm font-bold text-gray-400 hover:bg-gray-50 rounded-xl transition-all"
+            >
+              BATAL
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading || !preview || reason.trim().length < 5 || !approvedBy.trim()}
+              className="flex-1 py-3 text-sm font-black bg-orange-600 hover:bg-orange-700 disabled:bg-gray-300 text-white rounded-xl transition-all shadow-sm shadow-orange-100"
+            >
+              {isLoading && preview ? '...' : 'PROSES'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
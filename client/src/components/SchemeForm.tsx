@@ -0,0 +1,342 @@
+// SchemeForm: Create / edit form for a loan scheme (skema kredit)
+import { useState } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  createScheme,
+  updateScheme,
+  getErrorMessage,
+  type CustomerType,
+  type InterestMethod,
+  type LoanScheme,
+} from '../services/api';
+import { INTEREST_METHOD_LABELS } from '../constants/interestMethods';
+import { CUSTOMER_TYPE_LABELS } from '../constants/customerTypes';
+import { PRODUCT_TYPES, type Category } from '../constants/productTypes';
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+const schemeFormSchema = z.object({
+  name: z.string().trim().min(3, 'Nama skema minimal 3 karakter'),
+  interest_method: z.enum(['FLAT', 'ANNUITY', 'SYARIAH']),
+  interest_rate: z.number().min(0, 'Bunga tidak boleh negatif').max(10, 'Bunga maksimal 10% per bulan'),
+  min_dp_percent: z.number().min(0, 'DP minimal tidak boleh negatif').max(90, 'DP minimal maksimal 90%'),
+  // Typed as "3, 6, 9, 12" and converted on submit
+  tenor_options: z.string().regex(/^\s*\d+(\s*,\s*\d+)*\s*$/, 'Isi tenor dipisah koma, contoh: 3, 6, 12'),
+  penalty_fee_daily: z.number().min(0, 'Denda harian tidak boleh negatif'),
+  penalty_grace_days: z.number().int('Masa tenggang harus bilangan bulat').min(0, 'Masa tenggang tidak boleh negatif').max(30, 'Masa tenggang maksimal 30 hari'),
+  early_payoff_discount_percent: z.number().min(0, 'Diskon tidak boleh negatif').max(100, 'Diskon maksimal 100%'),
+  // Eligibility: nothing checked / empty = no restriction
+  eligible_categories: z.array(z.enum(['ELECTRONIC', 'FURNITURE', 'VEHICLE'])),
+  eligible_sub_categories: z.string(),
+  min_price: z.number().min(0, 'Harga minimal tidak boleh negatif').nullable(),
+  max_price: z.number().positive('Harga maksimal harus lebih dari 0').nullable(),
+  valid_from: z.string(),
+  valid_until: z.string(),
+  customer_types: z.array(z.enum(['REGULAR', 'EMPLOYEE', 'CIVIL_SERVANT', 'ENTREPRENEUR'])),
+  charges: z.array(z.object({
+    name: z.string().trim().min(1, 'Nama biaya wajib diisi'),
+    type: z.enum(['FIXED', 'PERCENT']),
+    value: z.number().min(0, 'Nilai biaya tidak boleh negatif'),
+    collection: z.enum(['UPFRONT', 'FINANCED']),
+  })),
+});
+
+type SchemeFormData = z.infer<typeof schemeFormSchema>;
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+interface SchemeFormProps {
+  scheme?: LoanScheme; // Edit mode when provided
+  onSuccess?: () => void;
+  onCancel?: () => void;
+}
+
+// Empty number inputs mean "no limit"
+const optionalNumber = (value: string) => (value === '' ? null : Number(value));
+
+const inputClass =
+  'w-full px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all outline-none text-sm font-medium';
+
+export default function SchemeForm({ scheme, onSuccess, onCancel }: SchemeFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [serverError, setServerError] = useState<string | null>(null);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<SchemeFormData>({
+    resolver: zodResolver(schemeFormSchema),
+    defaultValues: scheme
+      ? {
+          name: scheme.name,
+          interest_method: scheme.interest_method,
+          interest_rate: parseFloat(scheme.interest_rate),
+          min_dp_percent: parseFloat(scheme.min_dp_percent),
+          tenor_options: scheme.tenor_options.join(', '),
+          penalty_fee_daily: parseFloat(scheme.penalty_fee_daily),
+          penalty_grace_days: scheme.penalty_grace_days,
+          early_payoff_discount_percent: parseFloat(scheme.early_payoff_discount_percent),
+          eligible_categories: scheme.eligible_categories as Category[],
+          eligible_sub_categories: scheme.eligible_sub_categories.join(', '),
+          min_price: scheme.min_price !== null ? parseFloat(scheme.min_price) : null,
+          max_price: scheme.max_price !== null ? parseFloat(scheme.max_price) : null,
+          valid_from: scheme.valid_from?.slice(0, 10) ?? '',
+          valid_until: scheme.valid_until?.slice(0, 10) ?? '',
+          customer_types: scheme.customer_types,
+          charges: scheme.charges,
+        }
+      : {
+          name: '',
+          interest_method: 'FLAT',
+          interest_rate: 2.5,
+          min_dp_percent: 10,
+          tenor_options: '3, 6, 9, 12',
+          penalty_fee_daily: 5000,
+          penalty_grace_days: 3,
+          early_payoff_discount_percent: 0,
+          eligible_categories: [],
+          eligible_sub_categories: '',
+          min_price: null,
+          max_price: null,
+          valid_from: '',
+          valid_until: '',
+          customer_types: [],
+          charges: [],
+        },
+  });
+
+  const { fields: chargeFields, append: appendCharge, remove: removeCharge } = useFieldArray({
+    control,
+    name: 'charges',
+  });
+
+  const onSubmit = async (data: SchemeFormData) => {
+    const payload = {
+      ...data,
+      tenor_options: data.tenor_options.split(',').map((t) => parseInt(t.trim(), 10)),
+      eligible_sub_categories: data.eligible_sub_categories.split(',').map((t) => t.trim()).filter(Boolean),
+      valid_from: data.valid_from || null,
+      valid_until: data.valid_until || null,
+    };
+
+    try {
+      setIsSubmitting(true);
+      setServerError(null);
+      if (scheme) {
+        await updateScheme(scheme.id, payload);
+      } else {
+        await createScheme(payload);
+      }
+      if (onSuccess) onSuccess();
+    } catch (err) {
+      setServerError(getErrorMessage(err, 'Gagal menyimpan skema'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      {serverError && (
+        <div className="p-3 bg-red-50 text-red-600 text-sm rounded-lg border border-red-100">
+          {serverError}
+        </div>
+      )}
+
+      {scheme && (
+        <p className="p-3 bg-blue-50 text-blue-700 text-xs rounded-lg">
+          Perubahan hanya berlaku untuk transaksi baru. Kontrak yang sudah berjalan tetap memakai aturan lama.
+        </p>
+      )}
+
+      <div>
+        <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">Nama Skema</label>
+        <input type="text" {...register('name')} placeholder="Kredit Promo Lebaran" className={inputClass} />
+        {errors.name && <p className="text-red-500 text-[10px] mt-1 font-bold">{errors.name.message}</p>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">Metode Bunga</label>
+          <select {...register('interest_method')} className={inputClass}>
+            {(Object.keys(INTEREST_METHOD_LABELS) as InterestMethod[]).map((m) => (
+              <option key={m} value={m}>{INTEREST_METHOD_LABELS[m]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">Bunga (% / Bulan)</label>
+          <input type="number" step="0.01" {...register('interest_rate', { valueAsNumber: true })} className={inputClass} />
+          {errors.interest_rate && <p className="text-red-500 text-[10px] mt-1 font-bold">{errors.interest_rate.message}</p>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">DP Minimal (%)</label>
+          <input type="number" step="0.01" {...register('min_dp_percent', { valueAsNumber: true })} className={inputClass} />
+          {errors.min_dp_percent && <p className="text-red-500 text-[10px] mt-1 font-bold">{errors.min_dp_percent.message}</p>}
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">Pilihan Tenor (Bulan)</label>
+          <input type="text" {...register('tenor_options')} placeholder="3, 6, 9, 12" className={inputClass} />
+          {errors.tenor_options && <p className="text-red-500 text-[10px] mt-1 font-bold">{errors.tenor_options.message}</p>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">Denda Harian (Rp)</label>
+          <input type="number" {...register('penalty_fee_daily', { valueAsNumber: true })} className={inputClass} />
+          {errors.penalty_fee_daily && <p className="text-red-500 text-[10px] mt-1 font-bold">{errors.penalty_fee_daily.message}</p>}
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">Masa Tenggang Denda (Hari)</label>
+          <input type="number" {...register('penalty_grace_days', { valueAsNumber: true })} className={inputClass} />
+          {errors.penalty_grace_days && <p className="text-red-500 text-[10px] mt-1 font-bold">{errors.penalty_grace_days.message}</p>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">Diskon Pelunasan (%)</label>
+          <input type="number" step="0.01" {...register('early_payoff_discount_percent', { valueAsNumber: true })} className={inputClass} />
+          {errors.early_payoff_discount_percent && (
+            <p className="text-red-500 text-[10px] mt-1 font-bold">{errors.early_payoff_discount_percent.message}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Eligibility rules */}
+      <div className="pt-2 border-t border-gray-100 space-y-4">
+        <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">
+          Syarat Skema (kosongkan jika berlaku untuk semua)
+        </p>
+
+        <div>
+          <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">Kategori Produk</label>
+          <div className="flex gap-4">
+            {(Object.keys(PRODUCT_TYPES) as Category[]).map((cat) => (
+              <label key={cat} className="flex items-center gap-1.5 text-xs font-bold text-gray-600">
+                <input type="checkbox" value={cat} {...register('eligible_categories')} />
+                {cat}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">Tipe Produk</label>
+          <input type="text" {...register('eligible_sub_categories')} placeholder="Kulkas, TV" className={inputClass} />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">Harga Min (Rp)</label>
+            <input type="number" {...register('min_price', { setValueAs: optionalNumber })} className={inputClass} />
+            {errors.min_price && <p className="text-red-500 text-[10px] mt-1 font-bold">{errors.min_price.message}</p>}
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">Harga Maks (Rp)</label>
+            <input type="number" {...register('max_price', { setValueAs: optionalNumber })} className={inputClass} />
+            {errors.max_price && <p className="text-red-500 text-[10px] mt-1 font-bold">{errors.max_price.message}</p>}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">Berlaku Dari</label>
+            <input type="date" {...register('valid_from')} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">Berlaku Sampai</label>
+            <input type="date" {...register('valid_until')} className={inputClass} />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-xs font-bold text-gray-400 mb-1 uppercase">Jenis Customer</label>
+          <div className="flex flex-wrap gap-4">
+            {(Object.keys(CUSTOMER_TYPE_LABELS) as CustomerType[]).map((type) => (
+              <label key={type} className="flex items-center gap-1.5 text-xs font-bold text-gray-600">
+                <input type="checkbox" value={type} {...register('customer_types')} />
+                {CUSTOMER_TYPE_LABELS[type]}
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* One-off charges */}
+      <div className="pt-2 border-t border-gray-100 space-y-3">
+        <div className="flex justify-between items-center">
+          <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Biaya Tambahan</p>
+          <button
+            type="button"
+            onClick={() => appendCharge({ name: '', type: 'FIXED', value: 0, collection: 'UPFRONT' })}
+            className="text-xs font-bold text-blue-600 hover:text-blue-700"
+          >
+            + TAMBAH BIAYA
+          </button>
+        </div>
+
+        {chargeFields.map((field, index) => (
+          <div key={field.id} className="grid grid-cols-12 gap-2 items-start">
+            <div className="col-span-4">
+              <input type="text" {...register(`charges.${index}.name`)} placeholder="Biaya Admin" className={inputClass} />
+              {errors.charges?.[index]?.name && (
+                <p className="text-red-500 text-[10px] mt-1 font-bold">{errors.charges[index].name.message}</p>
+              )}
+            </div>
+            <select {...register(`charges.${index}.type`)} className={`${inputClass} col-span-2 px-2`}>
+              <option value="FIXED">Rp</option>
+              <option value="PERCENT">%</option>
+            </select>
+            <div className="col-span-2">
+              <input type="number" step="0.01" {...register(`charges.${index}.value`, { valueAsNumber: true })} className={`${inputClass} px-2`} />
+              {errors.charges?.[index]?.value && (
+                <p className="text-red-500 text-[10px] mt-1 font-bold">{errors.charges[index].value.message}</p>
+              )}
+            </div>
+            <select {...register(`charges.${index}.collection`)} className={`${inputClass} col-span-3 px-2`}>
+              <option value="UPFRONT">Bayar di muka</option>
+              <option value="FINANCED">Masuk pokok</option>
+            </select>
+            <button
+              type="button"
+              onClick={() => removeCharge(index)}
+              className="col-span-1 py-2 text-gray-400 hover:text-red-500 font-bold"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-3 pt-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 py-3 text-sm font-bold text-gray-400 hover:bg-gray-50 rounded-xl transition-all"
+        >
+          BATAL
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="flex-1 py-3 text-sm font-black bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-xl transition-all shadow-sm shadow-blue-100"
+        >
+          {isSubmitting ? 'MENYIMPAN...' : 'SIMPAN SKEMA'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,154 @@
+// StockMovementsModal: Stock ledger (kartu stok) of a product and manual stock corrections
+import { useEffect, useState } from 'react';
+import { X, History, AlertTriangle } from 'lucide-react';
+import {
+  fetchStockMovements,
+  adjustStock,
+  getErrorMessage,
+  type Product,
+  type StockHistory,
+  type StockMovementType,
+} from '../services/api';
+import { useOperator } from '../services/session';
+
+interface StockMovementsModalProps {
+  product: Product;
+  onClose: () => void;
+  onAdjusted: () => void; // Stock changed: reload the product list
+}
+
+const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  OPENING: 'Stok Awal',
+  RESTOCK: 'Restock',
+  SALE: 'Penjualan',
+  VOID_RETURN: 'Batal Transaksi',
+  REPOSSESSION: 'Tarik Barang',
+  ADJUSTMENT: 'Koreksi',
+  STOCKTAKE: 'Stock Opname',
+};
+
+const REFERENCE_LABELS: Record<string, string> = {
+  TRANSACTION: 'Transaksi',
+  REPOSSESSION: 'Tarikan',
+  STOCKTAKE: 'Opname',
+  PURCHASE_ORDER: 'PO',
+};
+
+const formatRupiah = (value: string | number) => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+export default function StockMovementsModal({ product, onClose, onAdjusted }: StockMovementsModalProps) {
+  const operator = useOperator();
+  const [history, setHistory] = useState<StockHistory | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    fetchStockMovements(product.id)
+      .then(setHistory)
+      .catch((err) => alert(getErrorMessage(err, 'Gagal memuat kartu stok')));
+  }, [product.id, reloadKey]);
+
+  const handleAdjust = async () => {
+    const qty = window.prompt('Jumlah koreksi (contoh: -1 untuk barang rusak/hilang, 2 untuk barang ditemukan)');
+    if (qty === null) return;
+    const quantity = parseInt(qty);
+    if (isNaN(quantity) || quantity === 0) {
+      alert('Jumlah koreksi harus angka selain 0');
+      return;
+    }
+    const reason = window.prompt('Alasan koreksi');
+    if (reason === null) return;
+
+    try {
+      await adjustStock(product.id, { quantity, reason, cashier: operator });
+      setReloadKey((key) => key + 1);
+      onAdjusted();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal mencatat koreksi stok'));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-gray-900/40 backdrop-blur-xs" onClick={onClose}></div>
+      <div className="relative bg-white rounded-3xl shadow-2xl p-8 w-full max-w-3xl">
+        <button onClick={onClose} className="absolute top-4 right-4 p-2 hover:bg-gray-100 rounded-full transition-all text-gray-400">
+          <X className="w-5 h-5" />
+        </button>
+        <History className="w-12 h-12 text-blue-500 mx-auto mb-4" />
+        <h3 className="text-xl font-black text-gray-800 mb-1 uppercase tracking-tighter text-center">Kartu Stok</h3>
+        <p className="text-xs text-gray-500 text-center mb-6">{product.name} ({product.sku})</p>
+
+        {!history ? (
+          <p className="py-8 text-center text-sm text-gray-400">Memuat...</p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-3 mb-4">
+              <div className="text-sm">
+                <span className="font-bold text-gray-700">Stok {history.product.stock_qty}</span>
+                <span className="text-gray-400"> • Kartu stok {history.ledgerQty}</span>
+                {!history.inSync && (
+                  <span className="ml-2 inline-flex items-center gap-1 text-[10px] font-black text-red-500 uppercase">
+                    <AlertTriangle className="w-3 h-3" /> Selisih {history.product.stock_qty - history.ledgerQty}
+                  </span>
+                )}
+              </div>
+              {!history.product.track_units && (
+                <button
+                  onClick={handleAdjust}
+                  className="px-3 py-1.5 bg-amber-50 text-amber-600 rounded-lg text-xs font-bold hover:bg-amber-100 transition-all"
+                >
+                  KOREKSI STOK
+                </button>
+              )}
+            </div>
+
+            <div className="max-h-[50vh] overflow-y-auto">
+              {history.movements.length === 0 ? (
+                <p className="py-8 text-center text-sm text-gray-400">Belum ada mutasi stok</p>
+              ) : (
+                <table className="w-full text-left text-xs">
+                  <thead>
+                    <tr className="text-[10px] font-bold text-gray-400 uppercase tracking-widest border-b border-gray-100">
+                      <th className="py-2">Tanggal</th>
+                      <th className="py-2">Jenis</th>
+                      <th className="py-2 text-right">Jumlah</th>
+                      <th className="py-2 text-right">Saldo</th>
+                      <th className="py-2 text-right">HPP</th>
+                      <th className="py-2 pl-4">Referensi</th>
+                      <th className="py-2">Oleh</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-50">
+                    {history.movements.map((m) => (
+                      <tr key={m.id}>
+                        <td className="py-2 text-gray-500">{new Date(m.created_at).toLocaleString('id-ID')}</td>
+                        <td className="py-2 font-bold text-gray-700">{MOVEMENT_LABELS[m.type]}</td>
+                        <td className={`py-2 text-right font-black ${m.quantity > 0 ? 'text-emerald-600' : 'text-red-500'}`}>
+                          {m.quantity > 0 ? `+${m.quantity}` : m.quantity}
+                        </td>
+                        <td className="py-2 text-right font-bold text-gray-700">{m.balance_after}</td>
+                        <td className="py-2 text-right text-gray-500">{m.unit_cost !== null ? formatRupiah(m.unit_cost) : '-'}</td>
+                        <td className="py-2 pl-4 text-gray-500">
+                          {m.reference_type && `${REFERENCE_LABELS[m.reference_type] ?? m.reference_type} #${m.reference_id}`}
+                          {m.reason && <p className="text-[10px] text-gray-400">{m.reason}</p>}
+                        </td>
+                        <td className="py-2 text-gray-500">{m.created_by}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
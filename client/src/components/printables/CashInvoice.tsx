@@ -0,0 +1,121 @@
+import React from 'react';
+import { type CashSale } from '../../services/api';
+import { formatUnit } from '../../constants/productUnits';
+
+interface CashInvoiceProps {
+  sale: CashSale;
+}
+
+const METHOD_LABELS: Record<CashSale['method'], string> = {
+  CASH: 'Tunai',
+  TRANSFER: 'Transfer Bank',
+  QRIS: 'QRIS',
+};
+
+const formatRupiah = (value: string | number) => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+export const CashInvoice = React.forwardRef<HTMLDivElement, CashInvoiceProps>(({ sale }, ref) => {
+  return (
+    <div ref={ref} className="p-8 bg-white text-black font-serif w-[148mm] min-h-[210mm] border border-gray-100">
+      <div className="text-center mb-8">
+        <h1 className="text-2xl font-bold uppercase">Toko Elektronik Amali</h1>
+        <p className="text-sm">Jl. Raya Amali No. 123, Kota Amali</p>
+        <p className="text-sm">Telp: (021) 12345678 | WA: 0812-3456-7890</p>
+        <div className="border-b-2 border-black my-4"></div>
+        <h2 className="text-xl font-bold uppercase underline">Faktur Penjualan Tunai</h2>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-8 text-sm">
+        <div>
+          <p><span className="font-bold">No. Faktur:</span> {sale.invoiceNo}</p>
+          <p><span className="font-bold">Tanggal:</span> {new Date(sale.soldAt).toLocaleDateString('id-ID')}</p>
+        </div>
+        <div className="text-right">
+          <p><span className="font-bold">Customer:</span> {sale.customer?.name ?? 'Umum'}</p>
+          {sale.customer && (
+            <p><span className="font-bold">Telepon:</span> {sale.customer.phone}</p>
+          )}
+        </div>
+      </div>
+
+      <table className="w-full border-collapse border border-black mb-8 text-sm">
+        <thead>
+          <tr className="bg-gray-100 italic">
+            <th className="border border-black px-4 py-2 text-left">Deskripsi Produk</th>
+            <th className="border border-black px-2 py-2 text-center">Qty</th>
+            <th className="border border-black px-4 py-2 text-right">Harga</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sale.items.map((item) => (
+            <tr key={item.productId}>
+              <td className="border border-black px-4 py-2">
+                <p className="font-bold">{item.name}</p>
+                <p className="text-[10px] text-gray-500 italic uppercase">SKU: {item.sku}</p>
+                {item.units.map((unit) => (
+                  <p key={unit.unitId} className="text-[10px] font-mono">{formatUnit(unit)}</p>
+                ))}
+                {parseFloat(item.discount) > 0 && (
+                  <p className="text-[10px] italic text-gray-600">Diskon {formatRupiah(item.discount)}</p>
+                )}
+              </td>
+              <td className="border border-black px-2 py-2 text-center">
+                {item.quantity} x {formatRupiah(item.unitPrice)}
+              </td>
+              <td className="border border-black px-4 py-2 text-right">
+                {formatRupiah(item.lineTotal)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex justify-end mb-12">
+        <div className="w-64 space-y-2 text-sm">
+          <div className="flex justify-between text-lg border-b border-black pb-1">
+            <span className="font-bold uppercase">Total</span>
+            <span className="font-bold">{formatRupiah(sale.total)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Dibayar ({METHOD_LABELS[sale.method]})</span>
+            <span className="font-bold">{formatRupiah(sale.total)}</span>
+          </div>
+          <div className="flex justify-between italic">
+            <span>Status</span>
+            <span className="font-bold uppercase">Lunas</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-8 text-center text-sm">
+        <div className="mt-20 border-t border-black pt-2">
+          Customer
+        </div>
+        <div className="mt-20 border-t border-black pt-2">
+          Kasir Toko ({sale.cashier})
+        </div>
+      </div>
+
+      <div className="mt-16 text-[10px] text-center italic border-t pt-2">
+        "Barang yang sudah dibeli tidak dapat ditukar atau dikembalikan. Simpan faktur ini sebagai bukti pembayaran yang sah."
+      </div>
+
+      <style type="text/css" media="print">
+        {`
+          @page { size: A5 portrait; margin: 0; }
+          body { background: white; -webkit-print-color-adjust: exact; }
+          .no-print { display: none; }
+        `}
+      </style>
+    </div>
+  );
+});
+
+CashInvoice.displayName = 'CashInvoice';
@@ -23,6 +23,9 @@ const formatDate = (dateStr: string) => {
 };
 
 export const InstallmentCard = React.forwardRef<HTMLDivElement, InstallmentCardProps>(({ contract }, ref) => {
+  // After a restructure the current schedule carries the new monthly amount
+  const latestRestructure = contract.restructures[contract.restructures.length - 1];
+
   return (
     <div ref={ref} className="p-8 bg-white text-black font-sans w-[210mm] min-h-[148mm] border border-gray-100">
       <div className="flex justify-between items-start mb-6 border-b-4 border-black pb-4">
@@ -59,8 +62,16 @@ export const InstallmentCard = React.forwardRef<HTMLDivElement, InstallmentCardP
           </div>
           <div className="flex text-blue-800 italic">
             <span className="w-32 font-bold">Angsuran/Bulan</span>
-            <span className="font-black text-lg">: {formatRupiah(contract.monthly_installment)}</span>
+            <span className="font-black text-lg">
+              : {formatRupiah(latestRestructure?.monthly_installment ?? contract.monthly_installment)}
+            </span>
           </div>
+          {latestRestructure && (
+            <div className="flex">
+              <span className="w-32 font-bold">Restrukturisasi</span>
+              <span className="font-mono">: {latestRestructure.restructure_no}</span>
+            </div>
+          )}
           <div className="flex">
             <span className="w-32 font-bold">Jatuh Tempo</span>
             <span>: Setiap Tanggal {contract.due_date_day}</span>
@@ -74,6 +85,7 @@ export const InstallmentCard = React.forwardRef<HTMLDivElement, InstallmentCardP
             <th className="border-2 border-black px-2 py-2 w-10">Ke</th>
             <th className="border-2 border-black px-2 py-2">Tgl Jatuh Tempo</th>
             <th className="border-2 border-black px-2 py-2">Jumlah Tagihan</th>
+            <th className="border-2 border-black px-2 py-2">Denda</th>
             <th className="border-2 border-black px-2 py-2">Status Pembayaran</th>
             <th className="border-2 border-black px-2 py-2 w-48">Paraf Admin & Stempel</th>
           </tr>
@@ -84,9 +96,14 @@ export const InstallmentCard = React.forwardRef<HTMLDivElement, InstallmentCardP
               <td className="border border-black px-2 py-2 text-center font-bold">{inst.installment_nth}</td>
               <td className="border border-black px-2 py-2 text-center">{formatDate(inst.due_date)}</td>
               <td className="border border-black px-2 py-2 text-right font-bold">{formatRupiah(inst.amount_due)}</td>
+              <td className="border border-black px-2 py-2 text-right">
+                {parseFloat(inst.penalty_accrued) > 0 ? formatRupiah(inst.penalty_accrued) : '-'}
+              </td>
               <td className="border border-black px-2 py-2 text-center italic">
                 {inst.status === 'PAID' ? (
                   <span className="font-black text-emerald-700">LUNAS</span>
+                ) : inst.status === 'PARTIAL' ? (
+                  <span className="font-bold text-blue-700">Sebagian ({formatRupiah(inst.amount_paid)})</span>
                 ) : (
                   <span className="text-gray-300">Belum Bayar</span>
                 )}
@@ -1,5 +1,6 @@
 import React from 'react';
-import { type Contract } from '../../services/api';
+import { type Contract, type SoldUnit } from '../../services/api';
+import { formatUnit } from '../../constants/productUnits';
 
 interface SalesInvoiceProps {
   contract: Contract;
@@ -15,6 +16,35 @@ const formatRupiah = (value: string | number) => {
 };
 
 export const SalesInvoice = React.forwardRef<HTMLDivElement, SalesInvoiceProps>(({ contract }, ref) => {
+  // Older transactions were created before charges existed
+  const charges = contract.transaction.charges ?? [];
+  const upfrontCharges = charges.filter((charge) => charge.collection === 'UPFRONT');
+  const financedCharges = charges.filter((charge) => charge.collection === 'FINANCED');
+  // Transactions from before multi-item carts only have their single product
+  const items = contract.transaction.items?.length
+    ? contract.transaction.items.map((item) => ({
+        key: item.id,
+        name: item.product.name,
+        sku: item.product.sku,
+        quantity: item.quantity,
+        discount: item.discount,
+        lineTotal: item.line_total,
+        units: item.units ?? [],
+      }))
+    : [{
+        key: 0,
+        name: contract.transaction.product?.name || 'Kredit Produk',
+        sku: contract.transaction.product?.sku || '-',
+        quantity: 1,
+        discount: '0',
+        lineTotal: contract.transaction.total_price,
+        units: [] as SoldUnit[],
+      }];
+  const upfrontPayment = upfrontCharges.reduce(
+    (sum, charge) => sum + parseFloat(charge.amount),
+    parseFloat(contract.transaction.dp_amount)
+  );
+
   return (
     <div ref={ref} className="p-8 bg-white text-black font-serif w-[148mm] min-h-[210mm] border border-gray-100">
       <div className="text-center mb-8">
@@ -44,14 +74,26 @@ export const SalesInvoice = React.forwardRef<HTMLDivElement, SalesInvoiceProps>(
           </tr>
         </thead>
         <tbody>
+          {items.map((item) => (
+            <tr key={item.key}>
+              <td className="border border-black px-4 py-2">
+                <p className="font-bold">{item.quantity > 1 ? `${item.quantity} x ` : ''}{item.name}</p>
+                <p className="text-[10px] text-gray-500 italic uppercase">SKU: {item.sku}</p>
+                {item.units.map((unit) => (
+                  <p key={unit.unitId} className="text-[10px] font-mono">{formatUnit(unit)}</p>
+                ))}
+                {parseFloat(item.discount) > 0 && (
+                  <p className="text-[10px] italic text-gray-600">Diskon {formatRupiah(item.discount)}</p>
+                )}
+              </td>
+              <td className="border border-black px-4 py-2 text-right">
+                {formatRupiah(item.lineTotal)}
+              </td>
+            </tr>
+          ))}
           <tr>
-            <td className="border border-black px-4 py-2">
-              <p className="font-bold">{contract.transaction.product?.name || 'Kredit Produk'}</p>
-              <p className="text-[10px] text-gray-500 italic uppercase">SKU: {contract.transaction.product?.sku || '-'}</p>
-              <p className="text-[10px] italic text-gray-600 mt-1">Tenor {contract.tenor_months} Bulan - Terdaftar pada {new Date(contract.start_date).toLocaleDateString('id-ID')}</p>
-            </td>
-            <td className="border border-black px-4 py-2 text-right">
-              {formatRupiah(contract.transaction.total_price)}
+            <td colSpan={2} className="border border-black px-4 py-1 text-[10px] italic text-gray-600">
+              Tenor {contract.tenor_months} Bulan - Terdaftar pada {new Date(contract.start_date).toLocaleDateString('id-ID')}
             </td>
           </tr>
         </tbody>
@@ -67,6 +109,12 @@ export const SalesInvoice = React.forwardRef<HTMLDivElement, SalesInvoiceProps>(
             <span>Uang Muka (DP)</span>
             <span className="font-bold">({formatRupiah(contract.transaction.dp_amount)})</span>
           </div>
+          {financedCharges.map((charge) => (
+            <div key={charge.name} className="flex justify-between border-b border-black pb-1">
+              <span>{charge.name}</span>
+              <span className="font-bold">{formatRupiah(charge.amount)}</span>
+            </div>
+          ))}
           <div className="flex justify-between border-b border-black pb-1">
             <span>Pokok Hutang</span>
             <span className="font-bold">{formatRupiah(contract.principal_amount)}</span>
@@ -75,6 +123,20 @@ export const SalesInvoice = React.forwardRef<HTMLDivElement, SalesInvoiceProps>(
             <span className="font-bold uppercase">Cicilan Pilihan</span>
             <span className="font-bold underline">{formatRupiah(contract.monthly_installment)} / bln</span>
           </div>
+          {upfrontCharges.length > 0 && (
+            <div className="pt-4 space-y-1">
+              {upfrontCharges.map((charge) => (
+                <div key={charge.name} className="flex justify-between">
+                  <span>{charge.name} (dibayar di muka)</span>
+                  <span className="font-bold">{formatRupiah(charge.amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between border-t border-black pt-1">
+                <span className="font-bold">Total Dibayar (DP + Biaya)</span>
+                <span className="font-bold">{formatRupiah(upfrontPayment)}</span>
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
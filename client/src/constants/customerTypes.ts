@@ -0,0 +1,9 @@
+import type { CustomerType } from '../services/api';
+
+// Customer segments used by loan scheme eligibility rules
+export const CUSTOMER_TYPE_LABELS: Record<CustomerType, string> = {
+  REGULAR: 'Umum',
+  EMPLOYEE: 'Karyawan',
+  CIVIL_SERVANT: 'PNS / ASN',
+  ENTREPRENEUR: 'Wiraswasta',
+};
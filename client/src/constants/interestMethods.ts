@@ -0,0 +1,8 @@
+import type { InterestMethod } from '../services/api';
+
+// Short labels for the interest method badge next to the rate
+export const INTEREST_METHOD_LABELS: Record<InterestMethod, string> = {
+  FLAT: 'Flat',
+  ANNUITY: 'Efektif (Anuitas)',
+  SYARIAH: 'Margin Syariah',
+};
@@ -0,0 +1,8 @@
+import type { ItemCondition } from '../services/api';
+
+// Display labels for the condition of a repossessed unit
+export const ITEM_CONDITION_LABELS: Record<ItemCondition, string> = {
+  GOOD: 'Baik',
+  FAIR: 'Cukup (lecet / pemakaian wajar)',
+  POOR: 'Rusak (perlu perbaikan)',
+};
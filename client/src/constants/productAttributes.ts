@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+// Category-specific product attributes, shared by the add and edit forms (synced with the server)
+
+export const electronicAttributesSchema = z.object({
+  brand: z.string().min(2, 'Brand minimal 2 karakter'),
+  warranty: z.string().min(1, 'Warranty harus diisi'),
+});
+
+export const furnitureAttributesSchema = z.object({
+  dimensions: z.string().min(3, 'Dimensi harus diisi (e.g., 200x100x80)'),
+  material: z.string().min(2, 'Material harus diisi'),
+  color: z.string().min(2, 'Warna harus diisi'),
+});
+
+export const vehicleAttributesSchema = z.object({
+  color: z.string().min(2, 'Warna harus diisi'),
+  year: z.number().int().min(2000, 'Tahun minimal 2000'),
+});
+
+// Empty attributes for a newly chosen category (the vehicle year starts at the current year)
+export function defaultAttributes(category: 'ELECTRONIC' | 'FURNITURE' | 'VEHICLE'): Record<string, string | number> {
+  if (category === 'ELECTRONIC') return { brand: '', warranty: '1 Tahun' };
+  if (category === 'FURNITURE') return { dimensions: '', material: '', color: '' };
+  return { color: '', year: new Date().getFullYear() };
+}
@@ -0,0 +1,38 @@
+import type { ProductUnit, SoldUnit, UnitIdentifiers, UnitStatus } from '../services/api';
+
+// Life cycle of a physical unit (serial / IMEI / engine & chassis number)
+export const UNIT_STATUS_LABELS: Record<UnitStatus, string> = {
+  IN_STOCK: 'Di Gudang',
+  SOLD: 'Terjual',
+  REPOSSESSED: 'Tarikan',
+  WARRANTY: 'Klaim Garansi',
+  MISSING: 'Hilang (Opname)',
+};
+
+// One line per unit for display, e.g. "SN ABC123 • IMEI 3567..."
+export function formatUnit(unit: ProductUnit | SoldUnit): string {
+  const [serialNo, imei, engineNo, chassisNo] = 'unitId' in unit
+    ? [unit.serialNo, unit.imei, unit.engineNo, unit.chassisNo]
+    : [unit.serial_no, unit.imei, unit.engine_no, unit.chassis_no];
+
+  return [
+    serialNo && `SN ${serialNo}`,
+    imei && `IMEI ${imei}`,
+    engineNo && `No. Mesin ${engineNo}`,
+    chassisNo && `No. Rangka ${chassisNo}`,
+  ].filter(Boolean).join(' • ');
+}
+
+// Parse a textarea with one unit per line: "SN" or "SN / IMEI" for electronics,
+// "No. Mesin / No. Rangka" for vehicles
+export function parseUnitLines(text: string, category: string): UnitIdentifiers[] {
+  return text
+    .split('\n')
+    .map((line) => line.split('/').map((part) => part.trim()))
+    .filter(([first]) => first)
+    .map(([first, second]) =>
+      category === 'VEHICLE'
+        ? { engineNo: first, ...(second ? { chassisNo: second } : {}) }
+        : { serialNo: first, ...(second ? { imei: second } : {}) }
+    );
+}
@@ -0,0 +1,8 @@
+import type { RestructureType } from '../services/api';
+
+// Display labels for contract restructuring options
+export const RESTRUCTURE_TYPE_LABELS: Record<RestructureType, string> = {
+  EXTEND_TENOR: 'Perpanjang Tenor',
+  REDUCE_INSTALLMENT: 'Turunkan Cicilan',
+  DEFERMENT: 'Tunda Pembayaran',
+};
@@ -1,6 +1,10 @@
 import { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { getCustomerHistory, type CustomerDetail } from '../services/api';
+import { getCustomerHistory, reversePayment, getErrorMessage, type CustomerDetail } from '../services/api';
+import { useOperator } from '../services/session';
+import { RESTRUCTURE_TYPE_LABELS } from '../constants/restructureTypes';
+import { ITEM_CONDITION_LABELS } from '../constants/itemConditions';
+import { formatUnit } from '../constants/productUnits';
 import { 
   User, 
   Phone, 
@@ -10,10 +14,12 @@ import {
   AlertCircle,
   ChevronLeft,
   TrendingUp,
-  History
+  History,
+  Undo2
 } from 'lucide-react';
 
 export default function CustomerDetail() {
+  const operator = useOperator();
   const { id } = useParams<{ id: string }>();
   const [data, setData] = useState<CustomerDetail | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -25,7 +31,7 @@ export default function CustomerDetail() {
   const loadData = async (customerId: number) => {
     try {
       const result = await getCustomerHistory(customerId);
-      setData(result as any);
+      setData(result);
     } catch (err) {
       console.error('Failed to load customer history');
     } finally {
@@ -33,6 +39,23 @@ export default function CustomerDetail() {
     }
   };
 
+  const handleReverse = async (paymentId: number, receiptNo: string) => {
+    const reason = window.prompt(`Alasan pembatalan kuitansi ${receiptNo}:`);
+    if (reason === null || !id) return;
+    if (reason.trim().length < 5) {
+      alert('Alasan pembatalan wajib diisi (minimal 5 karakter)');
+      return;
+    }
+
+    try {
+      const result = await reversePayment(paymentId, reason.trim(), operator);
+      alert(result.message);
+      loadData(parseInt(id));
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal membatalkan pembayaran'));
+    }
+  };
+
   const formatCurrency = (val: string | number) => {
     return new Intl.NumberFormat('id-ID', {
       style: 'currency',
@@ -141,18 +164,38 @@ export default function CustomerDetail() {
                     </div>
                     <div>
                       <div className="flex items-center gap-2 mb-1">
-                        <span className="text-sm font-black text-gray-800 uppercase tracking-tight">KONTRAK #{t.id}</span>
+                        <span className="text-sm font-black text-gray-800 uppercase tracking-tight">
+                          {t.saleType === 'CASH' ? t.invoiceNo : `KONTRAK #${t.id}`}
+                        </span>
+                        {t.saleType === 'CASH' && (
+                          <span className="px-2 py-0.5 rounded-full text-[9px] font-black uppercase bg-amber-100 text-amber-700">TUNAI</span>
+                        )}
                         <span className={`px-2 py-0.5 rounded-full text-[9px] font-black uppercase ${
                           t.status === 'PAID' ? 'bg-emerald-100 text-emerald-700' : 
-                          t.status === 'ACTIVE' ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-600'
+                          t.status === 'ACTIVE' ? 'bg-blue-100 text-blue-700' :
+                          t.status === 'VOID' ? 'bg-red-100 text-red-700' :
+                          t.status === 'BAD_DEBT' ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-600'
                         }`}>
-                          {t.status === 'PAID' ? 'LUNAS' : t.status}
+                          {t.status === 'PAID' ? 'LUNAS' :
+                           t.status === 'VOID' ? 'DIBATALKAN' :
+                           t.status === 'BAD_DEBT' ? 'HAPUS BUKU' : t.status}
                         </span>
                       </div>
                       <p className="text-xs text-gray-400 font-medium flex items-center gap-1">
                         <Calendar className="w-3 h-3" />
                         {new Date(t.date).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' })}
                       </p>
+                      <p className="text-xs text-gray-500 font-medium mt-1">
+                        {t.items.map((item) => `${item.quantity > 1 ? `${item.quantity}x ` : ''}${item.productName}`).join(', ')}
+                      </p>
+                      {t.items.flatMap((item) => item.units).map((unit) => (
+                        <p key={unit.unitId} className="text-[10px] text-gray-400 font-mono">{formatUnit(unit)}</p>
+                      ))}
+                      {t.status === 'VOID' && (
+                        <p className="text-[10px] text-red-500 font-medium mt-1">
+                          Dibatalkan {t.voidedBy} • {t.voidReason}
+                        </p>
+                      )}
                     </div>
                   </div>
                   
@@ -162,15 +205,78 @@ export default function CustomerDetail() {
                       {t.installments.map((ins, idx) => (
                         <div 
                           key={idx} 
-                          title={`Cicilan ke-${ins.nth}: ${ins.status}`}
+                          title={`Cicilan ke-${ins.nth} (jadwal v${ins.version}): ${
+                            ins.status === 'SUPERSEDED' ? 'diganti restrukturisasi' : ins.status
+                          }`}
                           className={`w-2 h-2 rounded-full ${
-                            ins.status === 'PAID' ? 'bg-emerald-500' : 'bg-gray-100'
+                            ins.status === 'PAID' ? 'bg-emerald-500' :
+                            ins.status === 'SUPERSEDED' ? 'bg-orange-200' : 'bg-gray-100'
                           }`}
                         />
                       ))}
                     </div>
                   </div>
                 </div>
+
+                {t.restructures.length > 0 && (
+                  <div className="mt-4 pt-4 border-t border-gray-50 space-y-1">
+                    <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest block mb-2">Riwayat Restrukturisasi</span>
+                    {t.restructures.map((r) => (
+                      <div key={r.id} className="flex justify-between items-center text-xs">
+                        <span className="font-mono font-bold text-orange-600">{r.restructureNo}</span>
+                        <span className="text-gray-400">
+                          {new Date(r.createdAt).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' })} • {RESTRUCTURE_TYPE_LABELS[r.type]} • {r.tenorMonths} bln
+                          {r.deferMonths > 0 && ` (tunda ${r.deferMonths} bln)`} • {r.reason} • disetujui {r.approvedBy}
+                        </span>
+                        <span className="font-black text-gray-800">{formatCurrency(r.monthlyInstallment)}/bln</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {t.repossessions.length > 0 && (
+                  <div className="mt-4 pt-4 border-t border-gray-50 space-y-1">
+                    {t.repossessions.map((r) => (
+                      <div key={r.repossessionNo} className="flex justify-between items-center text-xs">
+                        <span className="font-mono font-bold text-purple-600">{r.repossessionNo}</span>
+                        <span className="text-gray-400">
+                          Barang ditarik {new Date(r.repossessedAt).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' })}
+                          {r.quantity > 1 && ` (${r.quantity} pcs)`} • {ITEM_CONDITION_LABELS[r.condition]} • taksiran {formatCurrency(r.assessedValue)}
+                        </span>
+                        <span className="font-black text-gray-800">- {formatCurrency(r.creditedAmount)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {t.payments.length > 0 && (
+                  <div className="mt-4 pt-4 border-t border-gray-50 space-y-1">
+                    <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest block mb-2">Riwayat Pembayaran</span>
+                    {t.payments.map((p) => (
+                      <div key={p.id} className={`flex justify-between items-center text-xs ${p.isReversed ? 'opacity-50' : ''}`}>
+                        <span className={`font-mono font-bold ${p.type === 'REVERSAL' ? 'text-red-500' : 'text-gray-600'} ${p.isReversed ? 'line-through' : ''}`}>
+                          {p.receiptNo}
+                        </span>
+                        <span className="text-gray-400">
+                          {new Date(p.paidAt).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' })} • {p.method} • {p.cashier}
+                          {p.reason && ` • ${p.reason}`}
+                        </span>
+                        <span className="flex items-center gap-2 font-black text-gray-800">
+                          {formatCurrency(p.amount)}
+                          {p.id === t.payments.find(x => x.type === 'RECEIPT' && !x.isReversed)?.id && (
+                            <button
+                              onClick={() => handleReverse(p.id, p.receiptNo)}
+                              title="Batalkan pembayaran"
+                              className="p-1 text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                            >
+                              <Undo2 className="w-3 h-3" />
+                            </button>
+                          )}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             ))
           )}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { fetchCustomers, createCustomer, type Customer } from '../services/api';
+import { fetchCustomers, createCustomer, type Customer, type CustomerType } from '../services/api';
+import { CUSTOMER_TYPE_LABELS } from '../constants/customerTypes';
 import { Users, Search, UserPlus, Phone, ChevronRight } from 'lucide-react';
 
 export default function CustomerList() {
@@ -15,7 +16,8 @@ export default function CustomerList() {
     nik: '',
     name: '',
     phone: '',
-    address: ''
+    address: '',
+    customer_type: 'REGULAR' as CustomerType
   });
 
   useEffect(() => {
@@ -40,7 +42,7 @@ export default function CustomerList() {
       await createCustomer(newCustomer);
       alert('Customer berhasil ditambahkan!');
       setShowAddModal(false);
-      setNewCustomer({ nik: '', name: '', phone: '', address: '' });
+      setNewCustomer({ nik: '', name: '', phone: '', address: '', customer_type: 'REGULAR' });
       loadCustomers();
     } catch (err: any) {
       const errorData = err.response?.data?.error;
@@ -183,6 +185,18 @@ export default function CustomerList() {
                   onChange={(e) => setNewCustomer({...newCustomer, phone: e.target.value})}
                 />
               </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase mb-1.5 ml-1">Jenis Customer</label>
+                <select
+                  className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl outline-none focus:ring-2 focus:ring-blue-500 transition-all font-medium"
+                  value={newCustomer.customer_type}
+                  onChange={(e) => setNewCustomer({...newCustomer, customer_type: e.target.value as CustomerType})}
+                >
+                  {(Object.keys(CUSTOMER_TYPE_LABELS) as CustomerType[]).map((type) => (
+                    <option key={type} value={type}>{CUSTOMER_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
               <div>
                 <label className="block text-xs font-bold text-gray-400 uppercase mb-1.5 ml-1">Alamat Tinggal</label>
                 <textarea
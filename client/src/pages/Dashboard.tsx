@@ -1,9 +1,21 @@
 import { useState, useEffect } from 'react';
 import { 
   fetchActiveContracts, 
-  payInstallment, 
+  fetchContractPayments,
+  reversePayment,
+  accruePenalties,
+  voidTransaction,
+  fetchWriteOffPreview,
+  writeOffContract,
+  getErrorMessage,
   type Contract, 
-  type Installment 
+  type ContractPayment,
+  type Installment,
+  type PaymentResult,
+  type RestructureResult,
+  type RepossessionResult,
+  type SettleContractResult,
+  type WriteOffPreview
 } from '../services/api';
 import { 
   CheckCircle, 
@@ -14,21 +26,43 @@ import {
   User,
   Calendar,
   Printer,
-  FileText
+  FileText,
+  Timer,
+  Clock,
+  BadgeCheck,
+  RefreshCcw,
+  Ban,
+  FileX2,
+  PackageOpen
 } from 'lucide-react';
 import { useReactToPrint } from 'react-to-print';
 import { SalesInvoice } from '../components/printables/SalesInvoice';
 import { InstallmentCard } from '../components/printables/InstallmentCard';
+import PaymentModal from '../components/PaymentModal';
+import PaymentHistory from '../components/PaymentHistory';
+import PayoffModal from '../components/PayoffModal';
+import RestructureModal from '../components/RestructureModal';
+import RepossessionModal from '../components/RepossessionModal';
+import ApprovalModal, { type Approval } from '../components/ApprovalModal';
+import { useOperator } from '../services/session';
 
 // ============================================================================
 // COMPONENT
 // ============================================================================
 
 export default function Dashboard() {
+  const operator = useOperator();
   const [contracts, setContracts] = useState<Contract[]>([]);
   const [expandedId, setExpandedId] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [isPaying, setIsPaying] = useState<number | null>(null);
+  const [payingInstallment, setPayingInstallment] = useState<Installment | null>(null);
+  const [settlingContract, setSettlingContract] = useState<Contract | null>(null);
+  const [restructuringContract, setRestructuringContract] = useState<Contract | null>(null);
+  const [repossessingContract, setRepossessingContract] = useState<Contract | null>(null);
+  const [writingOff, setWritingOff] = useState<{ contract: Contract; preview: WriteOffPreview } | null>(null);
+  const [payments, setPayments] = useState<ContractPayment[]>([]);
+  const [isLoadingPayments, setIsLoadingPayments] = useState(false);
+  const [isAccruing, setIsAccruing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Print Refs
@@ -61,22 +95,140 @@ export default function Dashboard() {
     }
   };
 
-  const handlePay = async (installment: Installment) => {
-    if (!window.confirm(`Terima pembayaran angsuran ke-${installment.installment_nth} sebesar ${formatRupiah(installment.amount_due)}?`)) {
+  const loadPayments = async (contractId: number) => {
+    try {
+      setIsLoadingPayments(true);
+      setPayments(await fetchContractPayments(contractId));
+    } catch {
+      setPayments([]);
+    } finally {
+      setIsLoadingPayments(false);
+    }
+  };
+
+  const handleToggleContract = (contractId: number) => {
+    if (expandedId === contractId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(contractId);
+    loadPayments(contractId);
+  };
+
+  const handlePaid = (result: PaymentResult['data']) => {
+    const summary = result.allocations
+      .map(a => `Angsuran ke-${a.installmentNth}: ${a.status === 'PAID' ? 'LUNAS' : 'SEBAGIAN'}`)
+      .join('\n');
+    alert(`Pembayaran berhasil dicatat! Kuitansi ${result.receiptNo}\n${summary}`);
+    setPayingInstallment(null);
+    loadContracts(); // Refresh data
+    if (expandedId) loadPayments(expandedId);
+  };
+
+  const handleSettled = (result: SettleContractResult['data']) => {
+    alert(`Kontrak lunas! Kuitansi ${result.receiptNo} (${formatRupiah(result.quote.totalPayoff)})`);
+    setSettlingContract(null);
+    setExpandedId(null);
+    loadContracts(); // Settled contract leaves the active list
+  };
+
+  const handleRestructured = (result: RestructureResult['data']) => {
+    alert(
+      `Restrukturisasi ${result.restructure.restructure_no} berhasil! ` +
+      `Cicilan baru ${formatRupiah(result.preview.monthlyInstallment)} x ${result.preview.tenorMonths} bulan`
+    );
+    setRestructuringContract(null);
+    loadContracts(); // Show the new schedule version
+  };
+
+  const handleRepossessed = (result: RepossessionResult) => {
+    alert(
+      result.data.receiptNo
+        ? `${result.message}. Nilai barang dikreditkan dengan kuitansi ${result.data.receiptNo}`
+        : result.message
+    );
+    setRepossessingContract(null);
+    loadContracts(); // Credited value may have settled installments
+  };
+
+  const handleReverse = async (payment: ContractPayment) => {
+    const reason = window.prompt(`Alasan pembatalan kuitansi ${payment.receipt_no} (${formatRupiah(payment.amount)}):`);
+    if (reason === null) return;
+    if (reason.trim().length < 5) {
+      alert('Alasan pembatalan wajib diisi (minimal 5 karakter)');
       return;
     }
 
     try {
-      setIsPaying(installment.id);
-      const result = await payInstallment(installment.id);
-      if (result.success) {
-        alert('Pembayaran berhasil dicatat!');
-        loadContracts(); // Refresh data
-      }
-    } catch (err: any) {
-      alert(err.response?.data?.error || 'Gagal memproses pembayaran');
+      const result = await reversePayment(payment.id, reason.trim(), operator);
+      alert(result.message);
+      loadContracts();
+      loadPayments(payment.contract_id);
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal membatalkan pembayaran'));
+    }
+  };
+
+  const handleVoid = async (contract: Contract) => {
+    const reason = window.prompt(`Alasan pembatalan transaksi ${contract.transaction.customer_name}:`);
+    if (reason === null) return;
+    if (reason.trim().length < 5) {
+      alert('Alasan pembatalan wajib diisi (minimal 5 karakter)');
+      return;
+    }
+
+    // Installments already paid must be refunded together with the void
+    const paid = contract.installments.reduce((sum, inst) => sum + parseFloat(inst.amount_paid), 0);
+    if (paid > 0 && !window.confirm(`Angsuran sudah dibayar ${formatRupiah(paid)}. Batalkan transaksi dan refund?`)) {
+      return;
+    }
+
+    try {
+      const result = await voidTransaction(contract.transaction.id, {
+        reason: reason.trim(),
+        cashier: operator,
+        refund: paid > 0,
+      });
+      const { downPaymentRefund, installmentRefund, restocked } = result.data;
+      alert(
+        `${result.message}. Stok kembali: ${restocked.map((p) => `${p.name} +${p.quantity} (${p.stockQty})`).join(', ')}.\n` +
+        `Kembalikan DP ${formatRupiah(downPaymentRefund)}` +
+        (parseFloat(installmentRefund) > 0 ? ` + angsuran ${formatRupiah(installmentRefund)}` : '')
+      );
+      setExpandedId(null);
+      loadContracts(); // Voided contract leaves the active list
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal membatalkan transaksi'));
+    }
+  };
+
+  const handleWriteOff = async (contract: Contract) => {
+    try {
+      setWritingOff({ contract, preview: await fetchWriteOffPreview(contract.id) });
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal menghapusbukukan kontrak'));
+    }
+  };
+
+  const handleWriteOffApproved = async ({ reason, approvedBy }: Approval) => {
+    if (!writingOff) return;
+    const result = await writeOffContract(writingOff.contract.id, { reason, approvedBy, cashier: operator });
+    alert(result.message);
+    setWritingOff(null);
+    setExpandedId(null);
+    loadContracts(); // Written-off contract leaves the active list
+  };
+
+  const handleAccruePenalties = async () => {
+    try {
+      setIsAccruing(true);
+      const result = await accruePenalties();
+      alert(`Denda diperbarui: ${result.updated} angsuran (${result.markedLate} baru terlambat)`);
+      loadContracts();
+    } catch {
+      alert('Gagal menghitung denda');
     } finally {
-      setIsPaying(null);
+      setIsAccruing(false);
     }
   };
 
@@ -101,25 +253,33 @@ export default function Dashboard() {
     switch (status) {
       case 'PAID': return <CheckCircle className="w-4 h-4 text-emerald-500" />;
       case 'LATE': return <AlertCircle className="w-4 h-4 text-amber-500" />;
+      case 'PARTIAL': return <Clock className="w-4 h-4 text-blue-500" />;
       default: return <Calendar className="w-4 h-4 text-gray-400" />;
     }
   };
 
   const calculateRemaining = (contract: Contract) => {
-    const total = parseFloat(contract.monthly_installment) * contract.tenor_months;
-    const paid = contract.installments
-      .filter(i => i.status === 'PAID')
-      .reduce((acc, i) => acc + parseFloat(i.amount_due), 0);
-    return total - paid;
+    return contract.installments
+      .reduce((acc, i) => acc + parseFloat(i.amount_due) - parseFloat(i.amount_paid), 0);
   };
 
   return (
     <div className="flex flex-col h-screen bg-gray-50 overflow-hidden">
       <main className="flex-1 p-6 overflow-y-auto">
         <div className="max-w-6xl mx-auto">
-          <header className="mb-8">
-            <h1 className="text-2xl font-black text-gray-800">Buku Besar Piutang</h1>
-            <p className="text-gray-500">Kelola angsuran dan monitoring piutang aktif customer</p>
+          <header className="mb-8 flex items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-black text-gray-800">Buku Besar Piutang</h1>
+              <p className="text-gray-500">Kelola angsuran dan monitoring piutang aktif customer</p>
+            </div>
+            <button
+              onClick={handleAccruePenalties}
+              disabled={isAccruing}
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-amber-200 rounded-lg text-xs font-bold text-amber-700 hover:bg-amber-50 disabled:opacity-50 transition-all shadow-sm"
+            >
+              <Timer className="w-4 h-4" />
+              {isAccruing ? 'MENGHITUNG...' : 'HITUNG DENDA'}
+            </button>
           </header>
 
           {isLoading ? (
@@ -155,7 +315,7 @@ export default function Dashboard() {
                     <React.Fragment key={contract.id}>
                       <tr 
                         className={`hover:bg-blue-50/30 transition-colors cursor-pointer ${expandedId === contract.id ? 'bg-blue-50/50' : ''}`}
-                        onClick={() => setExpandedId(expandedId === contract.id ? null : contract.id)}
+                        onClick={() => handleToggleContract(contract.id)}
                       >
                         <td className="px-6 py-4">
                           <div className="flex items-center gap-3">
@@ -169,11 +329,16 @@ export default function Dashboard() {
                           </div>
                         </td>
                         <td className="px-6 py-4">
-                          <p className="font-bold text-gray-800 leading-tight">{contract.transaction.product?.name || 'N/A'}</p>
+                          <p className="font-bold text-gray-800 leading-tight">
+                            {contract.transaction.product?.name || 'N/A'}
+                            {(contract.transaction.items?.length ?? 0) > 1 && (
+                              <span className="ml-1 text-[10px] font-bold text-blue-600">+{contract.transaction.items!.length - 1} item</span>
+                            )}
+                          </p>
                           <p className="text-[10px] text-gray-400 mt-0.5">{contract.transaction.product?.category} - {contract.transaction.product?.sub_category}</p>
                         </td>
                         <td className="px-6 py-4 font-medium text-gray-700">
-                          {formatRupiah(parseFloat(contract.monthly_installment) * contract.tenor_months)}
+                          {formatRupiah(parseFloat(contract.principal_amount) + parseFloat(contract.total_interest))}
                         </td>
                         <td className="px-6 py-4 font-bold text-blue-600">
                           {formatRupiah(calculateRemaining(contract))}
@@ -207,6 +372,41 @@ export default function Dashboard() {
                                 <FileText className="w-4 h-4" />
                                 CETAK KARTU ANGSURAN
                               </button>
+                              <button 
+                                onClick={() => setSettlingContract(contract)}
+                                className="flex items-center gap-2 px-4 py-2 bg-white border border-emerald-200 rounded-lg text-xs font-bold text-emerald-700 hover:bg-emerald-50 transition-all shadow-sm"
+                              >
+                                <BadgeCheck className="w-4 h-4" />
+                                PELUNASAN
+                              </button>
+                              <button 
+                                onClick={() => setRestructuringContract(contract)}
+                                className="flex items-center gap-2 px-4 py-2 bg-white border border-orange-200 rounded-lg text-xs font-bold text-orange-700 hover:bg-orange-50 transition-all shadow-sm"
+                              >
+                                <RefreshCcw className="w-4 h-4" />
+                                RESTRUKTUR
+                              </button>
+                              <button 
+                                onClick={() => handleVoid(contract)}
+                                className="flex items-center gap-2 px-4 py-2 bg-white border border-red-200 rounded-lg text-xs font-bold text-red-600 hover:bg-red-50 transition-all shadow-sm"
+                              >
+                                <Ban className="w-4 h-4" />
+                                BATALKAN
+                              </button>
+                              <button 
+                                onClick={() => handleWriteOff(contract)}
+                                className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 rounded-lg text-xs font-bold text-gray-600 hover:bg-gray-100 transition-all shadow-sm"
+                              >
+                                <FileX2 className="w-4 h-4" />
+                                HAPUS BUKU
+                              </button>
+                              <button 
+                                onClick={() => setRepossessingContract(contract)}
+                                className="flex items-center gap-2 px-4 py-2 bg-white border border-purple-200 rounded-lg text-xs font-bold text-purple-700 hover:bg-purple-50 transition-all shadow-sm"
+                              >
+                                <PackageOpen className="w-4 h-4" />
+                                TARIK BARANG
+                              </button>
                             </div>
 
                             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
@@ -219,10 +419,23 @@ export default function Dashboard() {
                                 >
                                   <div>
                                     <div className="flex justify-between items-start mb-2">
-                                      <span className="text-[10px] font-bold text-gray-400 uppercase tracking-tighter">Bulan Ke-{inst.installment_nth}</span>
+                                      <span className="text-[10px] font-bold text-gray-400 uppercase tracking-tighter">
+                                        Bulan Ke-{inst.installment_nth}
+                                        {inst.schedule_version > 1 && ` • Jadwal v${inst.schedule_version}`}
+                                      </span>
                                       {getStatusIcon(inst.status)}
                                     </div>
                                     <p className="font-black text-gray-800">{formatRupiah(inst.amount_due)}</p>
+                                    {inst.status === 'PARTIAL' && (
+                                      <p className="text-[10px] font-bold text-blue-600">
+                                        Terbayar {formatRupiah(inst.amount_paid)}
+                                      </p>
+                                    )}
+                                    {parseFloat(inst.penalty_accrued) > 0 && (
+                                      <p className="text-[10px] font-bold text-amber-600">
+                                        + Denda {formatRupiah(inst.penalty_accrued)}
+                                      </p>
+                                    )}
                                     <p className="text-[10px] text-gray-400 mt-1 flex items-center gap-1">
                                       <Calendar className="w-3 h-3" />
                                       {formatDate(inst.due_date)}
@@ -237,17 +450,20 @@ export default function Dashboard() {
                                       </div>
                                     ) : (
                                       <button
-                                        onClick={(e) => { e.stopPropagation(); handlePay(inst); }}
-                                        disabled={isPaying === inst.id}
+                                        onClick={(e) => { e.stopPropagation(); setPayingInstallment(inst); }}
                                         className="w-full py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-lg text-xs font-bold transition-all shadow-sm shadow-blue-100"
                                       >
-                                        {isPaying === inst.id ? '...' : 'BAYAR'}
+                                        BAYAR
                                       </button>
                                     )}
                                   </div>
                                 </div>
                               ))}
                             </div>
+
+                            <div className="mt-6">
+                              <PaymentHistory payments={payments} isLoading={isLoadingPayments} onReverse={handleReverse} />
+                            </div>
                           </td>
                         </tr>
                       )}
@@ -260,6 +476,66 @@ export default function Dashboard() {
         </div>
       </main>
 
+      {payingInstallment && (
+        <PaymentModal
+          installment={payingInstallment}
+          onClose={() => setPayingInstallment(null)}
+          onPaid={handlePaid}
+        />
+      )}
+
+      {settlingContract && (
+        <PayoffModal
+          contract={settlingContract}
+          onClose={() => setSettlingContract(null)}
+          onSettled={handleSettled}
+        />
+      )}
+
+      {restructuringContract && (
+        <RestructureModal
+          contract={restructuringContract}
+          onClose={() => setRestructuringContract(null)}
+          onRestructured={handleRestructured}
+        />
+      )}
+
+      {repossessingContract && (
+        <RepossessionModal
+          contractId={repossessingContract.id}
+          customerName={repossessingContract.transaction.customer_name}
+          productName={repossessingContract.transaction.product?.name ?? '-'}
+          lines={(repossessingContract.transaction.items ?? []).map((item) => ({
+            id: item.id,
+            productName: item.product.name,
+            quantity: item.quantity,
+            units: item.units,
+          }))}
+          onClose={() => setRepossessingContract(null)}
+          onRepossessed={handleRepossessed}
+        />
+      )}
+
+      {writingOff && (
+        <ApprovalModal
+          title="Hapus Buku Kontrak"
+          summary={
+            <>
+              <p>{writingOff.contract.transaction.customer_name} • telat {writingOff.preview.daysOverdue} hari</p>
+              <p>
+                Pokok {formatRupiah(writingOff.preview.outstandingPrincipal)} + bunga {formatRupiah(writingOff.preview.outstandingInterest)}
+                {' '}+ denda {formatRupiah(writingOff.preview.outstandingPenalty)}
+              </p>
+              <p>Total: <span className="font-bold text-gray-700">{formatRupiah(writingOff.preview.totalAmount)}</span></p>
+            </>
+          }
+          requireReason
+          confirmLabel="HAPUS BUKU"
+          onClose={() => setWritingOff(null)}
+          onConfirm={handleWriteOffApproved}
+        />
+      )}
+
       {/* Hidden Printables */}
       <div className="hidden">
         {expandedId && contracts.find(c => c.id === expandedId) && (
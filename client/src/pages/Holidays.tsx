@@ -0,0 +1,157 @@
+import { useState, useEffect } from 'react';
+import {
+  fetchHolidays,
+  createHoliday,
+  deleteHoliday,
+  getErrorMessage,
+  type Holiday,
+} from '../services/api';
+import { CalendarDays, Plus, Trash2 } from 'lucide-react';
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export default function Holidays() {
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newDate, setNewDate] = useState('');
+  const [newName, setNewName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadHolidays = async () => {
+      try {
+        setIsLoading(true);
+        setHolidays(await fetchHolidays(year));
+      } catch {
+        console.error('Failed to load holidays');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadHolidays();
+  }, [year]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newDate || !newName.trim()) return;
+
+    try {
+      setIsSaving(true);
+      const holiday = await createHoliday(newDate, newName.trim());
+      if (new Date(holiday.date).getUTCFullYear() === year) {
+        setHolidays((prev) => [...prev, holiday].sort((a, b) => a.date.localeCompare(b.date)));
+      }
+      setNewDate('');
+      setNewName('');
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal menambah hari libur'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (holiday: Holiday) => {
+    if (!window.confirm(`Hapus hari libur "${holiday.name}"?`)) return;
+
+    try {
+      await deleteHoliday(holiday.id);
+      setHolidays((prev) => prev.filter((h) => h.id !== holiday.id));
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal menghapus hari libur'));
+    }
+  };
+
+  // DATE column: read in UTC so the day never shifts
+  const formatDate = (dateStr: string) =>
+    new Date(dateStr).toLocaleDateString('id-ID', {
+      weekday: 'long',
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+      timeZone: 'UTC',
+    });
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-50 overflow-hidden">
+      <main className="flex-1 p-6 overflow-y-auto">
+        <div className="max-w-3xl mx-auto">
+          <header className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+            <div>
+              <h1 className="text-2xl font-black text-gray-800 tracking-tighter uppercase">Hari Libur</h1>
+              <p className="text-gray-400 text-sm">
+                Jatuh tempo yang jatuh pada hari Minggu atau hari libur digeser ke hari kerja berikutnya
+              </p>
+            </div>
+
+            <select
+              value={year}
+              onChange={(e) => setYear(parseInt(e.target.value, 10))}
+              className="px-4 py-2 bg-white border border-gray-100 rounded-xl text-sm font-bold text-gray-700 outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {[year - 1, year, year + 1].map((y) => (
+                <option key={y} value={y}>{y}</option>
+              ))}
+            </select>
+          </header>
+
+          <form onSubmit={handleAdd} className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-6 flex flex-col md:flex-row gap-3">
+            <input
+              type="date"
+              value={newDate}
+              onChange={(e) => setNewDate(e.target.value)}
+              className="px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Idul Fitri 1447 H"
+              className="flex-1 px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={isSaving || !newDate || !newName.trim()}
+              className="px-6 py-2.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-xl font-black text-xs flex items-center justify-center gap-2 transition-all"
+            >
+              <Plus className="w-4 h-4" />
+              {isSaving ? 'MENYIMPAN...' : 'TAMBAH'}
+            </button>
+          </form>
+
+          {isLoading ? (
+            <div className="flex justify-center py-20">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+          ) : holidays.length === 0 ? (
+            <div className="text-center py-20 text-gray-400 text-sm">Belum ada hari libur untuk tahun {year}</div>
+          ) : (
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 divide-y divide-gray-50">
+              {holidays.map((holiday) => (
+                <div key={holiday.id} className="px-6 py-4 flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 rounded-xl bg-red-50 flex items-center justify-center">
+                      <CalendarDays className="w-5 h-5 text-red-400" />
+                    </div>
+                    <div>
+                      <p className="font-bold text-gray-800">{holiday.name}</p>
+                      <p className="text-xs text-gray-400">{formatDate(holiday.date)}</p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleDelete(holiday)}
+                    className="p-2 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,27 +1,53 @@
 import { useState, useEffect } from 'react';
-import { fetchProducts, restockProduct, type Product } from '../services/api';
+import {
+  fetchProducts,
+  restockProduct,
+  restockProductUnits,
+  fetchStockReconciliation,
+  getErrorMessage,
+  type Product,
+} from '../services/api';
 import { 
   Package, 
   Plus, 
   ArrowUpCircle, 
   AlertTriangle,
   Search,
-  X
+  X,
+  Barcode,
+  History,
+  ClipboardCheck,
+  Calculator,
+  Pencil
 } from 'lucide-react';
 import ProductForm from '../components/ProductForm';
+import ProductUnitsModal from '../components/ProductUnitsModal';
+import StockMovementsModal from '../components/StockMovementsModal';
+import InventoryValuationModal from '../components/InventoryValuationModal';
+import ProductEditModal from '../components/ProductEditModal';
 import { PRODUCT_TYPES } from '../constants/productTypes';
+import { parseUnitLines } from '../constants/productUnits';
+import { useOperator } from '../services/session';
 
 // ============================================================================
 // COMPONENT
 // ============================================================================
 
 export default function Inventory() {
+  const operator = useOperator();
   const [products, setProducts] = useState<Product[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [showAddModal, setShowAddModal] = useState(false);
-  const [restockId, setRestockId] = useState<number | null>(null);
+  const [restockTarget, setRestockTarget] = useState<Product | null>(null);
   const [restockValue, setRestockValue] = useState(1);
+  const [restockUnitLines, setRestockUnitLines] = useState('');
+  const [restockCost, setRestockCost] = useState(''); // Optional purchase price per unit
+  const [unitsProduct, setUnitsProduct] = useState<Product | null>(null);
+  const [showUnitLookup, setShowUnitLookup] = useState(false);
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
+  const [showValuation, setShowValuation] = useState(false);
+  const [editProductId, setEditProductId] = useState<number | null>(null);
   const [filterCategory, setFilterCategory] = useState<string>('');
   const [filterSubCategory, setFilterSubCategory] = useState<string>('');
 
@@ -32,9 +58,11 @@ export default function Inventory() {
   const loadProducts = async () => {
     try {
       setIsLoading(true);
+      // Deactivated products stay listed here so they can be reactivated
       const data = await fetchProducts(
         filterCategory || undefined,
-        filterSubCategory || undefined
+        filterSubCategory || undefined,
+        true
       );
       setProducts(data);
     } catch (err) {
@@ -46,16 +74,43 @@ export default function Inventory() {
 
   const handleRestock = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!restockId) return;
+    if (!restockTarget) return;
+
+    // Without a purchase price the goods come in at the current harga modal
+    const unitCost = restockCost.trim() === '' ? undefined : parseFloat(restockCost);
 
     try {
-      await restockProduct(restockId, restockValue);
+      // Per-unit products register every incoming serial / engine number
+      if (restockTarget.track_units) {
+        await restockProductUnits(restockTarget.id, parseUnitLines(restockUnitLines, restockTarget.category), operator, unitCost);
+      } else {
+        await restockProduct(restockTarget.id, restockValue, operator, unitCost);
+      }
       alert('Stok berhasil ditambahkan!');
-      setRestockId(null);
+      setRestockTarget(null);
       setRestockValue(1);
+      setRestockUnitLines('');
+      setRestockCost('');
       loadProducts();
     } catch (err) {
-      alert('Gagal menambah stok');
+      alert(getErrorMessage(err, 'Gagal menambah stok'));
+    }
+  };
+
+  // Every product's stock must equal the sum of its stock ledger
+  const handleCheckLedger = async () => {
+    try {
+      const report = await fetchStockReconciliation();
+      if (report.mismatched === 0) {
+        alert(`Semua ${report.checked} produk cocok dengan kartu stok.`);
+        return;
+      }
+      alert(
+        `${report.mismatched} dari ${report.checked} produk tidak cocok dengan kartu stok:\n\n` +
+        report.products.map((p) => `${p.sku} ${p.name}: stok ${p.stockQty}, kartu stok ${p.ledgerQty}`).join('\n')
+      );
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal memeriksa kartu stok'));
     }
   };
 
@@ -84,13 +139,36 @@ export default function Inventory() {
               <p className="text-gray-400 text-sm">Kelola stok barang dan data produk AMALI</p>
             </div>
             
-            <button 
-              onClick={() => setShowAddModal(true)}
-              className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-black text-xs shadow-sm shadow-blue-100 flex items-center gap-2 transition-all active:scale-95"
-            >
-              <Plus className="w-4 h-4" />
-              TAMBAH PRODUK BARU
-            </button>
+            <div className="flex gap-2">
+              <button 
+                onClick={() => setShowValuation(true)}
+                className="px-6 py-3 bg-white hover:bg-gray-50 text-gray-600 border border-gray-100 rounded-xl font-black text-xs shadow-sm flex items-center gap-2 transition-all active:scale-95"
+              >
+                <Calculator className="w-4 h-4" />
+                NILAI STOK
+              </button>
+              <button 
+                onClick={handleCheckLedger}
+                className="px-6 py-3 bg-white hover:bg-gray-50 text-gray-600 border border-gray-100 rounded-xl font-black text-xs shadow-sm flex items-center gap-2 transition-all active:scale-95"
+              >
+                <ClipboardCheck className="w-4 h-4" />
+                CEK KARTU STOK
+              </button>
+              <button 
+                onClick={() => setShowUnitLookup(true)}
+                className="px-6 py-3 bg-white hover:bg-gray-50 text-gray-600 border border-gray-100 rounded-xl font-black text-xs shadow-sm flex items-center gap-2 transition-all active:scale-95"
+              >
+                <Barcode className="w-4 h-4" />
+                CEK NO. SERI
+              </button>
+              <button 
+                onClick={() => setShowAddModal(true)}
+                className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-black text-xs shadow-sm shadow-blue-100 flex items-center gap-2 transition-all active:scale-95"
+              >
+                <Plus className="w-4 h-4" />
+                TAMBAH PRODUK BARU
+              </button>
+            </div>
           </header>
 
           <div className="flex flex-col md:flex-row gap-4 mb-6">
@@ -161,6 +239,7 @@ export default function Inventory() {
                     <th className="px-6 py-4">Kategori</th>
                     <th className="px-6 py-4">Stok</th>
                     <th className="px-6 py-4">Harga Modal</th>
+                    <th className="px-6 py-4">Harga Jual</th>
                     <th className="px-6 py-4 text-right">Aksi</th>
                   </tr>
                 </thead>
@@ -168,7 +247,7 @@ export default function Inventory() {
                   {filteredProducts.map((product) => (
                     <tr 
                       key={product.id} 
-                      className={`hover:bg-gray-50/50 transition-colors ${product.stock_qty < 2 ? 'bg-red-50/30' : ''}`}
+                      className={`hover:bg-gray-50/50 transition-colors ${product.stock_qty < 2 ? 'bg-red-50/30' : ''} ${product.is_active ? '' : 'opacity-50'}`}
                     >
                       <td className="px-6 py-4">
                         <div className="flex items-center gap-3">
@@ -176,8 +255,21 @@ export default function Inventory() {
                             <Package className="w-5 h-5 text-gray-400" />
                           </div>
                           <div>
-                            <p className="font-bold text-gray-800 text-sm">{product.name}</p>
-                            <p className="text-[10px] font-mono text-gray-400">{product.sku}</p>
+                            <p className="font-bold text-gray-800 text-sm">
+                              {product.name}
+                              {product.is_second_hand && (
+                                <span className="ml-2 text-[9px] font-black px-1.5 py-0.5 rounded bg-purple-50 text-purple-600 align-middle">BEKAS</span>
+                              )}
+                              {!product.is_active && (
+                                <span className="ml-2 text-[9px] font-black px-1.5 py-0.5 rounded bg-gray-100 text-gray-500 align-middle">NONAKTIF</span>
+                              )}
+                            </p>
+                            <p className="text-[10px] font-mono text-gray-400">
+                              {product.sku}
+                              {product.track_units && (
+                                <span className="ml-2 font-sans text-[9px] font-black px-1.5 py-0.5 rounded bg-blue-50 text-blue-600">PER UNIT</span>
+                              )}
+                            </p>
                           </div>
                         </div>
                       </td>
@@ -202,14 +294,50 @@ export default function Inventory() {
                       <td className="px-6 py-4 font-medium text-gray-600 text-sm">
                         {formatRupiah(product.base_price)}
                       </td>
+                      <td className="px-6 py-4 text-sm">
+                        {product.cash_price !== null && product.credit_price !== null ? (
+                          <>
+                            <p className="font-bold text-gray-800">{formatRupiah(product.cash_price)} <span className="text-[10px] text-gray-400">tunai</span></p>
+                            <p className="font-bold text-blue-600">{formatRupiah(product.credit_price)} <span className="text-[10px] text-gray-400">kredit</span></p>
+                            {!product.has_own_price && <p className="text-[9px] font-black text-gray-400 uppercase">Aturan markup</p>}
+                          </>
+                        ) : (
+                          <span className="text-[10px] font-black text-amber-600 uppercase">Belum diatur</span>
+                        )}
+                      </td>
                       <td className="px-6 py-4 text-right">
-                        <button 
-                          onClick={() => setRestockId(product.id)}
-                          className="px-3 py-1.5 bg-emerald-50 text-emerald-600 rounded-lg text-xs font-bold hover:bg-emerald-100 transition-all flex items-center gap-1 ml-auto"
-                        >
-                          <ArrowUpCircle className="w-3 h-3" />
-                          RESTOCK
-                        </button>
+                        <div className="flex items-center justify-end gap-2">
+                          <button 
+                            onClick={() => setEditProductId(product.id)}
+                            title="Ubah produk"
+                            className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all"
+                          >
+                            <Pencil className="w-3 h-3" />
+                          </button>
+                          {product.track_units && (
+                            <button 
+                              onClick={() => setUnitsProduct(product)}
+                              className="px-3 py-1.5 bg-blue-50 text-blue-600 rounded-lg text-xs font-bold hover:bg-blue-100 transition-all flex items-center gap-1"
+                            >
+                              <Barcode className="w-3 h-3" />
+                              UNIT
+                            </button>
+                          )}
+                          <button 
+                            onClick={() => setHistoryProduct(product)}
+                            className="px-3 py-1.5 bg-gray-50 text-gray-600 rounded-lg text-xs font-bold hover:bg-gray-100 transition-all flex items-center gap-1"
+                          >
+                            <History className="w-3 h-3" />
+                            KARTU STOK
+                          </button>
+                          <button 
+                            onClick={() => setRestockTarget(product)}
+                            className="px-3 py-1.5 bg-emerald-50 text-emerald-600 rounded-lg text-xs font-bold hover:bg-emerald-100 transition-all flex items-center gap-1"
+                          >
+                            <ArrowUpCircle className="w-3 h-3" />
+                            RESTOCK
+                          </button>
+                        </div>
                       </td>
                     </tr>
                   ))}
@@ -242,27 +370,59 @@ export default function Inventory() {
       )}
 
       {/* Restock Prompt */}
-      {restockId && (
+      {restockTarget && (
         <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 text-center">
-          <div className="absolute inset-0 bg-gray-900/40 backdrop-blur-xs" onClick={() => setRestockId(null)}></div>
+          <div className="absolute inset-0 bg-gray-900/40 backdrop-blur-xs" onClick={() => setRestockTarget(null)}></div>
           <div className="relative bg-white rounded-3xl shadow-2xl p-8 w-full max-w-sm">
             <ArrowUpCircle className="w-12 h-12 text-emerald-500 mx-auto mb-4" />
             <h3 className="text-xl font-black text-gray-800 mb-2 uppercase tracking-tighter">Tambah Stok</h3>
-            <p className="text-gray-400 text-sm mb-6">Berapa jumlah barang yang masuk ke gudang?</p>
+            <p className="text-gray-400 text-sm mb-6">
+              {restockTarget.track_units
+                ? restockTarget.category === 'VEHICLE'
+                  ? 'Satu unit per baris: No. Mesin / No. Rangka'
+                  : 'Satu unit per baris: Nomor Seri / IMEI (opsional)'
+                : 'Berapa jumlah barang yang masuk ke gudang?'}
+            </p>
             
             <form onSubmit={handleRestock}>
-              <input 
-                type="number" 
-                min="1"
-                autoFocus
-                value={restockValue}
-                onChange={(e) => setRestockValue(parseInt(e.target.value))}
-                className="w-full h-16 text-center text-3xl font-black bg-gray-50 border-2 border-gray-100 rounded-2xl mb-6 focus:border-emerald-500 focus:bg-white transition-all outline-none"
+              {restockTarget.track_units ? (
+                <>
+                  <textarea
+                    autoFocus
+                    rows={5}
+                    value={restockUnitLines}
+                    onChange={(e) => setRestockUnitLines(e.target.value)}
+                    className="w-full p-3 text-xs font-mono bg-gray-50 border-2 border-gray-100 rounded-2xl mb-2 focus:border-emerald-500 focus:bg-white transition-all outline-none text-left"
+                  />
+                  <p className="text-[10px] font-bold text-gray-400 mb-6">
+                    {parseUnitLines(restockUnitLines, restockTarget.category).length} unit
+                  </p>
+                </>
+              ) : (
+                <input 
+                  type="number" 
+                  min="1"
+                  autoFocus
+                  value={restockValue}
+                  onChange={(e) => setRestockValue(parseInt(e.target.value))}
+                  className="w-full h-16 text-center text-3xl font-black bg-gray-50 border-2 border-gray-100 rounded-2xl mb-6 focus:border-emerald-500 focus:bg-white transition-all outline-none"
+                />
+              )}
+              <label className="block text-left text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1">
+                Harga beli / unit (opsional)
+              </label>
+              <input
+                type="number"
+                min="0"
+                value={restockCost}
+                onChange={(e) => setRestockCost(e.target.value)}
+                placeholder={`HPP saat ini ${formatRupiah(restockTarget.base_price)}`}
+                className="w-full p-3 text-sm font-bold bg-gray-50 border-2 border-gray-100 rounded-2xl mb-6 focus:border-emerald-500 focus:bg-white transition-all outline-none"
               />
               <div className="flex gap-3">
                 <button 
                   type="button"
-                  onClick={() => setRestockId(null)}
+                  onClick={() => setRestockTarget(null)}
                   className="flex-1 py-3 text-sm font-bold text-gray-400 hover:bg-gray-50 rounded-xl transition-all"
                 >
                   BATAL
@@ -278,6 +438,34 @@ export default function Inventory() {
           </div>
         </div>
       )}
+
+      {historyProduct && (
+        <StockMovementsModal
+          product={historyProduct}
+          onClose={() => setHistoryProduct(null)}
+          onAdjusted={loadProducts}
+        />
+      )}
+
+      {editProductId !== null && (
+        <ProductEditModal
+          productId={editProductId}
+          onClose={() => setEditProductId(null)}
+          onSaved={loadProducts}
+        />
+      )}
+
+      {showValuation && (
+        <InventoryValuationModal category={filterCategory || undefined} onClose={() => setShowValuation(false)} />
+      )}
+
+      {unitsProduct && (
+        <ProductUnitsModal product={unitsProduct} onClose={() => setUnitsProduct(null)} />
+      )}
+
+      {showUnitLookup && (
+        <ProductUnitsModal onClose={() => setShowUnitLookup(false)} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,308 @@
+import { useState, useEffect } from 'react';
+import {
+  fetchSchemes,
+  setSchemeActive,
+  previewSchemes,
+  getErrorMessage,
+  type LoanScheme,
+  type SchemePreview,
+} from '../services/api';
+import { Percent, Plus, Pencil, Power, Calculator, X } from 'lucide-react';
+import SchemeForm from '../components/SchemeForm';
+import { INTEREST_METHOD_LABELS } from '../constants/interestMethods';
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export default function LoanSchemes() {
+  const [schemes, setSchemes] = useState<LoanScheme[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<LoanScheme | 'new' | null>(null);
+  const [samplePrice, setSamplePrice] = useState(5000000);
+  const [previews, setPreviews] = useState<SchemePreview[]>([]);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  useEffect(() => {
+    loadSchemes();
+  }, []);
+
+  const loadSchemes = async () => {
+    try {
+      setIsLoading(true);
+      setSchemes(await fetchSchemes(true));
+    } catch {
+      console.error('Failed to load schemes');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (scheme: LoanScheme) => {
+    const action = scheme.is_active ? 'menonaktifkan' : 'mengaktifkan';
+    if (!window.confirm(`Yakin ingin ${action} skema "${scheme.name}"?`)) return;
+
+    try {
+      await setSchemeActive(scheme.id, !scheme.is_active);
+      loadSchemes();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal mengubah status skema'));
+    }
+  };
+
+  const handlePreview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isNaN(samplePrice) || samplePrice <= 0) return;
+
+    try {
+      setIsPreviewing(true);
+      setPreviews(await previewSchemes(samplePrice));
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal menghitung simulasi'));
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSaved = () => {
+    setEditing(null);
+    loadSchemes();
+    setPreviews([]);
+  };
+
+  // Promo window status; valid_until counts for the whole day
+  const getPromoStatus = (scheme: LoanScheme): 'SCHEDULED' | 'EXPIRED' | null => {
+    const now = new Date();
+    if (scheme.valid_from && now < new Date(scheme.valid_from)) return 'SCHEDULED';
+    if (scheme.valid_until) {
+      const end = new Date(scheme.valid_until);
+      end.setHours(23, 59, 59, 999);
+      if (now > end) return 'EXPIRED';
+    }
+    return null;
+  };
+
+  const formatDate = (dateStr: string) => new Date(dateStr).toLocaleDateString('id-ID');
+
+  const formatRupiah = (value: string | number) => {
+    const num = typeof value === 'string' ? parseFloat(value) : value;
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(num);
+  };
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-50 overflow-hidden">
+      <main className="flex-1 p-6 overflow-y-auto">
+        <div className="max-w-6xl mx-auto">
+          <header className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+            <div>
+              <h1 className="text-2xl font-black text-gray-800 tracking-tighter uppercase">Skema Kredit</h1>
+              <p className="text-gray-400 text-sm">Atur bunga, DP minimal, tenor dan denda untuk transaksi baru</p>
+            </div>
+
+            <button
+              onClick={() => setEditing('new')}
+              className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-black text-xs shadow-sm shadow-blue-100 flex items-center gap-2 transition-all active:scale-95"
+            >
+              <Plus className="w-4 h-4" />
+              TAMBAH SKEMA
+            </button>
+          </header>
+
+          {isLoading ? (
+            <div className="flex justify-center py-20">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden mb-8">
+              <table className="w-full text-left">
+                <thead>
+                  <tr className="bg-gray-50/50 text-[10px] font-bold text-gray-400 uppercase tracking-widest border-b border-gray-100">
+                    <th className="px-6 py-4">Skema</th>
+                    <th className="px-6 py-4">Bunga</th>
+                    <th className="px-6 py-4">DP Min</th>
+                    <th className="px-6 py-4">Tenor</th>
+                    <th className="px-6 py-4">Denda / Hari</th>
+                    <th className="px-6 py-4">Diskon Pelunasan</th>
+                    <th className="px-6 py-4 text-right">Aksi</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-50 text-sm">
+                  {schemes.map((scheme) => (
+                    <tr key={scheme.id} className={`hover:bg-gray-50/50 transition-colors ${scheme.is_active ? '' : 'opacity-50'}`}>
+                      <td className="px-6 py-4">
+                        <div className="flex items-center gap-3">
+                          <div className="w-10 h-10 rounded-xl bg-gray-100 border border-gray-100 flex items-center justify-center">
+                            <Percent className="w-5 h-5 text-gray-400" />
+                          </div>
+                          <div>
+                            <p className="font-bold text-gray-800">{scheme.name}</p>
+                            <span className={`text-[10px] font-black px-2 py-0.5 rounded ${
+                              scheme.is_active ? 'bg-emerald-50 text-emerald-600' : 'bg-gray-100 text-gray-400'
+                            }`}>
+                              {scheme.is_active ? 'AKTIF' : 'NONAKTIF'}
+                            </span>
+                            {getPromoStatus(scheme) === 'SCHEDULED' && (
+                              <span className="ml-1 text-[10px] font-black px-2 py-0.5 rounded bg-blue-50 text-blue-600">TERJADWAL</span>
+                            )}
+                            {getPromoStatus(scheme) === 'EXPIRED' && (
+                              <span className="ml-1 text-[10px] font-black px-2 py-0.5 rounded bg-amber-50 text-amber-600">BERAKHIR</span>
+                            )}
+                            {(scheme.valid_from || scheme.valid_until) && (
+                              <p className="text-[10px] text-gray-400 mt-1">
+                                Promo {scheme.valid_from ? formatDate(scheme.valid_from) : '...'} – {scheme.valid_until ? formatDate(scheme.valid_until) : '...'}
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <p className="font-black text-gray-700">{parseFloat(scheme.interest_rate)}%</p>
+                        <p className="text-[10px] font-bold text-blue-600">{INTEREST_METHOD_LABELS[scheme.interest_method]}</p>
+                      </td>
+                      <td className="px-6 py-4 text-gray-600">{parseFloat(scheme.min_dp_percent)}%</td>
+                      <td className="px-6 py-4 text-gray-600">{scheme.tenor_options.join(', ')} bln</td>
+                      <td className="px-6 py-4 text-gray-600">
+                        {formatRupiah(scheme.penalty_fee_daily)}
+                        {scheme.penalty_grace_days > 0 && (
+                          <p className="text-[10px] text-gray-400">Tenggang {scheme.penalty_grace_days} hari</p>
+                        )}
+                        {scheme.charges.length > 0 && (
+                          <p className="text-[10px] text-gray-400">
+                            Biaya: {scheme.charges.map((c) => c.name).join(', ')}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-gray-600">{parseFloat(scheme.early_payoff_discount_percent)}%</td>
+                      <td className="px-6 py-4">
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => setEditing(scheme)}
+                            className="px-3 py-1.5 bg-blue-50 text-blue-600 rounded-lg text-xs font-bold hover:bg-blue-100 transition-all flex items-center gap-1"
+                          >
+                            <Pencil className="w-3 h-3" />
+                            UBAH
+                          </button>
+                          <button
+                            onClick={() => handleToggleActive(scheme)}
+                            className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all flex items-center gap-1 ${
+                              scheme.is_active
+                                ? 'bg-red-50 text-red-600 hover:bg-red-100'
+                                : 'bg-emerald-50 text-emerald-600 hover:bg-emerald-100'
+                            }`}
+                          >
+                            <Power className="w-3 h-3" />
+                            {scheme.is_active ? 'NONAKTIFKAN' : 'AKTIFKAN'}
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Preview: sample price across every scheme */}
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+            <form onSubmit={handlePreview} className="flex flex-col md:flex-row md:items-end gap-4 mb-6">
+              <div className="flex-1">
+                <h2 className="font-black text-gray-800 uppercase tracking-tighter flex items-center gap-2">
+                  <Calculator className="w-4 h-4 text-blue-500" />
+                  Simulasi Harga Contoh
+                </h2>
+                <p className="text-xs text-gray-400">Cicilan per bulan dengan DP minimal tiap skema</p>
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase">Harga Barang (Rp)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={samplePrice}
+                  onChange={(e) => setSamplePrice(parseFloat(e.target.value))}
+                  className="px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-bold text-gray-700 outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isPreviewing}
+                className="px-6 py-2.5 bg-gray-800 hover:bg-gray-900 disabled:bg-gray-300 text-white rounded-xl font-black text-xs transition-all"
+              >
+                {isPreviewing ? 'MENGHITUNG...' : 'HITUNG'}
+              </button>
+            </form>
+
+            {previews.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {previews.map((preview) => (
+                  <div
+                    key={preview.schemeId}
+                    className={`p-4 rounded-xl border border-gray-100 ${preview.isActive ? '' : 'opacity-50'}`}
+                  >
+                    <div className="flex justify-between items-start mb-3">
+                      <div>
+                        <p className="font-bold text-gray-800">{preview.name}</p>
+                        <p className="text-[10px] text-gray-400">
+                          {parseFloat(preview.interestRate)}% {INTEREST_METHOD_LABELS[preview.interestMethod]} • DP {formatRupiah(preview.dp)}
+                          {parseFloat(preview.upfrontCharges) > 0 && <> + biaya {formatRupiah(preview.upfrontCharges)}</>}
+                        </p>
+                      </div>
+                      <p className="text-[10px] font-bold text-gray-400 uppercase">Pokok {formatRupiah(preview.principal)}</p>
+                    </div>
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-[10px] font-bold text-gray-400 uppercase border-b border-gray-50">
+                          <th className="py-1 text-left">Tenor</th>
+                          <th className="py-1 text-right">Cicilan / Bln</th>
+                          <th className="py-1 text-right">Total Bunga</th>
+                          <th className="py-1 text-right">Total Kredit</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-50">
+                        {preview.options.map((option) => (
+                          <tr key={option.tenorMonths}>
+                            <td className="py-1.5 font-bold text-gray-600">{option.tenorMonths} bln</td>
+                            <td className="py-1.5 text-right font-black text-blue-600">{formatRupiah(option.monthlyInstallment)}</td>
+                            <td className="py-1.5 text-right text-orange-600">{formatRupiah(option.interestAmount)}</td>
+                            <td className="py-1.5 text-right text-gray-700">{formatRupiah(option.totalLoan)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+
+      {/* Create / Edit Scheme Modal */}
+      {editing && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-gray-900/60 backdrop-blur-sm" onClick={() => setEditing(null)}></div>
+          <div className="relative bg-white rounded-3xl shadow-2xl w-full max-w-lg overflow-hidden animate-in fade-in zoom-in duration-200">
+            <div className="p-6 border-b border-gray-100 flex justify-between items-center">
+              <h2 className="text-xl font-black text-gray-800 tracking-tighter uppercase">
+                {editing === 'new' ? 'Tambah Skema Kredit' : 'Ubah Skema Kredit'}
+              </h2>
+              <button onClick={() => setEditing(null)} className="p-2 hover:bg-gray-100 rounded-full transition-all text-gray-400">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-6 max-h-[80vh] overflow-y-auto">
+              <SchemeForm
+                scheme={editing === 'new' ? undefined : editing}
+                onSuccess={handleSaved}
+                onCancel={() => setEditing(null)}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,29 +1,42 @@
 // POSPage: Main dashboard for product selection and transaction processing
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { useReactToPrint } from 'react-to-print';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { 
   fetchProducts, 
-  fetchSchemes,
+  fetchProductUnits,
+  fetchEligibleSchemes,
   simulateCredit, 
   createTransaction, 
+  createCashSale,
   fetchCustomers,
   createCustomer,
+  getErrorMessage,
   type Product, 
+  type ProductUnit,
   type SimulationResult,
   type LoanScheme,
-  type Customer
+  type Customer,
+  type CustomerType,
+  type SaleType,
+  type PaymentMethod,
+  type CashSale
 } from '../services/api';
-import { UserPlus, Users, X, Search, ShoppingBag, ReceiptText, ChevronRight, Info, LayoutGrid, Monitor, Sofa, Car, CreditCard } from 'lucide-react';
+import { UserPlus, Users, X, Search, ShoppingBag, ReceiptText, ChevronRight, Info, LayoutGrid, Monitor, Sofa, Car, CreditCard, Printer, CheckCircle2, Minus, Plus } from 'lucide-react';
 import { PRODUCT_TYPES } from '../constants/productTypes';
+import { INTEREST_METHOD_LABELS } from '../constants/interestMethods';
+import { CUSTOMER_TYPE_LABELS } from '../constants/customerTypes';
+import { useOperator } from '../services/session';
+import { CashInvoice } from '../components/printables/CashInvoice';
+import { formatUnit } from '../constants/productUnits';
 
 // ============================================================================
 // SCHEMA
 // ============================================================================
 
 const posSchema = z.object({
-  productId: z.number().int().min(1, 'Pilih produk terlebih dahulu'),
   customerId: z.number().int().min(1, 'Pilih customer terlebih dahulu'),
   dp: z.number().min(0, 'DP tidak boleh negatif'),
   tenorMonths: z.number().int().min(1, 'Pilih tenor'),
@@ -32,6 +45,23 @@ const posSchema = z.object({
 
 type POSFormData = z.infer<typeof posSchema>;
 
+interface CartLine {
+  product: Product;
+  quantity: number;
+  discount: number; // Rupiah, for the whole line
+  availableUnits: ProductUnit[]; // Per-unit products: sellable units to pick from
+  unitIds: number[]; // Per-unit products: one picked unit per quantity
+}
+
+// Cash and credit sales are priced differently; base_price is the cost and never a selling price
+const unitPrice = (product: Product, saleType: SaleType) => {
+  const price = saleType === 'CASH' ? product.cash_price : product.credit_price;
+  return price === null ? 0 : parseFloat(price);
+};
+
+const lineTotal = (line: CartLine, saleType: SaleType) =>
+  unitPrice(line.product, saleType) * line.quantity - line.discount;
+
 // ============================================================================
 // HELPER: Format currency
 // ============================================================================
@@ -51,9 +81,11 @@ function formatRupiah(value: string | number): string {
 // ============================================================================
 
 export default function POSPage() {
+  const operator = useOperator();
   const [products, setProducts] = useState<Product[]>([]);
+  const [schemes, setSchemes] = useState<LoanScheme[]>([]);
   const [activeScheme, setActiveScheme] = useState<LoanScheme | null>(null);
-  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [cart, setCart] = useState<CartLine[]>([]);
   const [filterCategory, setFilterCategory] = useState<string>('ALL');
   const [filterSubCategory, setFilterSubCategory] = useState<string>('ALL');
   const [productSearch, setProductSearch] = useState('');
@@ -62,17 +94,28 @@ export default function POSPage() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Cash sales skip the scheme and simulation; the last one stays printable
+  const [saleType, setSaleType] = useState<SaleType>('CREDIT');
+  const [cashMethod, setCashMethod] = useState<PaymentMethod>('CASH');
+  const [lastCashSale, setLastCashSale] = useState<CashSale | null>(null);
+  const cashInvoiceRef = useRef<HTMLDivElement>(null);
+
+  const handlePrintCashInvoice = useReactToPrint({
+    contentRef: cashInvoiceRef,
+    documentTitle: 'Faktur-Tunai-Amali',
+  });
+
   const {
     register,
     handleSubmit,
     setValue,
+    getValues,
     watch,
     formState: { errors },
     reset,
   } = useForm<POSFormData>({
     resolver: zodResolver(posSchema),
     defaultValues: {
-      productId: 0,
       customerId: 0,
       dp: 0,
       tenorMonths: 6,
@@ -85,34 +128,66 @@ export default function POSPage() {
   const [matchingCustomers, setMatchingCustomers] = useState<Customer[]>([]);
   const [selectedCustomer, setSelectedCustomerInState] = useState<Customer | null>(null);
   const [showAddCustomerModal, setShowAddCustomerModal] = useState(false);
-  const [newCustomer, setNewCustomer] = useState({ nik: '', name: '', phone: '', address: '' });
+  const [newCustomer, setNewCustomer] = useState({ nik: '', name: '', phone: '', address: '', customer_type: 'REGULAR' as CustomerType });
 
   const watchedDp = watch('dp');
   const watchedTenor = watch('tenorMonths');
 
-  // Load products and schemes on mount
+  // Credit and cash sales both run over the cart total
+  const cartTotal = cart.reduce((sum, line) => sum + lineTotal(line, saleType), 0);
+
+  // Load products on mount
   useEffect(() => {
     loadProducts();
-    loadSchemes();
   }, []);
 
-  const loadSchemes = async () => {
-    try {
-      const data = await fetchSchemes();
-      if (data.length > 0) {
-        setActiveScheme(data[0]); 
-      }
-    } catch (err) {
-      console.error('Failed to load schemes');
+  // Eligible schemes depend on every product in the cart and (once chosen) the customer
+  const customerId = selectedCustomer?.id;
+  useEffect(() => {
+    if (saleType === 'CASH') return;
+    if (cart.length === 0) {
+      setSchemes([]);
+      setActiveScheme(null);
+      return;
     }
+
+    let cancelled = false;
+    fetchEligibleSchemes(cart.map((line) => line.product.id), customerId, cartTotal)
+      .then((data) => {
+        if (cancelled) return;
+        setSchemes(data);
+        // Keep the cashier's pick if it is still eligible
+        setActiveScheme((current) => data.find(s => s.id === current?.id) ?? data[0] ?? null);
+      })
+      .catch(() => console.error('Failed to load schemes'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cart, customerId, saleType, cartTotal]);
+
+  // Tenor and DP must fit the chosen scheme (and the DP floor grows with the cart)
+  useEffect(() => {
+    if (!activeScheme) return;
+
+    if (!activeScheme.tenor_options.includes(getValues('tenorMonths'))) {
+      setValue('tenorMonths', activeScheme.tenor_options[0]);
+    }
+    const minDp = Math.ceil(cartTotal * parseFloat(activeScheme.min_dp_percent) / 100);
+    if (getValues('dp') < minDp) setValue('dp', minDp);
+  }, [activeScheme, cartTotal, getValues, setValue]);
+
+  const handleSchemeSelect = (scheme: LoanScheme) => {
+    setActiveScheme(scheme);
+    setSimulation(null);
   };
 
-  // Recalculate simulation when product, DP, or tenor changes
+  // Recalculate simulation when cart, scheme, DP, or tenor changes
   useEffect(() => {
-    if (selectedProduct && watchedTenor) {
+    if (saleType === 'CREDIT' && cart.length > 0 && watchedTenor) {
       handleSimulate();
     }
-  }, [selectedProduct, watchedDp, watchedTenor]);
+  }, [cart, activeScheme, watchedDp, watchedTenor, saleType]);
 
   // Reload products when filters change
   useEffect(() => {
@@ -169,7 +244,7 @@ export default function POSPage() {
       const created = await createCustomer(newCustomer);
       handleSelectCustomer(created);
       setShowAddCustomerModal(false);
-      setNewCustomer({ nik: '', name: '', phone: '', address: '' });
+      setNewCustomer({ nik: '', name: '', phone: '', address: '', customer_type: 'REGULAR' });
     } catch (err: any) {
       const errorData = err.response?.data?.error;
       const message = Array.isArray(errorData) 
@@ -179,21 +254,113 @@ export default function POSPage() {
     }
   };
 
-  const handleProductSelect = (product: Product) => {
-    if (product.stock_qty < 1) return;
-    setSelectedProduct(product);
-    setValue('productId', product.id);
-    const defaultDp = Math.ceil(parseFloat(product.base_price) * 0.1);
-    setValue('dp', defaultDp);
+  const updateCart = (next: CartLine[], type: SaleType = saleType) => {
+    setCart(next);
+    const total = next.reduce((sum, line) => sum + lineTotal(line, type), 0);
+    setValue('dp', Math.ceil(total * 0.1));
     setSimulation(null);
   };
 
+  // Switching between cash and credit reprices the whole cart
+  const handleSaleTypeChange = (type: SaleType) => {
+    setSaleType(type);
+    updateCart(cart, type);
+  };
+
+  // Clicking a product adds it to the cart, or one more unit if it is already there
+  const handleProductSelect = async (product: Product) => {
+    const existing = cart.find((line) => line.product.id === product.id);
+    if (product.stock_qty < (existing?.quantity ?? 0) + 1) return;
+    if (product.cash_price === null || product.credit_price === null) {
+      alert(`Harga jual "${product.name}" belum diatur. Atur harga jual atau aturan markup di Inventaris.`);
+      return;
+    }
+
+    if (existing) {
+      handleQuantityChange(product.id, existing.quantity + 1);
+      return;
+    }
+
+    // Per-unit products: load the sellable units and pick the first one
+    let availableUnits: ProductUnit[] = [];
+    if (product.track_units) {
+      try {
+        availableUnits = await fetchProductUnits(product.id, ['IN_STOCK', 'REPOSSESSED']);
+      } catch (err) {
+        alert(getErrorMessage(err, 'Gagal memuat unit produk'));
+        return;
+      }
+      if (availableUnits.length === 0) {
+        alert(`Tidak ada unit "${product.name}" yang siap jual`);
+        return;
+      }
+    }
+
+    updateCart([
+      ...cart,
+      { product, quantity: 1, discount: 0, availableUnits, unitIds: availableUnits.slice(0, 1).map((unit) => unit.id) },
+    ]);
+  };
+
+  // Per-unit lines add the next free unit or drop the last picked one
+  const handleQuantityChange = (productId: number, quantity: number) => {
+    updateCart(
+      cart
+        .map((line) => {
+          if (line.product.id !== productId) return line;
+          const capped = Math.min(quantity, line.product.stock_qty);
+          if (!line.product.track_units) return { ...line, quantity: capped };
+
+          const free = line.availableUnits.filter((unit) => !line.unitIds.includes(unit.id)).map((unit) => unit.id);
+          const unitIds = [...line.unitIds, ...free].slice(0, capped);
+          return { ...line, quantity: unitIds.length, unitIds };
+        })
+        .filter((line) => line.quantity > 0)
+    );
+  };
+
+  const handleUnitToggle = (productId: number, unitId: number) => {
+    updateCart(
+      cart
+        .map((line) => {
+          if (line.product.id !== productId) return line;
+          const unitIds = line.unitIds.includes(unitId)
+            ? line.unitIds.filter((id) => id !== unitId)
+            : [...line.unitIds, unitId];
+          return { ...line, quantity: unitIds.length, unitIds };
+        })
+        .filter((line) => line.quantity > 0)
+    );
+  };
+
+  const handleDiscountChange = (productId: number, discount: number) => {
+    updateCart(cart.map((line) =>
+      line.product.id === productId ? { ...line, discount: Math.max(0, discount || 0) } : line
+    ));
+  };
+
+  const resetSale = () => {
+    setCart([]);
+    setSelectedCustomerInState(null);
+    setCustomerSearch('');
+    reset();
+    loadProducts(); // Refresh stock
+  };
+
+  const cartItems = () =>
+    cart.map((line) => ({
+      productId: line.product.id,
+      quantity: line.quantity,
+      discount: line.discount,
+      ...(line.product.track_units ? { unitIds: line.unitIds } : {}),
+    }));
+
   const handleSimulate = async () => {
-    if (!selectedProduct || !activeScheme) return;
+    if (cart.length === 0 || !activeScheme) return;
     
     try {
       const result = await simulateCredit({
-        price: parseFloat(selectedProduct.base_price),
+        price: cartTotal,
         dp: watchedDp,
         schemeId: activeScheme.id,
         tenorMonths: watchedTenor,
@@ -208,24 +375,25 @@ export default function POSPage() {
   };
 
   const onSubmit = async (data: POSFormData) => {
-    if (!selectedProduct) return;
+    if (cart.length === 0) return;
+    if (!activeScheme) {
+      setError('Tidak ada skema kredit yang berlaku untuk transaksi ini');
+      return;
+    }
     setIsProcessing(true);
     setError(null);
 
     try {
       const result = await createTransaction({
         ...data,
-        price: parseFloat(selectedProduct.base_price),
-        schemeId: activeScheme?.id || 0,
+        items: cartItems(),
+        schemeId: activeScheme.id,
+        cashier: operator,
       });
 
       if (result.success) {
         alert(`Sukses! Transaksi ${result.data.contractId} berhasil dibuat.`);
-        setSelectedProduct(null);
-        setSelectedCustomerInState(null);
-        setCustomerSearch('');
-        reset();
-        loadProducts(); // Refresh stock
+        resetSale();
       }
     } catch (err: any) {
       setError(err.response?.data?.error || 'Gagal memproses transaksi');
@@ -234,6 +402,31 @@ export default function POSPage() {
     }
   };
 
+  const handleCashSale = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (cart.length === 0) return;
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const result = await createCashSale({
+        items: cartItems(),
+        ...(selectedCustomer ? { customerId: selectedCustomer.id } : {}),
+        method: cashMethod,
+        cashier: operator,
+      });
+
+      if (result.success) {
+        setLastCashSale(result.data);
+        resetSale();
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, 'Gagal memproses penjualan tunai'));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   const filteredProducts = products.filter(p => {
     const matchCategory = filterCategory === 'ALL' || p.category === filterCategory;
     const matchSubCategory = filterSubCategory === 'ALL' || p.sub_category === filterSubCategory;
@@ -355,7 +548,7 @@ export default function POSPage() {
                   onClick={() => handleProductSelect(p)}
                   disabled={p.stock_qty < 1}
                   className={`group relative flex flex-col text-left bg-white rounded-3xl p-5 border-2 transition-all duration-300 hover:-translate-y-1 ${
-                    selectedProduct?.id === p.id
+                    cart.some((line) => line.product.id === p.id)
                       ? 'border-blue-500 ring-4 ring-blue-500/10 shadow-xl z-10'
                       : p.stock_qty < 1
                       ? 'border-slate-100 opacity-60 grayscale cursor-not-allowed'
@@ -381,15 +574,27 @@ export default function POSPage() {
                   <h3 className="font-bold text-slate-800 leading-tight mb-1 line-clamp-2 group-hover:text-blue-700 transition-colors">
                     {p.name}
                   </h3>
-                  <p className="text-xs text-slate-400 font-mono mb-6">{p.sku}</p>
+                  <p className="text-xs text-slate-400 font-mono mb-6">
+                    {p.sku}
+                    {p.is_second_hand && (
+                      <span className="ml-2 font-sans text-[10px] font-black px-1.5 py-0.5 rounded bg-purple-50 text-purple-600">BEKAS</span>
+                    )}
+                  </p>
 
                   <div className="mt-auto flex items-end justify-between">
                     <div>
-                      <p className="text-[10px] font-bold text-slate-400 uppercase">Harga Cash</p>
-                      <p className="text-lg font-black text-slate-900">{formatRupiah(p.base_price)}</p>
+                      {p.cash_price !== null && p.credit_price !== null ? (
+                        <>
+                          <p className="text-[10px] font-bold text-slate-400 uppercase">Harga Cash</p>
+                          <p className="text-lg font-black text-slate-900">{formatRupiah(p.cash_price)}</p>
+                          <p className="text-[10px] font-bold text-blue-500">Kredit {formatRupiah(p.credit_price)}</p>
+                        </>
+                      ) : (
+                        <p className="text-[10px] font-bold text-amber-600 uppercase">Harga jual belum diatur</p>
+                      )}
                     </div>
                     <div className={`w-8 h-8 rounded-full flex items-center justify-center transition-colors ${
-                      selectedProduct?.id === p.id ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-300 group-hover:bg-blue-50 group-hover:text-blue-600'
+                      cart.some((line) => line.product.id === p.id) ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-300 group-hover:bg-blue-50 group-hover:text-blue-600'
                     }`}>
                       <ChevronRight className="w-5 h-5" />
                     </div>
@@ -420,7 +625,7 @@ export default function POSPage() {
             <div>
               <h2 className="text-lg font-black text-slate-900 leading-none">Keranjang</h2>
               <p className="text-xs text-slate-500 font-medium mt-1">
-                {selectedProduct ? '1 Item Terpilih' : 'Menunggu Pilihan'}
+                {cart.length > 0 ? `${cart.length} Item Terpilih` : 'Menunggu Pilihan'}
               </p>
             </div>
           </div>
@@ -428,37 +633,115 @@ export default function POSPage() {
 
         {/* Sidebar Content */}
         <div className="flex-1 overflow-y-auto p-6 space-y-6">
-          {!selectedProduct ? (
-            <div className="h-full flex flex-col items-center justify-center text-center opacity-60 pb-20">
-              <div className="w-20 h-20 bg-slate-50 rounded-full flex items-center justify-center mb-4 animate-pulse">
-                <ShoppingBag className="w-8 h-8 text-slate-300" />
+          {cart.length === 0 ? (
+            <>
+              {lastCashSale && (
+                <div className="p-4 bg-emerald-50 rounded-2xl">
+                  <div className="flex items-center gap-2 mb-2">
+                    <CheckCircle2 className="w-4 h-4 text-emerald-600" />
+                    <span className="text-xs font-black text-emerald-700 uppercase">Penjualan Tunai Berhasil</span>
+                  </div>
+                  <p className="text-sm font-bold text-slate-700">
+                    {lastCashSale.items[0]?.name}
+                    {lastCashSale.items.length > 1 && ` +${lastCashSale.items.length - 1} lainnya`}
+                  </p>
+                  <p className="text-[10px] text-slate-500 font-mono mb-3">
+                    {lastCashSale.invoiceNo} • {formatRupiah(lastCashSale.total)}
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => handlePrintCashInvoice()}
+                    className="w-full py-2 bg-white border border-emerald-200 rounded-xl text-xs font-black text-emerald-700 hover:bg-emerald-100 transition-all flex items-center justify-center gap-2"
+                  >
+                    <Printer className="w-4 h-4" />
+                    CETAK FAKTUR
+                  </button>
+                </div>
+              )}
+              <div className="h-full flex flex-col items-center justify-center text-center opacity-60 pb-20">
+                <div className="w-20 h-20 bg-slate-50 rounded-full flex items-center justify-center mb-4 animate-pulse">
+                  <ShoppingBag className="w-8 h-8 text-slate-300" />
+                </div>
+                <p className="text-sm font-bold text-slate-400">Pilih produk di sebelah kiri</p>
               </div>
-              <p className="text-sm font-bold text-slate-400">Pilih produk di sebelah kiri</p>
-            </div>
+            </>
           ) : (
-            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+            <form onSubmit={saleType === 'CASH' ? handleCashSale : handleSubmit(onSubmit)} className="space-y-6">
               
-              {/* 1. SELECTED PRODUCT CARD */}
+              {/* 1. CART */}
               <div className="bg-slate-900 rounded-2xl p-5 text-white shadow-xl relative overflow-hidden">
                 <div className="absolute top-0 right-0 w-32 h-32 bg-blue-500 blur-3xl opacity-20 -mr-10 -mt-10"></div>
                 <div className="relative z-10">
-                  <div className="flex justify-between items-start mb-4">
-                    <div>
-                      <p className="text-[10px] font-black text-blue-300 uppercase tracking-widest mb-1">ITEM</p>
-                      <h3 className="font-bold text-lg leading-tight">{selectedProduct.name}</h3>
-                      <p className="text-xs text-slate-400 font-mono mt-1">{selectedProduct.sku}</p>
-                    </div>
-                    <button 
-                      type="button"
-                      onClick={() => setSelectedProduct(null)}
-                      className="p-1.5 bg-white/10 hover:bg-white/20 rounded-lg transition-colors"
-                    >
-                      <X className="w-4 h-4" />
-                    </button>
+                  <p className="text-[10px] font-black text-blue-300 uppercase tracking-widest mb-3">ITEM</p>
+                  <div className="space-y-4 mb-4">
+                    {cart.map((line) => (
+                      <div key={line.product.id} className="pb-4 border-b border-white/10 last:border-0 last:pb-0">
+                        <div className="flex justify-between items-start gap-2">
+                          <div className="min-w-0">
+                            <h3 className="font-bold text-sm leading-tight">{line.product.name}</h3>
+                            <p className="text-[10px] text-slate-400 font-mono mt-0.5">
+                              {line.product.sku} • {formatRupiah(unitPrice(line.product, saleType))}
+                            </p>
+                          </div>
+                          <button 
+                            type="button"
+                            onClick={() => handleQuantityChange(line.product.id, 0)}
+                            className="p-1.5 bg-white/10 hover:bg-white/20 rounded-lg transition-colors shrink-0"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                        <div className="flex items-center justify-between gap-2 mt-2">
+                          <div className="flex items-center gap-1">
+                            <button
+                              type="button"
+                              onClick={() => handleQuantityChange(line.product.id, line.quantity - 1)}
+                              className="p-1 bg-white/10 hover:bg-white/20 rounded-md transition-colors"
+                            >
+                              <Minus className="w-3 h-3" />
+                            </button>
+                            <span className="w-8 text-center text-sm font-black">{line.quantity}</span>
+                            <button
+                              type="button"
+                              onClick={() => handleQuantityChange(line.product.id, line.quantity + 1)}
+                              disabled={line.quantity >= (line.product.track_units ? line.availableUnits.length : line.product.stock_qty)}
+                              className="p-1 bg-white/10 hover:bg-white/20 disabled:opacity-30 rounded-md transition-colors"
+                            >
+                              <Plus className="w-3 h-3" />
+                            </button>
+                          </div>
+                          <input
+                            type="number"
+                            min="0"
+                            placeholder="Diskon"
+                            value={line.discount || ''}
+                            onChange={(e) => handleDiscountChange(line.product.id, parseFloat(e.target.value))}
+                            className="w-24 px-2 py-1 bg-white/10 rounded-md text-xs font-bold text-white placeholder:text-slate-500 outline-none focus:ring-2 focus:ring-blue-400"
+                          />
+                          <span className="text-sm font-black">{formatRupiah(lineTotal(line, saleType))}</span>
+                        </div>
+                        {line.product.track_units && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {line.availableUnits.map((unit) => (
+                              <button
+                                key={unit.id}
+                                type="button"
+                                onClick={() => handleUnitToggle(line.product.id, unit.id)}
+                                className={`px-2 py-0.5 rounded-md text-[9px] font-mono font-bold transition-colors ${
+                                  line.unitIds.includes(unit.id) ? 'bg-blue-500 text-white' : 'bg-white/10 text-slate-400 hover:bg-white/20'
+                                }`}
+                              >
+                                {formatUnit(unit)}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))}
                   </div>
-                  <div className="flex items-baseline gap-1">
-                    <span className="text-sm text-slate-400">Rp</span>
-                    <span className="text-2xl font-black tracking-tight">{formatRupiah(selectedProduct.base_price).replace('Rp', '')}</span>
+                  <div className="flex items-baseline justify-between gap-1 pt-3 border-t border-white/20">
+                    <span className="text-[10px] font-black text-blue-300 uppercase tracking-widest">Total</span>
+                    <span className="text-2xl font-black tracking-tight">{formatRupiah(cartTotal)}</span>
                   </div>
                 </div>
               </div>
@@ -469,7 +752,9 @@ export default function POSPage() {
                   <div className="w-6 h-6 rounded-full bg-blue-50 flex items-center justify-center text-blue-600">
                     <Users className="w-3.5 h-3.5" />
                   </div>
-                  <span className="text-xs font-black text-slate-400 uppercase tracking-widest">Customer</span>
+                  <span className="text-xs font-black text-slate-400 uppercase tracking-widest">
+                    Customer{saleType === 'CASH' ? ' (opsional)' : ''}
+                  </span>
                 </div>
                 
                 <div className="relative group">
@@ -526,7 +811,7 @@ export default function POSPage() {
                     </div>
                   )}
                 </div>
-                {errors.customerId && <p className="text-[10px] text-red-500 font-bold ml-1">{errors.customerId.message}</p>}
+                {saleType === 'CREDIT' && errors.customerId && <p className="text-[10px] text-red-500 font-bold ml-1">{errors.customerId.message}</p>}
               </div>
 
               {/* 3. PAYMENT SCHEME */}
@@ -538,43 +823,110 @@ export default function POSPage() {
                   <span className="text-xs font-black text-slate-400 uppercase tracking-widest">Pembayaran</span>
                 </div>
 
-                <div className="grid grid-cols-2 gap-3">
-                  <div className="space-y-1">
-                    <label className="text-[10px] font-bold text-slate-500 ml-1">Uang Muka (DP)</label>
-                    <div className="relative">
-                      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-xs font-bold text-slate-400">Rp</span>
-                      <input 
-                        type="number"
-                        {...register('dp', { valueAsNumber: true })}
-                        className="w-full pl-9 pr-3 py-2.5 bg-white border border-slate-200 rounded-xl font-bold text-slate-700 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none text-sm"
-                      />
+                <div className="grid grid-cols-2 gap-2 p-1 bg-slate-100 rounded-xl">
+                  {([['CREDIT', 'KREDIT'], ['CASH', 'TUNAI']] as const).map(([type, label]) => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => handleSaleTypeChange(type)}
+                      className={`py-2 rounded-lg text-xs font-black transition-all ${
+                        saleType === type ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400 hover:text-slate-600'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+
+                {saleType === 'CASH' ? (
+                  <div className="space-y-3">
+                    <div className="space-y-1">
+                      <label className="text-[10px] font-bold text-slate-500 ml-1">Cara Bayar</label>
+                      <select
+                        value={cashMethod}
+                        onChange={(e) => setCashMethod(e.target.value as PaymentMethod)}
+                        className="w-full px-3 py-2.5 bg-white border border-slate-200 rounded-xl font-bold text-slate-700 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none text-sm"
+                      >
+                        <option value="CASH">Tunai</option>
+                        <option value="TRANSFER">Transfer Bank</option>
+                        <option value="QRIS">QRIS</option>
+                      </select>
+                    </div>
+                    <div className="flex justify-between items-center p-4 bg-slate-50 rounded-2xl border border-slate-200">
+                      <span className="text-[10px] font-black text-slate-400 uppercase">Total Bayar</span>
+                      <span className="text-2xl font-black text-blue-600 tracking-tight">{formatRupiah(cartTotal)}</span>
                     </div>
                   </div>
-                  
-                  <div className="space-y-1">
-                    <label className="text-[10px] font-bold text-slate-500 ml-1">Tenor</label>
-                    <div className="relative">
-                      <select 
-                        {...register('tenorMonths', { valueAsNumber: true })}
-                        className="w-full pl-3 pr-8 py-2.5 bg-white border border-slate-200 rounded-xl font-bold text-slate-700 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none appearance-none text-sm"
+                ) : schemes.length === 0 ? (
+                  <p className="p-3 bg-amber-50 text-amber-700 text-xs font-bold rounded-xl">
+                    Tidak ada skema kredit yang berlaku untuk produk{selectedCustomer ? ' dan customer' : ''} ini.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {schemes.map((scheme) => (
+                      <button
+                        key={scheme.id}
+                        type="button"
+                        onClick={() => handleSchemeSelect(scheme)}
+                        className={`w-full text-left px-4 py-2.5 rounded-xl border-2 transition-all ${
+                          activeScheme?.id === scheme.id
+                            ? 'border-emerald-500 bg-emerald-50/50'
+                            : 'border-slate-100 bg-white hover:border-slate-200'
+                        }`}
                       >
-                        {[3, 6, 9, 12, 15, 18, 24].map(t => (
-                          <option key={t} value={t}>{t} Bulan</option>
-                        ))}
-                      </select>
-                      <ChevronRight className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 rotate-90 pointer-events-none" />
+                        <p className="text-sm font-bold text-slate-700">{scheme.name}</p>
+                        <p className="text-[10px] text-slate-400">
+                          {parseFloat(scheme.interest_rate)}% {INTEREST_METHOD_LABELS[scheme.interest_method]} • DP min {parseFloat(scheme.min_dp_percent)}%
+                        </p>
+                        {scheme.valid_until && (
+                          <p className="text-[10px] font-bold text-amber-600">
+                            Promo s/d {new Date(scheme.valid_until).toLocaleDateString('id-ID')}
+                          </p>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {saleType === 'CREDIT' && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <label className="text-[10px] font-bold text-slate-500 ml-1">Uang Muka (DP)</label>
+                      <div className="relative">
+                        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-xs font-bold text-slate-400">Rp</span>
+                        <input 
+                          type="number"
+                          {...register('dp', { valueAsNumber: true })}
+                          className="w-full pl-9 pr-3 py-2.5 bg-white border border-slate-200 rounded-xl font-bold text-slate-700 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none text-sm"
+                        />
+                      </div>
+                    </div>
+                    
+                    <div className="space-y-1">
+                      <label className="text-[10px] font-bold text-slate-500 ml-1">Tenor</label>
+                      <div className="relative">
+                        <select 
+                          {...register('tenorMonths', { valueAsNumber: true })}
+                          className="w-full pl-3 pr-8 py-2.5 bg-white border border-slate-200 rounded-xl font-bold text-slate-700 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none appearance-none text-sm"
+                        >
+                          {(activeScheme?.tenor_options ?? []).map(t => (
+                            <option key={t} value={t}>{t} Bulan</option>
+                          ))}
+                        </select>
+                        <ChevronRight className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 rotate-90 pointer-events-none" />
+                      </div>
                     </div>
                   </div>
-                </div>
+                )}
               </div>
 
               {/* 4. SIMULATION RESULT */}
-              {simulation && (
+              {saleType === 'CREDIT' && simulation && (
                 <div className="bg-slate-50 rounded-2xl p-4 border border-slate-200 space-y-4 animate-in zoom-in-95 duration-300">
                   <div className="flex justify-between items-center pb-3 border-b border-slate-200/60">
                     <span className="text-[10px] font-black text-slate-400 uppercase">Estimasi Cicilan</span>
                     <span className="px-2 py-0.5 bg-emerald-100 text-emerald-700 rounded text-[10px] font-bold">
-                       {activeScheme?.interest_rate.toString()}% Flat
+                       {activeScheme?.interest_rate.toString()}% {activeScheme && INTEREST_METHOD_LABELS[activeScheme.interest_method]}
                     </span>
                   </div>
                   
@@ -597,6 +949,23 @@ export default function POSPage() {
                         <p className="text-xs font-bold text-slate-900">{formatRupiah(simulation.simulation.totalLoan)}</p>
                      </div>
                   </div>
+
+                  {simulation.simulation.charges.length > 0 && (
+                    <div className="bg-white p-2 rounded-lg border border-slate-100 space-y-1">
+                      {simulation.simulation.charges.map((charge) => (
+                        <div key={charge.name} className="flex justify-between text-[10px]">
+                          <span className="text-slate-400">
+                            {charge.name} ({charge.collection === 'UPFRONT' ? 'di muka' : 'masuk pokok'})
+                          </span>
+                          <span className="font-bold text-slate-700">{formatRupiah(charge.amount)}</span>
+                        </div>
+                      ))}
+                      <div className="flex justify-between text-xs pt-1 border-t border-slate-100">
+                        <span className="font-bold text-slate-500">Bayar di Muka</span>
+                        <span className="font-black text-slate-900">{formatRupiah(simulation.simulation.upfrontPayment)}</span>
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -612,7 +981,7 @@ export default function POSPage() {
                   ) : (
                     <>
                       <ReceiptText className="w-5 h-5" />
-                      PROSES TRANSAKSI
+                      {saleType === 'CASH' ? 'PROSES PENJUALAN TUNAI' : 'PROSES TRANSAKSI'}
                     </>
                   )}
                 </button>
@@ -629,6 +998,11 @@ export default function POSPage() {
         </div>
       </aside>
 
+      {/* Hidden Printables */}
+      <div className="hidden">
+        {lastCashSale && <CashInvoice ref={cashInvoiceRef} sale={lastCashSale} />}
+      </div>
+
       {/* ================= MODAL: QUICK ADD CUSTOMER ================= */}
       {showAddCustomerModal && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
@@ -670,6 +1044,18 @@ export default function POSPage() {
                   onChange={(e) => setNewCustomer({...newCustomer, phone: e.target.value})}
                 />
               </div>
+              <div className="space-y-1">
+                <label className="text-xs font-bold text-slate-500 ml-1">Jenis Customer</label>
+                <select
+                  className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl focus:bg-white focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none text-sm font-bold"
+                  value={newCustomer.customer_type}
+                  onChange={(e) => setNewCustomer({...newCustomer, customer_type: e.target.value as CustomerType})}
+                >
+                  {(Object.keys(CUSTOMER_TYPE_LABELS) as CustomerType[]).map((type) => (
+                    <option key={type} value={type}>{CUSTOMER_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
               <div className="space-y-1">
                 <label className="text-xs font-bold text-slate-500 ml-1">Alamat Domisili</label>
                 <textarea
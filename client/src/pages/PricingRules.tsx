@@ -0,0 +1,228 @@
+import { useState, useEffect } from 'react';
+import {
+  fetchPricingRules,
+  createPricingRule,
+  updatePricingRule,
+  deletePricingRule,
+  getErrorMessage,
+  type PricingRule,
+  type PricingRulePayload,
+} from '../services/api';
+import { Tags, Plus, Pencil, Trash2 } from 'lucide-react';
+import { PRODUCT_TYPES, type Category } from '../constants/productTypes';
+
+const toPayload = (rule: PricingRule): PricingRulePayload => ({
+  category: rule.category,
+  sub_category: rule.sub_category,
+  cash_markup_percent: parseFloat(rule.cash_markup_percent),
+  credit_markup_percent: parseFloat(rule.credit_markup_percent),
+  is_active: rule.is_active,
+});
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export default function PricingRules() {
+  const [rules, setRules] = useState<PricingRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [category, setCategory] = useState<Category>('ELECTRONIC');
+  const [subCategory, setSubCategory] = useState('');
+  const [cashMarkup, setCashMarkup] = useState('');
+  const [creditMarkup, setCreditMarkup] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadRules = async () => {
+    try {
+      setIsLoading(true);
+      setRules(await fetchPricingRules());
+    } catch {
+      console.error('Failed to load pricing rules');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (cashMarkup === '' || creditMarkup === '') return;
+
+    try {
+      setIsSaving(true);
+      await createPricingRule({
+        category,
+        sub_category: subCategory || null,
+        cash_markup_percent: parseFloat(cashMarkup),
+        credit_markup_percent: parseFloat(creditMarkup),
+        is_active: true,
+      });
+      setSubCategory('');
+      setCashMarkup('');
+      setCreditMarkup('');
+      loadRules();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal menambah aturan harga'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = async (rule: PricingRule) => {
+    const cash = window.prompt('Markup harga tunai (%)', parseFloat(rule.cash_markup_percent).toString());
+    if (cash === null) return;
+    const credit = window.prompt('Markup harga kredit (%)', parseFloat(rule.credit_markup_percent).toString());
+    if (credit === null) return;
+
+    try {
+      await updatePricingRule(rule.id, {
+        ...toPayload(rule),
+        cash_markup_percent: parseFloat(cash),
+        credit_markup_percent: parseFloat(credit),
+      });
+      loadRules();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal memperbarui aturan harga'));
+    }
+  };
+
+  const handleToggle = async (rule: PricingRule) => {
+    try {
+      await updatePricingRule(rule.id, { ...toPayload(rule), is_active: !rule.is_active });
+      loadRules();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal mengubah status aturan harga'));
+    }
+  };
+
+  const handleDelete = async (rule: PricingRule) => {
+    if (!window.confirm(`Hapus aturan harga ${rule.category}${rule.sub_category ? ` / ${rule.sub_category}` : ''}?`)) return;
+
+    try {
+      await deletePricingRule(rule.id);
+      setRules((prev) => prev.filter((r) => r.id !== rule.id));
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal menghapus aturan harga'));
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-50 overflow-hidden">
+      <main className="flex-1 p-6 overflow-y-auto">
+        <div className="max-w-3xl mx-auto">
+          <header className="mb-8">
+            <h1 className="text-2xl font-black text-gray-800 tracking-tighter uppercase">Aturan Harga Jual</h1>
+            <p className="text-gray-400 text-sm">
+              Markup di atas harga modal untuk produk yang belum punya harga jual sendiri. Aturan tipe produk mengalahkan aturan kategori.
+            </p>
+          </header>
+
+          <form onSubmit={handleAdd} className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-6 flex flex-col md:flex-row gap-3">
+            <select
+              value={category}
+              onChange={(e) => {
+                setCategory(e.target.value as Category);
+                setSubCategory('');
+              }}
+              className="px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-bold text-gray-700 outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {Object.keys(PRODUCT_TYPES).map((cat) => (
+                <option key={cat} value={cat}>{cat}</option>
+              ))}
+            </select>
+            <select
+              value={subCategory}
+              onChange={(e) => setSubCategory(e.target.value)}
+              className="flex-1 px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-medium text-gray-700 outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Semua tipe</option>
+              {PRODUCT_TYPES[category].map((type) => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={cashMarkup}
+              onChange={(e) => setCashMarkup(e.target.value)}
+              placeholder="Tunai %"
+              className="w-28 px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={creditMarkup}
+              onChange={(e) => setCreditMarkup(e.target.value)}
+              placeholder="Kredit %"
+              className="w-28 px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={isSaving || cashMarkup === '' || creditMarkup === ''}
+              className="px-6 py-2.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-xl font-black text-xs flex items-center justify-center gap-2 transition-all"
+            >
+              <Plus className="w-4 h-4" />
+              {isSaving ? 'MENYIMPAN...' : 'TAMBAH'}
+            </button>
+          </form>
+
+          {isLoading ? (
+            <div className="flex justify-center py-20">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+          ) : rules.length === 0 ? (
+            <div className="text-center py-20 text-gray-400 text-sm">Belum ada aturan harga</div>
+          ) : (
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 divide-y divide-gray-50">
+              {rules.map((rule) => (
+                <div key={rule.id} className={`px-6 py-4 flex items-center justify-between ${rule.is_active ? '' : 'opacity-50'}`}>
+                  <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 rounded-xl bg-blue-50 flex items-center justify-center">
+                      <Tags className="w-5 h-5 text-blue-400" />
+                    </div>
+                    <div>
+                      <p className="font-bold text-gray-800">
+                        {rule.category}
+                        <span className="ml-2 text-xs font-bold text-blue-600">{rule.sub_category ?? 'Semua tipe'}</span>
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        Tunai +{parseFloat(rule.cash_markup_percent)}% • Kredit +{parseFloat(rule.credit_markup_percent)}%
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => handleToggle(rule)}
+                      className={`px-3 py-1.5 rounded-lg text-[10px] font-black transition-all ${
+                        rule.is_active ? 'bg-emerald-50 text-emerald-600 hover:bg-emerald-100' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                      }`}
+                    >
+                      {rule.is_active ? 'AKTIF' : 'NONAKTIF'}
+                    </button>
+                    <button
+                      onClick={() => handleEdit(rule)}
+                      className="p-2 text-gray-300 hover:text-blue-500 hover:bg-blue-50 rounded-lg transition-all"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(rule)}
+                      className="p-2 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
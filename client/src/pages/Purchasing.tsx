@@ -0,0 +1,378 @@
+import { useState, useEffect } from 'react';
+import {
+  fetchSuppliers,
+  createSupplier,
+  updateSupplier,
+  fetchPurchaseOrders,
+  paySupplier,
+  cancelPurchaseOrder,
+  getErrorMessage,
+  type Supplier,
+  type PurchaseOrder,
+  type PurchaseOrderStatus,
+} from '../services/api';
+import { useOperator } from '../services/session';
+import PurchaseOrderModal from '../components/PurchaseOrderModal';
+import ReceiveGoodsModal from '../components/ReceiveGoodsModal';
+import { Truck, Plus, PackageCheck, HandCoins, Ban } from 'lucide-react';
+
+const formatRupiah = (value: string | number) => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+const formatDate = (dateStr: string) =>
+  new Date(dateStr).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, { label: string; className: string }> = {
+  OPEN: { label: 'Dipesan', className: 'bg-blue-50 text-blue-600' },
+  PARTIAL: { label: 'Sebagian', className: 'bg-amber-50 text-amber-600' },
+  RECEIVED: { label: 'Diterima', className: 'bg-emerald-50 text-emerald-600' },
+  CANCELLED: { label: 'Batal', className: 'bg-gray-100 text-gray-400' },
+};
+
+const outstandingOf = (order: PurchaseOrder) => parseFloat(order.received_amount) - parseFloat(order.paid_amount);
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export default function Purchasing() {
+  const operator = useOperator();
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filterSupplierId, setFilterSupplierId] = useState<number | null>(null);
+  const [showOrderModal, setShowOrderModal] = useState(false);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [termsDays, setTermsDays] = useState('0');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setIsLoading(true);
+        const [supplierList, orderList] = await Promise.all([
+          fetchSuppliers(),
+          fetchPurchaseOrders(filterSupplierId ? { supplierId: filterSupplierId } : {}),
+        ]);
+        setSuppliers(supplierList);
+        setOrders(orderList);
+      } catch {
+        console.error('Failed to load purchasing data');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadData();
+  }, [filterSupplierId, reloadKey]);
+
+  const reload = () => setReloadKey((key) => key + 1);
+
+  const totalOutstanding = suppliers.reduce((sum, s) => sum + parseFloat(s.payable.outstanding), 0);
+  const totalOverdue = suppliers.reduce((sum, s) => sum + parseFloat(s.payable.overdue), 0);
+
+  const handleAddSupplier = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    try {
+      setIsSaving(true);
+      await createSupplier({
+        name,
+        contact_person: null,
+        phone: phone || null,
+        address: null,
+        payment_terms_days: parseInt(termsDays) || 0,
+        is_active: true,
+      });
+      setName('');
+      setPhone('');
+      setTermsDays('0');
+      reload();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal menambah supplier'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleSupplier = async (supplier: Supplier) => {
+    try {
+      await updateSupplier(supplier.id, {
+        name: supplier.name,
+        contact_person: supplier.contact_person,
+        phone: supplier.phone,
+        address: supplier.address,
+        payment_terms_days: supplier.payment_terms_days,
+        is_active: !supplier.is_active,
+      });
+      reload();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal mengubah status supplier'));
+    }
+  };
+
+  const handlePay = async (order: PurchaseOrder) => {
+    const outstanding = outstandingOf(order);
+    const input = window.prompt(
+      `Bayar ${order.supplier.name} (${order.po_no})\nSisa hutang ${formatRupiah(outstanding)}. Jumlah dibayar:`,
+      outstanding.toString()
+    );
+    if (input === null) return;
+
+    const amount = parseFloat(input.replace(/[^\d.]/g, ''));
+    if (!amount || amount <= 0) {
+      alert('Jumlah pembayaran tidak valid');
+      return;
+    }
+
+    try {
+      const result = await paySupplier(order.id, { amount, method: 'TRANSFER', cashier: operator });
+      alert(result.message);
+      reload();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal mencatat pembayaran supplier'));
+    }
+  };
+
+  const handleCancel = async (order: PurchaseOrder) => {
+    if (!window.confirm(`Batalkan ${order.po_no}?`)) return;
+
+    try {
+      await cancelPurchaseOrder(order.id);
+      reload();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal membatalkan purchase order'));
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-50 overflow-hidden">
+      <main className="flex-1 p-6 overflow-y-auto">
+        <div className="max-w-6xl mx-auto">
+          <header className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+            <div>
+              <h1 className="text-2xl font-black text-gray-800 tracking-tighter uppercase">Pembelian</h1>
+              <p className="text-gray-400 text-sm">Supplier, purchase order dan hutang dagang</p>
+            </div>
+            <button
+              onClick={() => setShowOrderModal(true)}
+              className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-black text-xs shadow-sm shadow-blue-100 flex items-center gap-2 transition-all active:scale-95"
+            >
+              <Plus className="w-4 h-4" />
+              BUAT PO
+            </button>
+          </header>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            <div className="bg-white p-5 rounded-2xl border border-gray-100 shadow-sm">
+              <span className="text-[10px] font-black text-gray-400 uppercase block">Total Hutang Supplier</span>
+              <span className="text-lg font-black text-gray-800">{formatRupiah(totalOutstanding)}</span>
+            </div>
+            <div className="bg-white p-5 rounded-2xl border border-gray-100 shadow-sm">
+              <span className="text-[10px] font-black text-gray-400 uppercase block">Lewat Jatuh Tempo</span>
+              <span className="text-lg font-black text-red-600">{formatRupiah(totalOverdue)}</span>
+            </div>
+          </div>
+
+          {/* Suppliers */}
+          <form onSubmit={handleAddSupplier} className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-4 flex flex-col md:flex-row gap-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Nama supplier / distributor"
+              className="flex-1 px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="text"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              placeholder="Telepon"
+              className="w-40 px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="number"
+              min="0"
+              value={termsDays}
+              onChange={(e) => setTermsDays(e.target.value)}
+              title="Tempo pembayaran (hari)"
+              className="w-24 px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={isSaving || !name.trim()}
+              className="px-6 py-2.5 bg-gray-800 hover:bg-gray-900 disabled:bg-gray-300 text-white rounded-xl font-black text-xs flex items-center justify-center gap-2 transition-all"
+            >
+              <Plus className="w-4 h-4" />
+              SUPPLIER
+            </button>
+          </form>
+
+          <div className="flex flex-wrap gap-2 mb-6">
+            <button
+              onClick={() => setFilterSupplierId(null)}
+              className={`px-4 py-2 rounded-xl text-xs font-bold transition-all ${
+                filterSupplierId === null ? 'bg-blue-600 text-white' : 'bg-white text-gray-500 border border-gray-100'
+              }`}
+            >
+              Semua Supplier
+            </button>
+            {suppliers.map((supplier) => (
+              <div
+                key={supplier.id}
+                className={`px-4 py-2 rounded-xl text-xs border flex items-center gap-3 ${
+                  filterSupplierId === supplier.id ? 'bg-blue-50 border-blue-200' : 'bg-white border-gray-100'
+                } ${supplier.is_active ? '' : 'opacity-50'}`}
+              >
+                <button onClick={() => setFilterSupplierId(supplier.id)} className="text-left">
+                  <p className="font-bold text-gray-800">{supplier.name}</p>
+                  <p className="text-[10px] text-gray-400">
+                    Hutang {formatRupiah(supplier.payable.outstanding)}
+                    {parseFloat(supplier.payable.overdue) > 0 && (
+                      <span className="text-red-500"> • jatuh tempo {formatRupiah(supplier.payable.overdue)}</span>
+                    )}
+                    {' • '}tempo {supplier.payment_terms_days} hari
+                  </p>
+                </button>
+                <button
+                  onClick={() => handleToggleSupplier(supplier)}
+                  className="text-[9px] font-black text-gray-400 hover:text-gray-600"
+                >
+                  {supplier.is_active ? 'NONAKTIFKAN' : 'AKTIFKAN'}
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Purchase orders */}
+          {isLoading ? (
+            <div className="flex justify-center py-20">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+          ) : orders.length === 0 ? (
+            <div className="text-center py-20 text-gray-400 text-sm flex flex-col items-center gap-2">
+              <Truck className="w-8 h-8" />
+              Belum ada purchase order
+            </div>
+          ) : (
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+              <table className="w-full text-left text-xs">
+                <thead>
+                  <tr className="text-[10px] font-bold text-gray-400 uppercase border-b border-gray-100 bg-gray-50/50">
+                    <th className="px-4 py-3">No. PO</th>
+                    <th className="px-4 py-3">Supplier / Barang</th>
+                    <th className="px-4 py-3 text-right">Total PO</th>
+                    <th className="px-4 py-3 text-right">Diterima</th>
+                    <th className="px-4 py-3 text-right">Hutang</th>
+                    <th className="px-4 py-3 w-10"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-50">
+                  {orders.map((order) => {
+                    const outstanding = outstandingOf(order);
+                    const isOverdue = outstanding > 0 && order.due_date !== null && new Date(order.due_date) < new Date();
+                    return (
+                      <tr key={order.id}>
+                        <td className="px-4 py-3">
+                          <p className="font-mono font-bold text-gray-700">{order.po_no}</p>
+                          <p className="text-[10px] text-gray-400">{formatDate(order.created_at)} • {order.created_by}</p>
+                          <span className={`inline-block mt-1 px-2 py-0.5 rounded-full text-[9px] font-black uppercase ${STATUS_LABELS[order.status].className}`}>
+                            {STATUS_LABELS[order.status].label}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3">
+                          <p className="font-bold text-gray-800">{order.supplier.name}</p>
+                          {order.items.map((item) => (
+                            <p key={item.id} className="text-[10px] text-gray-400">
+                              {item.product.name} • {item.received_qty}/{item.quantity} × {formatRupiah(item.unit_cost)}
+                            </p>
+                          ))}
+                          {order.supplier_invoice_no && (
+                            <p className="text-[10px] font-bold text-gray-500">Faktur {order.supplier_invoice_no}</p>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-right text-gray-600">{formatRupiah(order.total_amount)}</td>
+                        <td className="px-4 py-3 text-right text-gray-600">{formatRupiah(order.received_amount)}</td>
+                        <td className="px-4 py-3 text-right">
+                          <p className={`font-black ${outstanding > 0 ? 'text-gray-800' : 'text-emerald-600'}`}>{formatRupiah(outstanding)}</p>
+                          {order.due_date && outstanding > 0 && (
+                            <p className={`text-[10px] ${isOverdue ? 'text-red-500 font-bold' : 'text-gray-400'}`}>
+                              jatuh tempo {formatDate(order.due_date)}
+                            </p>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-right whitespace-nowrap">
+                          {(order.status === 'OPEN' || order.status === 'PARTIAL') && (
+                            <button
+                              onClick={() => setReceivingOrder(order)}
+                              title="Terima barang"
+                              className="p-2 text-emerald-600 hover:bg-emerald-50 rounded-lg transition-all"
+                            >
+                              <PackageCheck className="w-4 h-4" />
+                            </button>
+                          )}
+                          {outstanding > 0 && (
+                            <button
+                              onClick={() => handlePay(order)}
+                              title="Bayar supplier"
+                              className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-all"
+                            >
+                              <HandCoins className="w-4 h-4" />
+                            </button>
+                          )}
+                          {order.status === 'OPEN' && (
+                            <button
+                              onClick={() => handleCancel(order)}
+                              title="Batalkan PO"
+                              className="p-2 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                            >
+                              <Ban className="w-4 h-4" />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+
+      {showOrderModal && (
+        <PurchaseOrderModal
+          suppliers={suppliers}
+          onClose={() => setShowOrderModal(false)}
+          onCreated={(order) => {
+            setShowOrderModal(false);
+            alert(`Purchase order ${order.po_no} dibuat`);
+            reload();
+          }}
+        />
+      )}
+
+      {receivingOrder && (
+        <ReceiveGoodsModal
+          order={receivingOrder}
+          onClose={() => setReceivingOrder(null)}
+          onReceived={(order) => {
+            setReceivingOrder(null);
+            alert(`Barang ${order.po_no} diterima ke stok`);
+            reload();
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react';
+import { fetchSalesReport, type SalesReport } from '../services/api';
+import { History } from 'lucide-react';
+
+const formatRupiah = (value: string | number) => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+const formatDate = (dateStr: string) =>
+  new Date(dateStr).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export default function SalesHistory() {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [report, setReport] = useState<SalesReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadReport = async () => {
+      try {
+        setIsLoading(true);
+        setReport(await fetchSalesReport(from || undefined, to || undefined));
+      } catch {
+        console.error('Failed to load sales report');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadReport();
+  }, [from, to]);
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-50 overflow-hidden">
+      <main className="flex-1 p-6 overflow-y-auto">
+        <div className="max-w-6xl mx-auto">
+          <header className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+            <div>
+              <h1 className="text-2xl font-black text-gray-800 tracking-tighter uppercase">Riwayat Penjualan</h1>
+              <p className="text-gray-400 text-sm">Penjualan tunai dan kredit; margin = harga jual - harga modal (tanpa bunga)</p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className="px-4 py-2 bg-white border border-gray-100 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <span className="text-gray-400 text-sm">s/d</span>
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className="px-4 py-2 bg-white border border-gray-100 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </header>
+
+          {report && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              <div className="bg-white p-5 rounded-2xl border border-gray-100 shadow-sm">
+                <span className="text-[10px] font-black text-gray-400 uppercase block">Tunai ({report.cash.count})</span>
+                <span className="text-lg font-black text-amber-600">{formatRupiah(report.cash.revenue)}</span>
+                <span className="text-[10px] font-bold text-emerald-600 block">Margin {formatRupiah(report.cash.margin)}</span>
+              </div>
+              <div className="bg-white p-5 rounded-2xl border border-gray-100 shadow-sm">
+                <span className="text-[10px] font-black text-gray-400 uppercase block">Kredit ({report.credit.count})</span>
+                <span className="text-lg font-black text-blue-600">{formatRupiah(report.credit.revenue)}</span>
+                <span className="text-[10px] font-bold text-emerald-600 block">Margin {formatRupiah(report.credit.margin)}</span>
+              </div>
+              <div className="bg-white p-5 rounded-2xl border border-gray-100 shadow-sm">
+                <span className="text-[10px] font-black text-gray-400 uppercase block">
+                  Total ({report.total.count}){report.voidCount > 0 ? ` • ${report.voidCount} dibatalkan` : ''}
+                </span>
+                <span className="text-lg font-black text-gray-800">{formatRupiah(report.total.revenue)}</span>
+                <span className="text-[10px] font-bold text-emerald-600 block">
+                  Modal {formatRupiah(report.total.cost)} • Margin {formatRupiah(report.total.margin)}
+                </span>
+              </div>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-20">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+          ) : !report || report.sales.length === 0 ? (
+            <div className="text-center py-20 text-gray-400 text-sm flex flex-col items-center gap-2">
+              <History className="w-8 h-8" />
+              Belum ada penjualan pada periode ini
+            </div>
+          ) : (
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+              <table className="w-full text-left text-xs">
+                <thead>
+                  <tr className="text-[10px] font-bold text-gray-400 uppercase border-b border-gray-100 bg-gray-50/50">
+                    <th className="px-4 py-3">Tanggal</th>
+                    <th className="px-4 py-3">Jenis / No.</th>
+                    <th className="px-4 py-3">Customer</th>
+                    <th className="px-4 py-3">Barang</th>
+                    <th className="px-4 py-3 text-right">Harga</th>
+                    <th className="px-4 py-3 text-right">Margin</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-50">
+                  {report.sales.map((row) => (
+                    <tr key={row.transactionId} className={row.status === 'VOID' ? 'opacity-50' : ''}>
+                      <td className="px-4 py-3 text-gray-500">{formatDate(row.soldAt)}</td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-0.5 rounded-full text-[9px] font-black uppercase ${
+                          row.saleType === 'CASH' ? 'bg-amber-100 text-amber-700' : 'bg-blue-100 text-blue-700'
+                        }`}>
+                          {row.saleType === 'CASH' ? 'TUNAI' : 'KREDIT'}
+                        </span>
+                        <span className="ml-2 font-mono font-bold text-gray-700">
+                          {row.saleType === 'CASH' ? row.invoiceNo : `Kontrak #${row.contractId ?? '-'}`}
+                        </span>
+                        {row.status === 'VOID' && (
+                          <span className="ml-2 text-[10px] font-bold text-red-500">DIBATALKAN</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 font-bold text-gray-800">{row.customerName ?? 'Umum'}</td>
+                      <td className="px-4 py-3">
+                        <p className="text-gray-700">
+                          {row.productName}
+                          {row.itemCount > 1 && <span className="ml-1 text-[10px] font-bold text-blue-600">({row.itemCount} unit)</span>}
+                        </p>
+                        <p className="text-[10px] text-gray-400 font-mono">{row.productSku}</p>
+                      </td>
+                      <td className="px-4 py-3 text-right font-black text-gray-800">{formatRupiah(row.totalPrice)}</td>
+                      <td className={`px-4 py-3 text-right font-bold ${parseFloat(row.margin) < 0 ? 'text-red-500' : 'text-emerald-600'}`}>
+                        {formatRupiah(row.margin)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
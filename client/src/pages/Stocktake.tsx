@@ -0,0 +1,370 @@
+import { useState, useEffect } from 'react';
+import {
+  fetchStocktakes,
+  fetchStocktake,
+  openStocktake,
+  recordStocktakeCounts,
+  scanStocktakeUnit,
+  submitStocktake,
+  reopenStocktake,
+  postStocktake,
+  cancelStocktake,
+  getErrorMessage,
+  type Stocktake as StocktakeSession,
+  type StocktakeStatus,
+  type StocktakeSummary,
+} from '../services/api';
+import { useOperator } from '../services/session';
+import ApprovalModal, { type Approval } from '../components/ApprovalModal';
+import { ClipboardList, Plus, ScanLine, Save, Send, CheckCircle2, Undo2, Ban, Lock } from 'lucide-react';
+
+const formatDate = (dateStr: string) =>
+  new Date(dateStr).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const STATUS_LABELS: Record<StocktakeStatus, { label: string; className: string }> = {
+  COUNTING: { label: 'Dihitung', className: 'bg-blue-50 text-blue-600' },
+  SUBMITTED: { label: 'Menunggu Persetujuan', className: 'bg-amber-50 text-amber-600' },
+  POSTED: { label: 'Diposting', className: 'bg-emerald-50 text-emerald-600' },
+  CANCELLED: { label: 'Batal', className: 'bg-gray-100 text-gray-400' },
+};
+
+const CATEGORY_LABELS: Record<string, string> = {
+  ELECTRONIC: 'Elektronik',
+  FURNITURE: 'Furniture',
+  VEHICLE: 'Vehicle',
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export default function Stocktake() {
+  const operator = useOperator();
+  const [sessions, setSessions] = useState<StocktakeSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [session, setSession] = useState<StocktakeSession | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const [newCategory, setNewCategory] = useState('');
+  const [counts, setCounts] = useState<Record<number, string>>({}); // Unsaved counts by product ID
+  const [scanCode, setScanCode] = useState('');
+  const [isPosting, setIsPosting] = useState(false); // Waiting for the supervisor's approval
+
+  useEffect(() => {
+    fetchStocktakes()
+      .then(setSessions)
+      .catch(() => console.error('Failed to load stocktakes'));
+  }, [reloadKey]);
+
+  useEffect(() => {
+    if (selectedId === null) return;
+    fetchStocktake(selectedId)
+      .then(setSession)
+      .catch((err) => alert(getErrorMessage(err, 'Gagal memuat stock opname')));
+  }, [selectedId, reloadKey]);
+
+  const reload = () => setReloadKey((key) => key + 1);
+
+  // Every action returns the updated session; the list only needs its status
+  const applySession = (updated: StocktakeSession) => {
+    setSession(updated);
+    setSelectedId(updated.id);
+    reload();
+  };
+
+  const handleOpen = async () => {
+    const scope = newCategory ? CATEGORY_LABELS[newCategory] : 'semua produk';
+    if (!window.confirm(`Buka stock opname untuk ${scope}? Penjualan produk tersebut dikunci sampai opname selesai.`)) return;
+
+    try {
+      applySession(await openStocktake({ category: newCategory || undefined, cashier: operator }));
+      setCounts({});
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal membuka stock opname'));
+    }
+  };
+
+  const handleSaveCounts = async () => {
+    if (!session) return;
+    const items = Object.entries(counts)
+      .filter(([, value]) => value.trim() !== '')
+      .map(([productId, value]) => ({ productId: parseInt(productId), countedQty: parseInt(value) }));
+    if (items.some((item) => isNaN(item.countedQty) || item.countedQty < 0)) {
+      alert('Jumlah hitung harus angka 0 atau lebih');
+      return;
+    }
+    if (items.length === 0) return;
+
+    try {
+      applySession(await recordStocktakeCounts(session.id, { items, cashier: operator }));
+      setCounts({});
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal menyimpan hasil hitung'));
+    }
+  };
+
+  const handleScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session || !scanCode.trim()) return;
+
+    try {
+      applySession(await scanStocktakeUnit(session.id, scanCode.trim(), operator));
+      setScanCode('');
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal mencatat unit'));
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!session) return;
+    if (Object.values(counts).some((value) => value.trim() !== '')) {
+      alert('Simpan hasil hitung terlebih dahulu');
+      return;
+    }
+    try {
+      applySession(await submitStocktake(session.id, operator));
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal mengajukan stock opname'));
+    }
+  };
+
+  const handleReopen = async () => {
+    if (!session) return;
+    try {
+      applySession(await reopenStocktake(session.id));
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal mengembalikan stock opname'));
+    }
+  };
+
+  const handlePost = async ({ approvedBy }: Approval) => {
+    if (!session) return;
+    const result = await postStocktake(session.id, approvedBy);
+    alert(result.message);
+    setIsPosting(false);
+    applySession(result.data);
+  };
+
+  const handleCancel = async () => {
+    if (!session || !window.confirm(`Batalkan ${session.stocktake_no}? Stok tidak berubah.`)) return;
+    try {
+      applySession(await cancelStocktake(session.id));
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal membatalkan stock opname'));
+    }
+  };
+
+  const isCounting = session?.status === 'COUNTING';
+  const hasTrackedProducts = session?.items.some((item) => item.product.track_units) ?? false;
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-50 overflow-hidden">
+      <main className="flex-1 p-6 overflow-y-auto">
+        <div className="max-w-6xl mx-auto">
+          <header className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+            <div>
+              <h1 className="text-2xl font-black text-gray-800 tracking-tighter uppercase">Stock Opname</h1>
+              <p className="text-gray-400 text-sm">Hitung fisik gudang dan bukukan selisihnya</p>
+            </div>
+            <div className="flex gap-2">
+              <select
+                value={newCategory}
+                onChange={(e) => setNewCategory(e.target.value)}
+                className="bg-white px-4 py-2 rounded-xl shadow-sm border border-gray-100 text-xs font-bold text-gray-500 outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">SEMUA PRODUK</option>
+                <option value="ELECTRONIC">ELEKTRONIK</option>
+                <option value="FURNITURE">FURNITURE</option>
+                <option value="VEHICLE">VEHICLE</option>
+              </select>
+              <button
+                onClick={handleOpen}
+                className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-black text-xs shadow-sm shadow-blue-100 flex items-center gap-2 transition-all active:scale-95"
+              >
+                <Plus className="w-4 h-4" />
+                BUKA OPNAME
+              </button>
+            </div>
+          </header>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            {/* Sessions */}
+            <div className="space-y-2">
+              {sessions.length === 0 ? (
+                <div className="text-center py-10 text-gray-400 text-sm flex flex-col items-center gap-2">
+                  <ClipboardList className="w-8 h-8" />
+                  Belum ada stock opname
+                </div>
+              ) : (
+                sessions.map((s) => (
+                  <button
+                    key={s.id}
+                    onClick={() => { setSelectedId(s.id); setCounts({}); }}
+                    className={`w-full text-left p-3 rounded-2xl border transition-all ${
+                      selectedId === s.id ? 'bg-blue-50 border-blue-200' : 'bg-white border-gray-100 hover:bg-gray-50'
+                    }`}
+                  >
+                    <p className="font-mono text-xs font-bold text-gray-700">{s.stocktake_no}</p>
+                    <p className="text-[10px] text-gray-400">
+                      {s.category ? CATEGORY_LABELS[s.category] : 'Semua produk'} • {s._count.items} produk • {formatDate(s.created_at)}
+                    </p>
+                    <span className={`inline-block mt-1 px-2 py-0.5 rounded-full text-[9px] font-black uppercase ${STATUS_LABELS[s.status].className}`}>
+                      {STATUS_LABELS[s.status].label}
+                    </span>
+                  </button>
+                ))
+              )}
+            </div>
+
+            {/* Selected session */}
+            <div className="md:col-span-3">
+              {!session ? (
+                <div className="text-center py-20 text-gray-400 text-sm">Pilih atau buka sesi stock opname</div>
+              ) : (
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+                  <div className="p-4 border-b border-gray-100 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                    <div>
+                      <p className="font-mono font-black text-gray-800">{session.stocktake_no}</p>
+                      <p className="text-[10px] text-gray-400">
+                        Dibuka {session.created_by} • {session.summary.counted}/{session.summary.products} dihitung
+                        • {session.summary.withVariance} selisih
+                        {session.submitted_by && ` • diajukan ${session.submitted_by}`}
+                        {session.approved_by && ` • disetujui ${session.approved_by}`}
+                      </p>
+                      {(session.status === 'COUNTING' || session.status === 'SUBMITTED') && (
+                        <p className="mt-1 text-[10px] font-bold text-amber-600 flex items-center gap-1">
+                          <Lock className="w-3 h-3" /> Penjualan produk dalam sesi ini dikunci
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {isCounting && (
+                        <>
+                          <button
+                            onClick={handleSaveCounts}
+                            className="px-3 py-2 bg-gray-800 hover:bg-gray-900 text-white rounded-lg text-xs font-black flex items-center gap-1 transition-all"
+                          >
+                            <Save className="w-3 h-3" /> SIMPAN
+                          </button>
+                          <button
+                            onClick={handleSubmit}
+                            className="px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-xs font-black flex items-center gap-1 transition-all"
+                          >
+                            <Send className="w-3 h-3" /> AJUKAN
+                          </button>
+                        </>
+                      )}
+                      {session.status === 'SUBMITTED' && (
+                        <>
+                          <button
+                            onClick={handleReopen}
+                            className="px-3 py-2 bg-white border border-gray-200 text-gray-600 rounded-lg text-xs font-black flex items-center gap-1 transition-all"
+                          >
+                            <Undo2 className="w-3 h-3" /> HITUNG ULANG
+                          </button>
+                          <button
+                            onClick={() => setIsPosting(true)}
+                            className="px-3 py-2 bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg text-xs font-black flex items-center gap-1 transition-all"
+                          >
+                            <CheckCircle2 className="w-3 h-3" /> SETUJUI & POSTING
+                          </button>
+                        </>
+                      )}
+                      {(session.status === 'COUNTING' || session.status === 'SUBMITTED') && (
+                        <button
+                          onClick={handleCancel}
+                          title="Batalkan opname"
+                          className="p-2 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                        >
+                          <Ban className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {isCounting && hasTrackedProducts && (
+                    <form onSubmit={handleScan} className="p-4 border-b border-gray-100 flex gap-2">
+                      <ScanLine className="w-5 h-5 text-gray-400 self-center" />
+                      <input
+                        type="text"
+                        value={scanCode}
+                        onChange={(e) => setScanCode(e.target.value)}
+                        placeholder="Scan nomor seri / IMEI / no. mesin / no. rangka"
+                        className="flex-1 px-4 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm font-mono outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </form>
+                  )}
+
+                  <div className="max-h-[60vh] overflow-y-auto">
+                    <table className="w-full text-left text-xs">
+                      <thead>
+                        <tr className="text-[10px] font-bold text-gray-400 uppercase border-b border-gray-100 bg-gray-50/50">
+                          <th className="px-4 py-3">Produk</th>
+                          <th className="px-4 py-3 text-right">Stok Awal</th>
+                          <th className="px-4 py-3 text-right">Stok Sistem</th>
+                          <th className="px-4 py-3 text-right">Hitung Fisik</th>
+                          <th className="px-4 py-3 text-right">Selisih</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-50">
+                        {session.items.map((item) => (
+                          <tr key={item.id}>
+                            <td className="px-4 py-3">
+                              <p className="font-bold text-gray-800">{item.product.name}</p>
+                              <p className="text-[10px] text-gray-400">
+                                {item.product.sku} • {item.product.sub_category}
+                                {item.product.track_units && ' • per unit (scan)'}
+                              </p>
+                            </td>
+                            <td className="px-4 py-3 text-right text-gray-500">{item.system_qty}</td>
+                            <td className="px-4 py-3 text-right font-bold text-gray-700">
+                              {item.product.stock_qty}
+                              {item.counted_stock !== null && item.counted_stock !== item.product.stock_qty && (
+                                <p className="text-[10px] font-normal text-amber-600">saat dihitung: {item.counted_stock}</p>
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-right">
+                              {isCounting && !item.product.track_units ? (
+                                <input
+                                  type="number"
+                                  min="0"
+                                  value={counts[item.product.id] ?? ''}
+                                  onChange={(e) => setCounts({ ...counts, [item.product.id]: e.target.value })}
+                                  placeholder={item.counted_qty?.toString() ?? '-'}
+                                  className="w-20 px-2 py-1 text-right bg-gray-50 border border-gray-100 rounded-lg font-bold outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                              ) : (
+                                <span className="font-bold text-gray-700">{item.counted_qty ?? '-'}</span>
+                              )}
+                            </td>
+                            <td className={`px-4 py-3 text-right font-black ${
+                              item.variance === null || item.variance === 0
+                                ? 'text-gray-300'
+                                : item.variance > 0 ? 'text-emerald-600' : 'text-red-500'
+                            }`}>
+                              {item.variance === null ? '-' : item.variance > 0 ? `+${item.variance}` : item.variance}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+
+      {isPosting && session && (
+        <ApprovalModal
+          title={`Posting ${session.stocktake_no}`}
+          summary={<p>{session.summary.withVariance} produk selisih akan dibukukan ke kartu stok.</p>}
+          confirmLabel="POSTING"
+          onClose={() => setIsPosting(false)}
+          onConfirm={handlePost}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useState, useEffect } from 'react';
+import {
+  fetchWriteOffReport,
+  recordRecovery,
+  getErrorMessage,
+  type WriteOffReport,
+  type WriteOffReportRow,
+} from '../services/api';
+import { useOperator } from '../services/session';
+import RepossessionModal from '../components/RepossessionModal';
+import { FileX2, HandCoins, PackageOpen } from 'lucide-react';
+
+const formatRupiah = (value: string | number) => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+const formatDate = (dateStr: string) =>
+  new Date(dateStr).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export default function WriteOffs() {
+  const operator = useOperator();
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [report, setReport] = useState<WriteOffReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [repossessingRow, setRepossessingRow] = useState<WriteOffReportRow | null>(null);
+
+  useEffect(() => {
+    const loadReport = async () => {
+      try {
+        setIsLoading(true);
+        setReport(await fetchWriteOffReport(from || undefined, to || undefined));
+      } catch {
+        console.error('Failed to load write-off report');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadReport();
+  }, [from, to]);
+
+  const handleRecovery = async (row: WriteOffReportRow) => {
+    const remaining = parseFloat(row.netLoss);
+    const input = window.prompt(
+      `Pemulihan ${row.customerName} (${row.writeOffNo})\nSisa ${formatRupiah(remaining)}. Jumlah diterima:`
+    );
+    if (input === null) return;
+
+    const amount = parseFloat(input.replace(/[^\d.]/g, ''));
+    if (!amount || amount <= 0) {
+      alert('Jumlah pemulihan tidak valid');
+      return;
+    }
+
+    try {
+      const result = await recordRecovery(row.contractId, { amount, method: 'CASH', cashier: operator });
+      alert(`${result.message}. Sisa hapus buku ${formatRupiah(result.data.remaining)}`);
+      setReport(await fetchWriteOffReport(from || undefined, to || undefined));
+    } catch (err) {
+      alert(getErrorMessage(err, 'Gagal mencatat pemulihan'));
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-50 overflow-hidden">
+      <main className="flex-1 p-6 overflow-y-auto">
+        <div className="max-w-6xl mx-auto">
+          <header className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+            <div>
+              <h1 className="text-2xl font-black text-gray-800 tracking-tighter uppercase">Kredit Macet</h1>
+              <p className="text-gray-400 text-sm">Kontrak yang dihapusbukukan dan pemulihannya</p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className="px-4 py-2 bg-white border border-gray-100 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <span className="text-gray-400 text-sm">s/d</span>
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className="px-4 py-2 bg-white border border-gray-100 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </header>
+
+          {report && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              <div className="bg-white p-5 rounded-2xl border border-gray-100 shadow-sm">
+                <span className="text-[10px] font-black text-gray-400 uppercase block">Dihapusbukukan ({report.count})</span>
+                <span className="text-lg font-black text-gray-800">{formatRupiah(report.totalWrittenOff)}</span>
+              </div>
+              <div className="bg-white p-5 rounded-2xl border border-gray-100 shadow-sm">
+                <span className="text-[10px] font-black text-gray-400 uppercase block">Pemulihan</span>
+                <span className="text-lg font-black text-emerald-600">{formatRupiah(report.totalRecovered)}</span>
+              </div>
+              <div className="bg-white p-5 rounded-2xl border border-gray-100 shadow-sm">
+                <span className="text-[10px] font-black text-gray-400 uppercase block">Kerugian Bersih</span>
+                <span className="text-lg font-black text-red-600">{formatRupiah(report.totalNetLoss)}</span>
+              </div>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-20">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+          ) : !report || report.writeOffs.length === 0 ? (
+            <div className="text-center py-20 text-gray-400 text-sm flex flex-col items-center gap-2">
+              <FileX2 className="w-8 h-8" />
+              Belum ada kontrak yang dihapusbukukan
+            </div>
+          ) : (
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+              <table className="w-full text-left text-xs">
+                <thead>
+                  <tr className="text-[10px] font-bold text-gray-400 uppercase border-b border-gray-100 bg-gray-50/50">
+                    <th className="px-4 py-3">No. Hapus Buku</th>
+                    <th className="px-4 py-3">Customer / Barang</th>
+                    <th className="px-4 py-3 text-right">Pokok</th>
+                    <th className="px-4 py-3 text-right">Bunga</th>
+                    <th className="px-4 py-3 text-right">Denda</th>
+                    <th className="px-4 py-3 text-right">Total</th>
+                    <th className="px-4 py-3 text-right">Pemulihan</th>
+                    <th className="px-4 py-3 w-10"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-50">
+                  {report.writeOffs.map((row) => (
+                    <tr key={row.writeOffId}>
+                      <td className="px-4 py-3">
+                        <p className="font-mono font-bold text-gray-700">{row.writeOffNo}</p>
+                        <p className="text-[10px] text-gray-400">
+                          {formatDate(row.writtenOffAt)} • telat {row.daysOverdue} hari
+                        </p>
+                        <p className="text-[10px] text-gray-400" title={row.reason}>Disetujui {row.approvedBy}</p>
+                      </td>
+                      <td className="px-4 py-3">
+                        <p className="font-bold text-gray-800">{row.customerName}</p>
+                        <p className="text-[10px] text-gray-400">{row.productName} • Kontrak #{row.contractId}</p>
+                        {row.repossessionNos.length > 0 && (
+                          <p className="text-[10px] font-bold text-purple-600">Ditarik {row.repossessionNos.join(', ')}</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-600">{formatRupiah(row.outstandingPrincipal)}</td>
+                      <td className="px-4 py-3 text-right text-gray-600">{formatRupiah(row.outstandingInterest)}</td>
+                      <td className="px-4 py-3 text-right text-amber-600">{formatRupiah(row.outstandingPenalty)}</td>
+                      <td className="px-4 py-3 text-right font-black text-gray-800">{formatRupiah(row.totalAmount)}</td>
+                      <td className="px-4 py-3 text-right">
+                        <p className="font-bold text-emerald-600">{formatRupiah(row.recovered)}</p>
+                        <p className="text-[10px] text-red-500">sisa {formatRupiah(row.netLoss)}</p>
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        {/* Cart lines can be taken back one by one; older single-product sales only once */}
+                        {(row.items.length > 0 || row.repossessionNos.length === 0) && (
+                          <button
+                            onClick={() => setRepossessingRow(row)}
+                            title="Tarik barang"
+                            className="p-2 text-purple-600 hover:bg-purple-50 rounded-lg transition-all"
+                          >
+                            <PackageOpen className="w-4 h-4" />
+                          </button>
+                        )}
+                        {parseFloat(row.netLoss) > 0 && (
+                          <button
+                            onClick={() => handleRecovery(row)}
+                            title="Terima pembayaran pemulihan"
+                            className="p-2 text-emerald-600 hover:bg-emerald-50 rounded-lg transition-all"
+                          >
+                            <HandCoins className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+
+      {repossessingRow && (
+        <RepossessionModal
+          contractId={repossessingRow.contractId}
+          customerName={repossessingRow.customerName}
+          productName={repossessingRow.productName}
+          lines={repossessingRow.items}
+          onClose={() => setRepossessingRow(null)}
+          onRepossessed={async (result) => {
+            alert(result.message);
+            setRepossessingRow(null);
+            setReport(await fetchWriteOffReport(from || undefined, to || undefined));
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -27,6 +27,20 @@ api.interceptors.response.use(
   }
 );
 
+/**
+ * Extract the server error message (string or Zod issues) from a failed request
+ */
+export function getErrorMessage(err: unknown, fallback: string): string {
+  if (axios.isAxiosError(err)) {
+    const errorData: unknown = err.response?.data?.error;
+    if (typeof errorData === 'string') return errorData;
+    if (Array.isArray(errorData)) {
+      return errorData.map((issue: { message?: string }) => issue.message).join(', ');
+    }
+  }
+  return fallback;
+}
+
 // ============================================================================
 // API FUNCTIONS
 // ============================================================================
@@ -36,11 +50,65 @@ export interface Product {
   id: number;
   sku: string;
   name: string;
-  base_price: string;
+  base_price: string; // Harga modal: inventory only, never on a customer document
+  cash_price: string | null; // Effective selling prices (own price or markup rule)
+  credit_price: string | null;
+  has_own_price: boolean;
+  track_units: boolean; // Stock is counted per registered unit (serial / IMEI / engine & chassis)
   stock_qty: number;
   category: string;
   sub_category: string;
   attributes: any;
+  is_active: boolean;
+  is_second_hand: boolean;
+}
+
+// Stored product from GET /products/:id: own selling prices (null = markup rule), active or not
+export interface ProductDetail {
+  id: number;
+  sku: string;
+  name: string;
+  base_price: string;
+  cash_price: string | null;
+  credit_price: string | null;
+  stock_qty: number;
+  category: string;
+  sub_category: string;
+  attributes: Record<string, unknown>;
+  is_active: boolean;
+  is_second_hand: boolean;
+  track_units: boolean;
+  has_transactions: boolean; // Sold at least once: SKU can't change
+  unit_count: number;
+}
+
+// Master data only; stock and harga modal move through the stock ledger
+export interface ProductUpdatePayload {
+  sku: string;
+  name: string;
+  category: string;
+  sub_category: string;
+  cash_price: number | null;
+  credit_price: number | null;
+  attributes: Record<string, unknown>;
+}
+
+// Markup on harga modal per category (sub_category null) or sub-category
+export interface PricingRule {
+  id: number;
+  category: string;
+  sub_category: string | null;
+  cash_markup_percent: string;
+  credit_markup_percent: string;
+  is_active: boolean;
+}
+
+export interface PricingRulePayload {
+  category: string;
+  sub_category: string | null;
+  cash_markup_percent: number;
+  credit_markup_percent: number;
+  is_active: boolean;
 }
 
 // Simulation types
@@ -51,35 +119,68 @@ export interface SimulationPayload {
   tenorMonths: number;
 }
 
+export type InterestMethod = 'FLAT' | 'ANNUITY' | 'SYARIAH';
+
+// One-off charges (biaya admin, asuransi, ...); PERCENT is a percentage of the price
+export interface SchemeCharge {
+  name: string;
+  type: 'FIXED' | 'PERCENT';
+  value: number;
+  collection: 'UPFRONT' | 'FINANCED'; // Paid with the DP / added to the principal
+}
+
+export interface AppliedCharge extends SchemeCharge {
+  amount: string;
+}
+
+export interface ScheduleLine {
+  installmentNth: number;
+  amountDue: string;
+  principal: string;
+  interest: string;
+  balance: string;
+}
+
 export interface SimulationResult {
   success: boolean;
   data: {
     simulation: {
       price: string;
       dp: string;
-      principal: string;
+      charges: AppliedCharge[];
+      upfrontCharges: string;
+      financedCharges: string;
+      upfrontPayment: string; // DP + upfront charges
+      principal: string; // Includes financed charges
+      interestMethod: InterestMethod;
       interestRate: string;
       interestAmount: string;
       totalLoan: string;
       monthlyInstallment: string;
       tenorMonths: number;
+      schedule: ScheduleLine[];
     };
     scheme: {
       id: number;
       name: string;
+      interestMethod: InterestMethod;
       interestRate: string;
       tenorOptions: number[];
+      validUntil: string | null; // Promo end date, null = no end
     };
   };
 }
 
 // --- CRM / CUSTOMERS ---
+export type CustomerType = 'REGULAR' | 'EMPLOYEE' | 'CIVIL_SERVANT' | 'ENTREPRENEUR';
+
 export interface Customer {
   id: number;
   nik: string;
   name: string;
   phone: string;
   address: string;
+  customer_type: CustomerType;
   created_at: string;
 }
 
@@ -90,12 +191,53 @@ export interface CustomerDetail {
     date: string;
     total_price: string;
     status: string;
+    saleType: SaleType;
+    invoiceNo: string | null;
+    items: Array<{ productName: string; quantity: number; lineTotal: string; units: SoldUnit[] }>;
+    voidReason: string | null;
+    voidedBy: string | null;
+    voidedAt: string | null;
     contractId?: number;
+    scheduleVersion: number;
     installments: Array<{
         nth: number;
+        version: number;
+        dueDate: string;
         status: string;
         amount: string;
     }>;
+    restructures: Array<{
+        id: number;
+        restructureNo: string;
+        version: number;
+        type: RestructureType;
+        principal: string;
+        monthlyInstallment: string;
+        tenorMonths: number;
+        deferMonths: number;
+        reason: string;
+        approvedBy: string;
+        createdAt: string;
+    }>;
+    repossessions: Array<{
+        repossessionNo: string;
+        repossessedAt: string;
+        condition: ItemCondition;
+        quantity: number;
+        assessedValue: string;
+        creditedAmount: string;
+    }>;
+    payments: Array<{
+        id: number;
+        receiptNo: string;
+        type: PaymentType;
+        isReversed: boolean;
+        reason: string | null;
+        paidAt: string;
+        amount: string;
+        method: ReceiptMethod;
+        cashier: string;
+    }>;
   }>;
 }
 
@@ -109,21 +251,242 @@ export async function createCustomer(payload: Omit<Customer, 'id' | 'created_at'
   return response.data.data;
 }
 
-export async function getCustomerHistory(id: number): Promise<{ profile: Customer; history: any[] }> {
-  const response = await api.get<{ success: boolean; data: { profile: Customer; history: any[] } }>(`/customers/${id}`);
+export async function getCustomerHistory(id: number): Promise<CustomerDetail> {
+  const response = await api.get<{ success: boolean; data: CustomerDetail }>(`/customers/${id}`);
   return response.data.data;
 }
 
 // --- TRANSACTIONS ---
 
-export interface CreateTransactionPayload {
+export interface CartItemPayload {
+  productId: number;
+  quantity: number;
+  discount: number; // Rupiah, for the whole line
+  unitIds?: number[]; // Required for products with track_units, one per unit
+}
+
+export type UnitStatus = 'IN_STOCK' | 'SOLD' | 'REPOSSESSED' | 'WARRANTY' | 'MISSING';
+
+export interface UnitIdentifiers {
+  serialNo?: string;
+  imei?: string;
+  engineNo?: string;
+  chassisNo?: string;
+}
+
+export interface ProductUnit {
+  id: number;
+  product_id: number;
+  serial_no: string | null;
+  imei: string | null;
+  engine_no: string | null;
+  chassis_no: string | null;
+  status: UnitStatus;
+  sold_transaction_id: number | null;
+}
+
+// Unit lookup result, with the sale the unit went out on
+export interface ProductUnitSearchResult extends ProductUnit {
+  product: { id: number; name: string; sku: string };
+  sold_transaction: {
+    id: number;
+    sale_type: SaleType;
+    invoice_no: string | null;
+    customer_name: string | null;
+    created_at: string;
+    contract: { id: number } | null;
+  } | null;
+}
+
+// Serial numbers snapshotted on a sold line
+export interface SoldUnit {
+  unitId: number;
+  serialNo: string | null;
+  imei: string | null;
+  engineNo: string | null;
+  chassisNo: string | null;
+}
+
+// Sold line as returned by the server (unit price is the product price at the time of sale)
+export interface SoldItem {
   productId: number;
+  name: string;
+  sku: string;
+  quantity: number;
+  unitPrice: string;
+  discount: string;
+  lineTotal: string;
+  remainingStock: number;
+  units: SoldUnit[];
+}
+
+export type StockMovementType =
+  | 'OPENING'
+  | 'RESTOCK'
+  | 'SALE'
+  | 'VOID_RETURN'
+  | 'REPOSSESSION'
+  | 'ADJUSTMENT'
+  | 'STOCKTAKE';
+
+// One line of a product's stock ledger (kartu stok)
+export interface StockMovement {
+  id: number;
+  product_id: number;
+  type: StockMovementType;
+  quantity: number; // + in, - out
+  balance_after: number;
+  unit_cost: string | null; // HPP per unit at the time of the movement
+  reference_type: string | null; // e.g. TRANSACTION, REPOSSESSION
+  reference_id: number | null;
+  reason: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+export interface StockHistory {
+  product: { id: number; sku: string; name: string; stock_qty: number; track_units: boolean };
+  ledgerQty: number; // Σ movements; should equal stock_qty
+  inSync: boolean;
+  movements: StockMovement[]; // Newest first
+}
+
+export interface Supplier {
+  id: number;
+  name: string;
+  contact_person: string | null;
+  phone: string | null;
+  address: string | null;
+  payment_terms_days: number; // Tempo pembayaran, 0 = tunai
+  is_active: boolean;
+  payable: {
+    outstanding: string; // Hutang: barang diterima - sudah dibayar
+    overdue: string;
+    openOrders: number;
+  };
+}
+
+export type SupplierPayload = Omit<Supplier, 'id' | 'payable'>;
+
+export type PurchaseOrderStatus = 'OPEN' | 'PARTIAL' | 'RECEIVED' | 'CANCELLED';
+
+export interface PurchaseOrder {
+  id: number;
+  po_no: string;
+  supplier: { id: number; name: string; payment_terms_days: number };
+  supplier_invoice_no: string | null;
+  status: PurchaseOrderStatus;
+  total_amount: string;
+  received_amount: string; // Value of goods received (owed to the supplier)
+  paid_amount: string;
+  due_date: string | null;
+  notes: string | null;
+  created_by: string;
+  created_at: string;
+  items: Array<{
+    id: number;
+    product: { id: number; sku: string; name: string; category: string; track_units: boolean };
+    quantity: number;
+    received_qty: number;
+    unit_cost: string;
+    line_total: string;
+  }>;
+  payments: Array<{
+    id: number;
+    payment_no: string;
+    amount: string;
+    method: PaymentMethod;
+    cashier: string;
+    paid_at: string;
+  }>;
+}
+
+export interface PurchaseOrderPayload {
+  supplierId: number;
+  items: Array<{ productId: number; quantity: number; unitCost: number }>;
+  notes?: string;
+  cashier: string;
+}
+
+export interface ReceiveGoodsPayload {
+  items: Array<{ itemId: number; quantity: number; units?: UnitIdentifiers[] }>;
+  supplierInvoiceNo?: string;
+  cashier: string;
+}
+
+export type StocktakeStatus = 'COUNTING' | 'SUBMITTED' | 'POSTED' | 'CANCELLED';
+
+// Stock opname session; products in an open session can't be sold
+export interface StocktakeSummary {
+  id: number;
+  stocktake_no: string;
+  category: string | null; // null = all products
+  status: StocktakeStatus;
+  notes: string | null;
+  created_by: string;
+  submitted_by: string | null;
+  submitted_at: string | null;
+  approved_by: string | null;
+  posted_at: string | null;
+  created_at: string;
+  _count: { items: number };
+}
+
+export interface Stocktake extends Omit<StocktakeSummary, '_count'> {
+  items: Array<{
+    id: number;
+    product: { id: number; sku: string; name: string; category: string; sub_category: string; stock_qty: number; track_units: boolean };
+    system_qty: number; // Stock when the session was opened
+    counted_qty: number | null; // null = not counted yet
+    counted_units: number[] | null; // Scanned unit IDs (per-unit products)
+    counted_stock: number | null; // Stock when it was last counted
+    variance: number | null; // counted - stock at count time (booked value once posted)
+    counted_by: string | null;
+    counted_at: string | null;
+  }>;
+  summary: { products: number; counted: number; withVariance: number };
+}
+
+export interface StockLedgerReport {
+  checked: number;
+  mismatched: number;
+  products: Array<{
+    productId: number;
+    sku: string;
+    name: string;
+    stockQty: number;
+    ledgerQty: number;
+    difference: number;
+  }>;
+}
+
+// Stock on hand at weighted-average cost (HPP); amounts are decimal strings
+export interface InventoryValuation {
+  asOf: string;
+  totalQty: number;
+  totalValue: string;
+  byCategory: Array<{ category: string; qty: number; value: string }>;
+  products: Array<{
+    productId: number;
+    sku: string;
+    name: string;
+    category: string;
+    subCategory: string;
+    isSecondHand: boolean;
+    stockQty: number;
+    averageCost: string;
+    value: string;
+  }>; // Highest value first
+}
+
+export interface CreateTransactionPayload {
+  items: CartItemPayload[]; // Price is the cart total, computed by the server
   customerId: number;
   dp: number;
   tenorMonths: number;
   dueDateDay: number;
-  price: number;
   schemeId: number;
+  cashier: string;
 }
 
 // Transaction types
@@ -137,12 +500,7 @@ export interface TransactionResult {
       name: string;
       phone: string;
     };
-    product: {
-      id: number;
-      name: string;
-      sku: string;
-      remainingStock: number;
-    };
+    items: SoldItem[];
     financials: {
       price: string;
       dp: string;
@@ -159,6 +517,59 @@ export interface TransactionResult {
   };
 }
 
+export type SaleType = 'CREDIT' | 'CASH';
+
+export interface CashSalePayload {
+  items: CartItemPayload[];
+  customerId?: number; // Walk-in buyers may stay anonymous
+  method: PaymentMethod;
+  cashier: string;
+}
+
+export interface CashSale {
+  transactionId: number;
+  invoiceNo: string;
+  soldAt: string;
+  customer: { id: number; name: string; phone: string } | null;
+  items: SoldItem[];
+  total: string;
+  method: PaymentMethod;
+  cashier: string;
+}
+
+export interface SalesReportRow {
+  transactionId: number;
+  saleType: SaleType;
+  invoiceNo: string | null;
+  contractId: number | null;
+  soldAt: string;
+  customerName: string | null;
+  productName: string; // First cart line
+  productSku: string;
+  itemCount: number;
+  totalPrice: string;
+  cost: string;
+  margin: string; // Excludes credit interest
+  status: string;
+}
+
+export interface SalesTotals {
+  count: number;
+  revenue: string;
+  cost: string;
+  margin: string;
+}
+
+export interface SalesReport {
+  from: string | null;
+  to: string | null;
+  cash: SalesTotals;
+  credit: SalesTotals;
+  total: SalesTotals;
+  voidCount: number;
+  sales: SalesReportRow[];
+}
+
 // ============================================================================
 // API METHODS
 // ============================================================================
@@ -167,9 +578,64 @@ export interface LoanScheme {
   id: number;
   name: string;
   interest_rate: string;
+  interest_method: InterestMethod;
   min_dp_percent: string;
   tenor_options: number[];
   penalty_fee_daily: string;
+  penalty_grace_days: number;
+  early_payoff_discount_percent: string;
+  eligible_categories: string[];
+  eligible_sub_categories: string[];
+  min_price: string | null;
+  max_price: string | null;
+  valid_from: string | null;
+  valid_until: string | null;
+  customer_types: CustomerType[];
+  charges: SchemeCharge[];
+  is_active: boolean;
+}
+
+export interface LoanSchemePayload {
+  name: string;
+  interest_method: InterestMethod;
+  interest_rate: number;
+  min_dp_percent: number;
+  tenor_options: number[];
+  penalty_fee_daily: number;
+  penalty_grace_days: number;
+  early_payoff_discount_percent: number;
+  eligible_categories: string[];
+  eligible_sub_categories: string[];
+  min_price: number | null;
+  max_price: number | null;
+  valid_from: string | null; // YYYY-MM-DD
+  valid_until: string | null;
+  customer_types: CustomerType[];
+  charges: SchemeCharge[];
+}
+
+export interface Holiday {
+  id: number;
+  date: string;
+  name: string;
+  created_at: string;
+}
+
+export interface SchemePreview {
+  schemeId: number;
+  name: string;
+  interestMethod: InterestMethod;
+  interestRate: string;
+  isActive: boolean;
+  dp: string;
+  upfrontCharges: string;
+  principal: string;
+  options: Array<{
+    tenorMonths: number;
+    monthlyInstallment: string;
+    interestAmount: string;
+    totalLoan: string;
+  }>;
 }
 
 export interface Transaction {
@@ -179,6 +645,7 @@ export interface Transaction {
   status: 'PENDING' | 'ACTIVE' | 'PAID' | 'VOID' | 'BAD_DEBT';
   total_price: string;
   dp_amount: string;
+  charges: AppliedCharge[];
   created_at: string;
   product?: {
     id: number;
@@ -187,18 +654,63 @@ export interface Transaction {
     category: string;
     sub_category: string;
   };
+  // Cart lines; empty for transactions from before multi-item carts
+  items?: Array<{
+    id: number;
+    product_id: number;
+    quantity: number;
+    unit_price: string;
+    discount: string;
+    line_total: string;
+    units: SoldUnit[] | null; // Serial numbers of per-unit products
+    product: { name: string; sku: string };
+  }>;
 }
 
 export interface Installment {
   id: number;
   installment_nth: number;
+  schedule_version: number;
   due_date: string;
   amount_due: string;
+  principal_portion: string;
+  interest_portion: string;
   amount_paid: string;
-  status: 'UNPAID' | 'PARTIAL' | 'PAID' | 'LATE';
+  penalty_accrued: string;
+  penalty_paid: string;
+  status: 'UNPAID' | 'PARTIAL' | 'PAID' | 'LATE' | 'SUPERSEDED' | 'CANCELLED';
   paid_at: string | null;
 }
 
+export type PaymentMethod = 'CASH' | 'TRANSFER' | 'QRIS';
+
+// Recorded receipts may also be non-cash credits (value of a repossessed unit)
+export type ReceiptMethod = PaymentMethod | 'REPOSSESSION';
+
+export type PaymentType = 'RECEIPT' | 'REVERSAL' | 'RECOVERY';
+
+export interface ContractPayment {
+  id: number;
+  receipt_no: string;
+  contract_id: number;
+  type: PaymentType;
+  amount: string;
+  method: ReceiptMethod;
+  cashier: string;
+  notes: string | null;
+  reason: string | null;
+  paid_at: string;
+  reversal_of: { id: number; receipt_no: string } | null;
+  reversed_by: { id: number; receipt_no: string } | null;
+  allocations: Array<{
+    id: number;
+    installment_id: number;
+    penalty_amount: string;
+    amount: string;
+    installment: { installment_nth: number };
+  }>;
+}
+
 export interface Contract {
   id: number;
   transaction_id: number;
@@ -209,25 +721,172 @@ export interface Contract {
   start_date: string;
   due_date_day: number;
   tenor_months: number;
-  installments: Installment[];
+  schedule_version: number;
+  installments: Installment[]; // Without superseded rows
+  restructures: ContractRestructure[];
+}
+
+export type RestructureType = 'EXTEND_TENOR' | 'REDUCE_INSTALLMENT' | 'DEFERMENT';
+
+export interface ContractRestructure {
+  id: number;
+  restructure_no: string;
+  contract_id: number;
+  schedule_version: number;
+  type: RestructureType;
+  previous_monthly_installment: string;
+  previous_remaining_installments: number;
+  outstanding_principal: string;
+  capitalized_interest: string;
+  capitalized_penalty: string;
+  principal_amount: string;
+  interest_rate: string;
+  interest_method: InterestMethod;
+  total_interest: string;
+  monthly_installment: string;
+  tenor_months: number;
+  defer_months: number;
+  reason: string;
+  approved_by: string;
+  created_by: string;
+  created_at: string;
+}
+
+export interface RestructureTerms {
+  type: RestructureType;
+  tenorMonths: number;
+  deferMonths: number;
+  interestRate?: number; // Defaults to the contract's scheme rate
+}
+
+export interface RestructurePreview {
+  contractId: number;
+  type: RestructureType;
+  scheduleVersion: number;
+  previousMonthlyInstallment: string;
+  previousRemainingInstallments: number;
+  outstandingPrincipal: string;
+  capitalizedInterest: string;
+  capitalizedPenalty: string;
+  waivedInterest: string;
+  principal: string;
+  interestMethod: InterestMethod;
+  interestRate: string;
+  interestAmount: string;
+  totalLoan: string;
+  monthlyInstallment: string;
+  tenorMonths: number;
+  deferMonths: number;
+  schedule: Array<{
+    installmentNth: number;
+    dueDate: string;
+    amountDue: string;
+    principal: string;
+    interest: string;
+  }>;
+}
+
+export interface RestructureResult {
+  success: boolean;
+  message: string;
+  data: {
+    restructure: ContractRestructure;
+    preview: RestructurePreview;
+  };
 }
 
 /**
  * Fetch products with optional filtering
  */
-export async function fetchProducts(category?: string, subCategory?: string): Promise<Product[]> {
-  console.log('📡 API Call: fetchProducts', { category, subCategory });
+export async function fetchProducts(category?: string, subCategory?: string, includeInactive = false): Promise<Product[]> {
+  console.log('📡 API Call: fetchProducts', { category, subCategory, includeInactive });
   const response = await api.get<{ success: boolean; data: Product[] }>('/products', {
-    params: { category, sub_category: subCategory }
+    params: { category, sub_category: subCategory, ...(includeInactive ? { include_inactive: true } : {}) }
+  });
+  return response.data.data;
+}
+
+/**
+ * Fetch a product's full detail (including inactive products)
+ */
+export async function fetchProduct(productId: number): Promise<ProductDetail> {
+  const response = await api.get<{ success: boolean; data: ProductDetail }>(`/products/${productId}`);
+  return response.data.data;
+}
+
+/**
+ * Correct a product's master data
+ */
+export async function updateProduct(productId: number, payload: ProductUpdatePayload): Promise<ProductDetail> {
+  const response = await api.put<{ success: boolean; data: ProductDetail }>(`/products/${productId}`, payload);
+  return response.data.data;
+}
+
+/**
+ * Deactivate (discontinued) or reactivate a product
+ */
+export async function setProductActive(productId: number, isActive: boolean): Promise<ProductDetail> {
+  const response = await api.patch<{ success: boolean; data: ProductDetail }>(`/products/${productId}/status`, {
+    is_active: isActive
   });
   return response.data.data;
 }
 
 /**
- * Fetch all active loan schemes
+ * Fetch loan schemes (active only unless includeInactive)
  */
-export async function fetchSchemes(): Promise<LoanScheme[]> {
-  const response = await api.get<{ success: boolean; data: LoanScheme[] }>('/schemes');
+export async function fetchSchemes(includeInactive: boolean = false): Promise<LoanScheme[]> {
+  const response = await api.get<{ success: boolean; data: LoanScheme[] }>('/schemes', {
+    params: includeInactive ? { include_inactive: true } : undefined
+  });
+  return response.data.data;
+}
+
+/**
+ * Fetch schemes every cart product (and customer, if chosen) is eligible for today
+ */
+export async function fetchEligibleSchemes(
+  productIds: number[],
+  customerId?: number,
+  price?: number
+): Promise<LoanScheme[]> {
+  const response = await api.get<{ success: boolean; data: LoanScheme[] }>('/schemes/eligible', {
+    params: { product_id: productIds.join(','), customer_id: customerId, price }
+  });
+  return response.data.data;
+}
+
+/**
+ * Create a new loan scheme
+ */
+export async function createScheme(payload: LoanSchemePayload): Promise<LoanScheme> {
+  const response = await api.post<{ success: boolean; data: LoanScheme }>('/schemes', payload);
+  return response.data.data;
+}
+
+/**
+ * Update a loan scheme (existing transactions keep their snapshot)
+ */
+export async function updateScheme(id: number, payload: LoanSchemePayload): Promise<LoanScheme> {
+  const response = await api.put<{ success: boolean; data: LoanScheme }>(`/schemes/${id}`, payload);
+  return response.data.data;
+}
+
+/**
+ * Activate or deactivate a loan scheme
+ */
+export async function setSchemeActive(id: number, isActive: boolean): Promise<LoanScheme> {
+  const response = await api.patch<{ success: boolean; data: LoanScheme }>(`/schemes/${id}/active`, {
+    is_active: isActive
+  });
+  return response.data.data;
+}
+
+/**
+ * Preview installments for a sample price under every scheme
+ */
+export async function previewSchemes(price: number, dp?: number): Promise<SchemePreview[]> {
+  const response = await api.post<{ success: boolean; data: SchemePreview[] }>('/schemes/preview', { price, dp });
   return response.data.data;
 }
 
@@ -250,21 +909,587 @@ export async function createProduct(payload: any): Promise<Product> {
 /**
  * Restock a product
  */
-export async function restockProduct(productId: number, quantityToAdd: number): Promise<Product> {
+export async function restockProduct(
+  productId: number,
+  quantityToAdd: number,
+  cashier: string,
+  unitCost?: number // Purchase price per unit; re-averages the harga modal
+): Promise<Product> {
+  const response = await api.patch<{ success: boolean; data: Product }>(`/products/${productId}/stock`, {
+    quantity_to_add: quantityToAdd,
+    unit_cost: unitCost,
+    cashier
+  });
+  return response.data.data;
+}
+
+/**
+ * Restock a per-unit product by registering each incoming unit
+ */
+export async function restockProductUnits(
+  productId: number,
+  units: UnitIdentifiers[],
+  cashier: string,
+  unitCost?: number
+): Promise<Product> {
   const response = await api.patch<{ success: boolean; data: Product }>(`/products/${productId}/stock`, {
-    quantity_to_add: quantityToAdd
+    units,
+    unit_cost: unitCost,
+    cashier
+  });
+  return response.data.data;
+}
+
+/**
+ * Fetch the stock ledger (kartu stok) of a product
+ */
+export async function fetchStockMovements(productId: number): Promise<StockHistory> {
+  const response = await api.get<{ success: boolean; data: StockHistory }>(`/products/${productId}/stock-movements`);
+  return response.data.data;
+}
+
+/**
+ * Correct a product's stock manually (+ found, - damaged / lost)
+ */
+export async function adjustStock(
+  productId: number,
+  payload: { quantity: number; reason: string; cashier: string }
+): Promise<Product> {
+  const response = await api.post<{ success: boolean; data: Product }>(`/products/${productId}/stock-adjustments`, payload);
+  return response.data.data;
+}
+
+/**
+ * Products whose stock doesn't match their stock ledger
+ */
+export async function fetchStockReconciliation(): Promise<StockLedgerReport> {
+  const response = await api.get<{ success: boolean; data: StockLedgerReport }>('/inventory/reconciliation');
+  return response.data.data;
+}
+
+/**
+ * Value of stock on hand at weighted-average cost (HPP), optionally for one category
+ */
+export async function fetchInventoryValuation(category?: string): Promise<InventoryValuation> {
+  const response = await api.get<{ success: boolean; data: InventoryValuation }>('/reports/inventory-valuation', {
+    params: category ? { category } : undefined
+  });
+  return response.data.data;
+}
+
+/**
+ * Fetch the units of a product (optionally only some statuses)
+ */
+export async function fetchProductUnits(productId: number, statuses?: UnitStatus[]): Promise<ProductUnit[]> {
+  const response = await api.get<{ success: boolean; data: ProductUnit[] }>(`/products/${productId}/units`, {
+    params: { status: statuses?.join(',') }
+  });
+  return response.data.data;
+}
+
+/**
+ * Look up units by serial number, IMEI, engine or chassis number
+ */
+export async function searchProductUnits(query: string): Promise<ProductUnitSearchResult[]> {
+  const response = await api.get<{ success: boolean; data: ProductUnitSearchResult[] }>('/product-units', {
+    params: { q: query }
+  });
+  return response.data.data;
+}
+
+/**
+ * Start or finish a warranty claim on a sold unit
+ */
+export async function setUnitWarranty(unitId: number, underWarranty: boolean): Promise<ProductUnit> {
+  const response = await api.patch<{ success: boolean; data: ProductUnit }>(`/product-units/${unitId}/warranty`, {
+    under_warranty: underWarranty
+  });
+  return response.data.data;
+}
+
+export interface PayInstallmentPayload {
+  amount: number;
+  method: PaymentMethod;
+  cashier: string;
+  notes?: string;
+}
+
+export interface PaymentResult {
+  success: boolean;
+  message: string;
+  data: {
+    paymentId: number;
+    receiptNo: string;
+    amount: string;
+    allocations: Array<{
+      installmentId: number;
+      installmentNth: number;
+      penaltyPaid: string;
+      amountPaid: string;
+      status: 'PARTIAL' | 'PAID';
+    }>;
+    contractCompleted: boolean;
+  };
+}
+
+/**
+ * Process payment for an installment (partial or overpayment allowed)
+ */
+export async function payInstallment(installmentId: number, payload: PayInstallmentPayload): Promise<PaymentResult> {
+  const response = await api.post<PaymentResult>(`/installments/${installmentId}/pay`, payload);
+  return response.data;
+}
+
+/**
+ * Reverse a recorded payment (writes a compensating entry)
+ */
+export async function reversePayment(paymentId: number, reason: string, cashier: string): Promise<{ success: boolean; message: string }> {
+  const response = await api.post<{ success: boolean; message: string }>(`/payments/${paymentId}/reverse`, { reason, cashier });
+  return response.data;
+}
+
+/**
+ * Fetch the payment ledger (kuitansi) of a contract
+ */
+export async function fetchContractPayments(contractId: number): Promise<ContractPayment[]> {
+  const response = await api.get<{ success: boolean; data: ContractPayment[] }>(`/contracts/${contractId}/payments`);
+  return response.data.data;
+}
+
+export interface PayoffQuote {
+  contractId: number;
+  asOf: string;
+  discountPercent: string;
+  remainingPrincipal: string;
+  remainingInterest: string;
+  unearnedInterest: string;
+  interestDiscount: string;
+  accruedPenalty: string;
+  totalPayoff: string;
+  installments: Array<{
+    installmentNth: number;
+    dueDate: string;
+    principal: string;
+    interest: string;
+    penalty: string;
+    discount: string;
+  }>;
+}
+
+export interface SettleContractResult {
+  success: boolean;
+  message: string;
+  data: {
+    paymentId: number;
+    receiptNo: string;
+    quote: PayoffQuote;
+  };
+}
+
+/**
+ * Fetch the early payoff (pelunasan) quote of a contract as of today
+ */
+export async function fetchPayoffQuote(contractId: number): Promise<PayoffQuote> {
+  const response = await api.get<{ success: boolean; data: PayoffQuote }>(`/contracts/${contractId}/payoff-quote`);
+  return response.data.data;
+}
+
+/**
+ * Settle a contract early; expectedTotal guards against a stale quote
+ */
+export async function settleContract(
+  contractId: number,
+  payload: { method: PaymentMethod; cashier: string; expectedTotal?: number }
+): Promise<SettleContractResult> {
+  const response = await api.post<SettleContractResult>(`/contracts/${contractId}/settle`, payload);
+  return response.data;
+}
+
+/**
+ * Preview a restructured schedule for the outstanding balance (nothing is saved)
+ */
+export async function previewRestructure(contractId: number, terms: RestructureTerms): Promise<RestructurePreview> {
+  const response = await api.post<{ success: boolean; data: RestructurePreview }>(
+    `/contracts/${contractId}/restructure/preview`,
+    terms
+  );
+  return response.data.data;
+}
+
+/**
+ * Restructure a contract: the open installments are superseded by a new schedule
+ */
+export async function restructureContract(
+  contractId: number,
+  payload: RestructureTerms & { reason: string; approvedBy: string; cashier: string }
+): Promise<RestructureResult> {
+  const response = await api.post<RestructureResult>(`/contracts/${contractId}/restructure`, payload);
+  return response.data;
+}
+
+export interface WriteOffPreview {
+  contractId: number;
+  asOf: string;
+  daysOverdue: number;
+  minDaysOverdue: number;
+  outstandingPrincipal: string;
+  outstandingInterest: string;
+  outstandingPenalty: string;
+  totalAmount: string;
+}
+
+export interface WriteOffReportRow {
+  writeOffId: number;
+  writeOffNo: string;
+  contractId: number;
+  transactionId: number;
+  customerName: string | null;
+  customerPhone: string | null;
+  productName: string;
+  items: RepossessionLine[];
+  writtenOffAt: string;
+  daysOverdue: number;
+  outstandingPrincipal: string;
+  outstandingInterest: string;
+  outstandingPenalty: string;
+  totalAmount: string;
+  recovered: string;
+  netLoss: string;
+  reason: string;
+  approvedBy: string;
+  repossessionNos: string[];
+}
+
+export interface WriteOffReport {
+  from: string | null;
+  to: string | null;
+  count: number;
+  totalWrittenOff: string;
+  totalRecovered: string;
+  totalNetLoss: string;
+  writeOffs: WriteOffReportRow[];
+}
+
+/**
+ * Fetch the balance that would be written off today (bad debt)
+ */
+export async function fetchWriteOffPreview(contractId: number): Promise<WriteOffPreview> {
+  const response = await api.get<{ success: boolean; data: WriteOffPreview }>(`/contracts/${contractId}/write-off/preview`);
+  return response.data.data;
+}
+
+/**
+ * Write off a bad debt contract (status BAD_DEBT, penalties stop)
+ */
+export async function writeOffContract(
+  contractId: number,
+  payload: { reason: string; approvedBy: string; cashier: string }
+): Promise<{ success: boolean; message: string }> {
+  const response = await api.post<{ success: boolean; message: string }>(`/contracts/${contractId}/write-off`, payload);
+  return response.data;
+}
+
+/**
+ * Record a recovery payment on a written-off contract
+ */
+export async function recordRecovery(
+  contractId: number,
+  payload: { amount: number; method: PaymentMethod; cashier: string; notes?: string }
+): Promise<{ success: boolean; message: string; data: { receiptNo: string; totalRecovered: string; remaining: string } }> {
+  const response = await api.post(`/contracts/${contractId}/recoveries`, payload);
+  return response.data;
+}
+
+/**
+ * Fetch the written-off contracts report (optionally by write-off date, YYYY-MM-DD)
+ */
+export async function fetchWriteOffReport(from?: string, to?: string): Promise<WriteOffReport> {
+  const response = await api.get<{ success: boolean; data: WriteOffReport }>('/reports/write-offs', {
+    params: { from, to },
   });
   return response.data.data;
 }
 
+export type ItemCondition = 'GOOD' | 'FAIR' | 'POOR';
+
+export interface Repossession {
+  id: number;
+  repossession_no: string;
+  contract_id: number;
+  product_id: number;
+  resale_product_id: number;
+  transaction_item_id: number | null;
+  quantity: number;
+  repossessed_at: string;
+  condition: ItemCondition;
+  condition_notes: string | null;
+  assessed_value: string;
+  credited_amount: string;
+  resale_price: string;
+  payment_id: number | null;
+  created_by: string;
+  created_at: string;
+}
+
+export interface RepossessionPayload {
+  repossessedAt: string; // YYYY-MM-DD
+  condition: ItemCondition;
+  conditionNotes?: string;
+  assessedValue: number;
+  creditedAmount: number;
+  resalePrice: number; // Per piece
+  transactionItemId?: number; // Cart line taken back (omit for sales from before carts)
+  quantity: number;
+  unitId?: number; // Serial-tracked products
+  cashier: string;
+}
+
+// Cart line that can be taken back
+export interface RepossessionLine {
+  id: number;
+  productName: string;
+  quantity: number;
+  units: SoldUnit[] | null;
+}
+
+export interface RepossessionResult {
+  success: boolean;
+  message: string;
+  data: {
+    repossession: Repossession;
+    receiptNo: string | null;
+    resaleProduct: { id: number; sku: string; name: string; price: string };
+  };
+}
+
 /**
- * Process payment for an installment
+ * Repossess (tarik barang) the unit of a contract; it is restocked as a second-hand product
  */
-export async function payInstallment(installmentId: number): Promise<{ success: boolean; message: string }> {
-  const response = await api.post<{ success: boolean; message: string }>(`/installments/${installmentId}/pay`);
+export async function repossessContract(contractId: number, payload: RepossessionPayload): Promise<RepossessionResult> {
+  const response = await api.post<RepossessionResult>(`/contracts/${contractId}/repossess`, payload);
   return response.data;
 }
 
+export interface PenaltyAccrualResult {
+  asOf: string;
+  processed: number;
+  updated: number;
+  markedLate: number;
+  totalPenaltyAccrued: string;
+}
+
+/**
+ * Recalculate late fees for all overdue installments
+ */
+export async function accruePenalties(): Promise<PenaltyAccrualResult> {
+  const response = await api.post<{ success: boolean; data: PenaltyAccrualResult }>('/penalties/accrue');
+  return response.data.data;
+}
+
+/**
+ * Fetch the holiday calendar (optionally one year)
+ */
+export async function fetchHolidays(year?: number): Promise<Holiday[]> {
+  const response = await api.get<{ success: boolean; data: Holiday[] }>('/holidays', {
+    params: { year }
+  });
+  return response.data.data;
+}
+
+/**
+ * Add a holiday (date as YYYY-MM-DD)
+ */
+export async function createHoliday(date: string, name: string): Promise<Holiday> {
+  const response = await api.post<{ success: boolean; data: Holiday }>('/holidays', { date, name });
+  return response.data.data;
+}
+
+/**
+ * Remove a holiday
+ */
+export async function deleteHoliday(id: number): Promise<Holiday> {
+  const response = await api.delete<{ success: boolean; data: Holiday }>(`/holidays/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Fetch selling-price markup rules
+ */
+export async function fetchPricingRules(): Promise<PricingRule[]> {
+  const response = await api.get<{ success: boolean; data: PricingRule[] }>('/pricing-rules');
+  return response.data.data;
+}
+
+/**
+ * Create a markup rule
+ */
+export async function createPricingRule(payload: PricingRulePayload): Promise<PricingRule> {
+  const response = await api.post<{ success: boolean; data: PricingRule }>('/pricing-rules', payload);
+  return response.data.data;
+}
+
+/**
+ * Update a markup rule
+ */
+export async function updatePricingRule(id: number, payload: PricingRulePayload): Promise<PricingRule> {
+  const response = await api.put<{ success: boolean; data: PricingRule }>(`/pricing-rules/${id}`, payload);
+  return response.data.data;
+}
+
+/**
+ * Remove a markup rule
+ */
+export async function deletePricingRule(id: number): Promise<PricingRule> {
+  const response = await api.delete<{ success: boolean; data: PricingRule }>(`/pricing-rules/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Fetch suppliers with what we owe each of them
+ */
+export async function fetchSuppliers(): Promise<Supplier[]> {
+  const response = await api.get<{ success: boolean; data: Supplier[] }>('/suppliers');
+  return response.data.data;
+}
+
+/**
+ * Register a supplier
+ */
+export async function createSupplier(payload: SupplierPayload): Promise<Supplier> {
+  const response = await api.post<{ success: boolean; data: Supplier }>('/suppliers', payload);
+  return response.data.data;
+}
+
+/**
+ * Update a supplier
+ */
+export async function updateSupplier(id: number, payload: SupplierPayload): Promise<Supplier> {
+  const response = await api.put<{ success: boolean; data: Supplier }>(`/suppliers/${id}`, payload);
+  return response.data.data;
+}
+
+/**
+ * Fetch purchase orders, optionally of one supplier or status
+ */
+export async function fetchPurchaseOrders(filter: { supplierId?: number; status?: PurchaseOrderStatus } = {}): Promise<PurchaseOrder[]> {
+  const response = await api.get<{ success: boolean; data: PurchaseOrder[] }>('/purchase-orders', { params: filter });
+  return response.data.data;
+}
+
+/**
+ * Order goods from a supplier
+ */
+export async function createPurchaseOrder(payload: PurchaseOrderPayload): Promise<PurchaseOrder> {
+  const response = await api.post<{ success: boolean; data: PurchaseOrder }>('/purchase-orders', payload);
+  return response.data.data;
+}
+
+/**
+ * Receive (part of) a purchase order into stock
+ */
+export async function receivePurchaseOrder(orderId: number, payload: ReceiveGoodsPayload): Promise<PurchaseOrder> {
+  const response = await api.post<{ success: boolean; data: PurchaseOrder }>(`/purchase-orders/${orderId}/receive`, payload);
+  return response.data.data;
+}
+
+/**
+ * Pay a supplier for goods received on a purchase order
+ */
+export async function paySupplier(
+  orderId: number,
+  payload: { amount: number; method: PaymentMethod; cashier: string; notes?: string }
+): Promise<{ success: boolean; message: string }> {
+  const response = await api.post<{ success: boolean; message: string }>(`/purchase-orders/${orderId}/payments`, payload);
+  return response.data;
+}
+
+/**
+ * Cancel a purchase order before any goods arrived
+ */
+export async function cancelPurchaseOrder(orderId: number): Promise<PurchaseOrder> {
+  const response = await api.post<{ success: boolean; data: PurchaseOrder }>(`/purchase-orders/${orderId}/cancel`);
+  return response.data.data;
+}
+
+/**
+ * Fetch stock opname sessions, newest first
+ */
+export async function fetchStocktakes(status?: StocktakeStatus): Promise<StocktakeSummary[]> {
+  const response = await api.get<{ success: boolean; data: StocktakeSummary[] }>('/stocktakes', {
+    params: status ? { status } : undefined
+  });
+  return response.data.data;
+}
+
+/**
+ * Fetch a stock opname session with its counts and variances
+ */
+export async function fetchStocktake(stocktakeId: number): Promise<Stocktake> {
+  const response = await api.get<{ success: boolean; data: Stocktake }>(`/stocktakes/${stocktakeId}`);
+  return response.data.data;
+}
+
+/**
+ * Open a stock opname session for a category (or all products when omitted)
+ */
+export async function openStocktake(payload: { category?: string; notes?: string; cashier: string }): Promise<Stocktake> {
+  const response = await api.post<{ success: boolean; data: Stocktake }>('/stocktakes', payload);
+  return response.data.data;
+}
+
+/**
+ * Record counted quantities of products without unit tracking
+ */
+export async function recordStocktakeCounts(
+  stocktakeId: number,
+  payload: { items: Array<{ productId: number; countedQty: number }>; cashier: string }
+): Promise<Stocktake> {
+  const response = await api.put<{ success: boolean; data: Stocktake }>(`/stocktakes/${stocktakeId}/counts`, payload);
+  return response.data.data;
+}
+
+/**
+ * Count one unit by its serial / IMEI / engine / chassis number
+ */
+export async function scanStocktakeUnit(stocktakeId: number, code: string, cashier: string): Promise<Stocktake> {
+  const response = await api.post<{ success: boolean; data: Stocktake }>(`/stocktakes/${stocktakeId}/scan`, { code, cashier });
+  return response.data.data;
+}
+
+/**
+ * Counting done: ask a supervisor for approval
+ */
+export async function submitStocktake(stocktakeId: number, cashier: string): Promise<Stocktake> {
+  const response = await api.post<{ success: boolean; data: Stocktake }>(`/stocktakes/${stocktakeId}/submit`, { cashier });
+  return response.data.data;
+}
+
+/**
+ * Send a submitted count back for a recount
+ */
+export async function reopenStocktake(stocktakeId: number): Promise<Stocktake> {
+  const response = await api.post<{ success: boolean; data: Stocktake }>(`/stocktakes/${stocktakeId}/reopen`);
+  return response.data.data;
+}
+
+/**
+ * Approve a stock opname and book its variances on the stock ledger
+ */
+export async function postStocktake(stocktakeId: number, approvedBy: string): Promise<{ message: string; data: Stocktake }> {
+  const response = await api.post<{ success: boolean; message: string; data: Stocktake }>(`/stocktakes/${stocktakeId}/post`, {
+    approvedBy
+  });
+  return response.data;
+}
+
+/**
+ * Cancel an open stock opname without touching stock
+ */
+export async function cancelStocktake(stocktakeId: number): Promise<Stocktake> {
+  const response = await api.post<{ success: boolean; data: Stocktake }>(`/stocktakes/${stocktakeId}/cancel`);
+  return response.data.data;
+}
+
 /**
  * Simulate credit calculation
  */
@@ -281,4 +1506,50 @@ export async function createTransaction(payload: CreateTransactionPayload): Prom
   return response.data;
 }
 
+/**
+ * Create a cash sale (paid in full, no contract) and get its invoice
+ */
+export async function createCashSale(
+  payload: CashSalePayload
+): Promise<{ success: boolean; message: string; data: CashSale }> {
+  const response = await api.post('/transactions', { saleType: 'CASH', ...payload });
+  return response.data;
+}
+
+/**
+ * Fetch the sales report, cash and credit (optionally by sale date, YYYY-MM-DD)
+ */
+export async function fetchSalesReport(from?: string, to?: string): Promise<SalesReport> {
+  const response = await api.get<{ success: boolean; data: SalesReport }>('/reports/sales', {
+    params: { from, to },
+  });
+  return response.data.data;
+}
+
+export interface VoidTransactionResult {
+  success: boolean;
+  message: string;
+  data: {
+    transactionId: number;
+    contractId: number;
+    voidedAt: string;
+    restocked: Array<{ id: number; name: string; quantity: number; stockQty: number }>;
+    cancelledInstallments: number;
+    downPaymentRefund: string;
+    installmentRefund: string;
+    refundReceipts: string[];
+  };
+}
+
+/**
+ * Void (cancel) a transaction; refund is required once installments have been paid
+ */
+export async function voidTransaction(
+  transactionId: number,
+  payload: { reason: string; cashier: string; refund?: boolean }
+): Promise<VoidTransactionResult> {
+  const response = await api.post<VoidTransactionResult>(`/transactions/${transactionId}/void`, payload);
+  return response.data;
+}
+
 export default api;
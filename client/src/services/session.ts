@@ -0,0 +1,51 @@
+// Operator session: the cashier signs in with their name at the start of a shift.
+// The name is sent as `cashier` / `created_by` on every write, so audit fields show who did it
+import { useSyncExternalStore } from 'react';
+
+const STORAGE_KEY = 'amali-kredit.operator';
+
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Per browser tab: closing it ends the shift
+export function getOperator(): string | null {
+  return sessionStorage.getItem(STORAGE_KEY);
+}
+
+export function signIn(name: string) {
+  sessionStorage.setItem(STORAGE_KEY, name.trim());
+  notify();
+}
+
+export function signOut() {
+  sessionStorage.removeItem(STORAGE_KEY);
+  notify();
+}
+
+/**
+ * Signed-in operator, or null before sign-in
+ */
+export function useOperatorSession(): string | null {
+  return useSyncExternalStore(subscribe, getOperator);
+}
+
+/**
+ * Signed-in operator for screens behind the sign-in screen
+ */
+export function useOperator(): string {
+  const operator = useOperatorSession();
+  if (!operator) {
+    throw new Error('Petugas belum masuk');
+  }
+  return operator;
+}
@@ -24,12 +24,29 @@ async function main() {
   const seedData = JSON.parse(fs.readFileSync(seedDataPath, 'utf-8'));
 
   // 1. Bersihkan data lama (Strict Order)
+  await prisma.repossession.deleteMany();
+  await prisma.stocktakeItem.deleteMany();
+  await prisma.stocktake.deleteMany();
+  await prisma.supplierPayment.deleteMany();
+  await prisma.purchaseOrderItem.deleteMany();
+  await prisma.purchaseOrder.deleteMany();
+  await prisma.supplier.deleteMany();
+  await prisma.paymentAllocation.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.documentSequence.deleteMany();
   await prisma.installment.deleteMany();
+  await prisma.contractRestructure.deleteMany();
+  await prisma.contractWriteOff.deleteMany();
   await prisma.creditContract.deleteMany();
+  await prisma.transactionItem.deleteMany();
+  await prisma.productUnit.deleteMany();
+  await prisma.stockMovement.deleteMany();
   await prisma.transaction.deleteMany();
   await prisma.product.deleteMany();
+  await prisma.pricingRule.deleteMany();
   await prisma.loanScheme.deleteMany();
   await prisma.customer.deleteMany();
+  await prisma.holiday.deleteMany();
 
   console.log('🧹 Database cleaned.');
 
@@ -39,9 +56,12 @@ async function main() {
     data: {
       name: schemeData.name,
       interest_rate: schemeData.interest_rate_flat.toString(),
+      interest_method: 'FLAT',
       min_dp_percent: schemeData.min_dp_percent.toString(),
       tenor_options: schemeData.tenor_options,
       penalty_fee_daily: schemeData.penalty_fee_daily.toString(),
+      early_payoff_discount_percent: (schemeData.early_payoff_discount_percent ?? 0).toString(),
+      penalty_grace_days: schemeData.penalty_grace_days ?? 0,
       is_active: true,
     },
   });
@@ -58,11 +78,46 @@ async function main() {
         category: p.category as CategoryType,
         sub_category: p.sub_category,
         attributes: p.attributes,
+        // Opening balance on the stock ledger so stock_qty = Σ movements
+        ...(p.stock_qty > 0
+          ? {
+              stock_movements: {
+                create: { type: 'OPENING', quantity: p.stock_qty, balance_after: p.stock_qty, unit_cost: p.base_price, created_by: 'Seeder' },
+              },
+            }
+          : {}),
       },
     });
     console.log(`✅ Product created: ${p.sku} - ${p.name}`);
   }
 
+  // 4. Aturan markup harga jual (harga modal + markup)
+  for (const r of seedData.pricing_rules ?? []) {
+    await prisma.pricingRule.create({
+      data: {
+        category: r.category as CategoryType,
+        sub_category: r.sub_category,
+        cash_markup_percent: r.cash_markup_percent.toString(),
+        credit_markup_percent: r.credit_markup_percent.toString(),
+      },
+    });
+    console.log(`✅ Pricing rule created: ${r.category}${r.sub_category ? ` / ${r.sub_category}` : ''}`);
+  }
+
+  // 5. Supplier / distributor
+  for (const s of seedData.suppliers ?? []) {
+    await prisma.supplier.create({
+      data: {
+        name: s.name,
+        contact_person: s.contact_person,
+        phone: s.phone,
+        address: s.address,
+        payment_terms_days: s.payment_terms_days,
+      },
+    });
+    console.log(`✅ Supplier created: ${s.name}`);
+  }
+
   console.log('🚀 Seeding finished.');
 }
 
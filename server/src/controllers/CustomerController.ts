@@ -8,6 +8,7 @@ const customerSchema = z.object({
   name: z.string().min(2, 'Nama minimal 2 karakter'),
   phone: z.string().min(10, 'Telepon minimal 10 digit'),
   address: z.string().min(5, 'Alamat minimal 5 karakter'),
+  customer_type: z.enum(['REGULAR', 'EMPLOYEE', 'CIVIL_SERVANT', 'ENTREPRENEUR']).default('REGULAR'),
 });
 
 export class CustomerController {
@@ -109,10 +110,23 @@ export class CustomerController {
           transactions: {
             orderBy: { created_at: 'desc' },
             include: {
+              product: { select: { name: true } },
+              items: {
+                include: { product: { select: { name: true } } },
+                orderBy: { id: 'asc' }
+              },
               contract: {
                 include: {
                   installments: {
-                    orderBy: { installment_nth: 'asc' }
+                    orderBy: [{ schedule_version: 'asc' }, { installment_nth: 'asc' }]
+                  },
+                  restructures: {
+                    orderBy: { schedule_version: 'asc' }
+                  },
+                  repossessions: { orderBy: { id: 'asc' } },
+                  payments: {
+                    orderBy: [{ paid_at: 'desc' }, { id: 'desc' }],
+                    include: { reversed_by: { select: { id: true } } }
                   }
                 }
               }
@@ -132,11 +146,55 @@ export class CustomerController {
         date: t.created_at,
         total_price: t.total_price,
         status: t.status,
+        saleType: t.sale_type,
+        invoiceNo: t.invoice_no,
+        // Transactions from before cart lines existed sold a single unit
+        items: t.items.length > 0
+          ? t.items.map(item => ({ productName: item.product.name, quantity: item.quantity, lineTotal: item.line_total, units: item.units ?? [] }))
+          : [{ productName: t.product.name, quantity: 1, lineTotal: t.total_price, units: [] }],
+        voidReason: t.void_reason,
+        voidedBy: t.voided_by,
+        voidedAt: t.voided_at,
         contractId: t.contract?.id,
+        scheduleVersion: t.contract?.schedule_version ?? 1,
         installments: t.contract?.installments.map(ins => ({
             nth: ins.installment_nth,
+            version: ins.schedule_version,
+            dueDate: ins.due_date,
             status: ins.status,
             amount: ins.amount_due
+        })) || [],
+        restructures: t.contract?.restructures.map(r => ({
+            id: r.id,
+            restructureNo: r.restructure_no,
+            version: r.schedule_version,
+            type: r.type,
+            principal: r.principal_amount,
+            monthlyInstallment: r.monthly_installment,
+            tenorMonths: r.tenor_months,
+            deferMonths: r.defer_months,
+            reason: r.reason,
+            approvedBy: r.approved_by,
+            createdAt: r.created_at
+        })) || [],
+        repossessions: t.contract?.repossessions.map(r => ({
+            repossessionNo: r.repossession_no,
+            repossessedAt: r.repossessed_at,
+            condition: r.condition,
+            quantity: r.quantity,
+            assessedValue: r.assessed_value,
+            creditedAmount: r.credited_amount
+        })) || [],
+        payments: t.contract?.payments.map(p => ({
+            id: p.id,
+            receiptNo: p.receipt_no,
+            type: p.type,
+            isReversed: p.reversed_by !== null,
+            reason: p.reason,
+            paidAt: p.paid_at,
+            amount: p.amount,
+            method: p.method,
+            cashier: p.cashier
         })) || []
       }));
 
@@ -0,0 +1,100 @@
+// HolidayController: Express handlers for the holiday calendar (hari libur)
+import type { Request, Response } from 'express';
+import { calendarService } from '../services/CalendarService.js';
+import { z } from 'zod';
+
+// ============================================================================
+// ZOD SCHEMAS
+// ============================================================================
+
+const holidaySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format tanggal harus YYYY-MM-DD').pipe(z.coerce.date()),
+  name: z.string().trim().min(3, 'Nama hari libur minimal 3 karakter'),
+});
+
+const listQuerySchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100).optional(),
+});
+
+export class HolidayController {
+
+  // --------------------------------------------------------------------------
+  // GET /api/holidays?year=2026
+  // Fetch the holiday calendar
+  // --------------------------------------------------------------------------
+  async getHolidays(req: Request, res: Response): Promise<void> {
+    try {
+      const { year } = listQuerySchema.parse(req.query);
+      const holidays = await calendarService.listHolidays(year);
+
+      res.status(200).json({
+        success: true,
+        data: holidays,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/holidays
+  // Add a holiday; applies to installments created from now on
+  // --------------------------------------------------------------------------
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const input = holidaySchema.parse(req.body ?? {});
+      const holiday = await calendarService.createHoliday(input);
+
+      res.status(201).json({
+        success: true,
+        message: `Hari libur "${holiday.name}" ditambahkan`,
+        data: holiday,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // DELETE /api/holidays/:id
+  // Remove a holiday
+  // --------------------------------------------------------------------------
+  async remove(req: Request, res: Response): Promise<void> {
+    try {
+      const holidayId = parseInt(req.params.id as string);
+
+      if (isNaN(holidayId)) {
+        res.status(400).json({ success: false, error: 'Invalid holiday ID' });
+        return;
+      }
+
+      const holiday = await calendarService.deleteHoliday(holidayId);
+
+      res.status(200).json({
+        success: true,
+        message: `Hari libur "${holiday.name}" dihapus`,
+        data: holiday,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Helper: Map validation and service errors to HTTP status codes
+  // --------------------------------------------------------------------------
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: error.issues });
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    const status = message.includes('tidak ditemukan') ? 404 : message.includes('sudah dipakai') ? 409 : 400;
+    res.status(status).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+export const holidayController = new HolidayController();
@@ -1,6 +1,29 @@
 // PaymentController: Express handlers for contract management and payments
 import type { Request, Response } from 'express';
 import { prisma } from '../lib/prisma.js';
+import { penaltyService } from '../services/PenaltyService.js';
+import { paymentService } from '../services/PaymentService.js';
+import { payoffService } from '../services/PayoffService.js';
+import { reconciliationService } from '../services/ReconciliationService.js';
+import { z } from 'zod';
+
+const paySchema = z.object({
+  amount: z.number().positive('Jumlah pembayaran harus lebih dari 0').optional(),
+  method: z.enum(['CASH', 'TRANSFER', 'QRIS']).default('CASH'),
+  cashier: z.string().min(1, 'Nama kasir harus diisi'),
+  notes: z.string().optional(),
+});
+
+const reverseSchema = z.object({
+  reason: z.string().trim().min(5, 'Alasan pembatalan minimal 5 karakter'),
+  cashier: z.string().min(1, 'Nama kasir harus diisi'),
+});
+
+const settleSchema = z.object({
+  method: z.enum(['CASH', 'TRANSFER', 'QRIS']).default('CASH'),
+  cashier: z.string().min(1, 'Nama kasir harus diisi'),
+  expectedTotal: z.number().nonnegative().optional(),
+});
 
 export class PaymentController {
   
@@ -19,11 +42,20 @@ export class PaymentController {
         include: {
           transaction: {
             include: {
-              product: true
+              product: true,
+              items: {
+                include: { product: { select: { name: true, sku: true } } },
+                orderBy: { id: 'asc' }
+              }
             }
           },
+          // Current schedule only; superseded rows stay in the customer history
           installments: {
-            orderBy: { installment_nth: 'asc' }
+            where: { status: { not: 'SUPERSEDED' } },
+            orderBy: [{ schedule_version: 'asc' }, { installment_nth: 'asc' }]
+          },
+          restructures: {
+            orderBy: { schedule_version: 'asc' }
           }
         },
         orderBy: {
@@ -43,9 +75,29 @@ export class PaymentController {
     }
   }
 
+  // --------------------------------------------------------------------------
+  // GET /api/contracts/reconciliation
+  // Contracts whose installments don't add up to principal + interest
+  // --------------------------------------------------------------------------
+  async getReconciliation(_req: Request, res: Response): Promise<void> {
+    try {
+      const report = await reconciliationService.reconcileContracts();
+
+      res.status(200).json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal Server Error',
+      });
+    }
+  }
+
   // --------------------------------------------------------------------------
   // POST /api/installments/:id/pay
-  // Record payment for a specific installment
+  // Record a (partial) payment; overpayment is carried to the next installments
   // --------------------------------------------------------------------------
   async payInstallment(req: Request, res: Response): Promise<void> {
     try {
@@ -57,59 +109,189 @@ export class PaymentController {
         return;
       }
 
-      await prisma.$transaction(async (tx) => {
-        const installment = await tx.installment.findUnique({
-          where: { id: installmentId },
-          include: {
-            contract: {
-              include: {
-                installments: true,
-                transaction: true
-              }
-            }
-          }
-        });
+      const { amount, method, cashier, notes } = paySchema.parse(req.body ?? {});
 
-        if (!installment) {
-          throw new Error('Installment not found');
-        }
+      const result = await paymentService.payInstallment({
+        installmentId,
+        method,
+        cashier,
+        ...(amount !== undefined ? { amount } : {}),
+        ...(notes !== undefined ? { notes } : {}),
+      });
 
-        if (installment.status === 'PAID') {
-          throw new Error('Installment is already paid');
-        }
+      res.status(200).json({
+        success: true,
+        message: result.contractCompleted
+          ? 'Payment received, contract is fully paid'
+          : 'Payment received successfully',
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ success: false, error: error.issues });
+        return;
+      }
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Payment failed',
+      });
+    }
+  }
 
-        // Update installment as paid
-        await tx.installment.update({
-          where: { id: installmentId },
-          data: {
-            status: 'PAID',
-            amount_paid: installment.amount_due,
-            paid_at: new Date(),
-          }
-        });
-
-        // CHECK IF ALL INSTALLMENTS ARE PAID
-        const allPaid = installment.contract.installments.every(inst => 
-          inst.id === installmentId ? true : inst.status === 'PAID'
-        );
-
-        if (allPaid) {
-          // Update transaction to PAID (Completed)
-          await tx.transaction.update({
-            where: { id: installment.contract.transaction_id },
-            data: { status: 'PAID' }
-          });
-        }
+  // --------------------------------------------------------------------------
+  // POST /api/payments/:id/reverse
+  // Undo a recorded payment; the original receipt is kept
+  // --------------------------------------------------------------------------
+  async reversePayment(req: Request, res: Response): Promise<void> {
+    try {
+      const paymentId = parseInt(req.params.id as string);
+
+      if (isNaN(paymentId)) {
+        res.status(400).json({ success: false, error: 'Invalid payment ID' });
+        return;
+      }
+
+      const { reason, cashier } = reverseSchema.parse(req.body ?? {});
+      const result = await paymentService.reversePayment({ paymentId, reason, cashier });
+
+      res.status(200).json({
+        success: true,
+        message: `Kuitansi ${result.reversedReceiptNo} dibatalkan`,
+        data: result,
       });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ success: false, error: error.issues });
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Reversal failed';
+      res.status(message.includes('tidak ditemukan') ? 404 : 400).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // GET /api/contracts/:id/payments
+  // Payment ledger (kuitansi) for a contract
+  // --------------------------------------------------------------------------
+  async getContractPayments(req: Request, res: Response): Promise<void> {
+    try {
+      const contractId = parseInt(req.params.id as string);
+
+      if (isNaN(contractId)) {
+        res.status(400).json({ success: false, error: 'Invalid contract ID' });
+        return;
+      }
+
+      const payments = await paymentService.getContractPayments(contractId);
+
+      res.status(200).json({
+        success: true,
+        data: payments,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Internal Server Error';
+      res.status(message.includes('tidak ditemukan') ? 404 : 500).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // GET /api/contracts/:id/payoff-quote
+  // Early payoff amount if the customer settles today
+  // --------------------------------------------------------------------------
+  async getPayoffQuote(req: Request, res: Response): Promise<void> {
+    try {
+      const contractId = parseInt(req.params.id as string);
+
+      if (isNaN(contractId)) {
+        res.status(400).json({ success: false, error: 'Invalid contract ID' });
+        return;
+      }
+
+      const quote = await payoffService.getQuote(contractId);
+
+      res.status(200).json({
+        success: true,
+        data: quote,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Internal Server Error';
+      res.status(message.includes('tidak ditemukan') ? 404 : 400).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/contracts/:id/settle
+  // Pay off the whole contract early and close it
+  // --------------------------------------------------------------------------
+  async settleContract(req: Request, res: Response): Promise<void> {
+    try {
+      const contractId = parseInt(req.params.id as string);
+
+      if (isNaN(contractId)) {
+        res.status(400).json({ success: false, error: 'Invalid contract ID' });
+        return;
+      }
+
+      const { method, cashier, expectedTotal } = settleSchema.parse(req.body ?? {});
+      const result = await payoffService.settle({
+        contractId,
+        method,
+        cashier,
+        ...(expectedTotal !== undefined ? { expectedTotal } : {}),
+      });
+
+      res.status(200).json({
+        success: true,
+        message: `Kontrak lunas dengan kuitansi ${result.receiptNo}`,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ success: false, error: error.issues });
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Settlement failed';
+      res.status(message.includes('tidak ditemukan') ? 404 : 400).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/penalties/accrue
+  // Recalculate late fees for all overdue installments (on demand)
+  // --------------------------------------------------------------------------
+  async accruePenalties(req: Request, res: Response): Promise<void> {
+    try {
+      const { asOf } = req.body ?? {};
+      const asOfDate = asOf ? new Date(asOf) : new Date();
+
+      if (isNaN(asOfDate.getTime())) {
+        res.status(400).json({ success: false, error: 'Tanggal asOf tidak valid' });
+        return;
+      }
+
+      const result = await penaltyService.accruePenalties(asOfDate);
 
       res.status(200).json({
         success: true,
-        message: 'Payment received successfully',
+        message: `Denda dihitung untuk ${result.processed} angsuran`,
+        data: result,
       });
     } catch (error) {
       res.status(400).json({
         success: false,
-        error: error instanceof Error ? error.message : 'Payment failed',
+        error: error instanceof Error ? error.message : 'Internal Server Error',
       });
     }
   }
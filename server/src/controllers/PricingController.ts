@@ -0,0 +1,128 @@
+// PricingController: Express handlers for selling-price markup rules
+import type { Request, Response } from 'express';
+import { pricingService } from '../services/PricingService.js';
+import { z } from 'zod';
+
+// ============================================================================
+// ZOD SCHEMAS
+// ============================================================================
+
+const pricingRuleSchema = z.object({
+  category: z.enum(['ELECTRONIC', 'FURNITURE', 'VEHICLE']),
+  sub_category: z.string().trim().min(2).nullable().default(null),
+  cash_markup_percent: z.number()
+    .min(0, 'Markup tunai tidak boleh negatif')
+    .max(500, 'Markup tunai maksimal 500%'),
+  credit_markup_percent: z.number()
+    .min(0, 'Markup kredit tidak boleh negatif')
+    .max(500, 'Markup kredit maksimal 500%'),
+  is_active: z.boolean().default(true),
+});
+
+export class PricingController {
+
+  // --------------------------------------------------------------------------
+  // GET /api/pricing-rules
+  // Fetch all markup rules
+  // --------------------------------------------------------------------------
+  async getRules(_req: Request, res: Response): Promise<void> {
+    try {
+      const rules = await pricingService.listRules();
+
+      res.status(200).json({
+        success: true,
+        data: rules,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/pricing-rules
+  // Create a markup rule for a category or sub-category
+  // --------------------------------------------------------------------------
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const input = pricingRuleSchema.parse(req.body ?? {});
+      const rule = await pricingService.createRule(input);
+
+      res.status(201).json({
+        success: true,
+        message: 'Aturan harga dibuat',
+        data: rule,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // PUT /api/pricing-rules/:id
+  // Update a markup rule; applies to sales made from now on
+  // --------------------------------------------------------------------------
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      const ruleId = parseInt(req.params.id as string);
+
+      if (isNaN(ruleId)) {
+        res.status(400).json({ success: false, error: 'Invalid pricing rule ID' });
+        return;
+      }
+
+      const input = pricingRuleSchema.parse(req.body ?? {});
+      const rule = await pricingService.updateRule(ruleId, input);
+
+      res.status(200).json({
+        success: true,
+        message: 'Aturan harga diperbarui',
+        data: rule,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // DELETE /api/pricing-rules/:id
+  // Remove a markup rule
+  // --------------------------------------------------------------------------
+  async remove(req: Request, res: Response): Promise<void> {
+    try {
+      const ruleId = parseInt(req.params.id as string);
+
+      if (isNaN(ruleId)) {
+        res.status(400).json({ success: false, error: 'Invalid pricing rule ID' });
+        return;
+      }
+
+      const rule = await pricingService.deleteRule(ruleId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Aturan harga dihapus',
+        data: rule,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Helper: Map validation and service errors to HTTP status codes
+  // --------------------------------------------------------------------------
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: error.issues });
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    const status = message.includes('tidak ditemukan') ? 404 : message.includes('sudah dipakai') ? 409 : 400;
+    res.status(status).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+export const pricingController = new PricingController();
@@ -1,21 +1,16 @@
 // ProductController: Express handlers for inventory management
 import type { Request, Response } from 'express';
 import { prisma } from '../lib/prisma.js';
+import { registerUnits, unitIdentifiersSchema } from '../lib/productUnits.js';
+import { moveStock } from '../lib/stockMovements.js';
+import { productUnitService } from '../services/ProductUnitService.js';
+import { productService } from '../services/ProductService.js';
 import { z } from 'zod';
 
 // ============================================================================
 // ZOD SCHEMAS (Synced with Frontend)
 // ============================================================================
 
-const baseProductSchema = z.object({
-  sku: z.string().min(3),
-  name: z.string().min(2),
-  base_price: z.number().min(0),
-  stock_qty: z.number().int().min(0),
-  category: z.enum(['ELECTRONIC', 'FURNITURE', 'VEHICLE']),
-  sub_category: z.string().min(2),
-});
-
 const productSchema = z.object({
   sku: z.string().min(3),
   name: z.string().min(2),
@@ -23,7 +18,80 @@ const productSchema = z.object({
   stock_qty: z.number().int().min(0),
   category: z.enum(['ELECTRONIC', 'FURNITURE', 'VEHICLE']),
   sub_category: z.string().min(2),
+  // Selling prices; leave empty to follow the category markup rule
+  cash_price: z.number().positive().nullable().default(null),
+  credit_price: z.number().positive().nullable().default(null),
   attributes: z.record(z.string(), z.any()), // Specify key and value schema
+  // Per-unit tracking: one entry per unit in stock (stock_qty must match)
+  track_units: z.boolean().default(false),
+  units: z.array(unitIdentifiersSchema).default([]),
+  cashier: z.string().min(1, 'Nama kasir harus diisi'), // Opening stock on the stock ledger
+})
+  .refine(
+    (p) => !p.track_units || p.units.length === p.stock_qty,
+    { message: 'Jumlah unit harus sama dengan stok awal', path: ['units'] }
+  )
+  .refine(
+    (p) => p.track_units || p.units.length === 0,
+    { message: 'Nomor unit hanya untuk produk yang dicatat per unit', path: ['units'] }
+  );
+
+// Category-specific attributes; only these keys are validated, the service keeps the others
+const electronicAttributesSchema = z.object({
+  brand: z.string().min(2, 'Brand minimal 2 karakter'),
+  warranty: z.string().min(1, 'Warranty harus diisi'),
+});
+
+const furnitureAttributesSchema = z.object({
+  dimensions: z.string().min(3, 'Dimensi harus diisi (e.g., 200x100x80)'),
+  material: z.string().min(2, 'Material harus diisi'),
+  color: z.string().min(2, 'Warna harus diisi'),
+});
+
+const vehicleAttributesSchema = z.object({
+  color: z.string().min(2, 'Warna harus diisi'),
+  year: z.number().int().min(2000, 'Tahun minimal 2000'),
+});
+
+// Master data only: stock, harga modal and unit tracking move through the stock ledger
+const productDetailsSchema = z.object({
+  sku: z.string().trim().min(3, 'SKU minimal 3 karakter'),
+  name: z.string().trim().min(2, 'Nama produk minimal 2 karakter'),
+  sub_category: z.string().min(1, 'Tipe produk harus dipilih'),
+  // Selling prices; null = follow the markup rule of the category
+  cash_price: z.number().min(1000, 'Harga minimal Rp 1.000').nullable(),
+  credit_price: z.number().min(1000, 'Harga minimal Rp 1.000').nullable(),
+});
+
+const productUpdateSchema = z.discriminatedUnion('category', [
+  productDetailsSchema.extend({ category: z.literal('ELECTRONIC'), attributes: electronicAttributesSchema }),
+  productDetailsSchema.extend({ category: z.literal('FURNITURE'), attributes: furnitureAttributesSchema }),
+  productDetailsSchema.extend({ category: z.literal('VEHICLE'), attributes: vehicleAttributesSchema }),
+]);
+
+const productStatusSchema = z.object({
+  is_active: z.boolean(),
+});
+
+const restockSchema = z.object({
+  quantity_to_add: z.number().int().positive('Quantity must be a positive number').optional(),
+  units: z.array(unitIdentifiersSchema).optional(),
+  unit_cost: z.number().min(0, 'Harga beli tidak boleh negatif').optional(), // Re-averages harga modal
+  cashier: z.string().min(1, 'Nama kasir harus diisi'),
+});
+
+const unitStatusQuerySchema = z.object({
+  // Comma-separated, e.g. "IN_STOCK,REPOSSESSED"
+  status: z.string().optional().transform((value) => value ? value.split(',') : [])
+    .pipe(z.array(z.enum(['IN_STOCK', 'SOLD', 'REPOSSESSED', 'WARRANTY', 'MISSING']))),
+});
+
+const unitSearchQuerySchema = z.object({
+  q: z.string().trim().min(3, 'Kata kunci minimal 3 karakter'),
+});
+
+const warrantySchema = z.object({
+  under_warranty: z.boolean(),
 });
 
 export class ProductController {
@@ -49,17 +117,35 @@ export class ProductController {
         return;
       }
 
-      const product = await prisma.product.create({
-        data: {
-          sku: validatedData.sku,
-          name: validatedData.name,
-          base_price: validatedData.base_price,
-          stock_qty: validatedData.stock_qty,
-          category: validatedData.category as any, // Cast to avoid Prisma enum mismatch if not synced
-          sub_category: validatedData.sub_category,
-          attributes: validatedData.attributes,
-          is_active: true
+      const product = await prisma.$transaction(async (tx) => {
+        const created = await tx.product.create({
+          data: {
+            sku: validatedData.sku,
+            name: validatedData.name,
+            base_price: validatedData.base_price,
+            cash_price: validatedData.cash_price,
+            credit_price: validatedData.credit_price,
+            stock_qty: 0, // Opening stock is booked through the stock ledger below
+            category: validatedData.category as any, // Cast to avoid Prisma enum mismatch if not synced
+            sub_category: validatedData.sub_category,
+            attributes: validatedData.attributes,
+            track_units: validatedData.track_units,
+            is_active: true
+          }
+        });
+
+        if (validatedData.track_units && validatedData.units.length > 0) {
+          await registerUnits(tx, created, validatedData.units);
+        }
+        if (validatedData.stock_qty > 0) {
+          return moveStock(tx, {
+            productId: created.id,
+            type: 'OPENING',
+            quantity: validatedData.stock_qty,
+            createdBy: validatedData.cashier,
+          });
         }
+        return created;
       });
 
       res.status(201).json({
@@ -67,56 +153,201 @@ export class ProductController {
         data: product
       });
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        res.status(400).json({ success: false, error: (error as any).issues || (error as any).errors });
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // GET /api/products/:id
+  // Full product detail, including inactive products and attributes
+  // --------------------------------------------------------------------------
+  async getProduct(req: Request, res: Response): Promise<void> {
+    try {
+      const productId = parseInt(req.params.id as string);
+
+      if (isNaN(productId)) {
+        res.status(400).json({ success: false, error: 'Invalid product ID' });
+        return;
+      }
+
+      const product = await productService.getProduct(productId);
+
+      res.status(200).json({
+        success: true,
+        data: product,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // PUT /api/products/:id
+  // Correct a product's master data (SKU locked once sold)
+  // --------------------------------------------------------------------------
+  async updateProduct(req: Request, res: Response): Promise<void> {
+    try {
+      const productId = parseInt(req.params.id as string);
+
+      if (isNaN(productId)) {
+        res.status(400).json({ success: false, error: 'Invalid product ID' });
+        return;
+      }
+
+      const input = productUpdateSchema.parse(req.body ?? {});
+      const product = await productService.updateProduct(productId, input);
+
+      res.status(200).json({
+        success: true,
+        message: 'Produk diperbarui',
+        data: product,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // PATCH /api/products/:id/status
+  // Deactivate (discontinued) or reactivate a product
+  // --------------------------------------------------------------------------
+  async setStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const productId = parseInt(req.params.id as string);
+
+      if (isNaN(productId)) {
+        res.status(400).json({ success: false, error: 'Invalid product ID' });
         return;
       }
-      res.status(500).json({
-        success: false,
-        error: error instanceof Error ? error.message : 'Internal Server Error'
+
+      const { is_active } = productStatusSchema.parse(req.body ?? {});
+      const product = await productService.setActive(productId, is_active);
+
+      res.status(200).json({
+        success: true,
+        message: is_active ? 'Produk diaktifkan kembali' : 'Produk dinonaktifkan',
+        data: product,
       });
+    } catch (error) {
+      this.handleError(res, error);
     }
   }
 
   // --------------------------------------------------------------------------
   // PATCH /api/products/:id/stock
-  // Increment product stock
+  // Increment product stock (tracked products: register each unit instead)
   // --------------------------------------------------------------------------
   async restockProduct(req: Request, res: Response): Promise<void> {
     try {
-      const id = req.params.id as string;
-      const { quantity_to_add } = req.body;
-      const productId = parseInt(id);
+      const productId = parseInt(req.params.id as string);
 
       if (isNaN(productId)) {
         res.status(400).json({ success: false, error: 'Invalid product ID' });
         return;
       }
 
-      if (typeof quantity_to_add !== 'number' || quantity_to_add <= 0) {
-        res.status(400).json({ success: false, error: 'Quantity must be a positive number' });
+      const { quantity_to_add, units, unit_cost, cashier } = restockSchema.parse(req.body ?? {});
+      const result = await productUnitService.restock({
+        productId,
+        quantity: quantity_to_add,
+        units,
+        unitCost: unit_cost,
+        cashier,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result.product,
+        units: result.units,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // GET /api/products/:id/units?status=IN_STOCK,REPOSSESSED
+  // Physical units of a product
+  // --------------------------------------------------------------------------
+  async getUnits(req: Request, res: Response): Promise<void> {
+    try {
+      const productId = parseInt(req.params.id as string);
+
+      if (isNaN(productId)) {
+        res.status(400).json({ success: false, error: 'Invalid product ID' });
         return;
       }
 
-      const updatedProduct = await prisma.product.update({
-        where: { id: productId },
-        data: {
-          stock_qty: {
-            increment: quantity_to_add
-          }
-        }
+      const { status } = unitStatusQuerySchema.parse(req.query);
+      const units = await productUnitService.listUnits(productId, status);
+
+      res.status(200).json({
+        success: true,
+        data: units,
       });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // GET /api/product-units?q=...
+  // Look up units by serial number, IMEI, engine or chassis number
+  // --------------------------------------------------------------------------
+  async searchUnits(req: Request, res: Response): Promise<void> {
+    try {
+      const { q } = unitSearchQuerySchema.parse(req.query);
+      const units = await productUnitService.searchUnits(q);
 
       res.status(200).json({
         success: true,
-        data: updatedProduct
+        data: units,
       });
     } catch (error) {
-      res.status(400).json({
-        success: false,
-        error: error instanceof Error ? error.message : 'Update failed'
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // PATCH /api/product-units/:id/warranty
+  // Start or finish a warranty claim on a sold unit
+  // --------------------------------------------------------------------------
+  async setWarranty(req: Request, res: Response): Promise<void> {
+    try {
+      const unitId = parseInt(req.params.id as string);
+
+      if (isNaN(unitId)) {
+        res.status(400).json({ success: false, error: 'Invalid unit ID' });
+        return;
+      }
+
+      const { under_warranty } = warrantySchema.parse(req.body ?? {});
+      const unit = await productUnitService.setWarranty(unitId, under_warranty);
+
+      res.status(200).json({
+        success: true,
+        message: under_warranty ? 'Unit masuk klaim garansi' : 'Klaim garansi selesai',
+        data: unit,
       });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Helper: Map validation and service errors to HTTP status codes
+  // --------------------------------------------------------------------------
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: error.issues });
+      return;
     }
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    const status = message.includes('tidak ditemukan') ? 404 : message.includes('sudah dipakai') ? 409 : 400;
+    res.status(status).json({
+      success: false,
+      error: message,
+    });
   }
 }
 
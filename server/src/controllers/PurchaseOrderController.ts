@@ -0,0 +1,205 @@
+// PurchaseOrderController: Express handlers for purchase orders, goods receipt and supplier payments
+import type { Request, Response } from 'express';
+import { purchaseOrderService } from '../services/PurchaseOrderService.js';
+import { unitIdentifiersSchema } from '../lib/productUnits.js';
+import { z } from 'zod';
+
+// ============================================================================
+// ZOD SCHEMAS
+// ============================================================================
+
+const orderSchema = z.object({
+  supplierId: z.number().int().positive(),
+  items: z.array(z.object({
+    productId: z.number().int().positive(),
+    quantity: z.number().int().min(1, 'Jumlah minimal 1'),
+    unitCost: z.number().positive('Harga beli harus lebih dari 0'),
+  })).min(1, 'PO minimal berisi satu produk'),
+  notes: z.string().trim().optional(),
+  cashier: z.string().min(1, 'Nama kasir harus diisi'),
+});
+
+const receiveSchema = z.object({
+  items: z.array(z.object({
+    itemId: z.number().int().positive(),
+    quantity: z.number().int().min(1, 'Jumlah minimal 1'),
+    units: z.array(unitIdentifiersSchema).optional(), // Products with per-unit tracking
+  })).min(1, 'Tidak ada barang yang diterima')
+    .refine(
+      (items) => new Set(items.map((item) => item.itemId)).size === items.length,
+      'Baris PO yang sama tercantum lebih dari sekali'
+    ),
+  supplierInvoiceNo: z.string().trim().min(1).optional(),
+  cashier: z.string().min(1, 'Nama kasir harus diisi'),
+});
+
+const paymentSchema = z.object({
+  amount: z.number().positive('Jumlah pembayaran harus lebih dari 0'),
+  method: z.enum(['CASH', 'TRANSFER', 'QRIS']).default('TRANSFER'),
+  cashier: z.string().min(1, 'Nama kasir harus diisi'),
+  notes: z.string().trim().optional(),
+});
+
+const orderQuerySchema = z.object({
+  supplierId: z.coerce.number().int().positive().optional(),
+  status: z.enum(['OPEN', 'PARTIAL', 'RECEIVED', 'CANCELLED']).optional(),
+});
+
+export class PurchaseOrderController {
+
+  // --------------------------------------------------------------------------
+  // GET /api/purchase-orders?supplierId=&status=
+  // Fetch purchase orders, newest first
+  // --------------------------------------------------------------------------
+  async getOrders(req: Request, res: Response): Promise<void> {
+    try {
+      const filter = orderQuerySchema.parse(req.query);
+      const orders = await purchaseOrderService.listOrders(filter);
+
+      res.status(200).json({
+        success: true,
+        data: orders,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // GET /api/purchase-orders/:id
+  // Purchase order with its lines and payments
+  // --------------------------------------------------------------------------
+  async getOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const orderId = parseInt(req.params.id as string);
+
+      if (isNaN(orderId)) {
+        res.status(400).json({ success: false, error: 'Invalid purchase order ID' });
+        return;
+      }
+
+      const order = await purchaseOrderService.getOrder(orderId);
+
+      res.status(200).json({
+        success: true,
+        data: order,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/purchase-orders
+  // Order goods from a supplier
+  // --------------------------------------------------------------------------
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const input = orderSchema.parse(req.body ?? {});
+      const order = await purchaseOrderService.createOrder(input);
+
+      res.status(201).json({
+        success: true,
+        message: `Purchase order ${order.po_no} dibuat`,
+        data: order,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/purchase-orders/:id/receive
+  // Receive (part of) the ordered goods into stock
+  // --------------------------------------------------------------------------
+  async receive(req: Request, res: Response): Promise<void> {
+    try {
+      const orderId = parseInt(req.params.id as string);
+
+      if (isNaN(orderId)) {
+        res.status(400).json({ success: false, error: 'Invalid purchase order ID' });
+        return;
+      }
+
+      const { items, supplierInvoiceNo, cashier } = receiveSchema.parse(req.body ?? {});
+      const order = await purchaseOrderService.receive({ orderId, items, supplierInvoiceNo, cashier });
+
+      res.status(200).json({
+        success: true,
+        message: 'Barang diterima ke stok',
+        data: order,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/purchase-orders/:id/payments
+  // Pay the supplier for goods received on this order
+  // --------------------------------------------------------------------------
+  async pay(req: Request, res: Response): Promise<void> {
+    try {
+      const orderId = parseInt(req.params.id as string);
+
+      if (isNaN(orderId)) {
+        res.status(400).json({ success: false, error: 'Invalid purchase order ID' });
+        return;
+      }
+
+      const { amount, method, cashier, notes } = paymentSchema.parse(req.body ?? {});
+      const payment = await purchaseOrderService.pay({ orderId, amount, method, cashier, notes });
+
+      res.status(201).json({
+        success: true,
+        message: `Pembayaran ${payment.payment_no} dicatat`,
+        data: payment,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/purchase-orders/:id/cancel
+  // Cancel an order before anything was received
+  // --------------------------------------------------------------------------
+  async cancel(req: Request, res: Response): Promise<void> {
+    try {
+      const orderId = parseInt(req.params.id as string);
+
+      if (isNaN(orderId)) {
+        res.status(400).json({ success: false, error: 'Invalid purchase order ID' });
+        return;
+      }
+
+      const order = await purchaseOrderService.cancel(orderId);
+
+      res.status(200).json({
+        success: true,
+        message: `Purchase order ${order.po_no} dibatalkan`,
+        data: order,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Helper: Map validation and service errors to HTTP status codes
+  // --------------------------------------------------------------------------
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: error.issues });
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    const status = message.includes('tidak ditemukan') ? 404 : message.includes('sudah dipakai') ? 409 : 400;
+    res.status(status).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+export const purchaseOrderController = new PurchaseOrderController();
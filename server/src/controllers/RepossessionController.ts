@@ -0,0 +1,92 @@
+// RepossessionController: Express handlers for repossession (tarik barang)
+import type { Request, Response } from 'express';
+import { repossessionService } from '../services/RepossessionService.js';
+import { z } from 'zod';
+
+// ============================================================================
+// ZOD SCHEMAS
+// ============================================================================
+
+const repossessSchema = z.object({
+  repossessedAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format tanggal harus YYYY-MM-DD').pipe(z.coerce.date())
+    .default(() => new Date()),
+  condition: z.enum(['GOOD', 'FAIR', 'POOR']),
+  conditionNotes: z.string().trim().optional(),
+  assessedValue: z.number().min(0, 'Nilai taksiran tidak boleh negatif'),
+  creditedAmount: z.number().min(0, 'Nilai yang dikreditkan tidak boleh negatif'),
+  resalePrice: z.number().positive('Harga jual barang bekas harus lebih dari 0'),
+  transactionItemId: z.number().int().positive().optional(),
+  quantity: z.number().int().positive('Jumlah yang ditarik minimal 1').default(1),
+  unitId: z.number().int().positive().optional(),
+  cashier: z.string().min(1, 'Nama kasir harus diisi'),
+});
+
+export class RepossessionController {
+
+  // --------------------------------------------------------------------------
+  // GET /api/contracts/:id/repossessions
+  // Repossession records of a contract (empty if nothing was taken back)
+  // --------------------------------------------------------------------------
+  async getByContract(req: Request, res: Response): Promise<void> {
+    try {
+      const contractId = parseInt(req.params.id as string);
+
+      if (isNaN(contractId)) {
+        res.status(400).json({ success: false, error: 'Invalid contract ID' });
+        return;
+      }
+
+      const repossessions = await repossessionService.getByContract(contractId);
+
+      res.status(200).json({
+        success: true,
+        data: repossessions,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/contracts/:id/repossess
+  // Take the unit back, credit its value and restock it as second-hand
+  // --------------------------------------------------------------------------
+  async repossess(req: Request, res: Response): Promise<void> {
+    try {
+      const contractId = parseInt(req.params.id as string);
+
+      if (isNaN(contractId)) {
+        res.status(400).json({ success: false, error: 'Invalid contract ID' });
+        return;
+      }
+
+      const input = repossessSchema.parse(req.body ?? {});
+      const result = await repossessionService.repossess({ contractId, ...input });
+
+      res.status(201).json({
+        success: true,
+        message: `Barang ditarik (${result.repossession.repossession_no}), masuk stok sebagai ${result.resaleProduct.sku}`,
+        data: result,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Helper: Map validation and service errors to HTTP status codes
+  // --------------------------------------------------------------------------
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: error.issues });
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    res.status(message.includes('tidak ditemukan') ? 404 : 400).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+export const repossessionController = new RepossessionController();
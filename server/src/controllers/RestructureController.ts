@@ -0,0 +1,124 @@
+// RestructureController: Express handlers for contract restructuring (restrukturisasi kredit)
+import type { Request, Response } from 'express';
+import { restructureService } from '../services/RestructureService.js';
+import { z } from 'zod';
+
+// ============================================================================
+// ZOD SCHEMAS
+// ============================================================================
+
+const termsSchema = z.object({
+  type: z.enum(['EXTEND_TENOR', 'REDUCE_INSTALLMENT', 'DEFERMENT']),
+  tenorMonths: z.number().int().min(1, 'Tenor minimal 1 bulan').max(60, 'Tenor maksimal 60 bulan'),
+  deferMonths: z.number().int().min(0, 'Penundaan tidak boleh negatif').max(12, 'Penundaan maksimal 12 bulan').default(0),
+  interestRate: z.number().min(0, 'Bunga tidak boleh negatif').max(10, 'Bunga maksimal 10% per bulan').optional(),
+});
+
+const restructureSchema = termsSchema.extend({
+  reason: z.string().trim().min(5, 'Alasan restrukturisasi minimal 5 karakter'),
+  approvedBy: z.string().trim().min(1, 'Nama atasan yang menyetujui harus diisi'),
+  cashier: z.string().min(1, 'Nama kasir harus diisi'),
+});
+
+export class RestructureController {
+
+  // --------------------------------------------------------------------------
+  // GET /api/contracts/:id/restructures
+  // Restructure history of a contract
+  // --------------------------------------------------------------------------
+  async getHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const contractId = parseInt(req.params.id as string);
+
+      if (isNaN(contractId)) {
+        res.status(400).json({ success: false, error: 'Invalid contract ID' });
+        return;
+      }
+
+      const restructures = await restructureService.getHistory(contractId);
+
+      res.status(200).json({
+        success: true,
+        data: restructures,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/contracts/:id/restructure/preview
+  // New schedule for the outstanding balance, nothing is saved
+  // --------------------------------------------------------------------------
+  async preview(req: Request, res: Response): Promise<void> {
+    try {
+      const contractId = parseInt(req.params.id as string);
+
+      if (isNaN(contractId)) {
+        res.status(400).json({ success: false, error: 'Invalid contract ID' });
+        return;
+      }
+
+      const { interestRate, ...terms } = termsSchema.parse(req.body ?? {});
+      const preview = await restructureService.preview({
+        contractId,
+        ...terms,
+        ...(interestRate !== undefined ? { interestRate } : {}),
+      });
+
+      res.status(200).json({
+        success: true,
+        data: preview,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/contracts/:id/restructure
+  // Supersede the open installments and reschedule the outstanding balance
+  // --------------------------------------------------------------------------
+  async restructure(req: Request, res: Response): Promise<void> {
+    try {
+      const contractId = parseInt(req.params.id as string);
+
+      if (isNaN(contractId)) {
+        res.status(400).json({ success: false, error: 'Invalid contract ID' });
+        return;
+      }
+
+      const { interestRate, ...input } = restructureSchema.parse(req.body ?? {});
+      const result = await restructureService.restructure({
+        contractId,
+        ...input,
+        ...(interestRate !== undefined ? { interestRate } : {}),
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `Kontrak direstrukturisasi (${result.restructure.restructure_no})`,
+        data: result,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Helper: Map validation and service errors to HTTP status codes
+  // --------------------------------------------------------------------------
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: error.issues });
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    res.status(message.includes('tidak ditemukan') ? 404 : 400).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+export const restructureController = new RestructureController();
@@ -0,0 +1,223 @@
+// SchemeController: Express handlers for loan scheme (skema kredit) management
+import type { Request, Response } from 'express';
+import { schemeService } from '../services/SchemeService.js';
+import { schemeChargeSchema } from '../lib/schemeCharges.js';
+import { z } from 'zod';
+
+// ============================================================================
+// ZOD SCHEMAS
+// ============================================================================
+
+const schemeSchema = z.object({
+  name: z.string().trim().min(3, 'Nama skema minimal 3 karakter'),
+  interest_method: z.enum(['FLAT', 'ANNUITY', 'SYARIAH']).default('FLAT'),
+  interest_rate: z.number()
+    .min(0, 'Bunga tidak boleh negatif')
+    .max(10, 'Bunga maksimal 10% per bulan'),
+  min_dp_percent: z.number()
+    .min(0, 'DP minimal tidak boleh negatif')
+    .max(90, 'DP minimal maksimal 90%'),
+  tenor_options: z.array(
+    z.number().int('Tenor harus bilangan bulat').min(1, 'Tenor minimal 1 bulan').max(60, 'Tenor maksimal 60 bulan')
+  )
+    .min(1, 'Minimal satu pilihan tenor')
+    .refine((tenors) => new Set(tenors).size === tenors.length, 'Pilihan tenor tidak boleh duplikat'),
+  penalty_fee_daily: z.number().min(0, 'Denda harian tidak boleh negatif'),
+  penalty_grace_days: z.number()
+    .int('Masa tenggang harus bilangan bulat')
+    .min(0, 'Masa tenggang tidak boleh negatif')
+    .max(30, 'Masa tenggang maksimal 30 hari')
+    .default(0),
+  early_payoff_discount_percent: z.number()
+    .min(0, 'Diskon pelunasan tidak boleh negatif')
+    .max(100, 'Diskon pelunasan maksimal 100%')
+    .default(0),
+  // Eligibility rules: empty / null = no restriction
+  eligible_categories: z.array(z.enum(['ELECTRONIC', 'FURNITURE', 'VEHICLE'])).default([]),
+  eligible_sub_categories: z.array(z.string().trim().min(1)).default([]),
+  min_price: z.number().min(0, 'Harga minimal tidak boleh negatif').nullable().default(null),
+  max_price: z.number().positive('Harga maksimal harus lebih dari 0').nullable().default(null),
+  valid_from: z.coerce.date().nullable().default(null),
+  valid_until: z.coerce.date().nullable().default(null),
+  customer_types: z.array(z.enum(['REGULAR', 'EMPLOYEE', 'CIVIL_SERVANT', 'ENTREPRENEUR'])).default([]),
+  charges: z.array(schemeChargeSchema)
+    .refine((charges) => new Set(charges.map((c) => c.name.toLowerCase())).size === charges.length, 'Nama biaya tidak boleh duplikat')
+    .default([]),
+})
+  .refine(
+    (s) => s.min_price === null || s.max_price === null || s.min_price <= s.max_price,
+    { message: 'Harga minimal tidak boleh melebihi harga maksimal', path: ['max_price'] }
+  )
+  .refine(
+    (s) => s.valid_from === null || s.valid_until === null || s.valid_from <= s.valid_until,
+    { message: 'Tanggal mulai promo harus sebelum tanggal berakhir', path: ['valid_until'] }
+  );
+
+const eligibleQuerySchema = z.object({
+  // One product or a comma-separated cart: "3" or "3,7"
+  product_id: z.string().regex(/^\d+(,\d+)*$/, 'product_id wajib diisi')
+    .transform((value) => value.split(',').map(Number)),
+  customer_id: z.coerce.number().int().positive().optional(),
+  price: z.coerce.number().positive().optional(),
+});
+
+const activeSchema = z.object({
+  is_active: z.boolean(),
+});
+
+const previewSchema = z.object({
+  price: z.number().positive('Harga harus lebih dari 0'),
+  dp: z.number().min(0, 'DP tidak boleh negatif').optional(),
+});
+
+export class SchemeController {
+
+  // --------------------------------------------------------------------------
+  // GET /api/schemes?include_inactive=true
+  // Fetch loan schemes (by default only active ones inside their promo window, for the POS)
+  // --------------------------------------------------------------------------
+  async getSchemes(req: Request, res: Response): Promise<void> {
+    try {
+      const schemes = await schemeService.listSchemes(req.query.include_inactive === 'true');
+
+      res.status(200).json({
+        success: true,
+        data: schemes,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal Server Error',
+      });
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // GET /api/schemes/eligible?product_id=..&customer_id=..&price=..
+  // Active schemes whose eligibility rules match the product(s) and customer
+  // --------------------------------------------------------------------------
+  async getEligible(req: Request, res: Response): Promise<void> {
+    try {
+      const { product_id, customer_id, price } = eligibleQuerySchema.parse(req.query);
+      const schemes = await schemeService.getEligibleSchemes({
+        productIds: product_id,
+        ...(customer_id !== undefined ? { customerId: customer_id } : {}),
+        ...(price !== undefined ? { price } : {}),
+      });
+
+      res.status(200).json({
+        success: true,
+        data: schemes,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/schemes
+  // Create a new loan scheme
+  // --------------------------------------------------------------------------
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const input = schemeSchema.parse(req.body);
+      const scheme = await schemeService.createScheme(input);
+
+      res.status(201).json({
+        success: true,
+        message: `Skema "${scheme.name}" dibuat`,
+        data: scheme,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // PUT /api/schemes/:id
+  // Update a loan scheme; existing transactions keep their snapshot
+  // --------------------------------------------------------------------------
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      const schemeId = parseInt(req.params.id as string);
+
+      if (isNaN(schemeId)) {
+        res.status(400).json({ success: false, error: 'Invalid scheme ID' });
+        return;
+      }
+
+      const input = schemeSchema.parse(req.body);
+      const scheme = await schemeService.updateScheme(schemeId, input);
+
+      res.status(200).json({
+        success: true,
+        message: `Skema "${scheme.name}" diperbarui`,
+        data: scheme,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // PATCH /api/schemes/:id/active
+  // Activate or deactivate a loan scheme
+  // --------------------------------------------------------------------------
+  async setActive(req: Request, res: Response): Promise<void> {
+    try {
+      const schemeId = parseInt(req.params.id as string);
+
+      if (isNaN(schemeId)) {
+        res.status(400).json({ success: false, error: 'Invalid scheme ID' });
+        return;
+      }
+
+      const { is_active } = activeSchema.parse(req.body ?? {});
+      const scheme = await schemeService.setActive(schemeId, is_active);
+
+      res.status(200).json({
+        success: true,
+        message: `Skema "${scheme.name}" ${scheme.is_active ? 'diaktifkan' : 'dinonaktifkan'}`,
+        data: scheme,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/schemes/preview
+  // Installments for a sample price under every scheme and tenor
+  // --------------------------------------------------------------------------
+  async preview(req: Request, res: Response): Promise<void> {
+    try {
+      const { price, dp } = previewSchema.parse(req.body ?? {});
+      const previews = await schemeService.previewSchemes(price, dp);
+
+      res.status(200).json({
+        success: true,
+        data: previews,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Helper: Map validation and service errors to HTTP status codes
+  // --------------------------------------------------------------------------
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: error.issues });
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    const status = message.includes('tidak ditemukan') ? 404 : message.includes('sudah dipakai') ? 409 : 400;
+    res.status(status).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+export const schemeController = new SchemeController();
@@ -0,0 +1,123 @@
+// StockController: Express handlers for the stock ledger (kartu stok)
+import type { Request, Response } from 'express';
+import { stockService } from '../services/StockService.js';
+import { z } from 'zod';
+
+// ============================================================================
+// ZOD SCHEMAS
+// ============================================================================
+
+const adjustmentSchema = z.object({
+  quantity: z.number().int().refine((qty) => qty !== 0, 'Jumlah koreksi tidak boleh 0'),
+  reason: z.string().trim().min(5, 'Alasan koreksi minimal 5 karakter'),
+  cashier: z.string().min(1, 'Nama kasir harus diisi'),
+});
+
+const valuationQuerySchema = z.object({
+  category: z.enum(['ELECTRONIC', 'FURNITURE', 'VEHICLE']).optional(),
+});
+
+export class StockController {
+
+  // --------------------------------------------------------------------------
+  // GET /api/products/:id/stock-movements
+  // Movement history of a product and whether it matches stock_qty
+  // --------------------------------------------------------------------------
+  async getMovements(req: Request, res: Response): Promise<void> {
+    try {
+      const productId = parseInt(req.params.id as string);
+
+      if (isNaN(productId)) {
+        res.status(400).json({ success: false, error: 'Invalid product ID' });
+        return;
+      }
+
+      const history = await stockService.getHistory(productId);
+
+      res.status(200).json({
+        success: true,
+        data: history,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/products/:id/stock-adjustments
+  // Manual stock correction with a reason
+  // --------------------------------------------------------------------------
+  async adjust(req: Request, res: Response): Promise<void> {
+    try {
+      const productId = parseInt(req.params.id as string);
+
+      if (isNaN(productId)) {
+        res.status(400).json({ success: false, error: 'Invalid product ID' });
+        return;
+      }
+
+      const { quantity, reason, cashier } = adjustmentSchema.parse(req.body ?? {});
+      const product = await stockService.adjustStock({ productId, quantity, reason, cashier });
+
+      res.status(201).json({
+        success: true,
+        message: 'Koreksi stok dicatat',
+        data: product,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // GET /api/inventory/reconciliation
+  // Products whose stock_qty doesn't match their ledger
+  // --------------------------------------------------------------------------
+  async getReconciliation(_req: Request, res: Response): Promise<void> {
+    try {
+      const report = await stockService.reconcileStock();
+
+      res.status(200).json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // GET /api/reports/inventory-valuation?category=
+  // Stock on hand at weighted-average cost (HPP)
+  // --------------------------------------------------------------------------
+  async getValuation(req: Request, res: Response): Promise<void> {
+    try {
+      const { category } = valuationQuerySchema.parse(req.query);
+      const report = await stockService.valuation(category);
+
+      res.status(200).json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Helper: Map validation and service errors to HTTP status codes
+  // --------------------------------------------------------------------------
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: error.issues });
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    res.status(message.includes('tidak ditemukan') ? 404 : 400).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+export const stockController = new StockController();
@@ -0,0 +1,273 @@
+// StocktakeController: Express handlers for stock opname sessions
+import type { Request, Response } from 'express';
+import { stocktakeService } from '../services/StocktakeService.js';
+import { z } from 'zod';
+
+// ============================================================================
+// ZOD SCHEMAS
+// ============================================================================
+
+const openSchema = z.object({
+  category: z.enum(['ELECTRONIC', 'FURNITURE', 'VEHICLE']).optional(), // Omit for all products
+  notes: z.string().trim().optional(),
+  cashier: z.string().min(1, 'Nama kasir harus diisi'),
+});
+
+const countSchema = z.object({
+  items: z.array(z.object({
+    productId: z.number().int().positive(),
+    countedQty: z.number().int().min(0, 'Jumlah hitung tidak boleh negatif'),
+  })).min(1, 'Tidak ada hasil hitung'),
+  cashier: z.string().min(1, 'Nama kasir harus diisi'),
+});
+
+const scanSchema = z.object({
+  code: z.string().trim().min(3, 'Nomor unit minimal 3 karakter'),
+  cashier: z.string().min(1, 'Nama kasir harus diisi'),
+});
+
+const submitSchema = z.object({
+  cashier: z.string().min(1, 'Nama kasir harus diisi'),
+});
+
+const postSchema = z.object({
+  approvedBy: z.string().trim().min(1, 'Nama atasan yang menyetujui harus diisi'),
+});
+
+const listQuerySchema = z.object({
+  status: z.enum(['COUNTING', 'SUBMITTED', 'POSTED', 'CANCELLED']).optional(),
+});
+
+export class StocktakeController {
+
+  // --------------------------------------------------------------------------
+  // GET /api/stocktakes?status=
+  // Stock opname sessions, newest first
+  // --------------------------------------------------------------------------
+  async getStocktakes(req: Request, res: Response): Promise<void> {
+    try {
+      const { status } = listQuerySchema.parse(req.query);
+      const stocktakes = await stocktakeService.listStocktakes(status);
+
+      res.status(200).json({
+        success: true,
+        data: stocktakes,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // GET /api/stocktakes/:id
+  // Session with counted quantities and variances
+  // --------------------------------------------------------------------------
+  async getStocktake(req: Request, res: Response): Promise<void> {
+    try {
+      const stocktakeId = parseInt(req.params.id as string);
+
+      if (isNaN(stocktakeId)) {
+        res.status(400).json({ success: false, error: 'Invalid stocktake ID' });
+        return;
+      }
+
+      const stocktake = await stocktakeService.getStocktake(stocktakeId);
+
+      res.status(200).json({
+        success: true,
+        data: stocktake,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/stocktakes
+  // Open a session for a category or all products (locks their sales)
+  // --------------------------------------------------------------------------
+  async open(req: Request, res: Response): Promise<void> {
+    try {
+      const input = openSchema.parse(req.body ?? {});
+      const stocktake = await stocktakeService.open(input);
+
+      res.status(201).json({
+        success: true,
+        message: `Stock opname ${stocktake.stocktake_no} dibuka`,
+        data: stocktake,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // PUT /api/stocktakes/:id/counts
+  // Record counted quantities
+  // --------------------------------------------------------------------------
+  async recordCounts(req: Request, res: Response): Promise<void> {
+    try {
+      const stocktakeId = parseInt(req.params.id as string);
+
+      if (isNaN(stocktakeId)) {
+        res.status(400).json({ success: false, error: 'Invalid stocktake ID' });
+        return;
+      }
+
+      const { items, cashier } = countSchema.parse(req.body ?? {});
+      const stocktake = await stocktakeService.recordCounts({ stocktakeId, items, cashier });
+
+      res.status(200).json({
+        success: true,
+        data: stocktake,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/stocktakes/:id/scan
+  // Count one unit by its serial / IMEI / engine / chassis number
+  // --------------------------------------------------------------------------
+  async scan(req: Request, res: Response): Promise<void> {
+    try {
+      const stocktakeId = parseInt(req.params.id as string);
+
+      if (isNaN(stocktakeId)) {
+        res.status(400).json({ success: false, error: 'Invalid stocktake ID' });
+        return;
+      }
+
+      const { code, cashier } = scanSchema.parse(req.body ?? {});
+      const stocktake = await stocktakeService.scanUnit({ stocktakeId, code, cashier });
+
+      res.status(200).json({
+        success: true,
+        data: stocktake,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/stocktakes/:id/submit
+  // Counting done, waiting for approval
+  // --------------------------------------------------------------------------
+  async submit(req: Request, res: Response): Promise<void> {
+    try {
+      const stocktakeId = parseInt(req.params.id as string);
+
+      if (isNaN(stocktakeId)) {
+        res.status(400).json({ success: false, error: 'Invalid stocktake ID' });
+        return;
+      }
+
+      const { cashier } = submitSchema.parse(req.body ?? {});
+      const stocktake = await stocktakeService.submit(stocktakeId, cashier);
+
+      res.status(200).json({
+        success: true,
+        message: `Stock opname ${stocktake.stocktake_no} diajukan untuk disetujui`,
+        data: stocktake,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/stocktakes/:id/reopen
+  // Send a submitted count back for a recount
+  // --------------------------------------------------------------------------
+  async reopen(req: Request, res: Response): Promise<void> {
+    try {
+      const stocktakeId = parseInt(req.params.id as string);
+
+      if (isNaN(stocktakeId)) {
+        res.status(400).json({ success: false, error: 'Invalid stocktake ID' });
+        return;
+      }
+
+      const stocktake = await stocktakeService.reopen(stocktakeId);
+
+      res.status(200).json({
+        success: true,
+        message: `Stock opname ${stocktake.stocktake_no} dikembalikan untuk dihitung ulang`,
+        data: stocktake,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/stocktakes/:id/post
+  // Approve and book the variances on the stock ledger
+  // --------------------------------------------------------------------------
+  async post(req: Request, res: Response): Promise<void> {
+    try {
+      const stocktakeId = parseInt(req.params.id as string);
+
+      if (isNaN(stocktakeId)) {
+        res.status(400).json({ success: false, error: 'Invalid stocktake ID' });
+        return;
+      }
+
+      const { approvedBy } = postSchema.parse(req.body ?? {});
+      const stocktake = await stocktakeService.post(stocktakeId, approvedBy);
+
+      res.status(200).json({
+        success: true,
+        message: `Stock opname ${stocktake.stocktake_no} diposting (${stocktake.summary.withVariance} produk selisih)`,
+        data: stocktake,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/stocktakes/:id/cancel
+  // Cancel an open session without touching stock
+  // --------------------------------------------------------------------------
+  async cancel(req: Request, res: Response): Promise<void> {
+    try {
+      const stocktakeId = parseInt(req.params.id as string);
+
+      if (isNaN(stocktakeId)) {
+        res.status(400).json({ success: false, error: 'Invalid stocktake ID' });
+        return;
+      }
+
+      const stocktake = await stocktakeService.cancel(stocktakeId);
+
+      res.status(200).json({
+        success: true,
+        message: `Stock opname ${stocktake.stocktake_no} dibatalkan`,
+        data: stocktake,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Helper: Map validation and service errors to HTTP status codes
+  // --------------------------------------------------------------------------
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: error.issues });
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    const status = message.includes('tidak ditemukan') ? 404 : message.includes('masih berjalan') ? 409 : 400;
+    res.status(status).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+export const stocktakeController = new StocktakeController();
@@ -0,0 +1,103 @@
+// SupplierController: Express handlers for the supplier registry and what we owe them
+import type { Request, Response } from 'express';
+import { supplierService } from '../services/SupplierService.js';
+import { z } from 'zod';
+
+// ============================================================================
+// ZOD SCHEMAS
+// ============================================================================
+
+const supplierSchema = z.object({
+  name: z.string().trim().min(2, 'Nama supplier minimal 2 karakter'),
+  contact_person: z.string().trim().min(2).nullable().default(null),
+  phone: z.string().trim().regex(/^[0-9+\-\s]{6,20}$/, 'Nomor telepon tidak valid').nullable().default(null),
+  address: z.string().trim().min(5).nullable().default(null),
+  payment_terms_days: z.number().int()
+    .min(0, 'Tempo pembayaran tidak boleh negatif')
+    .max(180, 'Tempo pembayaran maksimal 180 hari')
+    .default(0),
+  is_active: z.boolean().default(true),
+});
+
+export class SupplierController {
+
+  // --------------------------------------------------------------------------
+  // GET /api/suppliers
+  // Fetch all suppliers with their outstanding payables
+  // --------------------------------------------------------------------------
+  async getSuppliers(_req: Request, res: Response): Promise<void> {
+    try {
+      const suppliers = await supplierService.listSuppliers();
+
+      res.status(200).json({
+        success: true,
+        data: suppliers,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/suppliers
+  // Register a supplier
+  // --------------------------------------------------------------------------
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const input = supplierSchema.parse(req.body ?? {});
+      const supplier = await supplierService.createSupplier(input);
+
+      res.status(201).json({
+        success: true,
+        message: 'Supplier ditambahkan',
+        data: supplier,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // PUT /api/suppliers/:id
+  // Update supplier details, payment terms or active flag
+  // --------------------------------------------------------------------------
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      const supplierId = parseInt(req.params.id as string);
+
+      if (isNaN(supplierId)) {
+        res.status(400).json({ success: false, error: 'Invalid supplier ID' });
+        return;
+      }
+
+      const input = supplierSchema.parse(req.body ?? {});
+      const supplier = await supplierService.updateSupplier(supplierId, input);
+
+      res.status(200).json({
+        success: true,
+        message: 'Supplier diperbarui',
+        data: supplier,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Helper: Map validation and service errors to HTTP status codes
+  // --------------------------------------------------------------------------
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: error.issues });
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    const status = message.includes('tidak ditemukan') ? 404 : message.includes('sudah dipakai') ? 409 : 400;
+    res.status(status).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+export const supplierController = new SupplierController();
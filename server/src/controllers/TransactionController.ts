@@ -1,7 +1,42 @@
-// TransactionController: Express handlers for credit transactions
+// TransactionController: Express handlers for credit and cash transactions
 import type { Request, Response } from 'express';
 import { creditService } from '../services/CreditService.js';
+import { voidService } from '../services/VoidService.js';
+import { salesService } from '../services/SalesService.js';
 import { prisma } from '../lib/prisma.js';
+import { resolveSellingPrices } from '../lib/productPricing.js';
+import { z } from 'zod';
+
+// ============================================================================
+// ZOD SCHEMAS
+// ============================================================================
+
+const voidSchema = z.object({
+  reason: z.string().trim().min(5, 'Alasan pembatalan minimal 5 karakter'),
+  cashier: z.string().min(1, 'Nama kasir harus diisi'),
+  refund: z.boolean().default(false),
+});
+
+const cartItemsSchema = z.array(z.object({
+  productId: z.number().int().positive(),
+  quantity: z.number().int().min(1, 'Jumlah minimal 1'),
+  discount: z.number().min(0, 'Diskon tidak boleh negatif').default(0),
+  unitIds: z.array(z.number().int().positive()).optional(), // Products with per-unit tracking
+})).min(1, 'Keranjang belanja kosong');
+
+const cashSaleSchema = z.object({
+  saleType: z.literal('CASH'),
+  items: cartItemsSchema,
+  customerId: z.number().int().positive().optional(),
+  method: z.enum(['CASH', 'TRANSFER', 'QRIS']).default('CASH'),
+  cashier: z.string().min(1, 'Nama kasir harus diisi'),
+});
+
+const salesReportQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  // A plain date includes the whole day
+  to: z.coerce.date().transform((date) => new Date(date.getTime() + 24 * 60 * 60 * 1000 - 1)).optional(),
+});
 
 // ============================================================================
 // TRANSACTION CONTROLLER
@@ -10,17 +45,17 @@ import { prisma } from '../lib/prisma.js';
 export class TransactionController {
   
   // --------------------------------------------------------------------------
-  // GET /api/products
-  // Fetch all active products
+  // GET /api/products?include_inactive=true
+  // Fetch active products (inventory also lists deactivated ones)
   // --------------------------------------------------------------------------
   async getProducts(req: Request, res: Response): Promise<void> {
     try {
-      const { category, sub_category } = req.query;
-      console.log('Fetching products with filters:', { category, sub_category });
+      const { category, sub_category, include_inactive } = req.query;
+      console.log('Fetching products with filters:', { category, sub_category, include_inactive });
 
       const products = await prisma.product.findMany({
         where: { 
-          is_active: true,
+          ...(include_inactive === 'true' ? {} : { is_active: true }),
           ...(category ? { category: category as any } : {}),
           ...(sub_category ? { sub_category: sub_category as string } : {}),
         },
@@ -30,16 +65,32 @@ export class TransactionController {
           sku: true,
           name: true,
           base_price: true,
+          cash_price: true,
+          credit_price: true,
           stock_qty: true,
           category: true,
           sub_category: true,
+          attributes: true,
+          is_active: true,
+          is_second_hand: true,
+          track_units: true,
         }
       });
+      const rules = await prisma.pricingRule.findMany({ where: { is_active: true } });
 
       console.log(`✅ Returned ${products.length} products`);
       res.status(200).json({
         success: true,
-        data: products,
+        // Effective selling prices (own price or markup rule); null = not sellable until priced
+        data: products.map((product) => {
+          const prices = resolveSellingPrices(product, rules);
+          return {
+            ...product,
+            has_own_price: product.cash_price !== null || product.credit_price !== null,
+            cash_price: prices.cash?.toFixed(2) ?? null,
+            credit_price: prices.credit?.toFixed(2) ?? null,
+          };
+        }),
       });
     } catch (error) {
       console.error('❌ Prisma Error in getProducts:', error);
@@ -53,29 +104,6 @@ export class TransactionController {
     }
   }
 
-  // --------------------------------------------------------------------------
-  // GET /api/schemes
-  // Fetch active loan schemes
-  // --------------------------------------------------------------------------
-  async getSchemes(_req: Request, res: Response): Promise<void> {
-    try {
-      const schemes = await prisma.loanScheme.findMany({
-        where: { is_active: true },
-        orderBy: { name: 'asc' },
-      });
-
-      res.status(200).json({
-        success: true,
-        data: schemes,
-      });
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        error: error instanceof Error ? error.message : 'Internal Server Error',
-      });
-    }
-  }
-
   // --------------------------------------------------------------------------
   // POST /api/transactions/simulate
   // Calculate credit simulation without creating a transaction
@@ -139,8 +167,10 @@ export class TransactionController {
           scheme: {
             id: result.scheme.id,
             name: result.scheme.name,
+            interestMethod: result.scheme.interest_method,
             interestRate: result.scheme.interest_rate.toString(),
             tenorOptions: result.scheme.tenor_options,
+            validUntil: result.scheme.valid_until,
           },
         },
       });
@@ -155,29 +185,33 @@ export class TransactionController {
 
   // --------------------------------------------------------------------------
   // POST /api/transactions
-  // Create a new credit transaction
+  // Create a new credit transaction (saleType CASH: see createCashSale)
   // --------------------------------------------------------------------------
   async create(req: Request, res: Response): Promise<void> {
+    if (req.body?.saleType === 'CASH') {
+      await this.createCashSale(req, res);
+      return;
+    }
+
     try {
       const {
-        productId,
         customerId,
-        price,
         dp,
         schemeId,
         tenorMonths,
         dueDateDay,
+        cashier,
       } = req.body;
 
       // Basic validation
       const requiredFields = [
-        'productId',
+        'items',
         'customerId',
-        'price',
         'dp',
         'schemeId',
         'tenorMonths',
         'dueDateDay',
+        'cashier',
       ];
 
       const missingFields = requiredFields.filter(
@@ -193,7 +227,7 @@ export class TransactionController {
       }
 
       // Validate numeric fields
-      const numericFields = { productId, customerId, price, dp, schemeId, tenorMonths, dueDateDay };
+      const numericFields = { customerId, dp, schemeId, tenorMonths, dueDateDay };
       for (const [key, value] of Object.entries(numericFields)) {
         if (typeof value !== 'number' || isNaN(value)) {
           res.status(400).json({
@@ -204,15 +238,6 @@ export class TransactionController {
         }
       }
 
-      // Validate positive values
-      if (price <= 0) {
-        res.status(400).json({
-          success: false,
-          error: 'Harga harus lebih dari 0',
-        });
-        return;
-      }
-
       if (dp < 0) {
         res.status(400).json({
           success: false,
@@ -221,23 +246,18 @@ export class TransactionController {
         return;
       }
 
-      if (dp >= price) {
-        res.status(400).json({
-          success: false,
-          error: 'DP tidak boleh melebihi atau sama dengan harga',
-        });
-        return;
-      }
+      // Cart lines; the price (cart total) and DP limit are checked by the service
+      const items = cartItemsSchema.parse(req.body.items);
 
       // Create the transaction
       const result = await creditService.createTransaction({
-        productId,
+        items,
         customerId,
-        price,
         dp,
         schemeId,
         tenorMonths,
         dueDateDay,
+        cashier: String(cashier),
       });
 
       res.status(201).json({
@@ -250,7 +270,7 @@ export class TransactionController {
             name: result.transaction.customer_name,
             phone: result.transaction.customer_phone,
           },
-          product: result.product,
+          items: result.items,
           financials: result.simulation,
           installmentCount: result.installments.length,
           firstDueDate: result.installments[0]?.due_date,
@@ -258,6 +278,10 @@ export class TransactionController {
         },
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ success: false, error: error.issues });
+        return;
+      }
       const message = error instanceof Error ? error.message : 'Unknown error';
       
       // Check for specific error types
@@ -269,7 +293,7 @@ export class TransactionController {
         return;
       }
 
-      if (message.includes('habis') || message.includes('tidak aktif')) {
+      if (message.includes('habis') || message.includes('tidak cukup') || message.includes('tidak aktif')) {
         res.status(409).json({
           success: false,
           error: message,
@@ -283,6 +307,97 @@ export class TransactionController {
       });
     }
   }
+
+  // --------------------------------------------------------------------------
+  // POST /api/transactions (saleType CASH)
+  // Cash sale paid in full at the counter: no contract, customer optional
+  // --------------------------------------------------------------------------
+  async createCashSale(req: Request, res: Response): Promise<void> {
+    try {
+      const input = cashSaleSchema.parse(req.body);
+      const result = await salesService.createCashSale(input);
+
+      res.status(201).json({
+        success: true,
+        message: `Penjualan tunai berhasil (${result.invoiceNo})`,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ success: false, error: error.issues });
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (message.includes('tidak ditemukan')) {
+        res.status(404).json({ success: false, error: message });
+        return;
+      }
+      const isStockConflict = ['habis', 'tidak cukup', 'tidak aktif'].some((text) => message.includes(text));
+      res.status(isStockConflict ? 409 : 400).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // GET /api/reports/sales?from=&to=
+  // Cash and credit sales with revenue per sale type
+  // --------------------------------------------------------------------------
+  async getSalesReport(req: Request, res: Response): Promise<void> {
+    try {
+      const { from, to } = salesReportQuerySchema.parse(req.query);
+      const report = await salesService.getReport(from, to);
+
+      res.status(200).json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ success: false, error: error.issues });
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal Server Error',
+      });
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/transactions/:id/void
+  // Cancel a transaction: restock the unit, cancel installments, refund receipts
+  // --------------------------------------------------------------------------
+  async voidTransaction(req: Request, res: Response): Promise<void> {
+    try {
+      const transactionId = parseInt(req.params.id as string);
+
+      if (isNaN(transactionId)) {
+        res.status(400).json({ success: false, error: 'Invalid transaction ID' });
+        return;
+      }
+
+      const input = voidSchema.parse(req.body ?? {});
+      const result = await voidService.voidTransaction({ transactionId, ...input });
+
+      res.status(200).json({
+        success: true,
+        message: `Transaksi #${result.transactionId} dibatalkan`,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ success: false, error: error.issues });
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(message.includes('tidak ditemukan') ? 404 : 400).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
 }
 
 // Export singleton instance
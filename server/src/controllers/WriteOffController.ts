@@ -0,0 +1,141 @@
+// WriteOffController: Express handlers for bad debt write-off (hapus buku) and recoveries
+import type { Request, Response } from 'express';
+import { writeOffService } from '../services/WriteOffService.js';
+import { z } from 'zod';
+
+// ============================================================================
+// ZOD SCHEMAS
+// ============================================================================
+
+const writeOffSchema = z.object({
+  reason: z.string().trim().min(5, 'Alasan hapus buku minimal 5 karakter'),
+  approvedBy: z.string().trim().min(1, 'Nama atasan yang menyetujui harus diisi'),
+  cashier: z.string().min(1, 'Nama kasir harus diisi'),
+});
+
+const recoverySchema = z.object({
+  amount: z.number().positive('Jumlah pemulihan harus lebih dari 0'),
+  method: z.enum(['CASH', 'TRANSFER', 'QRIS']).default('CASH'),
+  cashier: z.string().min(1, 'Nama kasir harus diisi'),
+  notes: z.string().optional(),
+});
+
+const reportQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  // A plain date includes the whole day
+  to: z.coerce.date().transform((date) => new Date(date.getTime() + 24 * 60 * 60 * 1000 - 1)).optional(),
+});
+
+export class WriteOffController {
+
+  // --------------------------------------------------------------------------
+  // GET /api/contracts/:id/write-off/preview
+  // Balance that would be written off today
+  // --------------------------------------------------------------------------
+  async preview(req: Request, res: Response): Promise<void> {
+    try {
+      const contractId = parseInt(req.params.id as string);
+
+      if (isNaN(contractId)) {
+        res.status(400).json({ success: false, error: 'Invalid contract ID' });
+        return;
+      }
+
+      const preview = await writeOffService.preview(contractId);
+
+      res.status(200).json({
+        success: true,
+        data: preview,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/contracts/:id/write-off
+  // Freeze the outstanding balance and move the transaction to BAD_DEBT
+  // --------------------------------------------------------------------------
+  async writeOff(req: Request, res: Response): Promise<void> {
+    try {
+      const contractId = parseInt(req.params.id as string);
+
+      if (isNaN(contractId)) {
+        res.status(400).json({ success: false, error: 'Invalid contract ID' });
+        return;
+      }
+
+      const input = writeOffSchema.parse(req.body ?? {});
+      const result = await writeOffService.writeOff({ contractId, ...input });
+
+      res.status(201).json({
+        success: true,
+        message: `Kontrak dihapusbukukan (${result.writeOff.write_off_no})`,
+        data: result,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // POST /api/contracts/:id/recoveries
+  // Record money received on a written-off contract
+  // --------------------------------------------------------------------------
+  async recordRecovery(req: Request, res: Response): Promise<void> {
+    try {
+      const contractId = parseInt(req.params.id as string);
+
+      if (isNaN(contractId)) {
+        res.status(400).json({ success: false, error: 'Invalid contract ID' });
+        return;
+      }
+
+      const input = recoverySchema.parse(req.body ?? {});
+      const result = await writeOffService.recordRecovery({ contractId, ...input });
+
+      res.status(201).json({
+        success: true,
+        message: `Pemulihan dicatat (${result.receiptNo})`,
+        data: result,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // GET /api/reports/write-offs?from=&to=
+  // Written-off contracts with recoveries and net loss
+  // --------------------------------------------------------------------------
+  async getReport(req: Request, res: Response): Promise<void> {
+    try {
+      const { from, to } = reportQuerySchema.parse(req.query);
+      const report = await writeOffService.getReport(from, to);
+
+      res.status(200).json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Helper: Map validation and service errors to HTTP status codes
+  // --------------------------------------------------------------------------
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: error.issues });
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    res.status(message.includes('tidak ditemukan') ? 404 : 400).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+export const writeOffController = new WriteOffController();
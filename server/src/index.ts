@@ -7,6 +7,16 @@ import { transactionController } from './controllers/TransactionController.js';
 import { paymentController } from './controllers/PaymentController.js';
 import { productController } from './controllers/ProductController.js';
 import { customerController } from './controllers/CustomerController.js';
+import { schemeController } from './controllers/SchemeController.js';
+import { holidayController } from './controllers/HolidayController.js';
+import { restructureController } from './controllers/RestructureController.js';
+import { writeOffController } from './controllers/WriteOffController.js';
+import { repossessionController } from './controllers/RepossessionController.js';
+import { pricingController } from './controllers/PricingController.js';
+import { stockController } from './controllers/StockController.js';
+import { supplierController } from './controllers/SupplierController.js';
+import { purchaseOrderController } from './controllers/PurchaseOrderController.js';
+import { stocktakeController } from './controllers/StocktakeController.js';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -14,7 +24,7 @@ const PORT = process.env.PORT || 3000;
 // Middleware
 app.use(cors({
     origin: '*', // Nanti kita ganti dengan URL Vercel setelah jadi. Untuk sekarang '*' dulu biar gampang.
-    methods: ['GET', 'POST', 'PATCH', 'DELETE']
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
 }));
 app.use(express.json());
 
@@ -22,7 +32,7 @@ app.use(express.json());
 // ROUTES
 // ============================================================================
 
-// GET /api/products - Fetch all active products
+// GET /api/products - Fetch active products (?include_inactive=true for inventory)
 app.get('/api/products', (req, res) => {
   transactionController.getProducts(req, res);
 });
@@ -32,14 +42,199 @@ app.post('/api/products', (req, res) => {
   productController.createProduct(req, res);
 });
 
+// GET /api/products/:id - Full product detail
+app.get('/api/products/:id', (req, res) => {
+  productController.getProduct(req, res);
+});
+
+// PUT /api/products/:id - Correct a product's master data
+app.put('/api/products/:id', (req, res) => {
+  productController.updateProduct(req, res);
+});
+
+// PATCH /api/products/:id/status - Deactivate / reactivate a product
+app.patch('/api/products/:id/status', (req, res) => {
+  productController.setStatus(req, res);
+});
+
 // PATCH /api/products/:id/stock - Restock a product
 app.patch('/api/products/:id/stock', (req, res) => {
   productController.restockProduct(req, res);
 });
 
-// GET /api/schemes - Fetch active loan schemes
+// GET /api/products/:id/units - Physical units of a product (?status=IN_STOCK,REPOSSESSED)
+app.get('/api/products/:id/units', (req, res) => {
+  productController.getUnits(req, res);
+});
+
+// GET /api/products/:id/stock-movements - Stock ledger (kartu stok) of a product
+app.get('/api/products/:id/stock-movements', (req, res) => {
+  stockController.getMovements(req, res);
+});
+
+// POST /api/products/:id/stock-adjustments - Manual stock correction with a reason
+app.post('/api/products/:id/stock-adjustments', (req, res) => {
+  stockController.adjust(req, res);
+});
+
+// GET /api/inventory/reconciliation - Products whose stock doesn't match their ledger
+app.get('/api/inventory/reconciliation', (req, res) => {
+  stockController.getReconciliation(req, res);
+});
+
+// GET /api/stocktakes - Stock opname sessions (?status=)
+app.get('/api/stocktakes', (req, res) => {
+  stocktakeController.getStocktakes(req, res);
+});
+
+// GET /api/stocktakes/:id - Session with counts and variances
+app.get('/api/stocktakes/:id', (req, res) => {
+  stocktakeController.getStocktake(req, res);
+});
+
+// POST /api/stocktakes - Open a session (locks sales of the products being counted)
+app.post('/api/stocktakes', (req, res) => {
+  stocktakeController.open(req, res);
+});
+
+// PUT /api/stocktakes/:id/counts - Record counted quantities
+app.put('/api/stocktakes/:id/counts', (req, res) => {
+  stocktakeController.recordCounts(req, res);
+});
+
+// POST /api/stocktakes/:id/scan - Count a unit by its serial / engine number
+app.post('/api/stocktakes/:id/scan', (req, res) => {
+  stocktakeController.scan(req, res);
+});
+
+// POST /api/stocktakes/:id/submit - Counting done, ask for approval
+app.post('/api/stocktakes/:id/submit', (req, res) => {
+  stocktakeController.submit(req, res);
+});
+
+// POST /api/stocktakes/:id/reopen - Send back for a recount
+app.post('/api/stocktakes/:id/reopen', (req, res) => {
+  stocktakeController.reopen(req, res);
+});
+
+// POST /api/stocktakes/:id/post - Approve and book the variances
+app.post('/api/stocktakes/:id/post', (req, res) => {
+  stocktakeController.post(req, res);
+});
+
+// POST /api/stocktakes/:id/cancel - Cancel an open session
+app.post('/api/stocktakes/:id/cancel', (req, res) => {
+  stocktakeController.cancel(req, res);
+});
+
+// GET /api/suppliers - Suppliers with what we owe them
+app.get('/api/suppliers', (req, res) => {
+  supplierController.getSuppliers(req, res);
+});
+
+// POST /api/suppliers - Register a supplier
+app.post('/api/suppliers', (req, res) => {
+  supplierController.create(req, res);
+});
+
+// PUT /api/suppliers/:id - Update a supplier
+app.put('/api/suppliers/:id', (req, res) => {
+  supplierController.update(req, res);
+});
+
+// GET /api/purchase-orders - Purchase orders (?supplierId=&status=)
+app.get('/api/purchase-orders', (req, res) => {
+  purchaseOrderController.getOrders(req, res);
+});
+
+// GET /api/purchase-orders/:id - Purchase order with lines and payments
+app.get('/api/purchase-orders/:id', (req, res) => {
+  purchaseOrderController.getOrder(req, res);
+});
+
+// POST /api/purchase-orders - Order goods from a supplier
+app.post('/api/purchase-orders', (req, res) => {
+  purchaseOrderController.create(req, res);
+});
+
+// POST /api/purchase-orders/:id/receive - Receive goods into stock
+app.post('/api/purchase-orders/:id/receive', (req, res) => {
+  purchaseOrderController.receive(req, res);
+});
+
+// POST /api/purchase-orders/:id/payments - Pay the supplier
+app.post('/api/purchase-orders/:id/payments', (req, res) => {
+  purchaseOrderController.pay(req, res);
+});
+
+// POST /api/purchase-orders/:id/cancel - Cancel an order before receipt
+app.post('/api/purchase-orders/:id/cancel', (req, res) => {
+  purchaseOrderController.cancel(req, res);
+});
+
+// GET /api/reports/inventory-valuation - Stock on hand at weighted-average cost (?category=)
+app.get('/api/reports/inventory-valuation', (req, res) => {
+  stockController.getValuation(req, res);
+});
+
+// GET /api/product-units - Look up units by serial / IMEI / engine / chassis number
+app.get('/api/product-units', (req, res) => {
+  productController.searchUnits(req, res);
+});
+
+// PATCH /api/product-units/:id/warranty - Start or finish a warranty claim
+app.patch('/api/product-units/:id/warranty', (req, res) => {
+  productController.setWarranty(req, res);
+});
+
+// GET /api/pricing-rules - Fetch selling-price markup rules
+app.get('/api/pricing-rules', (req, res) => {
+  pricingController.getRules(req, res);
+});
+
+// POST /api/pricing-rules - Create a markup rule
+app.post('/api/pricing-rules', (req, res) => {
+  pricingController.create(req, res);
+});
+
+// PUT /api/pricing-rules/:id - Update a markup rule
+app.put('/api/pricing-rules/:id', (req, res) => {
+  pricingController.update(req, res);
+});
+
+// DELETE /api/pricing-rules/:id - Remove a markup rule
+app.delete('/api/pricing-rules/:id', (req, res) => {
+  pricingController.remove(req, res);
+});
+
+// GET /api/schemes - Fetch loan schemes (?include_inactive=true for admin)
 app.get('/api/schemes', (req, res) => {
-  transactionController.getSchemes(req, res);
+  schemeController.getSchemes(req, res);
+});
+
+// GET /api/schemes/eligible - Schemes valid for a product and customer
+app.get('/api/schemes/eligible', (req, res) => {
+  schemeController.getEligible(req, res);
+});
+
+// POST /api/schemes - Create a loan scheme
+app.post('/api/schemes', (req, res) => {
+  schemeController.create(req, res);
+});
+
+// POST /api/schemes/preview - Compare a sample price across schemes
+app.post('/api/schemes/preview', (req, res) => {
+  schemeController.preview(req, res);
+});
+
+// PUT /api/schemes/:id - Update a loan scheme
+app.put('/api/schemes/:id', (req, res) => {
+  schemeController.update(req, res);
+});
+
+// PATCH /api/schemes/:id/active - Activate or deactivate a loan scheme
+app.patch('/api/schemes/:id/active', (req, res) => {
+  schemeController.setActive(req, res);
 });
 
 // POST /api/transactions/simulate - Calculate credit simulation
@@ -47,21 +242,121 @@ app.post('/api/transactions/simulate', (req, res) => {
   transactionController.simulate(req, res);
 });
 
-// POST /api/transactions - Create a new credit transaction
+// POST /api/transactions - Create a new credit transaction (or cash sale with saleType CASH)
 app.post('/api/transactions', (req, res) => {
   transactionController.create(req, res);
 });
 
+// POST /api/transactions/:id/void - Cancel a transaction and restock the unit
+app.post('/api/transactions/:id/void', (req, res) => {
+  transactionController.voidTransaction(req, res);
+});
+
 // GET /api/contracts/active - Fetch all active credit contracts
 app.get('/api/contracts/active', (req, res) => {
   paymentController.getActiveContracts(req, res);
 });
 
+// GET /api/contracts/reconciliation - Contracts whose schedule doesn't match their totals
+app.get('/api/contracts/reconciliation', (req, res) => {
+  paymentController.getReconciliation(req, res);
+});
+
+// GET /api/contracts/:id/payments - Payment history of a contract
+app.get('/api/contracts/:id/payments', (req, res) => {
+  paymentController.getContractPayments(req, res);
+});
+
+// GET /api/contracts/:id/payoff-quote - Early payoff amount as of today
+app.get('/api/contracts/:id/payoff-quote', (req, res) => {
+  paymentController.getPayoffQuote(req, res);
+});
+
+// POST /api/contracts/:id/settle - Settle a contract early
+app.post('/api/contracts/:id/settle', (req, res) => {
+  paymentController.settleContract(req, res);
+});
+
+// GET /api/contracts/:id/restructures - Restructure history of a contract
+app.get('/api/contracts/:id/restructures', (req, res) => {
+  restructureController.getHistory(req, res);
+});
+
+// POST /api/contracts/:id/restructure/preview - Preview a rescheduled installment plan
+app.post('/api/contracts/:id/restructure/preview', (req, res) => {
+  restructureController.preview(req, res);
+});
+
+// POST /api/contracts/:id/restructure - Restructure a contract (new schedule version)
+app.post('/api/contracts/:id/restructure', (req, res) => {
+  restructureController.restructure(req, res);
+});
+
+// GET /api/contracts/:id/write-off/preview - Balance that would be written off today
+app.get('/api/contracts/:id/write-off/preview', (req, res) => {
+  writeOffController.preview(req, res);
+});
+
+// POST /api/contracts/:id/write-off - Write off a bad debt (status BAD_DEBT)
+app.post('/api/contracts/:id/write-off', (req, res) => {
+  writeOffController.writeOff(req, res);
+});
+
+// POST /api/contracts/:id/recoveries - Record a recovery payment on a written-off contract
+app.post('/api/contracts/:id/recoveries', (req, res) => {
+  writeOffController.recordRecovery(req, res);
+});
+
+// GET /api/contracts/:id/repossessions - Repossession records of a contract
+app.get('/api/contracts/:id/repossessions', (req, res) => {
+  repossessionController.getByContract(req, res);
+});
+
+// POST /api/contracts/:id/repossess - Take the unit back (tarik barang) and restock it as second-hand
+app.post('/api/contracts/:id/repossess', (req, res) => {
+  repossessionController.repossess(req, res);
+});
+
+// GET /api/reports/sales - Cash and credit sales report (?from=&to=)
+app.get('/api/reports/sales', (req, res) => {
+  transactionController.getSalesReport(req, res);
+});
+
+// GET /api/reports/write-offs - Written-off contracts report (?from=&to=)
+app.get('/api/reports/write-offs', (req, res) => {
+  writeOffController.getReport(req, res);
+});
+
 // POST /api/installments/:id/pay - Pay an installment
 app.post('/api/installments/:id/pay', (req, res) => {
   paymentController.payInstallment(req, res);
 });
 
+// POST /api/payments/:id/reverse - Reverse a recorded payment
+app.post('/api/payments/:id/reverse', (req, res) => {
+  paymentController.reversePayment(req, res);
+});
+
+// POST /api/penalties/accrue - Recalculate late fees for overdue installments
+app.post('/api/penalties/accrue', (req, res) => {
+  paymentController.accruePenalties(req, res);
+});
+
+// GET /api/holidays - Holiday calendar (?year=2026)
+app.get('/api/holidays', (req, res) => {
+  holidayController.getHolidays(req, res);
+});
+
+// POST /api/holidays - Add a holiday
+app.post('/api/holidays', (req, res) => {
+  holidayController.create(req, res);
+});
+
+// DELETE /api/holidays/:id - Remove a holiday
+app.delete('/api/holidays/:id', (req, res) => {
+  holidayController.remove(req, res);
+});
+
 // GET /api/customers - Search customers
 app.get('/api/customers', (req, res) => {
   customerController.search(req, res);
@@ -91,11 +386,68 @@ app.listen(PORT, () => {
   console.log('📊 API Endpoints:');
   console.log('   GET  /health');
   console.log('   GET  /api/products');
+  console.log('   GET  /api/products/:id');
+  console.log('   PUT  /api/products/:id');
+  console.log('   PATCH /api/products/:id/status');
+  console.log('   GET  /api/products/:id/units');
+  console.log('   GET  /api/products/:id/stock-movements');
+  console.log('   POST /api/products/:id/stock-adjustments');
+  console.log('   GET  /api/inventory/reconciliation');
+  console.log('   GET  /api/stocktakes');
+  console.log('   GET  /api/stocktakes/:id');
+  console.log('   POST /api/stocktakes');
+  console.log('   PUT  /api/stocktakes/:id/counts');
+  console.log('   POST /api/stocktakes/:id/scan');
+  console.log('   POST /api/stocktakes/:id/submit');
+  console.log('   POST /api/stocktakes/:id/reopen');
+  console.log('   POST /api/stocktakes/:id/post');
+  console.log('   POST /api/stocktakes/:id/cancel');
+  console.log('   GET  /api/suppliers');
+  console.log('   POST /api/suppliers');
+  console.log('   PUT  /api/suppliers/:id');
+  console.log('   GET  /api/purchase-orders');
+  console.log('   GET  /api/purchase-orders/:id');
+  console.log('   POST /api/purchase-orders');
+  console.log('   POST /api/purchase-orders/:id/receive');
+  console.log('   POST /api/purchase-orders/:id/payments');
+  console.log('   POST /api/purchase-orders/:id/cancel');
+  console.log('   GET  /api/product-units');
+  console.log('   PATCH /api/product-units/:id/warranty');
+  console.log('   GET  /api/pricing-rules');
+  console.log('   POST /api/pricing-rules');
+  console.log('   PUT  /api/pricing-rules/:id');
+  console.log('   DELETE /api/pricing-rules/:id');
   console.log('   GET  /api/schemes');
+  console.log('   GET  /api/schemes/eligible');
+  console.log('   POST /api/schemes');
+  console.log('   POST /api/schemes/preview');
+  console.log('   PUT  /api/schemes/:id');
+  console.log('   PATCH /api/schemes/:id/active');
   console.log('   POST /api/transactions/simulate');
   console.log('   POST /api/transactions');
+  console.log('   POST /api/transactions/:id/void');
   console.log('   GET  /api/contracts/active');
+  console.log('   GET  /api/contracts/reconciliation');
+  console.log('   GET  /api/contracts/:id/payments');
+  console.log('   GET  /api/contracts/:id/payoff-quote');
+  console.log('   POST /api/contracts/:id/settle');
+  console.log('   GET  /api/contracts/:id/restructures');
+  console.log('   POST /api/contracts/:id/restructure/preview');
+  console.log('   POST /api/contracts/:id/restructure');
+  console.log('   GET  /api/contracts/:id/write-off/preview');
+  console.log('   POST /api/contracts/:id/write-off');
+  console.log('   POST /api/contracts/:id/recoveries');
+  console.log('   GET  /api/contracts/:id/repossessions');
+  console.log('   POST /api/contracts/:id/repossess');
+  console.log('   GET  /api/reports/sales');
+  console.log('   GET  /api/reports/write-offs');
+  console.log('   GET  /api/reports/inventory-valuation');
   console.log('   POST /api/installments/:id/pay');
+  console.log('   POST /api/payments/:id/reverse');
+  console.log('   POST /api/penalties/accrue');
+  console.log('   GET  /api/holidays');
+  console.log('   POST /api/holidays');
+  console.log('   DELETE /api/holidays/:id');
   console.log('   GET  /api/customers (Search)');
   console.log('   POST /api/customers (Create)');
   console.log('   GET  /api/customers/:id (Detail)\n');
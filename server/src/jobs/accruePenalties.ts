@@ -0,0 +1,21 @@
+// Scheduled job: recalculate late fees for overdue installments
+// Run daily from cron, e.g. `5 0 * * * cd /app/server && npm run job:penalties`
+import 'dotenv/config';
+import { prisma } from '../lib/prisma.js';
+import { penaltyService } from '../services/PenaltyService.js';
+
+async function main() {
+  console.log('⏰ Accruing penalties...');
+  const result = await penaltyService.accruePenalties();
+  console.log(`✅ Processed ${result.processed} installments, updated ${result.updated}, marked ${result.markedLate} as LATE`);
+  console.log(`💰 Total penalty outstanding: Rp ${result.totalPenaltyAccrued}`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
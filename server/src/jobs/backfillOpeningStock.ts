@@ -0,0 +1,26 @@
+// One-off job: OPENING movements for products created before the stock ledger existed,
+// so their stock_qty matches the kartu stok. Safe to re-run: products already opened are skipped
+// Run once after upgrading, e.g. `npm run job:backfill-opening-stock`
+import 'dotenv/config';
+import { prisma } from '../lib/prisma.js';
+import { stockService } from '../services/StockService.js';
+
+async function main() {
+  console.log('📦 Backfilling opening stock...');
+  const result = await stockService.backfillOpeningStock('System');
+
+  for (const p of result.backfilled) {
+    console.log(`➕ ${p.sku} ${p.name}: saldo awal ${p.quantity}`);
+  }
+
+  console.log(`✅ Checked ${result.checked} products, ${result.backfilled.length} opening balances written`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
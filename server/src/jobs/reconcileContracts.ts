@@ -0,0 +1,29 @@
+// Scheduled job: flag contracts whose installments don't add up to principal + interest
+// Run after month-end close, e.g. `npm run job:reconcile`; exits 1 when anything is flagged
+import 'dotenv/config';
+import { prisma } from '../lib/prisma.js';
+import { reconciliationService } from '../services/ReconciliationService.js';
+
+async function main() {
+  console.log('🔎 Reconciling contract schedules...');
+  const report = await reconciliationService.reconcileContracts();
+
+  for (const c of report.contracts) {
+    console.log(`⚠️  Contract #${c.contractId} v${c.scheduleVersion} (${c.customerName ?? '-'}): selisih Rp ${c.difference} [${c.issues.join(', ')}]`);
+  }
+
+  console.log(`✅ Checked ${report.checked} schedules, ${report.mismatched} mismatched`);
+  if (report.mismatched > 0) {
+    console.log(`💰 Total difference: Rp ${report.totalDifference}`);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,28 @@
+// Scheduled job: flag products whose stock_qty doesn't match their stock ledger
+// Run after closing, e.g. `npm run job:reconcile-stock`; exits 1 when anything is flagged
+import 'dotenv/config';
+import { prisma } from '../lib/prisma.js';
+import { stockService } from '../services/StockService.js';
+
+async function main() {
+  console.log('🔎 Reconciling stock ledger...');
+  const report = await stockService.reconcileStock();
+
+  for (const p of report.products) {
+    console.log(`⚠️  ${p.sku} ${p.name}: stok ${p.stockQty}, kartu stok ${p.ledgerQty} (selisih ${p.difference})`);
+  }
+
+  console.log(`✅ Checked ${report.checked} products, ${report.mismatched} mismatched`);
+  if (report.mismatched > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
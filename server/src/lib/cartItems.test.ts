@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+import { cartItemRows, loadCart } from './cartItems.js';
+import { asClient } from '../testing/prismaMock.js';
+
+const product = (id: number, overrides: Record<string, unknown> = {}) => ({
+  id,
+  sku: `SKU-0${id}`,
+  name: `Produk ${id}`,
+  category: 'ELECTRONIC',
+  sub_category: 'Audio',
+  base_price: '100000.0000',
+  cash_price: '150000.0000',
+  credit_price: '180000.0000',
+  stock_qty: 3,
+  is_active: true,
+  track_units: false,
+  ...overrides,
+});
+
+function fakeTx(products: unknown[], units: unknown[] = []) {
+  return {
+    stocktakeItem: { findFirst: vi.fn(async () => null) },
+    product: { findMany: vi.fn(async () => products) },
+    pricingRule: { findMany: vi.fn(async () => []) },
+    productUnit: { findMany: vi.fn(async () => units) },
+  };
+}
+
+describe('loadCart', () => {
+  it('prices every line for the sale type and totals the cart after discounts', async () => {
+    const tx = fakeTx([product(1), product(2)]);
+
+    const cart = await loadCart(asClient(tx), [
+      { productId: 1, quantity: 2, discount: 20_000 },
+      { productId: 2, quantity: 1 },
+    ], 'CREDIT');
+
+    expect(cart.lines.map((line) => line.lineTotal.toFixed(0))).toEqual(['340000', '180000']);
+    expect(cart.total.toFixed(0)).toBe('520000');
+    expect(cartItemRows(cart)[0]).toEqual({
+      product_id: 1,
+      quantity: 2,
+      unit_price: '180000.0000',
+      unit_cost: '100000.0000',
+      discount: '20000.0000',
+      line_total: '340000.0000',
+    });
+  });
+
+  it('refuses an empty cart and a product on two lines', async () => {
+    const tx = fakeTx([product(1)]);
+
+    await expect(loadCart(asClient(tx), [], 'CASH')).rejects.toThrow('Keranjang belanja kosong');
+    await expect(loadCart(asClient(tx), [
+      { productId: 1, quantity: 1 },
+      { productId: 1, quantity: 1 },
+    ], 'CASH')).rejects.toThrow('Produk yang sama tidak boleh muncul di lebih dari satu baris keranjang');
+  });
+
+  it('says how many are left when the stock runs short', async () => {
+    const tx = fakeTx([product(1)]);
+
+    await expect(loadCart(asClient(tx), [{ productId: 1, quantity: 4 }], 'CASH')).rejects.toThrow(
+      'Stok produk "Produk 1" tidak cukup (tersisa 3)'
+    );
+  });
+
+  it('refuses a discount that takes the whole line', async () => {
+    const tx = fakeTx([product(1)]);
+
+    await expect(loadCart(asClient(tx), [{ productId: 1, quantity: 1, discount: 150_000 }], 'CASH')).rejects.toThrow(
+      'Diskon "Produk 1" tidak boleh melebihi atau sama dengan harga baris'
+    );
+  });
+
+  it('needs one sellable unit of the product per quantity for tracked products', async () => {
+    const tracked = product(1, { track_units: true });
+    const units = [
+      { id: 10, product_id: 1, status: 'IN_STOCK', serial_no: 'SN-10', imei: null, engine_no: null, chassis_no: null },
+      { id: 11, product_id: 1, status: 'SOLD', serial_no: 'SN-11', imei: null, engine_no: null, chassis_no: null },
+    ];
+
+    await expect(loadCart(asClient(fakeTx([tracked], units)), [{ productId: 1, quantity: 2, unitIds: [10] }], 'CASH'))
+      .rejects.toThrow('Pilih 2 unit (nomor seri) untuk produk "Produk 1"');
+    await expect(loadCart(asClient(fakeTx([tracked], units)), [{ productId: 1, quantity: 1, unitIds: [11] }], 'CASH'))
+      .rejects.toThrow('Unit SN-11 tidak tersedia (status: SOLD)');
+
+    const cart = await loadCart(asClient(fakeTx([tracked], units)), [{ productId: 1, quantity: 1, unitIds: [10] }], 'CASH');
+    expect(cart.lines[0]?.units.map((unit) => unit.id)).toEqual([10]);
+  });
+});
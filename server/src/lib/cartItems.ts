@@ -0,0 +1,185 @@
+// Cart lines: validate products and stock, price each line, take stock out per line
+// Shared by credit and cash sales; must run inside the transaction that stores the sale
+import { Decimal } from 'decimal.js';
+import type { Product, ProductUnit, SaleType } from '@prisma/client';
+import type { TransactionClient } from './prisma.js';
+import { getSellingPrice } from './productPricing.js';
+import { SELLABLE_UNIT_STATUSES, unitLabel, unitSnapshot } from './productUnits.js';
+import { moveStock } from './stockMovements.js';
+import { assertNotUnderCount } from './stocktakeLock.js';
+
+export interface CartItemInput {
+  productId: number;
+  quantity: number;
+  discount?: number | undefined; // Rupiah, for the whole line
+  unitIds?: number[] | undefined; // Required for products with track_units: one per unit sold
+}
+
+export interface CartLine {
+  product: Product;
+  quantity: number;
+  unitPrice: Decimal; // Cash or credit selling price at the time of sale
+  unitCost: Decimal; // Harga modal, kept for margin reporting only
+  discount: Decimal;
+  lineTotal: Decimal;
+  units: ProductUnit[]; // Empty for products without unit tracking
+}
+
+export interface Cart {
+  lines: CartLine[];
+  total: Decimal;
+}
+
+export async function loadCart(tx: TransactionClient, items: CartItemInput[], saleType: SaleType): Promise<Cart> {
+  if (items.length === 0) {
+    throw new Error('Keranjang belanja kosong');
+  }
+
+  const productIds = items.map((item) => item.productId);
+  if (new Set(productIds).size !== productIds.length) {
+    throw new Error('Produk yang sama tidak boleh muncul di lebih dari satu baris keranjang');
+  }
+
+  await assertNotUnderCount(tx, productIds);
+
+  const products = await tx.product.findMany({ where: { id: { in: productIds } } });
+  const rules = await tx.pricingRule.findMany({ where: { is_active: true } });
+
+  const unitIds = items.flatMap((item) => item.unitIds ?? []);
+  if (new Set(unitIds).size !== unitIds.length) {
+    throw new Error('Unit yang sama tidak boleh dipilih lebih dari sekali');
+  }
+  const units = unitIds.length > 0
+    ? await tx.productUnit.findMany({ where: { id: { in: unitIds } } })
+    : [];
+
+  const lines = items.map((item): CartLine => {
+    const product = products.find((p) => p.id === item.productId);
+
+    if (!product) {
+      throw new Error(`Produk dengan ID ${item.productId} tidak ditemukan`);
+    }
+
+    if (!product.is_active) {
+      throw new Error(`Produk "${product.name}" tidak aktif`);
+    }
+
+    if (product.stock_qty < item.quantity) {
+      throw new Error(
+        product.stock_qty <= 0
+          ? `Stok produk "${product.name}" habis`
+          : `Stok produk "${product.name}" tidak cukup (tersisa ${product.stock_qty})`
+      );
+    }
+
+    const lineUnits = pickUnits(product, item, units);
+    const unitPrice = getSellingPrice(product, rules, saleType);
+    const gross = unitPrice.mul(item.quantity);
+    const discount = new Decimal(item.discount ?? 0);
+
+    if (discount.gte(gross)) {
+      throw new Error(`Diskon "${product.name}" tidak boleh melebihi atau sama dengan harga baris`);
+    }
+
+    return {
+      product,
+      quantity: item.quantity,
+      unitPrice,
+      unitCost: new Decimal(product.base_price.toString()),
+      discount,
+      lineTotal: gross.minus(discount),
+      units: lineUnits,
+    };
+  });
+
+  return {
+    lines,
+    total: lines.reduce((sum, line) => sum.plus(line.lineTotal), new Decimal(0)),
+  };
+}
+
+// Tracked products: exactly one sellable unit of this product per quantity
+function pickUnits(product: Product, item: CartItemInput, units: ProductUnit[]): ProductUnit[] {
+  const ids = item.unitIds ?? [];
+
+  if (!product.track_units) {
+    if (ids.length > 0) {
+      throw new Error(`Produk "${product.name}" tidak dicatat per unit`);
+    }
+    return [];
+  }
+
+  if (ids.length !== item.quantity) {
+    throw new Error(`Pilih ${item.quantity} unit (nomor seri) untuk produk "${product.name}"`);
+  }
+
+  return ids.map((id) => {
+    const unit = units.find((u) => u.id === id);
+    if (!unit || unit.product_id !== product.id) {
+      throw new Error(`Unit dengan ID ${id} tidak ditemukan pada produk "${product.name}"`);
+    }
+    if (!SELLABLE_UNIT_STATUSES.includes(unit.status)) {
+      throw new Error(`Unit ${unitLabel(unit)} tidak tersedia (status: ${unit.status})`);
+    }
+    return unit;
+  });
+}
+
+// Stock goes out through the ledger as SALE movements of the stored transaction
+// Chosen units are marked SOLD against the same transaction
+export async function decrementCartStock(
+  tx: TransactionClient,
+  cart: Cart,
+  transactionId: number,
+  cashier: string
+): Promise<void> {
+  for (const line of cart.lines) {
+    await moveStock(tx, {
+      productId: line.product.id,
+      type: 'SALE',
+      quantity: -line.quantity,
+      createdBy: cashier,
+      referenceType: 'TRANSACTION',
+      referenceId: transactionId,
+    });
+
+    if (line.units.length > 0) {
+      const sold = await tx.productUnit.updateMany({
+        where: { id: { in: line.units.map((unit) => unit.id) }, status: { in: SELLABLE_UNIT_STATUSES } },
+        data: { status: 'SOLD', sold_transaction_id: transactionId },
+      });
+
+      if (sold.count !== line.units.length) {
+        throw new Error(`Unit produk "${line.product.name}" sudah terjual`);
+      }
+    }
+  }
+}
+
+// Rows for transaction_items (nested create under the transaction)
+export function cartItemRows(cart: Cart) {
+  return cart.lines.map((line) => ({
+    product_id: line.product.id,
+    quantity: line.quantity,
+    unit_price: line.unitPrice.toFixed(4),
+    unit_cost: line.unitCost.toFixed(4),
+    discount: line.discount.toFixed(4),
+    line_total: line.lineTotal.toFixed(4),
+    ...(line.units.length > 0 ? { units: line.units.map(unitSnapshot) } : {}),
+  }));
+}
+
+// Display values (2 decimal places) for API responses and invoices; cost stays out
+export function cartSummary(cart: Cart) {
+  return cart.lines.map((line) => ({
+    productId: line.product.id,
+    name: line.product.name,
+    sku: line.product.sku,
+    quantity: line.quantity,
+    unitPrice: line.unitPrice.toFixed(2),
+    discount: line.discount.toFixed(2),
+    lineTotal: line.lineTotal.toFixed(2),
+    remainingStock: line.product.stock_qty - line.quantity,
+    units: line.units.map(unitSnapshot),
+  }));
+}
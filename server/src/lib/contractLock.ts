@@ -0,0 +1,8 @@
+// Contract row lock: payments and reversals of one contract run one at a time, otherwise two
+// cashiers allocate against the same stale installment balances and one payment is lost
+import type { TransactionClient } from './prisma.js';
+
+// Holds the lock until the caller's transaction commits; must run before the installments are read
+export async function lockContract(tx: TransactionClient, contractId: number): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM credit_contracts WHERE id = ${contractId} FOR UPDATE`;
+}
@@ -0,0 +1,15 @@
+// Sequential document numbers (kuitansi, dsb.) backed by the document_sequences table
+import type { TransactionClient } from './prisma.js';
+
+// Returns e.g. "KWT-2026-000001"; must run inside the transaction that stores the document
+export async function nextDocumentNumber(tx: TransactionClient, prefix: string, date: Date = new Date()): Promise<string> {
+  const name = `${prefix}-${date.getFullYear()}`;
+
+  const sequence = await tx.documentSequence.upsert({
+    where: { name },
+    create: { name, last_value: 1 },
+    update: { last_value: { increment: 1 } },
+  });
+
+  return `${name}-${sequence.last_value.toString().padStart(6, '0')}`;
+}
@@ -0,0 +1,41 @@
+// Installment balance: what is still owed on one scheduled installment
+// Within an installment, money already received covers interest first
+import { Decimal } from 'decimal.js';
+import type { CreditContract, Installment } from '@prisma/client';
+
+export interface InstallmentBalance {
+  principal: Decimal;
+  interest: Decimal;
+  penalty: Decimal; // Accrued and not yet paid
+}
+
+export function getInstallmentBalance(contract: CreditContract, inst: Installment): InstallmentBalance {
+  const outstanding = Decimal.max(
+    0,
+    new Decimal(inst.amount_due.toString())
+      .minus(inst.amount_paid.toString())
+      .minus(inst.discount_amount.toString())
+  );
+  const interest = Decimal.min(
+    outstanding,
+    Decimal.max(0, scheduledInterest(contract, inst).minus(inst.amount_paid.toString()))
+  );
+
+  return {
+    principal: outstanding.minus(interest),
+    interest,
+    penalty: Decimal.max(0, new Decimal(inst.penalty_accrued.toString()).minus(inst.penalty_paid.toString())),
+  };
+}
+
+// Interest part of a scheduled installment
+// Rows created before the split was stored fall back to an even flat share
+export function scheduledInterest(contract: CreditContract, inst: Installment): Decimal {
+  const interest = new Decimal(inst.interest_portion.toString());
+  if (!interest.isZero() || new Decimal(inst.principal_portion.toString()).gt(0)) {
+    return interest;
+  }
+  return new Decimal(contract.total_interest.toString())
+    .div(contract.tenor_months)
+    .toDecimalPlaces(0, Decimal.ROUND_DOWN);
+}
@@ -8,3 +8,6 @@ const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
 const adapter = new PrismaPg(pool);
 
 export const prisma = new PrismaClient({ adapter });
+
+// Client handed to prisma.$transaction callbacks
+export type TransactionClient = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
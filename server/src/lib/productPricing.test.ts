@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { PricingRule, Product } from '@prisma/client';
+import { findPricingRule, getSellingPrice, resolveSellingPrices } from './productPricing.js';
+
+// Decimal columns arrive as strings here
+function product(overrides: Record<string, unknown> = {}): Product {
+  return {
+    name: 'Kulkas 2 Pintu',
+    category: 'ELECTRONIC',
+    sub_category: 'Kulkas',
+    base_price: '3000000',
+    cash_price: null,
+    credit_price: null,
+    ...overrides,
+  } as unknown as Product;
+}
+
+function rule(id: number, overrides: Record<string, unknown> = {}): PricingRule {
+  return {
+    id,
+    category: 'ELECTRONIC',
+    sub_category: null,
+    cash_markup_percent: '10',
+    credit_markup_percent: '25',
+    is_active: true,
+    ...overrides,
+  } as unknown as PricingRule;
+}
+
+describe('findPricingRule', () => {
+  const categoryRule = rule(1);
+  const kulkasRule = rule(2, { sub_category: 'kulkas', cash_markup_percent: '12.5' });
+
+  it('prefers the sub-category rule, whatever the case', () => {
+    expect(findPricingRule(product(), [categoryRule, kulkasRule])).toBe(kulkasRule);
+  });
+
+  it('falls back to the category-wide rule', () => {
+    expect(findPricingRule(product({ sub_category: 'Televisi' }), [categoryRule, kulkasRule])).toBe(categoryRule);
+  });
+
+  it('ignores inactive rules and rules for other categories', () => {
+    const rules = [rule(3, { is_active: false }), rule(4, { category: 'FURNITURE' })];
+
+    expect(findPricingRule(product(), rules)).toBeNull();
+  });
+});
+
+describe('resolveSellingPrices', () => {
+  it('marks up the cost, rounded to whole rupiah', () => {
+    const prices = resolveSellingPrices(product({ base_price: '2999999' }), [rule(1)]);
+
+    // 2.999.999 × 1,1 = 3.299.998,9 and × 1,25 = 3.749.998,75
+    expect(prices.cash?.toFixed(2)).toBe('3299999.00');
+    expect(prices.credit?.toFixed(2)).toBe('3749999.00');
+  });
+
+  it('keeps a price set on the product over the rule', () => {
+    const prices = resolveSellingPrices(product({ cash_price: '3200000' }), [rule(1)]);
+
+    expect(prices.cash?.toFixed(0)).toBe('3200000');
+    expect(prices.credit?.toFixed(0)).toBe('3750000');
+  });
+});
+
+describe('getSellingPrice', () => {
+  it('never sells at the cost when no price is configured', () => {
+    expect(() => getSellingPrice(product(), [], 'CREDIT')).toThrow('Harga jual kredit produk "Kulkas 2 Pintu" belum diatur');
+  });
+});
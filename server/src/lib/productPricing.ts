@@ -0,0 +1,54 @@
+// Selling prices: base_price is the cost (harga modal), never the price a customer pays
+// A product's own cash/credit price wins; otherwise the markup rule for its sub-category,
+// then the rule for its whole category, is applied on top of the cost
+import { Decimal } from 'decimal.js';
+import type { PricingRule, Product, SaleType } from '@prisma/client';
+
+type PricedProduct = Pick<Product, 'name' | 'base_price' | 'cash_price' | 'credit_price' | 'category' | 'sub_category'>;
+
+export interface SellingPrices {
+  cash: Decimal | null;
+  credit: Decimal | null;
+}
+
+// Most specific active rule: sub-category first, then the category-wide rule
+export function findPricingRule(product: PricedProduct, rules: PricingRule[]): PricingRule | null {
+  const candidates = rules.filter((rule) => rule.is_active && rule.category === product.category);
+
+  return (
+    candidates.find((rule) => rule.sub_category?.toLowerCase() === product.sub_category.toLowerCase()) ??
+    candidates.find((rule) => rule.sub_category === null) ??
+    null
+  );
+}
+
+// Markup prices are rounded to whole Rupiah; null when neither a price nor a rule exists
+export function resolveSellingPrices(product: PricedProduct, rules: PricingRule[]): SellingPrices {
+  const rule = findPricingRule(product, rules);
+  const cost = new Decimal(product.base_price.toString());
+
+  const withMarkup = (percent: PricingRule['cash_markup_percent']) =>
+    cost.mul(new Decimal(percent.toString()).div(100).plus(1)).toDecimalPlaces(0, Decimal.ROUND_HALF_UP);
+
+  return {
+    cash: product.cash_price !== null
+      ? new Decimal(product.cash_price.toString())
+      : rule ? withMarkup(rule.cash_markup_percent) : null,
+    credit: product.credit_price !== null
+      ? new Decimal(product.credit_price.toString())
+      : rule ? withMarkup(rule.credit_markup_percent) : null,
+  };
+}
+
+export function getSellingPrice(product: PricedProduct, rules: PricingRule[], saleType: SaleType): Decimal {
+  const prices = resolveSellingPrices(product, rules);
+  const price = saleType === 'CASH' ? prices.cash : prices.credit;
+
+  if (price === null) {
+    throw new Error(
+      `Harga jual ${saleType === 'CASH' ? 'tunai' : 'kredit'} produk "${product.name}" belum diatur`
+    );
+  }
+
+  return price;
+}
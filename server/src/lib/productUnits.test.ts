@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from 'vitest';
+import { registerUnits, unitIdentifiersSchema } from './productUnits.js';
+import { asClient } from '../testing/prismaMock.js';
+
+function fakeTx(existing: unknown = null) {
+  return {
+    productUnit: {
+      findFirst: vi.fn(async () => existing),
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({ id: 1, status: 'IN_STOCK', ...data })),
+    },
+  };
+}
+
+const phone = { id: 1, name: 'HP Android', category: 'ELECTRONIC' as const };
+const motorbike = { id: 2, name: 'Motor Bebek', category: 'VEHICLE' as const };
+
+describe('registerUnits', () => {
+  it('creates one unit per identifier set', async () => {
+    const tx = fakeTx();
+
+    const units = await registerUnits(asClient(tx), phone, [{ imei: '356938035643809' }, { serialNo: 'SN-0002' }]);
+
+    expect(units).toHaveLength(2);
+    expect(tx.productUnit.create).toHaveBeenCalledWith({
+      data: { product_id: 1, serial_no: null, imei: '356938035643809', engine_no: null, chassis_no: null },
+    });
+  });
+
+  it('refuses a serial number listed twice before touching the database', async () => {
+    const tx = fakeTx();
+
+    await expect(registerUnits(asClient(tx), phone, [{ serialNo: 'SN-0001' }, { serialNo: 'SN-0001' }])).rejects.toThrow(
+      'Nomor seri SN-0001 tercantum lebih dari sekali'
+    );
+    expect(tx.productUnit.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('refuses a serial number another unit already has', async () => {
+    const tx = fakeTx({ id: 7, serial_no: 'SN-0001' });
+
+    await expect(registerUnits(asClient(tx), phone, [{ serialNo: 'SN-0001' }])).rejects.toThrow(
+      'Nomor seri SN-0001 sudah dipakai unit lain'
+    );
+    expect(tx.productUnit.create).not.toHaveBeenCalled();
+  });
+
+  it('needs engine and chassis numbers for vehicles', async () => {
+    await expect(registerUnits(asClient(fakeTx()), motorbike, [{ engineNo: 'JFZ1E1234567' }])).rejects.toThrow(
+      'Unit kendaraan wajib punya nomor mesin dan nomor rangka (JFZ1E1234567)'
+    );
+  });
+
+  it('needs at least one unit', async () => {
+    await expect(registerUnits(asClient(fakeTx()), phone, [])).rejects.toThrow(
+      'Produk "HP Android" dicatat per unit: daftarkan minimal satu unit'
+    );
+  });
+});
+
+describe('unitIdentifiersSchema', () => {
+  it('accepts only 15-digit IMEIs', () => {
+    expect(unitIdentifiersSchema.safeParse({ imei: '356938035643809' }).success).toBe(true);
+    expect(unitIdentifiersSchema.safeParse({ imei: '35693803564380' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+// Product units: one row per physical unit of a product with track_units
+// Electronics are identified by serial number / IMEI, vehicles by engine and chassis number
+import { z } from 'zod';
+import type { CategoryType, Product, ProductUnit, UnitStatus } from '@prisma/client';
+import type { TransactionClient } from './prisma.js';
+
+// Units that can still be sold (repossessed units are resold as second-hand)
+export const SELLABLE_UNIT_STATUSES: UnitStatus[] = ['IN_STOCK', 'REPOSSESSED'];
+
+export const unitIdentifiersSchema = z.object({
+  serialNo: z.string().trim().min(3, 'Nomor seri minimal 3 karakter').optional(),
+  imei: z.string().trim().regex(/^\d{15}$/, 'IMEI harus 15 digit angka').optional(),
+  engineNo: z.string().trim().min(5, 'Nomor mesin minimal 5 karakter').optional(),
+  chassisNo: z.string().trim().min(5, 'Nomor rangka minimal 5 karakter').optional(),
+});
+
+export type UnitIdentifiers = z.infer<typeof unitIdentifiersSchema>;
+
+// Snapshot stored on the transaction line (JSON) and printed on the invoice
+export type UnitSnapshot = {
+  unitId: number;
+  serialNo: string | null;
+  imei: string | null;
+  engineNo: string | null;
+  chassisNo: string | null;
+};
+
+export function unitSnapshot(unit: ProductUnit): UnitSnapshot {
+  return {
+    unitId: unit.id,
+    serialNo: unit.serial_no,
+    imei: unit.imei,
+    engineNo: unit.engine_no,
+    chassisNo: unit.chassis_no,
+  };
+}
+
+// Human-readable identifier, e.g. for error messages
+export function unitLabel(unit: ProductUnit | UnitIdentifiers): string {
+  const ids = 'id' in unit
+    ? [unit.serial_no, unit.imei, unit.engine_no, unit.chassis_no]
+    : [unit.serialNo, unit.imei, unit.engineNo, unit.chassisNo];
+  return ids.filter(Boolean).join(' / ');
+}
+
+function identifierError(category: CategoryType, unit: UnitIdentifiers): string | null {
+  if (category === 'VEHICLE' && (!unit.engineNo || !unit.chassisNo)) {
+    return 'Unit kendaraan wajib punya nomor mesin dan nomor rangka';
+  }
+  if (category !== 'VEHICLE' && !unit.serialNo && !unit.imei) {
+    return 'Unit wajib punya nomor seri atau IMEI';
+  }
+  return null;
+}
+
+// Register new units for a product; every identifier must be unique across all units
+export async function registerUnits(
+  tx: TransactionClient,
+  product: Pick<Product, 'id' | 'name' | 'category'>,
+  units: UnitIdentifiers[]
+): Promise<ProductUnit[]> {
+  if (units.length === 0) {
+    throw new Error(`Produk "${product.name}" dicatat per unit: daftarkan minimal satu unit`);
+  }
+
+  for (const unit of units) {
+    const error = identifierError(product.category, unit);
+    if (error) {
+      throw new Error(`${error} (${unitLabel(unit) || 'tanpa nomor'})`);
+    }
+  }
+
+  const fields = [
+    ['serialNo', 'serial_no', 'Nomor seri'],
+    ['imei', 'imei', 'IMEI'],
+    ['engineNo', 'engine_no', 'Nomor mesin'],
+    ['chassisNo', 'chassis_no', 'Nomor rangka'],
+  ] as const;
+
+  for (const [key, column, label] of fields) {
+    const values = units.map((unit) => unit[key]).filter((value): value is string => Boolean(value));
+    const duplicate = values.find((value, index) => values.indexOf(value) !== index);
+    if (duplicate) {
+      throw new Error(`${label} ${duplicate} tercantum lebih dari sekali`);
+    }
+
+    if (values.length > 0) {
+      const existing = await tx.productUnit.findFirst({ where: { [column]: { in: values } } });
+      if (existing) {
+        throw new Error(`${label} ${existing[column]} sudah dipakai unit lain`);
+      }
+    }
+  }
+
+  const created: ProductUnit[] = [];
+  for (const unit of units) {
+    created.push(await tx.productUnit.create({
+      data: {
+        product_id: product.id,
+        serial_no: unit.serialNo ?? null,
+        imei: unit.imei ?? null,
+        engine_no: unit.engineNo ?? null,
+        chassis_no: unit.chassisNo ?? null,
+      },
+    }));
+  }
+  return created;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { Decimal } from 'decimal.js';
+import { applyCharges, parseSchemeCharges, parseTransactionCharges } from './schemeCharges.js';
+
+describe('applyCharges', () => {
+  it('splits the charges into paid with the DP and added to the principal', () => {
+    const breakdown = applyCharges(
+      [
+        { name: 'Biaya Admin', type: 'FIXED', value: 250_000, collection: 'UPFRONT' },
+        { name: 'Materai', type: 'FIXED', value: 10_000, collection: 'UPFRONT' },
+        { name: 'Asuransi', type: 'PERCENT', value: 2, collection: 'FINANCED' },
+      ],
+      new Decimal(18_000_000),
+    );
+
+    expect(breakdown.upfrontTotal.toString()).toBe('260000');
+    expect(breakdown.financedTotal.toString()).toBe('360000');
+    expect(breakdown.charges.map((charge) => charge.amount.toString())).toEqual(['250000', '10000', '360000']);
+  });
+
+  it('rounds percentage charges up to the whole rupiah', () => {
+    const { charges } = applyCharges(
+      [{ name: 'Asuransi', type: 'PERCENT', value: 1.5, collection: 'FINANCED' }],
+      new Decimal(1_234_567),
+    );
+
+    // 1,5% of 1.234.567 = 18.518,505
+    expect(charges[0]?.amount.toString()).toBe('18519');
+  });
+
+  it('comes to zero without charges', () => {
+    const breakdown = applyCharges([], new Decimal(5_000_000));
+
+    expect(breakdown.upfrontTotal.isZero()).toBe(true);
+    expect(breakdown.financedTotal.isZero()).toBe(true);
+  });
+});
+
+describe('parseSchemeCharges', () => {
+  it('treats a missing column as no charges', () => {
+    expect(parseSchemeCharges(null)).toEqual([]);
+  });
+
+  it('refuses a malformed configuration', () => {
+    expect(() => parseSchemeCharges([{ name: 'Biaya Admin', type: 'FIXED', value: -1, collection: 'UPFRONT' }])).toThrow(
+      'Konfigurasi biaya tambahan pada skema kredit tidak valid',
+    );
+  });
+});
+
+describe('parseTransactionCharges', () => {
+  it('reads the stored amounts back as decimals', () => {
+    const [charge] = parseTransactionCharges([
+      { name: 'Biaya Admin', type: 'FIXED', value: 250_000, collection: 'UPFRONT', amount: '250000' },
+    ]);
+
+    expect(charge?.amount).toBeInstanceOf(Decimal);
+    expect(charge?.amount.toString()).toBe('250000');
+  });
+});
@@ -0,0 +1,61 @@
+// Scheme charges: one-off fees (biaya admin, asuransi, ...) defined on a loan scheme
+// UPFRONT charges are paid together with the DP, FINANCED charges are added to the principal
+import { Decimal } from 'decimal.js';
+import { z } from 'zod';
+
+export const schemeChargeSchema = z.object({
+  name: z.string().trim().min(1, 'Nama biaya wajib diisi'),
+  type: z.enum(['FIXED', 'PERCENT']), // PERCENT is a percentage of the price
+  value: z.number().min(0, 'Nilai biaya tidak boleh negatif'),
+  collection: z.enum(['UPFRONT', 'FINANCED']),
+});
+
+export type SchemeCharge = z.infer<typeof schemeChargeSchema>;
+
+export interface AppliedCharge extends SchemeCharge {
+  amount: Decimal;
+}
+
+export interface ChargeBreakdown {
+  charges: AppliedCharge[];
+  upfrontTotal: Decimal;
+  financedTotal: Decimal;
+}
+
+export function parseSchemeCharges(charges: unknown): SchemeCharge[] {
+  const result = z.array(schemeChargeSchema).safeParse(charges ?? []);
+  if (!result.success) {
+    throw new Error('Konfigurasi biaya tambahan pada skema kredit tidak valid');
+  }
+  return result.data;
+}
+
+// Final charges stored on a transaction (amount as a decimal string)
+export function parseTransactionCharges(charges: unknown): Array<SchemeCharge & { amount: Decimal }> {
+  const result = z.array(schemeChargeSchema.extend({ amount: z.string() })).safeParse(charges ?? []);
+  if (!result.success) {
+    throw new Error('Data biaya tambahan pada transaksi tidak valid');
+  }
+  return result.data.map((charge) => ({ ...charge, amount: new Decimal(charge.amount) }));
+}
+
+// Rupiah amounts, rounded up like the monthly installment
+export function applyCharges(charges: SchemeCharge[], price: Decimal): ChargeBreakdown {
+  const applied = charges.map((charge) => ({
+    ...charge,
+    amount: charge.type === 'PERCENT'
+      ? price.mul(charge.value).div(100).toDecimalPlaces(0, Decimal.ROUND_CEIL)
+      : new Decimal(charge.value),
+  }));
+
+  const sumOf = (collection: SchemeCharge['collection']) =>
+    applied
+      .filter((charge) => charge.collection === collection)
+      .reduce((sum, charge) => sum.plus(charge.amount), new Decimal(0));
+
+  return {
+    charges: applied,
+    upfrontTotal: sumOf('UPFRONT'),
+    financedTotal: sumOf('FINANCED'),
+  };
+}
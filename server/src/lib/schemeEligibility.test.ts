@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { Decimal } from 'decimal.js';
+import type { LoanScheme } from '@prisma/client';
+import { getIneligibilityReasons, getValidityError, isWithinValidity } from './schemeEligibility.js';
+
+// Only the rule columns are read; Decimal columns arrive as strings here
+function scheme(overrides: Record<string, unknown> = {}): LoanScheme {
+  return {
+    id: 1,
+    name: 'Motor Karyawan',
+    eligible_categories: [],
+    eligible_sub_categories: [],
+    min_price: null,
+    max_price: null,
+    customer_types: [],
+    valid_from: null,
+    valid_until: null,
+    ...overrides,
+  } as unknown as LoanScheme;
+}
+
+const motorbike = { category: 'VEHICLE' as const, subCategory: 'Motor', price: new Decimal(18_000_000) };
+
+describe('getIneligibilityReasons', () => {
+  it('allows everything when the scheme has no restrictions', () => {
+    expect(getIneligibilityReasons(scheme(), { ...motorbike, customerType: 'REGULAR' })).toEqual([]);
+  });
+
+  it('matches sub-categories regardless of case', () => {
+    const restricted = scheme({ eligible_categories: ['VEHICLE'], eligible_sub_categories: ['motor'] });
+
+    expect(getIneligibilityReasons(restricted, motorbike)).toEqual([]);
+    expect(getIneligibilityReasons(restricted, { ...motorbike, subCategory: 'Mobil' })).toEqual([
+      'Tipe produk Mobil tidak termasuk skema ini',
+    ]);
+  });
+
+  it('lists every rule the sale breaks', () => {
+    const restricted = scheme({ eligible_categories: ['ELECTRONIC'], max_price: '15000000', customer_types: ['EMPLOYEE'] });
+
+    expect(getIneligibilityReasons(restricted, { ...motorbike, customerType: 'REGULAR' })).toEqual([
+      'Kategori VEHICLE tidak termasuk skema ini',
+      'Harga maksimal Rp 15000000',
+      'Skema khusus customer EMPLOYEE',
+    ]);
+  });
+
+  it('skips the customer-type rule while the customer is unknown', () => {
+    const restricted = scheme({ customer_types: ['EMPLOYEE'] });
+
+    expect(getIneligibilityReasons(restricted, motorbike)).toEqual([]);
+  });
+
+  it('treats the price bounds as inclusive', () => {
+    const restricted = scheme({ min_price: '18000000', max_price: '18000000' });
+
+    expect(getIneligibilityReasons(restricted, motorbike)).toEqual([]);
+  });
+});
+
+describe('isWithinValidity', () => {
+  const promo = scheme({
+    name: 'Promo Lebaran',
+    valid_from: new Date('2026-03-01T00:00:00'),
+    valid_until: new Date('2026-03-31T00:00:00'),
+  });
+
+  it('opens on the first day of the promo', () => {
+    expect(isWithinValidity(promo, new Date('2026-02-28T23:59:00'))).toBe(false);
+    expect(isWithinValidity(promo, new Date('2026-03-01T00:00:00'))).toBe(true);
+  });
+
+  it('keeps the last day open until midnight', () => {
+    expect(isWithinValidity(promo, new Date('2026-03-31T21:00:00'))).toBe(true);
+    expect(isWithinValidity(promo, new Date('2026-04-01T00:00:00'))).toBe(false);
+  });
+
+  it('says whether the promo has not started or already ended', () => {
+    expect(getValidityError(promo, new Date('2026-02-01T10:00:00'))).toMatch(/^Promo "Promo Lebaran" baru berlaku mulai/);
+    expect(getValidityError(promo, new Date('2026-04-02T10:00:00'))).toMatch(/^Promo "Promo Lebaran" sudah berakhir pada/);
+  });
+
+  it('has no window when neither date is set', () => {
+    expect(isWithinValidity(scheme(), new Date('2030-01-01T00:00:00'))).toBe(true);
+  });
+});
@@ -0,0 +1,63 @@
+// Scheme eligibility: which product / price / customer a loan scheme may be used for
+// Empty lists and null bounds mean "no restriction"
+import { Decimal } from 'decimal.js';
+import type { CategoryType, CustomerType, LoanScheme } from '@prisma/client';
+
+export interface EligibilityContext {
+  category: CategoryType;
+  subCategory: string;
+  price: Decimal;
+  customerType?: CustomerType | null; // Unknown customer skips the customer-type rule
+}
+
+export function getIneligibilityReasons(scheme: LoanScheme, ctx: EligibilityContext): string[] {
+  const reasons: string[] = [];
+
+  if (scheme.eligible_categories.length > 0 && !scheme.eligible_categories.includes(ctx.category)) {
+    reasons.push(`Kategori ${ctx.category} tidak termasuk skema ini`);
+  }
+
+  if (
+    scheme.eligible_sub_categories.length > 0 &&
+    !scheme.eligible_sub_categories.some((sub) => sub.toLowerCase() === ctx.subCategory.toLowerCase())
+  ) {
+    reasons.push(`Tipe produk ${ctx.subCategory} tidak termasuk skema ini`);
+  }
+
+  if (scheme.min_price !== null && ctx.price.lt(scheme.min_price.toString())) {
+    reasons.push(`Harga minimal Rp ${new Decimal(scheme.min_price.toString()).toFixed(0)}`);
+  }
+
+  if (scheme.max_price !== null && ctx.price.gt(scheme.max_price.toString())) {
+    reasons.push(`Harga maksimal Rp ${new Decimal(scheme.max_price.toString()).toFixed(0)}`);
+  }
+
+  if (ctx.customerType && scheme.customer_types.length > 0 && !scheme.customer_types.includes(ctx.customerType)) {
+    reasons.push(`Skema khusus customer ${scheme.customer_types.join('/')}`);
+  }
+
+  return reasons;
+}
+
+// Promo window: valid_until is inclusive for the whole day
+export function getValidityError(scheme: LoanScheme, at: Date = new Date()): string | null {
+  if (scheme.valid_from && at < scheme.valid_from) {
+    return `Promo "${scheme.name}" baru berlaku mulai ${formatDate(scheme.valid_from)}`;
+  }
+  if (scheme.valid_until) {
+    const end = new Date(scheme.valid_until);
+    end.setHours(23, 59, 59, 999);
+    if (at > end) {
+      return `Promo "${scheme.name}" sudah berakhir pada ${formatDate(scheme.valid_until)}`;
+    }
+  }
+  return null;
+}
+
+export function isWithinValidity(scheme: LoanScheme, at: Date = new Date()): boolean {
+  return getValidityError(scheme, at) === null;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' });
+}
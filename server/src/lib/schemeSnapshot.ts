@@ -0,0 +1,33 @@
+// Scheme snapshot parser: validates the LoanScheme copy stored in transactions.scheme_snapshot
+import { z } from 'zod';
+import { schemeChargeSchema } from './schemeCharges.js';
+
+// Prisma serializes Decimal columns as strings inside JSON
+const decimalValue = z.union([z.string(), z.number()]).transform((value) => value.toString());
+
+export const schemeSnapshotSchema = z.looseObject({
+  id: z.number().int(),
+  name: z.string(),
+  interest_rate: decimalValue,
+  // Every scheme was flat before interest methods were introduced
+  interest_method: z.enum(['FLAT', 'ANNUITY', 'SYARIAH']).default('FLAT'),
+  min_dp_percent: decimalValue,
+  tenor_options: z.array(z.number().int()),
+  penalty_fee_daily: decimalValue,
+  // Penalties started on the day after the due date before grace days existed
+  penalty_grace_days: z.number().int().min(0).default(0),
+  // Snapshots taken before the payoff policy existed carry no discount
+  early_payoff_discount_percent: decimalValue.default('0'),
+  // Schemes had no extra charges before they became configurable
+  charges: z.array(schemeChargeSchema).default([]),
+});
+
+export type SchemeSnapshot = z.infer<typeof schemeSnapshotSchema>;
+
+export function parseSchemeSnapshot(snapshot: unknown): SchemeSnapshot {
+  const result = schemeSnapshotSchema.safeParse(snapshot);
+  if (!result.success) {
+    throw new Error('Snapshot skema kredit pada transaksi tidak valid');
+  }
+  return result.data;
+}
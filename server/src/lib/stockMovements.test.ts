@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Decimal } from 'decimal.js';
+import { moveStock, weightedAverageCost } from './stockMovements.js';
+import { asClient } from '../testing/prismaMock.js';
+
+// Minimal transaction client: one product row, updateMany honours the stock guard
+function fakeTx(product: { id: number; name: string; stock_qty: number; base_price: string }) {
+  const row = { ...product };
+  const tx = {
+    product: {
+      findUnique: vi.fn(async () => ({ ...row })),
+      findUniqueOrThrow: vi.fn(async () => ({ ...row })),
+      updateMany: vi.fn(async ({ where, data }: { where: { stock_qty?: { gte: number } }; data: { stock_qty: { increment: number } } }) => {
+        if (where.stock_qty && row.stock_qty < where.stock_qty.gte) return { count: 0 };
+        row.stock_qty += data.stock_qty.increment;
+        return { count: 1 };
+      }),
+      update: vi.fn(async ({ data }: { data: { base_price: string } }) => {
+        row.base_price = data.base_price;
+        return { ...row };
+      }),
+    },
+    stockMovement: { create: vi.fn(async () => ({})) },
+  };
+  return { tx, row };
+}
+
+describe('weightedAverageCost', () => {
+  it('averages the stock on hand with the incoming cost', () => {
+    // (10 × 1.000 + 5 × 1.300) / 15 = 1.100
+    expect(weightedAverageCost(10, new Decimal(1000), 5, new Decimal(1300)).toFixed(4)).toBe('1100.0000');
+  });
+
+  it('takes the incoming cost when the shelf was empty or negative', () => {
+    expect(weightedAverageCost(0, new Decimal(1000), 3, new Decimal(1250)).toFixed(4)).toBe('1250.0000');
+    expect(weightedAverageCost(-2, new Decimal(1000), 3, new Decimal(1250)).toFixed(4)).toBe('1250.0000');
+  });
+});
+
+describe('moveStock', () => {
+  it('re-averages harga modal on a costed receipt and records the movement at that cost', async () => {
+    const { tx, row } = fakeTx({ id: 1, name: 'Kulkas', stock_qty: 4, base_price: '2000000.0000' });
+
+    await moveStock(asClient(tx), {
+      productId: 1,
+      type: 'RESTOCK',
+      quantity: 1,
+      createdBy: 'Admin',
+      unitCost: new Decimal(2500000),
+    });
+
+    expect(row.stock_qty).toBe(5);
+    expect(row.base_price).toBe('2100000.0000');
+    expect(tx.stockMovement.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ quantity: 1, balance_after: 5, unit_cost: '2500000.0000' }),
+    });
+  });
+
+  it('keeps the average when goods leave', async () => {
+    const { tx, row } = fakeTx({ id: 1, name: 'Kulkas', stock_qty: 4, base_price: '2000000.0000' });
+
+    await moveStock(asClient(tx), { productId: 1, type: 'SALE', quantity: -2, createdBy: 'Admin' });
+
+    expect(row.stock_qty).toBe(2);
+    expect(tx.product.update).not.toHaveBeenCalled();
+    expect(tx.stockMovement.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ quantity: -2, balance_after: 2, unit_cost: '2000000.0000' }),
+    });
+  });
+
+  it('refuses to take more than is on hand', async () => {
+    const { tx, row } = fakeTx({ id: 1, name: 'Kulkas', stock_qty: 1, base_price: '2000000.0000' });
+
+    await expect(
+      moveStock(asClient(tx), { productId: 1, type: 'SALE', quantity: -2, createdBy: 'Admin' })
+    ).rejects.toThrow('Stok produk "Kulkas" tidak cukup');
+    expect(row.stock_qty).toBe(1);
+    expect(tx.stockMovement.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects a cost on outgoing stock', async () => {
+    const { tx } = fakeTx({ id: 1, name: 'Kulkas', stock_qty: 4, base_price: '2000000.0000' });
+
+    await expect(
+      moveStock(asClient(tx), {
+        productId: 1,
+        type: 'ADJUSTMENT',
+        quantity: -1,
+        createdBy: 'Admin',
+        unitCost: new Decimal(1000),
+      })
+    ).rejects.toThrow('Harga pokok hanya untuk barang masuk');
+  });
+});
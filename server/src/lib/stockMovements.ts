@@ -0,0 +1,81 @@
+// Stock ledger (kartu stok): every change to stock_qty goes through moveStock,
+// so a product's stock_qty always equals the sum of its movements.
+// base_price is the moving weighted-average cost (HPP), re-averaged on every costed receipt
+import { Decimal } from 'decimal.js';
+import type { Product, StockMovementType } from '@prisma/client';
+import type { TransactionClient } from './prisma.js';
+
+// Source documents a movement can point back to
+export type StockReferenceType = 'TRANSACTION' | 'REPOSSESSION' | 'STOCKTAKE' | 'PURCHASE_ORDER';
+
+export interface StockMovementInput {
+  productId: number;
+  type: StockMovementType;
+  quantity: number; // Signed delta: + in, - out
+  createdBy: string;
+  reason?: string | null | undefined;
+  referenceType?: StockReferenceType | undefined;
+  referenceId?: number | undefined;
+  // Incoming stock only: cost per unit (purchase price, cost of a returned sale line).
+  // Without it the goods come in at the current average and the average stays put
+  unitCost?: Decimal | undefined;
+}
+
+// (qty on hand × average + qty in × cost) / qty after; stock that was empty or negative takes the new cost
+export function weightedAverageCost(qtyBefore: number, averageCost: Decimal, qtyIn: number, unitCost: Decimal): Decimal {
+  if (qtyBefore <= 0) return unitCost;
+  return averageCost.times(qtyBefore).plus(unitCost.times(qtyIn)).dividedBy(qtyBefore + qtyIn);
+}
+
+// Apply a stock change and record it; outgoing stock never goes below zero
+export async function moveStock(tx: TransactionClient, input: StockMovementInput): Promise<Product> {
+  const { productId, type, quantity, createdBy, reason, referenceType, referenceId, unitCost } = input;
+
+  if (!Number.isInteger(quantity) || quantity === 0) {
+    throw new Error('Jumlah mutasi stok harus bilangan bulat selain 0');
+  }
+  if (unitCost && (quantity < 0 || unitCost.isNegative())) {
+    throw new Error('Harga pokok hanya untuk barang masuk dan tidak boleh negatif');
+  }
+
+  const product = await tx.product.findUnique({ where: { id: productId } });
+  if (!product) {
+    throw new Error(`Produk dengan ID ${productId} tidak ditemukan`);
+  }
+
+  // Conditional update: a concurrent sale that took the last units makes this fail
+  const updated = await tx.product.updateMany({
+    where: { id: productId, ...(quantity < 0 ? { stock_qty: { gte: -quantity } } : {}) },
+    data: { stock_qty: { increment: quantity } },
+  });
+  if (updated.count === 0) {
+    throw new Error(`Stok produk "${product.name}" tidak cukup`);
+  }
+
+  let after = await tx.product.findUniqueOrThrow({ where: { id: productId } });
+  const averageCost = new Decimal(after.base_price.toString());
+
+  if (unitCost) {
+    const newAverage = weightedAverageCost(after.stock_qty - quantity, averageCost, quantity, unitCost);
+    after = await tx.product.update({
+      where: { id: productId },
+      data: { base_price: newAverage.toFixed(4) },
+    });
+  }
+
+  await tx.stockMovement.create({
+    data: {
+      product_id: productId,
+      type,
+      quantity,
+      balance_after: after.stock_qty,
+      unit_cost: (unitCost ?? averageCost).toFixed(4),
+      reference_type: referenceType ?? null,
+      reference_id: referenceId ?? null,
+      reason: reason ?? null,
+      created_by: createdBy,
+    },
+  });
+
+  return after;
+}
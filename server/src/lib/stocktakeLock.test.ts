@@ -0,0 +1,24 @@
+import { describe, expect, it, vi } from 'vitest';
+import { assertNotUnderCount } from './stocktakeLock.js';
+import { asClient } from '../testing/prismaMock.js';
+
+function fakeTx(counting: unknown = null) {
+  return { stocktakeItem: { findFirst: vi.fn(async () => counting) } };
+}
+
+describe('assertNotUnderCount', () => {
+  it('locks sales of a product in an open stock opname', async () => {
+    const tx = fakeTx({ product: { name: 'Kursi Plastik' }, stocktake: { stocktake_no: 'OPN-2025-000005' } });
+
+    await expect(assertNotUnderCount(asClient(tx), [1, 2])).rejects.toThrow(
+      'Produk "Kursi Plastik" sedang dalam stock opname OPN-2025-000005; penjualan dikunci sampai opname selesai'
+    );
+    expect(tx.stocktakeItem.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { product_id: { in: [1, 2] }, stocktake: { status: { in: ['COUNTING', 'SUBMITTED'] } } },
+    }));
+  });
+
+  it('lets the sale through once no open session holds the products', async () => {
+    await expect(assertNotUnderCount(asClient(fakeTx()), [1])).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,24 @@
+// Stock opname lock: a product being counted can't be sold until its count is posted or cancelled,
+// otherwise the counted quantity no longer matches what the shelf held
+import type { StocktakeStatus } from '@prisma/client';
+import type { TransactionClient } from './prisma.js';
+
+// Sessions that still hold their products
+export const OPEN_STOCKTAKE_STATUSES: StocktakeStatus[] = ['COUNTING', 'SUBMITTED'];
+
+export async function assertNotUnderCount(tx: TransactionClient, productIds: number[]): Promise<void> {
+  const counting = await tx.stocktakeItem.findFirst({
+    where: { product_id: { in: productIds }, stocktake: { status: { in: OPEN_STOCKTAKE_STATUSES } } },
+    include: {
+      product: { select: { name: true } },
+      stocktake: { select: { stocktake_no: true } },
+    },
+  });
+
+  if (counting) {
+    throw new Error(
+      `Produk "${counting.product.name}" sedang dalam stock opname ${counting.stocktake.stocktake_no}; ` +
+      'penjualan dikunci sampai opname selesai'
+    );
+  }
+}
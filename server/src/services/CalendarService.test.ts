@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from 'vitest';
+import { calendarService } from './CalendarService.js';
+import { asClient } from '../testing/prismaMock.js';
+
+vi.mock('../lib/prisma.js', () => import('../testing/prismaMock.js'));
+
+// Holiday.date is a DATE column, read back as UTC midnight
+function fakeClient(holidays: string[] = []) {
+  return {
+    holiday: {
+      findMany: vi.fn(async () => holidays.map((date, index) => ({ id: index + 1, date: new Date(date), name: 'Libur' }))),
+    },
+  };
+}
+
+const localDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+describe('CalendarService.toWorkingDays', () => {
+  it('keeps Saturdays and moves Sundays to Monday', async () => {
+    const client = fakeClient();
+
+    const dates = await calendarService.toWorkingDays(asClient(client), [
+      new Date('2026-03-21T00:00:00'),
+      new Date('2026-03-22T00:00:00'),
+    ]);
+
+    expect(dates.map(localDate)).toEqual(['2026-03-21', '2026-03-23']);
+  });
+
+  it('skips a run of holidays and the Sunday after it', async () => {
+    const client = fakeClient(['2026-03-20', '2026-03-21']);
+
+    const [date] = await calendarService.toWorkingDays(asClient(client), [new Date('2026-03-20T00:00:00')]);
+
+    expect(date && localDate(date)).toBe('2026-03-23');
+  });
+
+  it('loads the holidays once for the whole range', async () => {
+    const client = fakeClient();
+
+    await calendarService.toWorkingDays(asClient(client), [
+      new Date('2026-03-10T00:00:00'),
+      new Date('2026-06-10T00:00:00'),
+    ]);
+
+    expect(client.holiday.findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not query without dates', async () => {
+    const client = fakeClient();
+
+    expect(await calendarService.toWorkingDays(asClient(client), [])).toEqual([]);
+    expect(client.holiday.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('CalendarService.monthlyDueDates', () => {
+  it('starts the month after the start date and moves each due date to a working day', async () => {
+    const client = fakeClient(['2026-06-10']);
+
+    const dates = await calendarService.monthlyDueDates(asClient(client), new Date('2026-04-15T09:30:00'), 10, 3);
+
+    // 10 May is a Sunday, 10 June a holiday
+    expect(dates.map(localDate)).toEqual(['2026-05-11', '2026-06-11', '2026-07-10']);
+  });
+
+  it('pushes the first due date back by the offset', async () => {
+    const client = fakeClient();
+
+    const dates = await calendarService.monthlyDueDates(asClient(client), new Date('2026-01-31T09:30:00'), 10, 2, 1);
+
+    expect(dates.map(localDate)).toEqual(['2026-03-10', '2026-04-10']);
+  });
+});
@@ -0,0 +1,128 @@
+// CalendarService: Holiday calendar and the due-date policy
+// Installments that fall on a Sunday or a national holiday move to the next working day
+
+import { prisma, type TransactionClient } from '../lib/prisma.js';
+import type { Holiday } from '@prisma/client';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Far enough to skip any run of holidays (e.g. cuti bersama Lebaran)
+const LOOKAHEAD_DAYS = 31;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HolidayInput {
+  date: Date;
+  name: string;
+}
+
+// ============================================================================
+// CALENDAR SERVICE CLASS
+// ============================================================================
+
+export class CalendarService {
+
+  // --------------------------------------------------------------------------
+  // A. List holidays (optionally for one year)
+  // --------------------------------------------------------------------------
+  async listHolidays(year?: number): Promise<Holiday[]> {
+    return prisma.holiday.findMany({
+      where: year !== undefined
+        ? { date: { gte: new Date(Date.UTC(year, 0, 1)), lt: new Date(Date.UTC(year + 1, 0, 1)) } }
+        : {},
+      orderBy: { date: 'asc' },
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // B. Add / remove a holiday
+  // Only affects installments created afterwards; existing due dates stay put
+  // --------------------------------------------------------------------------
+  async createHoliday(input: HolidayInput): Promise<Holiday> {
+    const existing = await prisma.holiday.findUnique({ where: { date: input.date } });
+    if (existing) {
+      throw new Error(`Tanggal ${this.holidayKey(input.date)} sudah dipakai untuk libur "${existing.name}"`);
+    }
+
+    return prisma.holiday.create({
+      data: { date: input.date, name: input.name },
+    });
+  }
+
+  async deleteHoliday(id: number): Promise<Holiday> {
+    const holiday = await prisma.holiday.findUnique({ where: { id } });
+    if (!holiday) {
+      throw new Error(`Hari libur dengan ID ${id} tidak ditemukan`);
+    }
+
+    return prisma.holiday.delete({ where: { id } });
+  }
+
+  // --------------------------------------------------------------------------
+  // C. Move each date forward to the next working day (not Sunday, not a holiday)
+  // Holidays are loaded once for the whole range
+  // --------------------------------------------------------------------------
+  async toWorkingDays(db: TransactionClient, dates: Date[]): Promise<Date[]> {
+    if (dates.length === 0) return [];
+
+    const times = dates.map((date) => date.getTime());
+    const from = new Date(Math.min(...times) - MS_PER_DAY);
+    const until = new Date(Math.max(...times) + LOOKAHEAD_DAYS * MS_PER_DAY);
+
+    const holidays = await db.holiday.findMany({
+      where: { date: { gte: from, lte: until } },
+    });
+    const holidayKeys = new Set(holidays.map((holiday) => this.holidayKey(holiday.date)));
+
+    return dates.map((date) => {
+      const result = new Date(date);
+      while (result.getDay() === 0 || holidayKeys.has(this.localKey(result))) {
+        result.setDate(result.getDate() + 1);
+      }
+      return result;
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // D. Monthly due dates on a fixed day, moved to working days
+  // The 1st due date is (offsetMonths + 1) months after start
+  // --------------------------------------------------------------------------
+  async monthlyDueDates(
+    db: TransactionClient,
+    start: Date,
+    dueDateDay: number,
+    count: number,
+    offsetMonths = 0
+  ): Promise<Date[]> {
+    const nominal = Array.from({ length: count }, (_, index) => {
+      const dueDate = new Date(start);
+      // Day 1 first so setMonth never overflows into the following month
+      dueDate.setDate(1);
+      dueDate.setMonth(dueDate.getMonth() + offsetMonths + index + 1);
+      dueDate.setDate(dueDateDay);
+      dueDate.setHours(0, 0, 0, 0);
+      return dueDate;
+    });
+
+    return this.toWorkingDays(db, nominal);
+  }
+
+  // --------------------------------------------------------------------------
+  // Helpers: YYYY-MM-DD keys
+  // Holiday.date is a DATE column (UTC midnight); due dates are local midnight
+  // --------------------------------------------------------------------------
+  private holidayKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private localKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
+
+// Export singleton instance
+export const calendarService = new CalendarService();
@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Decimal } from 'decimal.js';
+import { creditService } from './CreditService.js';
+
+vi.mock('../lib/prisma.js', () => import('../testing/prismaMock.js'));
+
+const sum = (values: Decimal[]) => values.reduce((acc, value) => acc.plus(value), new Decimal(0));
+
+describe('CreditService.buildSchedule', () => {
+  describe('FLAT', () => {
+    // 1.000.000 at 2% for 3 months: interest 60.000, installment 353.333,33 rounded up
+    const schedule = creditService.buildSchedule('FLAT', new Decimal(1_000_000), new Decimal(2), 3);
+
+    it('rounds the monthly installment up to whole rupiah', () => {
+      expect(schedule.interestAmount.toFixed(2)).toBe('60000.00');
+      expect(schedule.monthlyInstallment.toFixed(2)).toBe('353334.00');
+    });
+
+    it('lets the last installment absorb the rounding', () => {
+      expect(schedule.lines.map((line) => line.amountDue.toFixed(2))).toEqual(['353334.00', '353334.00', '353332.00']);
+      expect(sum(schedule.lines.map((line) => line.amountDue)).toFixed(2)).toBe('1060000.00');
+    });
+
+    it('splits principal and interest so both add up exactly', () => {
+      expect(sum(schedule.lines.map((line) => line.principal)).toFixed(2)).toBe('1000000.00');
+      expect(sum(schedule.lines.map((line) => line.interest)).toFixed(2)).toBe('60000.00');
+      expect(schedule.lines.at(-1)?.balance.toFixed(2)).toBe('0.00');
+    });
+  });
+
+  describe('ANNUITY', () => {
+    const principal = new Decimal(5_000_000);
+    const schedule = creditService.buildSchedule('ANNUITY', principal, new Decimal(2.5), 12);
+
+    it('bills the rounded-up annuity payment every month but the last', () => {
+      // P × r / (1 - (1 + r)^-n) = 487.435,6... → 487.436
+      expect(schedule.monthlyInstallment.toFixed(2)).toBe('487436.00');
+      for (const line of schedule.lines.slice(0, -1)) {
+        expect(line.amountDue.toFixed(2)).toBe('487436.00');
+      }
+    });
+
+    it('charges interest on the outstanding balance, in whole rupiah', () => {
+      const [first, second] = schedule.lines;
+      expect(first?.interest.toFixed(2)).toBe('125000.00');
+      expect(second?.interest.toFixed(2)).toBe(first?.balance.mul(0.025).toDecimalPlaces(0).toFixed(2));
+    });
+
+    it('clears the balance exactly with the last installment', () => {
+      const last = schedule.lines.at(-1)!;
+      expect(last.balance.toFixed(2)).toBe('0.00');
+      expect(last.amountDue.lte(schedule.monthlyInstallment)).toBe(true);
+      expect(sum(schedule.lines.map((line) => line.principal)).toFixed(2)).toBe(principal.toFixed(2));
+      expect(sum(schedule.lines.map((line) => line.interest)).toFixed(2)).toBe(schedule.interestAmount.toFixed(2));
+    });
+
+    it('spreads the principal evenly at 0%', () => {
+      const flat = creditService.buildSchedule('ANNUITY', new Decimal(1_200_000), new Decimal(0), 12);
+      expect(flat.interestAmount.toFixed(2)).toBe('0.00');
+      expect(flat.lines.every((line) => line.amountDue.eq(100_000))).toBe(true);
+    });
+  });
+
+  describe('SYARIAH', () => {
+    it('fixes the margin upfront and bills it evenly, like FLAT', () => {
+      const murabahah = creditService.buildSchedule('SYARIAH', new Decimal(1_000_000), new Decimal(2), 3);
+      const flat = creditService.buildSchedule('FLAT', new Decimal(1_000_000), new Decimal(2), 3);
+
+      expect(murabahah.interestAmount.toFixed(2)).toBe('60000.00');
+      expect(murabahah.lines.map((line) => line.interest.toFixed(2))).toEqual(['20000.00', '20000.00', '20000.00']);
+      expect(murabahah.lines.map((line) => line.amountDue.toFixed(2))).toEqual(
+        flat.lines.map((line) => line.amountDue.toFixed(2))
+      );
+    });
+  });
+
+  it('charges less interest on a declining balance than flat at the same rate', () => {
+    const annuity = creditService.buildSchedule('ANNUITY', new Decimal(5_000_000), new Decimal(2.5), 12);
+    const flat = creditService.buildSchedule('FLAT', new Decimal(5_000_000), new Decimal(2.5), 12);
+
+    expect(annuity.interestAmount.lt(flat.interestAmount)).toBe(true);
+  });
+});
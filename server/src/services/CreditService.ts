@@ -2,8 +2,12 @@
 // Uses decimal.js for precise financial calculations
 
 import { Decimal } from 'decimal.js';
-import { prisma } from '../lib/prisma.js';
-import type { LoanScheme, Product } from '@prisma/client';
+import { prisma, type TransactionClient } from '../lib/prisma.js';
+import { getIneligibilityReasons, getValidityError } from '../lib/schemeEligibility.js';
+import { calendarService } from './CalendarService.js';
+import { applyCharges, parseSchemeCharges, type ChargeBreakdown } from '../lib/schemeCharges.js';
+import { cartItemRows, cartSummary, decrementCartStock, loadCart, type CartItemInput } from '../lib/cartItems.js';
+import type { InterestMethod, LoanScheme } from '@prisma/client';
 
 // Configure Decimal.js for financial precision
 Decimal.set({ precision: 20, rounding: Decimal.ROUND_HALF_UP });
@@ -19,40 +23,74 @@ export interface SimulationInput {
   tenorMonths: number;
 }
 
+export interface ScheduleLine {
+  installmentNth: number;
+  amountDue: Decimal;
+  principal: Decimal;
+  interest: Decimal;
+  balance: Decimal; // Remaining principal after this installment
+}
+
+export interface RepaymentSchedule {
+  interestAmount: Decimal;
+  monthlyInstallment: Decimal;
+  lines: ScheduleLine[];
+}
+
 export interface SimulationResult {
   // String values for display (2 decimal places)
   display: {
     price: string;
     dp: string;
-    principal: string;
+    charges: Array<{
+      name: string;
+      type: 'FIXED' | 'PERCENT';
+      value: number;
+      collection: 'UPFRONT' | 'FINANCED';
+      amount: string;
+    }>;
+    upfrontCharges: string;
+    financedCharges: string;
+    upfrontPayment: string; // DP + upfront charges, collected at the counter
+    principal: string; // Price - DP + financed charges
+    interestMethod: InterestMethod;
     interestRate: string;
     interestAmount: string;
     totalLoan: string;
     monthlyInstallment: string;
     tenorMonths: number;
+    schedule: Array<{
+      installmentNth: number;
+      amountDue: string;
+      principal: string;
+      interest: string;
+      balance: string;
+    }>;
   };
   // Raw Decimal objects for further calculations
   raw: {
     price: Decimal;
     dp: Decimal;
+    charges: ChargeBreakdown;
     principal: Decimal;
     interestRate: Decimal;
     interestAmount: Decimal;
     totalLoan: Decimal;
     monthlyInstallment: Decimal;
     tenorMonths: number;
+    schedule: ScheduleLine[];
   };
   scheme: LoanScheme;
 }
 
 export interface CreateTransactionInput {
-  productId: number;
+  items: CartItemInput[]; // Price is the cart total, computed server-side
   customerId: number;
-  price: number;
   dp: number;
   schemeId: number;
   tenorMonths: number;
   dueDateDay: number; // Day of month for installment due dates (1-28)
+  cashier: string; // Recorded on the transaction and the stock ledger
 }
 
 // ============================================================================
@@ -65,89 +103,62 @@ export class CreditService {
   // A. Calculate Simulation
   // --------------------------------------------------------------------------
   async calculateSimulation(input: SimulationInput): Promise<SimulationResult> {
-    const { price, dp, schemeId, tenorMonths } = input;
-
-    // 1. Fetch the loan scheme from DB
-    const scheme = await prisma.loanScheme.findUnique({
-      where: { id: schemeId },
-    });
-
-    if (!scheme) {
-      throw new Error(`Loan scheme with ID ${schemeId} not found`);
-    }
-
-    if (!scheme.is_active) {
-      throw new Error(`Loan scheme "${scheme.name}" is not active`);
-    }
-
-    // 2. Validate tenor is allowed
-    const allowedTenors = scheme.tenor_options as number[];
-    if (!allowedTenors.includes(tenorMonths)) {
-      throw new Error(
-        `Tenor ${tenorMonths} bulan tidak tersedia. Pilihan: ${allowedTenors.join(', ')} bulan`
-      );
-    }
-
-    // 3. Validate minimum DP percentage
-    const priceDecimal = new Decimal(price);
-    const dpDecimal = new Decimal(dp);
-    const minDpPercent = new Decimal(scheme.min_dp_percent.toString());
-    const minDpAmount = priceDecimal.mul(minDpPercent).div(100);
+    return this.computeSimulation(prisma, input);
+  }
 
-    if (dpDecimal.lt(minDpAmount)) {
-      throw new Error(
-        `DP minimal ${minDpPercent}% dari harga (Rp ${minDpAmount.toFixed(0)}). ` +
-        `DP yang dimasukkan: Rp ${dpDecimal.toFixed(0)}`
-      );
+  // --------------------------------------------------------------------------
+  // A2. Build the repayment schedule for an interest method
+  // FLAT:    interest = Principal * Rate * Tenor, spread evenly
+  // SYARIAH: margin is agreed upfront like FLAT, recognised evenly per month
+  // ANNUITY: effective rate on the outstanding principal, equal payments
+  // --------------------------------------------------------------------------
+  buildSchedule(
+    method: InterestMethod,
+    principal: Decimal,
+    interestRate: Decimal,
+    tenorMonths: number
+  ): RepaymentSchedule {
+    if (method === 'ANNUITY') {
+      return this.buildAnnuitySchedule(principal, interestRate, tenorMonths);
     }
 
-    // 4. Calculate financial values
-    // Principal = Price - DP
-    const principal = priceDecimal.minus(dpDecimal);
-
-    // Interest Rate (from DB, stored as percentage per month, e.g., 2.5)
-    const interestRate = new Decimal(scheme.interest_rate.toString());
-
     // Interest Amount = Principal * (Rate / 100) * TenorMonths
-    // This is FLAT interest calculation
     const interestAmount = principal
       .mul(interestRate)
       .div(100)
       .mul(tenorMonths);
 
-    // Total Loan = Principal + Interest Amount
-    const totalLoan = principal.plus(interestAmount);
-
     // Monthly Installment = Total Loan / TenorMonths
     // Using CEILING to ensure we don't undercollect
-    const monthlyInstallment = totalLoan
+    const monthlyInstallment = principal
+      .plus(interestAmount)
       .div(tenorMonths)
       .toDecimalPlaces(0, Decimal.ROUND_CEIL);
 
-    // 5. Return structured result
-    return {
-      display: {
-        price: priceDecimal.toFixed(2),
-        dp: dpDecimal.toFixed(2),
-        principal: principal.toFixed(2),
-        interestRate: interestRate.toFixed(2),
-        interestAmount: interestAmount.toFixed(2),
-        totalLoan: totalLoan.toFixed(2),
-        monthlyInstallment: monthlyInstallment.toFixed(2),
-        tenorMonths,
-      },
-      raw: {
-        price: priceDecimal,
-        dp: dpDecimal,
-        principal,
-        interestRate,
-        interestAmount,
-        totalLoan,
-        monthlyInstallment,
-        tenorMonths,
-      },
-      scheme,
-    };
+    // Every month bills the rounded installment; the last one absorbs the
+    // rounding so the schedule totals principal + interest exactly
+    const interestShare = interestAmount.div(tenorMonths).toDecimalPlaces(0);
+    const lines: ScheduleLine[] = [];
+    let balance = principal;
+    let interestLeft = interestAmount;
+
+    for (let nth = 1; nth <= tenorMonths; nth++) {
+      const isLast = nth === tenorMonths;
+      const interest = isLast ? interestLeft : interestShare;
+      const principalPart = isLast ? balance : monthlyInstallment.minus(interestShare);
+
+      balance = balance.minus(principalPart);
+      interestLeft = interestLeft.minus(interest);
+      lines.push({
+        installmentNth: nth,
+        amountDue: principalPart.plus(interest),
+        principal: principalPart,
+        interest,
+        balance,
+      });
+    }
+
+    return { interestAmount, monthlyInstallment, lines };
   }
 
   // --------------------------------------------------------------------------
@@ -155,13 +166,13 @@ export class CreditService {
   // --------------------------------------------------------------------------
   async createTransaction(input: CreateTransactionInput) {
     const {
-      productId,
+      items,
       customerId,
-      price,
       dp,
       schemeId,
       tenorMonths,
       dueDateDay,
+      cashier,
     } = input;
 
     // Validate dueDateDay (1-28 to avoid month-end issues)
@@ -172,22 +183,13 @@ export class CreditService {
     // Use Prisma interactive transaction for atomicity
     return await prisma.$transaction(async (tx) => {
       // ----------------------------------------------------------------------
-      // Step 1: Validate Product Stock & Customer
+      // Step 1: Validate Cart (products, stock, line prices) & Customer
       // ----------------------------------------------------------------------
-      const product = await tx.product.findUnique({
-        where: { id: productId },
-      });
+      const cart = await loadCart(tx, items, 'CREDIT');
+      const price = cart.total.toNumber();
 
-      if (!product) {
-        throw new Error(`Produk dengan ID ${productId} tidak ditemukan`);
-      }
-
-      if (!product.is_active) {
-        throw new Error(`Produk "${product.name}" tidak aktif`);
-      }
-
-      if (product.stock_qty <= 0) {
-        throw new Error(`Stok produk "${product.name}" habis`);
+      if (dp >= price) {
+        throw new Error('DP tidak boleh melebihi atau sama dengan harga');
       }
 
       const customer = await tx.customer.findUnique({
@@ -201,27 +203,43 @@ export class CreditService {
       // ----------------------------------------------------------------------
       // Step 2: Server-side recalculation (never trust client)
       // ----------------------------------------------------------------------
-      const simulation = await this.calculateSimulationWithTx(tx, {
+      const simulation = await this.computeSimulation(tx, {
         price,
         dp,
         schemeId,
         tenorMonths,
       });
 
+      // Every product in the cart must be eligible; the price limits apply to the cart total
+      const ineligible = [...new Set(cart.lines.flatMap((line) =>
+        getIneligibilityReasons(simulation.scheme, {
+          category: line.product.category,
+          subCategory: line.product.sub_category,
+          price: simulation.raw.price,
+          customerType: customer.customer_type,
+        })
+      ))];
+      if (ineligible.length > 0) {
+        throw new Error(`Skema "${simulation.scheme.name}" tidak berlaku: ${ineligible.join('; ')}`);
+      }
+
       // ----------------------------------------------------------------------
       // Step 3: Create Transaction record with scheme_snapshot
       // ----------------------------------------------------------------------
       const transaction = await tx.transaction.create({
         data: {
           customerId: customer.id,
-          productId: product.id,
+          productId: cart.lines[0]!.product.id,
           customer_name: customer.name,
           customer_phone: customer.phone,
           customer_ktp: customer.nik,
-          total_price: price,
+          total_price: cart.total.toFixed(4),
           dp_amount: dp,
           scheme_snapshot: JSON.parse(JSON.stringify(simulation.scheme)),
+          charges: simulation.display.charges,
           status: 'ACTIVE',
+          cashier,
+          items: { create: cartItemRows(cart) },
         },
       });
 
@@ -246,19 +264,23 @@ export class CreditService {
       const installments = [];
       const startDate = new Date();
 
-      for (let i = 1; i <= tenorMonths; i++) {
-        // Calculate due date: i months from now, on the specified day
-        const dueDate = new Date(startDate);
-        dueDate.setMonth(dueDate.getMonth() + i);
-        dueDate.setDate(dueDateDay);
-        dueDate.setHours(0, 0, 0, 0);
+      // Nth month from now on the specified day; Sundays and holidays move to the next working day
+      const dueDates = await calendarService.monthlyDueDates(
+        tx,
+        startDate,
+        dueDateDay,
+        simulation.raw.schedule.length
+      );
 
+      for (const [index, line] of simulation.raw.schedule.entries()) {
         const installment = await tx.installment.create({
           data: {
             contract_id: contract.id,
-            installment_nth: i,
-            due_date: dueDate,
-            amount_due: simulation.raw.monthlyInstallment.toFixed(4),
+            installment_nth: line.installmentNth,
+            due_date: dueDates[index]!,
+            amount_due: line.amountDue.toFixed(4),
+            principal_portion: line.principal.toFixed(4),
+            interest_portion: line.interest.toFixed(4),
             amount_paid: 0,
             penalty_paid: 0,
             penalty_accrued: 0,
@@ -270,16 +292,9 @@ export class CreditService {
       }
 
       // ----------------------------------------------------------------------
-      // Step 6: Decrement Product Stock
+      // Step 6: Decrement Product Stock (per cart line)
       // ----------------------------------------------------------------------
-      await tx.product.update({
-        where: { id: productId },
-        data: {
-          stock_qty: {
-            decrement: 1,
-          },
-        },
-      });
+      await decrementCartStock(tx, cart, transaction.id, cashier);
 
       // ----------------------------------------------------------------------
       // Return complete transaction data
@@ -288,27 +303,24 @@ export class CreditService {
         transaction,
         contract,
         installments,
-        product: {
-          id: product.id,
-          name: product.name,
-          sku: product.sku,
-          remainingStock: product.stock_qty - 1,
-        },
+        items: cartSummary(cart),
         simulation: simulation.display,
       };
     });
   }
 
   // --------------------------------------------------------------------------
-  // Helper: Calculate simulation within a transaction context
+  // Helper: Validate the request against the scheme and compute the schedule
+  // Shared by the simulation and transaction creation (never trust client)
   // --------------------------------------------------------------------------
-  private async calculateSimulationWithTx(
-    tx: Parameters<Parameters<typeof prisma.$transaction>[0]>[0],
+  private async computeSimulation(
+    db: TransactionClient,
     input: SimulationInput
   ): Promise<SimulationResult> {
     const { price, dp, schemeId, tenorMonths } = input;
 
-    const scheme = await tx.loanScheme.findUnique({
+    // 1. Fetch the loan scheme from DB
+    const scheme = await db.loanScheme.findUnique({
       where: { id: schemeId },
     });
 
@@ -320,6 +332,13 @@ export class CreditService {
       throw new Error(`Loan scheme "${scheme.name}" is not active`);
     }
 
+    // Time-boxed promotions: also rejects transactions on an expired promo
+    const validityError = getValidityError(scheme, new Date());
+    if (validityError) {
+      throw new Error(validityError);
+    }
+
+    // 2. Validate tenor is allowed
     const allowedTenors = scheme.tenor_options as number[];
     if (!allowedTenors.includes(tenorMonths)) {
       throw new Error(
@@ -327,6 +346,7 @@ export class CreditService {
       );
     }
 
+    // 3. Validate minimum DP percentage
     const priceDecimal = new Decimal(price);
     const dpDecimal = new Decimal(dp);
     const minDpPercent = new Decimal(scheme.min_dp_percent.toString());
@@ -339,38 +359,107 @@ export class CreditService {
       );
     }
 
-    const principal = priceDecimal.minus(dpDecimal);
+    // 4. Calculate financial values
+    // One-off charges: upfront ones are paid with the DP, financed ones join the principal
+    const charges = applyCharges(parseSchemeCharges(scheme.charges), priceDecimal);
+
+    // Principal = Price - DP + Financed charges
+    const principal = priceDecimal.minus(dpDecimal).plus(charges.financedTotal);
+
+    // Interest Rate (from DB, stored as percentage per month, e.g., 2.5)
     const interestRate = new Decimal(scheme.interest_rate.toString());
-    const interestAmount = principal.mul(interestRate).div(100).mul(tenorMonths);
+
+    const { interestAmount, monthlyInstallment, lines } = this.buildSchedule(
+      scheme.interest_method,
+      principal,
+      interestRate,
+      tenorMonths
+    );
+
+    // Total Loan = Principal + Interest Amount
     const totalLoan = principal.plus(interestAmount);
-    const monthlyInstallment = totalLoan
-      .div(tenorMonths)
-      .toDecimalPlaces(0, Decimal.ROUND_CEIL);
 
+    // 5. Return structured result
     return {
       display: {
         price: priceDecimal.toFixed(2),
         dp: dpDecimal.toFixed(2),
+        charges: charges.charges.map((charge) => ({
+          ...charge,
+          amount: charge.amount.toFixed(2),
+        })),
+        upfrontCharges: charges.upfrontTotal.toFixed(2),
+        financedCharges: charges.financedTotal.toFixed(2),
+        upfrontPayment: dpDecimal.plus(charges.upfrontTotal).toFixed(2),
         principal: principal.toFixed(2),
+        interestMethod: scheme.interest_method,
         interestRate: interestRate.toFixed(2),
         interestAmount: interestAmount.toFixed(2),
         totalLoan: totalLoan.toFixed(2),
         monthlyInstallment: monthlyInstallment.toFixed(2),
         tenorMonths,
+        schedule: lines.map((line) => ({
+          installmentNth: line.installmentNth,
+          amountDue: line.amountDue.toFixed(2),
+          principal: line.principal.toFixed(2),
+          interest: line.interest.toFixed(2),
+          balance: line.balance.toFixed(2),
+        })),
       },
       raw: {
         price: priceDecimal,
         dp: dpDecimal,
+        charges,
         principal,
         interestRate,
         interestAmount,
         totalLoan,
         monthlyInstallment,
         tenorMonths,
+        schedule: lines,
       },
       scheme,
     };
   }
+
+  // --------------------------------------------------------------------------
+  // Helper: Annuity (effective rate) schedule
+  // Payment = P * r / (1 - (1 + r)^-n); the last month clears the balance
+  // --------------------------------------------------------------------------
+  private buildAnnuitySchedule(
+    principal: Decimal,
+    interestRate: Decimal,
+    tenorMonths: number
+  ): RepaymentSchedule {
+    const monthlyRate = interestRate.div(100);
+    const payment = monthlyRate.isZero()
+      ? principal.div(tenorMonths)
+      : principal.mul(monthlyRate).div(new Decimal(1).minus(monthlyRate.plus(1).pow(-tenorMonths)));
+    const monthlyInstallment = payment.toDecimalPlaces(0, Decimal.ROUND_CEIL);
+
+    const lines: ScheduleLine[] = [];
+    let balance = principal;
+    let interestAmount = new Decimal(0);
+
+    for (let nth = 1; nth <= tenorMonths; nth++) {
+      const interest = balance.mul(monthlyRate).toDecimalPlaces(0);
+      const principalPart = nth === tenorMonths
+        ? balance
+        : Decimal.min(balance, monthlyInstallment.minus(interest));
+
+      balance = balance.minus(principalPart);
+      interestAmount = interestAmount.plus(interest);
+      lines.push({
+        installmentNth: nth,
+        amountDue: principalPart.plus(interest),
+        principal: principalPart,
+        interest,
+        balance,
+      });
+    }
+
+    return { interestAmount, monthlyInstallment, lines };
+  }
 }
 
 // Export singleton instance
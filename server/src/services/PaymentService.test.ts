@@ -0,0 +1,240 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PaymentService } from './PaymentService.js';
+import { asClient, useClient } from '../testing/prismaMock.js';
+
+vi.mock('../lib/prisma.js', () => import('../testing/prismaMock.js'));
+
+interface InstallmentRow {
+  id: number;
+  contract_id: number;
+  installment_nth: number;
+  schedule_version: number;
+  amount_due: string;
+  amount_paid: string;
+  penalty_accrued: string;
+  penalty_paid: string;
+  discount_amount: string;
+  status: string;
+  paid_at: Date | null;
+}
+
+function installment(nth: number, overrides: Partial<InstallmentRow> = {}): InstallmentRow {
+  return {
+    id: nth,
+    contract_id: 1,
+    installment_nth: nth,
+    schedule_version: 1,
+    amount_due: '1000000.0000',
+    amount_paid: '0.0000',
+    penalty_accrued: '0.0000',
+    penalty_paid: '0.0000',
+    discount_amount: '0.0000',
+    status: 'UNPAID',
+    paid_at: null,
+    ...overrides,
+  };
+}
+
+// Contract with two open installments; the first is late with Rp 50.000 of penalty
+function fakeTx(installments: InstallmentRow[] = [
+  installment(1, { penalty_accrued: '50000.0000', status: 'LATE' }),
+  installment(2),
+]) {
+  const contract = {
+    id: 1,
+    transaction_id: 7,
+    schedule_version: 1,
+    installments,
+    transaction: { id: 7, status: 'ACTIVE' },
+  };
+
+  return {
+    $queryRaw: vi.fn(async () => []),
+    installment: {
+      findUnique: vi.fn(async ({ where, select }: { where: { id: number }; select?: unknown }) => {
+        const row = installments.find((inst) => inst.id === where.id);
+        if (!row) return null;
+        return select ? { contract_id: row.contract_id } : { ...row, contract };
+      }),
+      update: vi.fn(async () => ({})),
+    },
+    documentSequence: { upsert: vi.fn(async () => ({ last_value: 1 })) },
+    payment: {
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({ id: 10, ...data })),
+      update: vi.fn(async () => ({})),
+    },
+    paymentAllocation: { create: vi.fn(async () => ({})) },
+    transaction: { update: vi.fn(async () => ({})) },
+  };
+}
+
+describe('PaymentService.applyPayment', () => {
+  it('pays the penalty before the installment by default', async () => {
+    const tx = fakeTx();
+    const result = await new PaymentService().applyPayment(asClient(tx), {
+      installmentId: 1,
+      amount: 1_000_000,
+      method: 'CASH',
+      cashier: 'Kasir',
+    });
+
+    expect(result.allocations).toEqual([
+      { installmentId: 1, installmentNth: 1, penaltyPaid: '50000.00', amountPaid: '950000.00', status: 'PARTIAL' },
+    ]);
+    expect(result.contractCompleted).toBe(false);
+  });
+
+  it('follows a configured allocation order', async () => {
+    const tx = fakeTx();
+    const result = await new PaymentService(['INSTALLMENT', 'PENALTY']).applyPayment(asClient(tx), {
+      installmentId: 1,
+      amount: 1_000_000,
+      method: 'CASH',
+      cashier: 'Kasir',
+    });
+
+    // The installment is covered but the penalty is still open
+    expect(result.allocations).toEqual([
+      { installmentId: 1, installmentNth: 1, penaltyPaid: '0.00', amountPaid: '1000000.00', status: 'PARTIAL' },
+    ]);
+  });
+
+  it('carries an overpayment forward to the next installment', async () => {
+    const tx = fakeTx();
+    const result = await new PaymentService().applyPayment(asClient(tx), {
+      installmentId: 1,
+      amount: 1_550_000,
+      method: 'TRANSFER',
+      cashier: 'Kasir',
+    });
+
+    expect(result.allocations.map((a) => [a.installmentNth, a.penaltyPaid, a.amountPaid, a.status])).toEqual([
+      [1, '50000.00', '1000000.00', 'PAID'],
+      [2, '0.00', '500000.00', 'PARTIAL'],
+    ]);
+  });
+
+  it('increments the paid amounts instead of overwriting them', async () => {
+    const tx = fakeTx();
+    await new PaymentService().applyPayment(asClient(tx), {
+      installmentId: 1,
+      amount: 1_000_000,
+      method: 'CASH',
+      cashier: 'Kasir',
+    });
+
+    expect(tx.installment.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({
+        amount_paid: { increment: '950000.0000' },
+        penalty_paid: { increment: '50000.0000' },
+      }),
+    });
+  });
+
+  it('locks the contract before reading balances', async () => {
+    const tx = fakeTx();
+    await new PaymentService().applyPayment(asClient(tx), {
+      installmentId: 1,
+      amount: 100_000,
+      method: 'CASH',
+      cashier: 'Kasir',
+    });
+
+    const lockOrder = tx.$queryRaw.mock.invocationCallOrder[0]!;
+    const fullRead = tx.installment.findUnique.mock.invocationCallOrder[1]!;
+    expect(lockOrder).toBeLessThan(fullRead);
+  });
+
+  it('rejects more than the contract still owes', async () => {
+    const tx = fakeTx();
+    await expect(
+      new PaymentService().applyPayment(asClient(tx), {
+        installmentId: 1,
+        amount: 2_050_001,
+        method: 'CASH',
+        cashier: 'Kasir',
+      })
+    ).rejects.toThrow('melebihi sisa tagihan kontrak');
+    expect(tx.payment.create).not.toHaveBeenCalled();
+  });
+
+  it('completes the contract when the last balance is paid', async () => {
+    const tx = fakeTx();
+    const result = await new PaymentService().applyPayment(asClient(tx), {
+      installmentId: 1,
+      amount: 2_050_000,
+      method: 'CASH',
+      cashier: 'Kasir',
+    });
+
+    expect(result.contractCompleted).toBe(true);
+    expect(tx.transaction.update).toHaveBeenCalledWith({ where: { id: 7 }, data: { status: 'PAID' } });
+  });
+});
+
+describe('PaymentService.reversePayment', () => {
+  const run = (payment: Record<string, unknown>, latest: Record<string, unknown> = payment, status = 'ACTIVE') => {
+    const tx = useClient({
+      $queryRaw: vi.fn(async () => []),
+      payment: {
+        findUnique: vi.fn(async () => payment),
+        findFirst: vi.fn(async () => latest),
+        create: vi.fn(async () => ({ id: 20, receipt_no: 'BTL-2026-000001', amount: '-100000.0000' })),
+      },
+      transaction: { findUniqueOrThrow: vi.fn(async () => ({ status })), update: vi.fn(async () => ({})) },
+      documentSequence: { upsert: vi.fn(async () => ({ last_value: 1 })) },
+    });
+    return { tx, result: new PaymentService().reversePayment({ paymentId: 5, reason: 'Salah input', cashier: 'Kasir' }) };
+  };
+
+  const receipt = {
+    id: 5,
+    receipt_no: 'KWT-2026-000005',
+    contract_id: 1,
+    type: 'RECEIPT',
+    method: 'CASH',
+    reversed_by: null,
+    repossession: null,
+    completed_contract: false,
+    amount: '100000.0000',
+    discount_amount: '0.0000',
+    contract: { transaction_id: 7 },
+    allocations: [],
+  };
+
+  it('refuses to reverse the credited value of a repossession', async () => {
+    const { tx, result } = run({ ...receipt, method: 'REPOSSESSION' });
+    await expect(result).rejects.toThrow('berasal dari tarik barang');
+    expect(tx.payment.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses to reverse a receipt a repossession points to', async () => {
+    const { result } = run({ ...receipt, repossession: { id: 3, repossession_no: 'TRK-2026-000001' } });
+    await expect(result).rejects.toThrow('berasal dari tarik barang');
+  });
+
+  it('only reverses the latest receipt of the contract', async () => {
+    const { result } = run(receipt, { ...receipt, id: 6, receipt_no: 'KWT-2026-000006' });
+    await expect(result).rejects.toThrow('Batalkan KWT-2026-000006 terlebih dahulu');
+  });
+
+  it('refuses receipts of a written-off contract', async () => {
+    const { tx, result } = run(receipt, receipt, 'BAD_DEBT');
+    await expect(result).rejects.toThrow('tidak dapat dibatalkan (status kontrak: BAD_DEBT)');
+    expect(tx.payment.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses receipts of a paid contract that did not complete it', async () => {
+    const { result } = run(receipt, receipt, 'PAID');
+    await expect(result).rejects.toThrow('Kontrak sudah lunas');
+  });
+
+  it('reopens the contract when reversing the receipt that completed it', async () => {
+    const completing = { ...receipt, completed_contract: true };
+    const { tx, result } = run(completing, completing, 'PAID');
+
+    await expect(result).resolves.toMatchObject({ contractReopened: true });
+    expect(tx.transaction.update).toHaveBeenCalledWith({ where: { id: 7 }, data: { status: 'ACTIVE' } });
+  });
+});
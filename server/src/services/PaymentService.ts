@@ -0,0 +1,439 @@
+// PaymentService: Installment payment allocation
+// Uses decimal.js for precise financial calculations
+
+import { Decimal } from 'decimal.js';
+import { z } from 'zod';
+import { prisma, type TransactionClient } from '../lib/prisma.js';
+import { nextDocumentNumber } from '../lib/documentNumber.js';
+import { lockContract } from '../lib/contractLock.js';
+import type { Installment, PaymentMethod } from '@prisma/client';
+
+const RECEIPT_PREFIX = 'KWT';
+const REVERSAL_PREFIX = 'BTL';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// PENALTY = denda berjalan, INSTALLMENT = pokok + bunga bulan ini
+export const allocationComponentSchema = z.enum(['PENALTY', 'INSTALLMENT']);
+export type AllocationComponent = z.infer<typeof allocationComponentSchema>;
+
+export const DEFAULT_ALLOCATION_ORDER: AllocationComponent[] = ['PENALTY', 'INSTALLMENT'];
+
+export interface PayInstallmentInput {
+  installmentId: number;
+  amount?: number; // Defaults to the outstanding balance of the installment
+  method: PaymentMethod;
+  cashier: string;
+  notes?: string;
+}
+
+export interface InstallmentAllocation {
+  installmentId: number;
+  installmentNth: number;
+  penaltyPaid: string;
+  amountPaid: string;
+  status: 'PARTIAL' | 'PAID';
+}
+
+export interface ReversePaymentInput {
+  paymentId: number;
+  reason: string;
+  cashier: string;
+}
+
+export interface PaymentResult {
+  paymentId: number;
+  receiptNo: string;
+  amount: string;
+  allocations: InstallmentAllocation[];
+  contractCompleted: boolean;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// PAYMENT_ALLOCATION_ORDER=PENALTY,INSTALLMENT (comma separated, first is paid first)
+function loadAllocationOrder(): AllocationComponent[] {
+  const raw = process.env.PAYMENT_ALLOCATION_ORDER;
+  if (!raw) return DEFAULT_ALLOCATION_ORDER;
+
+  const result = z
+    .array(allocationComponentSchema)
+    .length(2)
+    .refine((order) => new Set(order).size === order.length)
+    .safeParse(raw.split(',').map((part) => part.trim().toUpperCase()));
+
+  if (!result.success) {
+    console.warn(`⚠️ Invalid PAYMENT_ALLOCATION_ORDER "${raw}", using ${DEFAULT_ALLOCATION_ORDER.join(',')}`);
+    return DEFAULT_ALLOCATION_ORDER;
+  }
+  return result.data;
+}
+
+// ============================================================================
+// PAYMENT SERVICE CLASS
+// ============================================================================
+
+export class PaymentService {
+  constructor(private readonly allocationOrder: AllocationComponent[] = loadAllocationOrder()) {}
+
+  // --------------------------------------------------------------------------
+  // A. Pay an installment (partial, exact, or overpayment carried forward)
+  // --------------------------------------------------------------------------
+  async payInstallment(input: PayInstallmentInput): Promise<PaymentResult> {
+    return await prisma.$transaction((tx) => this.applyPayment(tx, input));
+  }
+
+  // --------------------------------------------------------------------------
+  // Allocation of one receipt, inside the caller's transaction
+  // Also used for non-cash credits (e.g. the value of a repossessed unit)
+  // --------------------------------------------------------------------------
+  async applyPayment(tx: TransactionClient, input: PayInstallmentInput): Promise<PaymentResult> {
+    const { installmentId, amount, method, cashier, notes } = input;
+
+    const target = await tx.installment.findUnique({ where: { id: installmentId }, select: { contract_id: true } });
+    if (!target) {
+      throw new Error('Installment not found');
+    }
+    await lockContract(tx, target.contract_id);
+
+    const installment = await tx.installment.findUnique({
+      where: { id: installmentId },
+      include: {
+        contract: {
+          include: {
+            installments: { orderBy: { installment_nth: 'asc' } },
+            transaction: true,
+          },
+        },
+      },
+    });
+
+    if (!installment) {
+      throw new Error('Installment not found');
+    }
+
+    if (installment.status === 'PAID') {
+      throw new Error('Installment is already paid');
+    }
+
+    if (installment.status === 'SUPERSEDED') {
+      throw new Error('Angsuran ini sudah diganti jadwal restrukturisasi');
+    }
+
+    if (installment.contract.transaction.status !== 'ACTIVE') {
+      throw new Error(`Kontrak tidak aktif (status: ${installment.contract.transaction.status})`);
+    }
+
+    // The selected installment first, then later open installments of the same contract
+    const candidates = installment.contract.installments.filter(
+      (inst) =>
+        inst.status !== 'PAID' &&
+        inst.schedule_version === installment.schedule_version &&
+        inst.installment_nth >= installment.installment_nth
+    );
+
+    const totalOutstanding = candidates.reduce(
+      (acc, inst) => acc.plus(this.outstandingPenalty(inst)).plus(this.outstandingDue(inst)),
+      new Decimal(0)
+    );
+
+    const paymentAmount = amount !== undefined
+      ? new Decimal(amount)
+      : this.outstandingPenalty(installment).plus(this.outstandingDue(installment));
+
+    if (paymentAmount.lte(0)) {
+      throw new Error('Jumlah pembayaran harus lebih dari 0');
+    }
+
+    if (paymentAmount.gt(totalOutstanding)) {
+      throw new Error(
+        `Pembayaran Rp ${paymentAmount.toFixed(0)} melebihi sisa tagihan kontrak (Rp ${totalOutstanding.toFixed(0)})`
+      );
+    }
+
+    // One ledger row per cash receipt
+    const now = new Date();
+    const payment = await tx.payment.create({
+      data: {
+        receipt_no: await nextDocumentNumber(tx, RECEIPT_PREFIX, now),
+        contract_id: installment.contract_id,
+        amount: paymentAmount.toFixed(4),
+        method,
+        cashier,
+        notes: notes ?? null,
+        paid_at: now,
+      },
+    });
+
+    // Allocate across installments following the configured component order
+    let remaining = paymentAmount;
+    const allocations: InstallmentAllocation[] = [];
+
+    for (const inst of candidates) {
+      if (remaining.lte(0)) break;
+
+      let penaltyPaid = new Decimal(0);
+      let amountPaid = new Decimal(0);
+
+      for (const component of this.allocationOrder) {
+        const outstanding = component === 'PENALTY'
+          ? this.outstandingPenalty(inst)
+          : this.outstandingDue(inst);
+        const applied = Decimal.min(remaining, outstanding);
+        if (applied.lte(0)) continue;
+
+        if (component === 'PENALTY') {
+          penaltyPaid = penaltyPaid.plus(applied);
+        } else {
+          amountPaid = amountPaid.plus(applied);
+        }
+        remaining = remaining.minus(applied);
+      }
+
+      if (penaltyPaid.isZero() && amountPaid.isZero()) continue;
+
+      const settled = this.outstandingPenalty(inst).minus(penaltyPaid).lte(0) &&
+        this.outstandingDue(inst).minus(amountPaid).lte(0);
+      const status = settled ? 'PAID' : 'PARTIAL';
+
+      await tx.installment.update({
+        where: { id: inst.id },
+        data: {
+          amount_paid: { increment: amountPaid.toFixed(4) },
+          penalty_paid: { increment: penaltyPaid.toFixed(4) },
+          status,
+          paid_at: now,
+        },
+      });
+
+      await tx.paymentAllocation.create({
+        data: {
+          payment_id: payment.id,
+          installment_id: inst.id,
+          penalty_amount: penaltyPaid.toFixed(4),
+          amount: amountPaid.toFixed(4),
+          status_before: inst.status,
+          paid_at_before: inst.paid_at,
+        },
+      });
+
+      inst.status = status;
+      allocations.push({
+        installmentId: inst.id,
+        installmentNth: inst.installment_nth,
+        penaltyPaid: penaltyPaid.toFixed(2),
+        amountPaid: amountPaid.toFixed(2),
+        status,
+      });
+    }
+
+    // CHECK IF ALL INSTALLMENTS ARE PAID
+    const contractCompleted = installment.contract.installments.every(
+      (inst) => inst.status === 'PAID' || inst.status === 'SUPERSEDED'
+    );
+
+    if (contractCompleted) {
+      // Update transaction to PAID (Completed)
+      await tx.transaction.update({
+        where: { id: installment.contract.transaction_id },
+        data: { status: 'PAID' },
+      });
+
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { completed_contract: true },
+      });
+    }
+
+    return {
+      paymentId: payment.id,
+      receiptNo: payment.receipt_no,
+      amount: paymentAmount.toFixed(2),
+      allocations,
+      contractCompleted,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // B. Reverse a payment with a compensating REVERSAL entry
+  // Only the latest active receipt of a contract can be reversed, so restoring
+  // each installment's previous state is exact
+  // --------------------------------------------------------------------------
+  async reversePayment(input: ReversePaymentInput) {
+    const { paymentId, reason, cashier } = input;
+
+    return await prisma.$transaction(async (tx) => {
+      const payment = await tx.payment.findUnique({
+        where: { id: paymentId },
+        include: {
+          allocations: { include: { installment: { select: { status: true } } } },
+          reversed_by: true,
+          repossession: true,
+          contract: { select: { transaction_id: true } },
+        },
+      });
+
+      if (!payment) {
+        throw new Error(`Pembayaran dengan ID ${paymentId} tidak ditemukan`);
+      }
+
+      // The credited value of a repossessed unit is not cash: the unit is already back in stock
+      if (payment.method === 'REPOSSESSION' || payment.repossession) {
+        throw new Error(`Kuitansi ${payment.receipt_no} berasal dari tarik barang dan tidak dapat dibatalkan`);
+      }
+
+      if (payment.type !== 'RECEIPT') {
+        throw new Error('Hanya kuitansi penerimaan yang dapat dibatalkan');
+      }
+
+      if (payment.reversed_by) {
+        throw new Error(`Kuitansi ${payment.receipt_no} sudah dibatalkan (${payment.reversed_by.receipt_no})`);
+      }
+
+      await lockContract(tx, payment.contract_id);
+
+      // Read after the lock: a payoff, write-off or void may have closed the contract meanwhile
+      const { status } = await tx.transaction.findUniqueOrThrow({
+        where: { id: payment.contract.transaction_id },
+        select: { status: true },
+      });
+      const reopened = status === 'PAID' && payment.completed_contract;
+      if (status !== 'ACTIVE' && !reopened) {
+        throw new Error(
+          status === 'PAID'
+            ? 'Kontrak sudah lunas. Hanya kuitansi yang melunasi kontrak yang dapat dibatalkan'
+            : `Kuitansi ${payment.receipt_no} tidak dapat dibatalkan (status kontrak: ${status})`
+        );
+      }
+
+      const latestReceipt = await tx.payment.findFirst({
+        where: { contract_id: payment.contract_id, type: 'RECEIPT', reversed_by: null },
+        orderBy: [{ paid_at: 'desc' }, { id: 'desc' }],
+      });
+
+      if (latestReceipt?.id !== payment.id) {
+        throw new Error(
+          `Kuitansi ${payment.receipt_no} bukan pembayaran terakhir. Batalkan ${latestReceipt?.receipt_no} terlebih dahulu`
+        );
+      }
+
+      // The restructured balance already reflects this payment
+      if (payment.allocations.some((allocation) => allocation.installment.status === 'SUPERSEDED')) {
+        throw new Error(
+          `Kuitansi ${payment.receipt_no} dibayar sebelum restrukturisasi dan tidak dapat dibatalkan`
+        );
+      }
+
+      const now = new Date();
+      const reversal = await tx.payment.create({
+        data: {
+          receipt_no: await nextDocumentNumber(tx, REVERSAL_PREFIX, now),
+          contract_id: payment.contract_id,
+          type: 'REVERSAL',
+          amount: new Decimal(payment.amount.toString()).neg().toFixed(4),
+          discount_amount: new Decimal(payment.discount_amount.toString()).neg().toFixed(4),
+          method: payment.method,
+          cashier,
+          reason,
+          reversal_of_id: payment.id,
+          paid_at: now,
+        },
+      });
+
+      // Restore every installment to its state before the original payment
+      for (const allocation of payment.allocations) {
+        const inst = await tx.installment.findUniqueOrThrow({ where: { id: allocation.installment_id } });
+
+        await tx.installment.update({
+          where: { id: inst.id },
+          data: {
+            amount_paid: new Decimal(inst.amount_paid.toString()).minus(allocation.amount.toString()).toFixed(4),
+            penalty_paid: new Decimal(inst.penalty_paid.toString()).minus(allocation.penalty_amount.toString()).toFixed(4),
+            discount_amount: new Decimal(inst.discount_amount.toString()).minus(allocation.discount_amount.toString()).toFixed(4),
+            status: allocation.status_before,
+            paid_at: allocation.paid_at_before,
+          },
+        });
+
+        await tx.paymentAllocation.create({
+          data: {
+            payment_id: reversal.id,
+            installment_id: inst.id,
+            penalty_amount: new Decimal(allocation.penalty_amount.toString()).neg().toFixed(4),
+            amount: new Decimal(allocation.amount.toString()).neg().toFixed(4),
+            discount_amount: new Decimal(allocation.discount_amount.toString()).neg().toFixed(4),
+            status_before: inst.status,
+            paid_at_before: inst.paid_at,
+          },
+        });
+      }
+
+      if (reopened) {
+        await tx.transaction.update({
+          where: { id: payment.contract.transaction_id },
+          data: { status: 'ACTIVE' },
+        });
+      }
+
+      return {
+        reversalId: reversal.id,
+        receiptNo: reversal.receipt_no,
+        reversedReceiptNo: payment.receipt_no,
+        amount: reversal.amount.toString(),
+        contractReopened: reopened,
+      };
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // C. Payment history (kuitansi) of a contract, newest first
+  // --------------------------------------------------------------------------
+  async getContractPayments(contractId: number) {
+    const contract = await prisma.creditContract.findUnique({
+      where: { id: contractId },
+      select: { id: true },
+    });
+
+    if (!contract) {
+      throw new Error(`Kontrak dengan ID ${contractId} tidak ditemukan`);
+    }
+
+    return await prisma.payment.findMany({
+      where: { contract_id: contractId },
+      orderBy: [{ paid_at: 'desc' }, { id: 'desc' }],
+      include: {
+        reversal_of: { select: { id: true, receipt_no: true } },
+        reversed_by: { select: { id: true, receipt_no: true } },
+        allocations: {
+          include: {
+            installment: { select: { installment_nth: true } },
+          },
+          orderBy: { installment_id: 'asc' },
+        },
+      },
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Helpers: Outstanding balances of an installment
+  // --------------------------------------------------------------------------
+  private outstandingPenalty(inst: Pick<Installment, 'penalty_accrued' | 'penalty_paid'>): Decimal {
+    return Decimal.max(0, new Decimal(inst.penalty_accrued.toString()).minus(inst.penalty_paid.toString()));
+  }
+
+  private outstandingDue(inst: Pick<Installment, 'amount_due' | 'amount_paid' | 'discount_amount'>): Decimal {
+    return Decimal.max(
+      0,
+      new Decimal(inst.amount_due.toString())
+        .minus(inst.amount_paid.toString())
+        .minus(inst.discount_amount.toString())
+    );
+  }
+}
+
+// Export singleton instance
+export const paymentService = new PaymentService();
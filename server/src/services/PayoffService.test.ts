@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { payoffService } from './PayoffService.js';
+import { useClient } from '../testing/prismaMock.js';
+
+vi.mock('../lib/prisma.js', () => import('../testing/prismaMock.js'));
+
+const client = { creditContract: { findUnique: vi.fn() } };
+
+// 1.000.000 flat over 3 months (353.334 / 353.334 / 353.332), 50% off unearned interest
+function contract() {
+  const installment = (nth: number, dueDate: string, principal: number, overrides: Record<string, unknown> = {}) => ({
+    id: nth,
+    installment_nth: nth,
+    schedule_version: 1,
+    due_date: new Date(`${dueDate}T00:00:00`), // Local midnight: the quote compares with the start of today
+    amount_due: String(principal + 20000),
+    principal_portion: String(principal),
+    interest_portion: '20000',
+    amount_paid: '0',
+    penalty_accrued: '0',
+    penalty_paid: '0',
+    discount_amount: '0',
+    status: 'UNPAID',
+    ...overrides,
+  });
+
+  return {
+    id: 1,
+    total_interest: '60000',
+    tenor_months: 3,
+    transaction: {
+      status: 'ACTIVE',
+      scheme_snapshot: {
+        id: 1,
+        name: 'Reguler',
+        interest_rate: '2',
+        min_dp_percent: '10',
+        tenor_options: [3],
+        penalty_fee_daily: '1000',
+        early_payoff_discount_percent: '50',
+      },
+    },
+    installments: [
+      installment(1, '2026-08-05', 333334, { amount_paid: '353334', status: 'PAID' }),
+      // Overdue, Rp 5.000 already received (covers interest first) and Rp 10.000 penalty
+      installment(2, '2026-09-05', 333334, { amount_paid: '5000', penalty_accrued: '10000', status: 'PARTIAL' }),
+      installment(3, '2026-11-05', 333332),
+    ],
+  };
+}
+
+describe('PayoffService.getQuote', () => {
+  beforeEach(() => {
+    useClient(client).creditContract.findUnique.mockResolvedValue(contract());
+  });
+
+  it('discounts only the interest that is not yet due', async () => {
+    const quote = await payoffService.getQuote(1, new Date('2026-10-19T10:00:00'));
+
+    expect(quote.remainingPrincipal).toBe('666666.00');
+    expect(quote.remainingInterest).toBe('35000.00');
+    expect(quote.unearnedInterest).toBe('20000.00');
+    expect(quote.interestDiscount).toBe('10000.00');
+    expect(quote.accruedPenalty).toBe('10000.00');
+    // 666.666 + 35.000 - 10.000 + 10.000
+    expect(quote.totalPayoff).toBe('701666.00');
+    expect(quote.installments.map((line) => line.discount)).toEqual(['0.00', '10000.00']);
+  });
+
+  it('gives no discount once every installment is due', async () => {
+    const quote = await payoffService.getQuote(1, new Date('2026-11-05T10:00:00'));
+
+    expect(quote.interestDiscount).toBe('0.00');
+    expect(quote.totalPayoff).toBe('711666.00');
+  });
+
+  it('refuses a contract that is no longer active', async () => {
+    client.creditContract.findUnique.mockResolvedValue({
+      ...contract(),
+      transaction: { ...contract().transaction, status: 'PAID' },
+    });
+
+    await expect(payoffService.getQuote(1)).rejects.toThrow('Kontrak tidak aktif (status: PAID)');
+  });
+});
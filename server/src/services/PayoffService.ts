@@ -0,0 +1,231 @@
+// PayoffService: Early payoff (pelunasan dipercepat) quotes and settlement
+// The interest discount policy comes from the transaction's scheme_snapshot
+
+import { Decimal } from 'decimal.js';
+import { prisma, type TransactionClient } from '../lib/prisma.js';
+import { nextDocumentNumber } from '../lib/documentNumber.js';
+import { lockContract } from '../lib/contractLock.js';
+import { parseSchemeSnapshot } from '../lib/schemeSnapshot.js';
+import { getInstallmentBalance } from '../lib/installmentBalance.js';
+import type { PaymentMethod } from '@prisma/client';
+
+const RECEIPT_PREFIX = 'KWT';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PayoffInstallmentLine {
+  installmentId: number;
+  installmentNth: number;
+  dueDate: Date;
+  principal: Decimal;
+  interest: Decimal;
+  penalty: Decimal;
+  discount: Decimal;
+  isUnearned: boolean; // Not yet due on the quote date
+}
+
+export interface PayoffQuote {
+  contractId: number;
+  asOf: string;
+  discountPercent: string;
+  remainingPrincipal: string;
+  remainingInterest: string;
+  unearnedInterest: string;
+  interestDiscount: string;
+  accruedPenalty: string;
+  totalPayoff: string;
+  installments: Array<{
+    installmentNth: number;
+    dueDate: Date;
+    principal: string;
+    interest: string;
+    penalty: string;
+    discount: string;
+  }>;
+}
+
+export interface SettleContractInput {
+  contractId: number;
+  method: PaymentMethod;
+  cashier: string;
+  expectedTotal?: number; // Rejects the settlement if the quote changed since it was shown
+}
+
+// ============================================================================
+// PAYOFF SERVICE CLASS
+// ============================================================================
+
+export class PayoffService {
+
+  // --------------------------------------------------------------------------
+  // A. Payoff quote for today
+  // --------------------------------------------------------------------------
+  async getQuote(contractId: number, asOf: Date = new Date()): Promise<PayoffQuote> {
+    const { quote } = await this.buildQuote(prisma, contractId, asOf);
+    return quote;
+  }
+
+  // --------------------------------------------------------------------------
+  // B. Settle the contract: close every open installment atomically
+  // --------------------------------------------------------------------------
+  async settle(input: SettleContractInput) {
+    const { contractId, method, cashier, expectedTotal } = input;
+
+    return await prisma.$transaction(async (tx) => {
+      await lockContract(tx, contractId);
+
+      const now = new Date();
+      const { quote, lines, contract } = await this.buildQuote(tx, contractId, now);
+      const total = new Decimal(quote.totalPayoff);
+
+      if (expectedTotal !== undefined && !total.eq(new Decimal(expectedTotal).toDecimalPlaces(2))) {
+        throw new Error(
+          `Nilai pelunasan berubah menjadi Rp ${total.toFixed(0)}. Muat ulang simulasi pelunasan`
+        );
+      }
+
+      const payment = await tx.payment.create({
+        data: {
+          receipt_no: await nextDocumentNumber(tx, RECEIPT_PREFIX, now),
+          contract_id: contract.id,
+          amount: total.toFixed(4),
+          discount_amount: new Decimal(quote.interestDiscount).toFixed(4),
+          method,
+          cashier,
+          notes: 'Pelunasan dipercepat',
+          completed_contract: true,
+          paid_at: now,
+        },
+      });
+
+      for (const line of lines) {
+        const inst = contract.installments.find((i) => i.id === line.installmentId)!;
+        const amountPaid = line.principal.plus(line.interest).minus(line.discount);
+
+        await tx.installment.update({
+          where: { id: inst.id },
+          data: {
+            amount_paid: { increment: amountPaid.toFixed(4) },
+            penalty_paid: { increment: line.penalty.toFixed(4) },
+            discount_amount: { increment: line.discount.toFixed(4) },
+            status: 'PAID',
+            paid_at: now,
+          },
+        });
+
+        await tx.paymentAllocation.create({
+          data: {
+            payment_id: payment.id,
+            installment_id: inst.id,
+            penalty_amount: line.penalty.toFixed(4),
+            amount: amountPaid.toFixed(4),
+            discount_amount: line.discount.toFixed(4),
+            status_before: inst.status,
+            paid_at_before: inst.paid_at,
+          },
+        });
+      }
+
+      await tx.transaction.update({
+        where: { id: contract.transaction_id },
+        data: { status: 'PAID' },
+      });
+
+      return {
+        paymentId: payment.id,
+        receiptNo: payment.receipt_no,
+        quote,
+      };
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Helper: Compute the quote lines for every open installment of the current schedule
+  // --------------------------------------------------------------------------
+  private async buildQuote(db: TransactionClient, contractId: number, asOf: Date) {
+    const contract = await db.creditContract.findUnique({
+      where: { id: contractId },
+      include: {
+        transaction: true,
+        installments: { orderBy: { installment_nth: 'asc' } },
+      },
+    });
+
+    if (!contract) {
+      throw new Error(`Kontrak dengan ID ${contractId} tidak ditemukan`);
+    }
+
+    if (contract.transaction.status !== 'ACTIVE') {
+      throw new Error(`Kontrak tidak aktif (status: ${contract.transaction.status})`);
+    }
+
+    const snapshot = parseSchemeSnapshot(contract.transaction.scheme_snapshot);
+    const discountPercent = new Decimal(snapshot.early_payoff_discount_percent);
+    const today = new Date(asOf);
+    today.setHours(0, 0, 0, 0);
+
+    const lines: PayoffInstallmentLine[] = [];
+
+    for (const inst of contract.installments) {
+      if (inst.status === 'PAID' || inst.status === 'SUPERSEDED') continue;
+
+      const { principal, interest, penalty } = getInstallmentBalance(contract, inst);
+      const isUnearned = inst.due_date > today;
+      const discount = isUnearned
+        ? interest.mul(discountPercent).div(100).toDecimalPlaces(0, Decimal.ROUND_DOWN)
+        : new Decimal(0);
+
+      lines.push({
+        installmentId: inst.id,
+        installmentNth: inst.installment_nth,
+        dueDate: inst.due_date,
+        principal,
+        interest,
+        penalty,
+        discount,
+        isUnearned,
+      });
+    }
+
+    if (lines.length === 0) {
+      throw new Error('Tidak ada angsuran yang tersisa untuk dilunasi');
+    }
+
+    const sum = (pick: (line: PayoffInstallmentLine) => Decimal) =>
+      lines.reduce((acc, line) => acc.plus(pick(line)), new Decimal(0));
+
+    const remainingPrincipal = sum((l) => l.principal);
+    const remainingInterest = sum((l) => l.interest);
+    const unearnedInterest = sum((l) => (l.isUnearned ? l.interest : new Decimal(0)));
+    const interestDiscount = sum((l) => l.discount);
+    const accruedPenalty = sum((l) => l.penalty);
+    const totalPayoff = remainingPrincipal.plus(remainingInterest).minus(interestDiscount).plus(accruedPenalty);
+
+    const quote: PayoffQuote = {
+      contractId: contract.id,
+      asOf: asOf.toISOString(),
+      discountPercent: discountPercent.toFixed(2),
+      remainingPrincipal: remainingPrincipal.toFixed(2),
+      remainingInterest: remainingInterest.toFixed(2),
+      unearnedInterest: unearnedInterest.toFixed(2),
+      interestDiscount: interestDiscount.toFixed(2),
+      accruedPenalty: accruedPenalty.toFixed(2),
+      totalPayoff: totalPayoff.toFixed(2),
+      installments: lines.map((l) => ({
+        installmentNth: l.installmentNth,
+        dueDate: l.dueDate,
+        principal: l.principal.toFixed(2),
+        interest: l.interest.toFixed(2),
+        penalty: l.penalty.toFixed(2),
+        discount: l.discount.toFixed(2),
+      })),
+    };
+
+    return { quote, lines, contract };
+  }
+}
+
+// Export singleton instance
+export const payoffService = new PayoffService();
@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Decimal } from 'decimal.js';
+import { penaltyService } from './PenaltyService.js';
+import { useClient } from '../testing/prismaMock.js';
+
+vi.mock('../lib/prisma.js', () => import('../testing/prismaMock.js'));
+
+// One installment due on 5 October 2025, Rp 1.000 per day late
+function fakeClient(updatedRows = 1, graceDays = 0) {
+  return {
+    installment: {
+      findMany: vi.fn(async () => [
+        {
+          id: 3,
+          status: 'UNPAID',
+          due_date: new Date('2025-10-05T00:00:00'),
+          penalty_accrued: '0.0000',
+          contract: {
+            transaction: {
+              scheme_snapshot: {
+                id: 1,
+                name: 'Reguler',
+                interest_rate: '2',
+                min_dp_percent: '10',
+                tenor_options: [12],
+                penalty_fee_daily: '1000',
+                penalty_grace_days: graceDays,
+              },
+            },
+          },
+        },
+      ]),
+      updateMany: vi.fn(async () => ({ count: updatedRows })),
+    },
+  };
+}
+
+describe('PenaltyService.calculatePenalty', () => {
+  it('charges every full day after the due date', () => {
+    const result = penaltyService.calculatePenalty(
+      new Date('2026-10-05T00:00:00'),
+      new Date('2026-10-19T16:30:00'),
+      new Decimal(1000)
+    );
+
+    expect(result.daysOverdue).toBe(14);
+    expect(result.penalty.toFixed(0)).toBe('14000');
+  });
+
+  it('charges nothing before the due date', () => {
+    const result = penaltyService.calculatePenalty(
+      new Date('2026-10-25T00:00:00'),
+      new Date('2026-10-19T16:30:00'),
+      new Decimal(1000)
+    );
+
+    expect(result.daysOverdue).toBe(0);
+    expect(result.penalty.toFixed(0)).toBe('0');
+  });
+
+  it('charges only the days after the grace period', () => {
+    const result = penaltyService.calculatePenalty(
+      new Date('2026-10-05T00:00:00'),
+      new Date('2026-10-19T16:30:00'),
+      new Decimal(1000),
+      3
+    );
+
+    expect(result.daysOverdue).toBe(14);
+    expect(result.penalizedDays).toBe(11);
+    expect(result.penalty.toFixed(0)).toBe('11000');
+  });
+
+  it('charges nothing while still within the grace period', () => {
+    const result = penaltyService.calculatePenalty(
+      new Date('2026-10-16T00:00:00'),
+      new Date('2026-10-19T16:30:00'),
+      new Decimal(1000),
+      3
+    );
+
+    expect(result.daysOverdue).toBe(3);
+    expect(result.penalizedDays).toBe(0);
+    expect(result.penalty.toFixed(0)).toBe('0');
+  });
+});
+
+describe('PenaltyService.accruePenalties', () => {
+  it('refuses a date that has not passed yet', async () => {
+    const client = useClient(fakeClient());
+
+    await expect(penaltyService.accruePenalties(new Date(Date.now() + 60_000))).rejects.toThrow(
+      'tidak boleh melewati hari ini'
+    );
+    expect(client.installment.findMany).not.toHaveBeenCalled();
+  });
+
+  it('stores the penalty only while the installment keeps the status it was read with', async () => {
+    const client = useClient(fakeClient());
+
+    const result = await penaltyService.accruePenalties(new Date('2025-10-19T10:00:00'));
+
+    expect(client.installment.updateMany).toHaveBeenCalledWith({
+      where: { id: 3, status: 'UNPAID' },
+      data: { penalty_accrued: '14000.0000', status: 'LATE' },
+    });
+    expect(result).toMatchObject({ processed: 1, updated: 1, markedLate: 1 });
+  });
+
+  it('leaves an installment within the grace period untouched', async () => {
+    const client = useClient(fakeClient(1, 14));
+
+    const result = await penaltyService.accruePenalties(new Date('2025-10-19T10:00:00'));
+
+    expect(client.installment.updateMany).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ processed: 1, updated: 0, markedLate: 0 });
+  });
+
+  it('skips an installment a payment changed in the meantime', async () => {
+    useClient(fakeClient(0));
+
+    const result = await penaltyService.accruePenalties(new Date('2025-10-19T10:00:00'));
+
+    expect(result).toMatchObject({ processed: 1, updated: 0, markedLate: 0 });
+  });
+});
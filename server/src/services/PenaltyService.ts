@@ -0,0 +1,140 @@
+// PenaltyService: Daily late-fee accrual for overdue installments
+// The daily fee always comes from the transaction's scheme_snapshot, never from the live LoanScheme
+
+import { Decimal } from 'decimal.js';
+import { prisma } from '../lib/prisma.js';
+import { parseSchemeSnapshot } from '../lib/schemeSnapshot.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PenaltyCalculation {
+  daysOverdue: number;
+  penalizedDays: number; // Days overdue beyond the grace period
+  penalty: Decimal;
+}
+
+export interface PenaltyAccrualResult {
+  asOf: string;
+  processed: number;
+  updated: number;
+  markedLate: number;
+  totalPenaltyAccrued: string;
+}
+
+// ============================================================================
+// PENALTY SERVICE CLASS
+// ============================================================================
+
+export class PenaltyService {
+
+  // --------------------------------------------------------------------------
+  // A. Calculate penalty for a single installment
+  // No penalty during the grace period; after it, only the days beyond it count
+  // --------------------------------------------------------------------------
+  calculatePenalty(dueDate: Date, asOf: Date, dailyFee: Decimal, graceDays = 0): PenaltyCalculation {
+    const daysOverdue = Math.max(
+      0,
+      Math.round((this.startOfDay(asOf).getTime() - this.startOfDay(dueDate).getTime()) / MS_PER_DAY)
+    );
+    const penalizedDays = Math.max(0, daysOverdue - graceDays);
+
+    return {
+      daysOverdue,
+      penalizedDays,
+      penalty: dailyFee.mul(penalizedDays),
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // B. Accrue penalties for every overdue installment of active contracts
+  // Idempotent: penalty_accrued is recomputed from due_date, not incremented
+  // --------------------------------------------------------------------------
+  async accruePenalties(asOf: Date = new Date()): Promise<PenaltyAccrualResult> {
+    // Accrued penalties are stored, so a future date would charge days that haven't passed yet
+    if (asOf.getTime() > Date.now()) {
+      throw new Error('Tanggal asOf tidak boleh melewati hari ini');
+    }
+
+    const installments = await prisma.installment.findMany({
+      where: {
+        status: { in: ['UNPAID', 'PARTIAL', 'LATE'] },
+        due_date: { lt: this.startOfDay(asOf) },
+        contract: {
+          transaction: { status: 'ACTIVE' },
+        },
+      },
+      include: {
+        contract: {
+          include: {
+            transaction: {
+              select: { scheme_snapshot: true },
+            },
+          },
+        },
+      },
+    });
+
+    let updated = 0;
+    let markedLate = 0;
+    let totalPenaltyAccrued = new Decimal(0);
+
+    for (const installment of installments) {
+      const snapshot = parseSchemeSnapshot(installment.contract.transaction.scheme_snapshot);
+      const { penalizedDays, penalty } = this.calculatePenalty(
+        installment.due_date,
+        asOf,
+        new Decimal(snapshot.penalty_fee_daily),
+        snapshot.penalty_grace_days
+      );
+
+      // Still within the grace period: not late yet
+      if (penalizedDays === 0) continue;
+
+      // PARTIAL keeps its status so the cashier still sees that money was received
+      const nextStatus = installment.status === 'UNPAID' ? 'LATE' : installment.status;
+      const currentPenalty = new Decimal(installment.penalty_accrued.toString());
+
+      totalPenaltyAccrued = totalPenaltyAccrued.plus(penalty);
+
+      if (currentPenalty.eq(penalty) && nextStatus === installment.status) continue;
+
+      // Only while the status is still the one read above: a payment taken meanwhile may have
+      // moved the installment to PARTIAL / PAID, and the next run picks it up again
+      const { count } = await prisma.installment.updateMany({
+        where: { id: installment.id, status: installment.status },
+        data: {
+          penalty_accrued: penalty.toFixed(4),
+          status: nextStatus,
+        },
+      });
+      if (count === 0) continue;
+
+      updated++;
+      if (nextStatus !== installment.status) markedLate++;
+    }
+
+    return {
+      asOf: asOf.toISOString(),
+      processed: installments.length,
+      updated,
+      markedLate,
+      totalPenaltyAccrued: totalPenaltyAccrued.toFixed(2),
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Helper: Truncate a date to local midnight
+  // --------------------------------------------------------------------------
+  private startOfDay(date: Date): Date {
+    const result = new Date(date);
+    result.setHours(0, 0, 0, 0);
+    return result;
+  }
+}
+
+// Export singleton instance
+export const penaltyService = new PenaltyService();
@@ -0,0 +1,94 @@
+// PricingService: Markup rules that turn harga modal into cash / credit selling prices
+// A rule only applies to products without their own selling price
+
+import { prisma } from '../lib/prisma.js';
+import type { CategoryType, PricingRule } from '@prisma/client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PricingRuleInput {
+  category: CategoryType;
+  sub_category: string | null; // null = the whole category
+  cash_markup_percent: number;
+  credit_markup_percent: number;
+  is_active: boolean;
+}
+
+// ============================================================================
+// PRICING SERVICE CLASS
+// ============================================================================
+
+export class PricingService {
+
+  // --------------------------------------------------------------------------
+  // A. List rules (category-wide rules before sub-category rules)
+  // --------------------------------------------------------------------------
+  async listRules(): Promise<PricingRule[]> {
+    return prisma.pricingRule.findMany({
+      orderBy: [{ category: 'asc' }, { sub_category: { sort: 'asc', nulls: 'first' } }],
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // B. Create / update a rule; one rule per category + sub-category
+  // --------------------------------------------------------------------------
+  async createRule(input: PricingRuleInput): Promise<PricingRule> {
+    await this.assertUniqueTarget(input);
+    return prisma.pricingRule.create({ data: this.toData(input) });
+  }
+
+  async updateRule(id: number, input: PricingRuleInput): Promise<PricingRule> {
+    await this.findOrThrow(id);
+    await this.assertUniqueTarget(input, id);
+    return prisma.pricingRule.update({ where: { id }, data: this.toData(input) });
+  }
+
+  // --------------------------------------------------------------------------
+  // C. Delete a rule (sales keep the prices they were made at)
+  // --------------------------------------------------------------------------
+  async deleteRule(id: number): Promise<PricingRule> {
+    await this.findOrThrow(id);
+    return prisma.pricingRule.delete({ where: { id } });
+  }
+
+  // --------------------------------------------------------------------------
+  // Helpers
+  // --------------------------------------------------------------------------
+  private async findOrThrow(id: number): Promise<PricingRule> {
+    const rule = await prisma.pricingRule.findUnique({ where: { id } });
+    if (!rule) {
+      throw new Error(`Aturan harga dengan ID ${id} tidak ditemukan`);
+    }
+    return rule;
+  }
+
+  // The database unique index treats NULL sub-categories as distinct, so check here
+  private async assertUniqueTarget(input: PricingRuleInput, exceptId?: number): Promise<void> {
+    const existing = await prisma.pricingRule.findFirst({
+      where: {
+        category: input.category,
+        sub_category: input.sub_category === null ? null : { equals: input.sub_category, mode: 'insensitive' },
+        ...(exceptId !== undefined ? { NOT: { id: exceptId } } : {}),
+      },
+    });
+    if (existing) {
+      const target = input.sub_category ? `${input.category} / ${input.sub_category}` : input.category;
+      throw new Error(`Aturan harga untuk ${target} sudah dipakai`);
+    }
+  }
+
+  private toData(input: PricingRuleInput) {
+    return {
+      category: input.category,
+      sub_category: input.sub_category,
+      cash_markup_percent: input.cash_markup_percent.toString(),
+      credit_markup_percent: input.credit_markup_percent.toString(),
+      is_active: input.is_active,
+    };
+  }
+}
+
+// Export singleton instance
+export const pricingService = new PricingService();
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from 'vitest';
+import { productService } from './ProductService.js';
+import { useClient } from '../testing/prismaMock.js';
+
+vi.mock('../lib/prisma.js', () => import('../testing/prismaMock.js'));
+
+// A repossessed motorbike put back on sale: legacy and repossession keys sit next to the form fields
+function fakeClient() {
+  const product = {
+    id: 4,
+    sku: 'MTR-BKS-01',
+    name: 'Honda Beat (Bekas)',
+    category: 'VEHICLE',
+    track_units: false,
+    attributes: { color: 'Hitam', year: 2022, engine_no: 'JFZ1E-1234567', condition: 'GOOD', repossession_no: 'TRK-2026-000001' },
+  };
+  return {
+    product: { findUnique: vi.fn(async () => product), update: vi.fn(async () => product) },
+    productUnit: { count: vi.fn(async () => 0) },
+    transactionItem: { count: vi.fn(async () => 0) },
+    transaction: { count: vi.fn(async () => 0) },
+  };
+}
+
+const input = {
+  sku: 'MTR-BKS-01',
+  name: 'Honda Beat (Bekas)',
+  category: 'VEHICLE' as const,
+  sub_category: 'Motor',
+  cash_price: null,
+  credit_price: null,
+  attributes: { color: 'Merah', year: 2022 },
+};
+
+describe('ProductService.updateProduct', () => {
+  it('updates the form fields and keeps the other attributes', async () => {
+    const client = useClient(fakeClient());
+
+    await productService.updateProduct(4, input);
+
+    expect(client.product.update).toHaveBeenCalledWith({
+      where: { id: 4 },
+      data: expect.objectContaining({
+        attributes: { color: 'Merah', year: 2022, engine_no: 'JFZ1E-1234567', condition: 'GOOD', repossession_no: 'TRK-2026-000001' },
+      }),
+    });
+  });
+});
@@ -0,0 +1,127 @@
+// ProductService: Product master data (detail, corrections, deactivation)
+// Stock, harga modal and unit tracking are not edited here: they move through the stock ledger
+
+import { prisma } from '../lib/prisma.js';
+import type { CategoryType, Prisma, Product } from '@prisma/client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ProductUpdateInput {
+  sku: string;
+  name: string;
+  category: CategoryType;
+  sub_category: string;
+  cash_price: number | null; // null = follow the markup rule
+  credit_price: number | null;
+  attributes: Prisma.InputJsonObject;
+}
+
+export interface ProductDetail extends Product {
+  has_transactions: boolean; // Sold at least once: the SKU is on invoices and can't change
+  unit_count: number; // Registered units (products with track_units)
+}
+
+// ============================================================================
+// PRODUCT SERVICE CLASS
+// ============================================================================
+
+export class ProductService {
+
+  // --------------------------------------------------------------------------
+  // A. Full product detail (active or not)
+  // --------------------------------------------------------------------------
+  async getProduct(productId: number): Promise<ProductDetail> {
+    const product = await prisma.product.findUnique({ where: { id: productId } });
+    if (!product) {
+      throw new Error(`Produk dengan ID ${productId} tidak ditemukan`);
+    }
+
+    const [hasTransactions, unitCount] = await Promise.all([
+      this.hasTransactions(productId),
+      prisma.productUnit.count({ where: { product_id: productId } }),
+    ]);
+
+    return { ...product, has_transactions: hasTransactions, unit_count: unitCount };
+  }
+
+  // --------------------------------------------------------------------------
+  // B. Correct name, SKU, category, selling prices and attributes
+  // --------------------------------------------------------------------------
+  async updateProduct(productId: number, input: ProductUpdateInput): Promise<ProductDetail> {
+    const product = await prisma.product.findUnique({ where: { id: productId } });
+    if (!product) {
+      throw new Error(`Produk dengan ID ${productId} tidak ditemukan`);
+    }
+
+    if (input.sku !== product.sku) {
+      // Invoices and contracts print the SKU
+      if (await this.hasTransactions(productId)) {
+        throw new Error(`SKU "${product.sku}" tidak dapat diubah karena produk sudah pernah dijual`);
+      }
+      const existing = await prisma.product.findUnique({ where: { sku: input.sku } });
+      if (existing) {
+        throw new Error(`SKU "${input.sku}" sudah dipakai produk lain`);
+      }
+    }
+
+    // Registered units were validated against the category (serial vs engine / chassis number)
+    if (input.category !== product.category && product.track_units) {
+      const units = await prisma.productUnit.count({ where: { product_id: productId } });
+      if (units > 0) {
+        throw new Error(`Kategori produk "${product.name}" tidak dapat diubah karena sudah punya unit terdaftar`);
+      }
+    }
+
+    // Only the category fields are edited here; keep the rest (legacy engine_no / imei, the
+    // condition notes of a repossessed item)
+    const current = product.attributes;
+    const kept = current && typeof current === 'object' && !Array.isArray(current) ? current : {};
+
+    await prisma.product.update({
+      where: { id: productId },
+      data: {
+        sku: input.sku,
+        name: input.name,
+        category: input.category,
+        sub_category: input.sub_category,
+        cash_price: input.cash_price,
+        credit_price: input.credit_price,
+        attributes: { ...kept, ...input.attributes },
+      },
+    });
+
+    return this.getProduct(productId);
+  }
+
+  // --------------------------------------------------------------------------
+  // C. Soft deactivation: hidden from the POS, history and stock stay intact
+  // --------------------------------------------------------------------------
+  async setActive(productId: number, isActive: boolean): Promise<ProductDetail> {
+    const product = await prisma.product.findUnique({ where: { id: productId } });
+    if (!product) {
+      throw new Error(`Produk dengan ID ${productId} tidak ditemukan`);
+    }
+    if (product.is_active === isActive) {
+      throw new Error(`Produk "${product.name}" sudah ${isActive ? 'aktif' : 'nonaktif'}`);
+    }
+
+    await prisma.product.update({ where: { id: productId }, data: { is_active: isActive } });
+    return this.getProduct(productId);
+  }
+
+  // --------------------------------------------------------------------------
+  // Helper: Sold on any transaction (main product or a cart line)
+  // --------------------------------------------------------------------------
+  private async hasTransactions(productId: number): Promise<boolean> {
+    const [lines, transactions] = await Promise.all([
+      prisma.transactionItem.count({ where: { product_id: productId } }),
+      prisma.transaction.count({ where: { productId } }),
+    ]);
+    return lines + transactions > 0;
+  }
+}
+
+// Export singleton instance
+export const productService = new ProductService();
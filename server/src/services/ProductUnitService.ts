@@ -0,0 +1,142 @@
+// ProductUnitService: Per-unit stock (serial number / IMEI / engine & chassis number)
+// For products with track_units, stock_qty always equals the number of sellable units
+
+import { Decimal } from 'decimal.js';
+import { prisma } from '../lib/prisma.js';
+import { registerUnits, type UnitIdentifiers } from '../lib/productUnits.js';
+import { moveStock } from '../lib/stockMovements.js';
+import type { Product, ProductUnit, UnitStatus } from '@prisma/client';
+
+const SEARCH_LIMIT = 20;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RestockInput {
+  productId: number;
+  quantity?: number | undefined; // Products without unit tracking
+  units?: UnitIdentifiers[] | undefined; // Products with unit tracking: one entry per unit
+  unitCost?: number | undefined; // Purchase price per unit; re-averages harga modal (HPP)
+  cashier: string;
+}
+
+// ============================================================================
+// PRODUCT UNIT SERVICE CLASS
+// ============================================================================
+
+export class ProductUnitService {
+
+  // --------------------------------------------------------------------------
+  // A. Restock: tracked products register each incoming unit
+  // --------------------------------------------------------------------------
+  async restock(input: RestockInput): Promise<{ product: Product; units: ProductUnit[] }> {
+    const { productId, quantity, units = [], unitCost, cashier } = input;
+
+    return await prisma.$transaction(async (tx) => {
+      const product = await tx.product.findUnique({ where: { id: productId } });
+      if (!product) {
+        throw new Error(`Produk dengan ID ${productId} tidak ditemukan`);
+      }
+
+      if (!product.track_units) {
+        if (units.length > 0) {
+          throw new Error(`Produk "${product.name}" tidak dicatat per unit`);
+        }
+        if (quantity === undefined || quantity <= 0) {
+          throw new Error('Jumlah restock harus lebih dari 0');
+        }
+      }
+
+      const created = product.track_units ? await registerUnits(tx, product, units) : [];
+
+      const updated = await moveStock(tx, {
+        productId,
+        type: 'RESTOCK',
+        quantity: product.track_units ? created.length : quantity!,
+        createdBy: cashier,
+        unitCost: unitCost !== undefined ? new Decimal(unitCost) : undefined,
+      });
+
+      return { product: updated, units: created };
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // B. Units of a product (optionally only some statuses, e.g. what the POS may sell)
+  // --------------------------------------------------------------------------
+  async listUnits(productId: number, statuses?: UnitStatus[]): Promise<ProductUnit[]> {
+    const product = await prisma.product.findUnique({ where: { id: productId } });
+    if (!product) {
+      throw new Error(`Produk dengan ID ${productId} tidak ditemukan`);
+    }
+
+    return prisma.productUnit.findMany({
+      where: {
+        product_id: productId,
+        ...(statuses && statuses.length > 0 ? { status: { in: statuses } } : {}),
+      },
+      orderBy: { id: 'asc' },
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // C. Find units by any identifier, with the sale they went out on
+  // --------------------------------------------------------------------------
+  async searchUnits(query: string) {
+    const contains = { contains: query, mode: 'insensitive' as const };
+
+    return prisma.productUnit.findMany({
+      where: {
+        OR: [
+          { serial_no: contains },
+          { imei: contains },
+          { engine_no: contains },
+          { chassis_no: contains },
+        ],
+      },
+      include: {
+        product: { select: { id: true, name: true, sku: true } },
+        sold_transaction: {
+          select: {
+            id: true,
+            sale_type: true,
+            invoice_no: true,
+            customer_name: true,
+            created_at: true,
+            contract: { select: { id: true } },
+          },
+        },
+      },
+      orderBy: { updated_at: 'desc' },
+      take: SEARCH_LIMIT,
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // D. Warranty claim: a sold unit goes to WARRANTY and back to SOLD when returned
+  // --------------------------------------------------------------------------
+  async setWarranty(unitId: number, underWarranty: boolean): Promise<ProductUnit> {
+    const unit = await prisma.productUnit.findUnique({ where: { id: unitId } });
+    if (!unit) {
+      throw new Error(`Unit dengan ID ${unitId} tidak ditemukan`);
+    }
+
+    const from: UnitStatus = underWarranty ? 'SOLD' : 'WARRANTY';
+    if (unit.status !== from) {
+      throw new Error(
+        underWarranty
+          ? `Hanya unit terjual yang dapat diklaim garansi (status: ${unit.status})`
+          : `Unit tidak sedang dalam klaim garansi (status: ${unit.status})`
+      );
+    }
+
+    return prisma.productUnit.update({
+      where: { id: unitId },
+      data: { status: underWarranty ? 'WARRANTY' : 'SOLD' },
+    });
+  }
+}
+
+// Export singleton instance
+export const productUnitService = new ProductUnitService();
@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from 'vitest';
+import { purchaseOrderService } from './PurchaseOrderService.js';
+import { prisma, useClient as useTx } from '../testing/prismaMock.js';
+
+vi.mock('../lib/prisma.js', () => import('../testing/prismaMock.js'));
+vi.mock('../lib/stockMovements.js', () => ({ moveStock: vi.fn(async () => ({})) }));
+
+// PO-2026-000001: 10 chairs ordered at Rp 150.000, 4 received and paid for Rp 200.000
+// receivedAfter: received_qty of the line when it is read back after the increment
+function fakeTx(guardPasses = true, receivedAfter = 10, status = 'PARTIAL') {
+  return {
+    purchaseOrder: {
+      findUnique: vi.fn(async () => ({
+        id: 1,
+        po_no: 'PO-2026-000001',
+        status,
+        supplier_id: 2,
+        supplier: { payment_terms_days: 30 },
+        due_date: null,
+        received_amount: '600000.0000',
+        paid_amount: '200000.0000',
+        items: [
+          {
+            id: 11,
+            quantity: 10,
+            received_qty: 4,
+            unit_cost: '150000.0000',
+            product: { id: 5, name: 'Kursi Tamu', track_units: false },
+          },
+        ],
+      })),
+      updateMany: vi.fn(async () => ({ count: guardPasses ? 1 : 0 })),
+      update: vi.fn(async () => ({})),
+      findUniqueOrThrow: vi.fn(async () => ({})),
+    },
+    purchaseOrderItem: {
+      updateMany: vi.fn(async () => ({ count: guardPasses ? 1 : 0 })),
+      findMany: vi.fn(async () => [{ quantity: 10, received_qty: receivedAfter }]),
+    },
+    documentSequence: { upsert: vi.fn(async () => ({ last_value: 1 })) },
+    supplierPayment: { create: vi.fn(async () => ({ id: 1 })) },
+  };
+}
+
+describe('PurchaseOrderService.receive', () => {
+  it('rejects the same line listed twice', async () => {
+    useTx(fakeTx());
+
+    await expect(
+      purchaseOrderService.receive({
+        orderId: 1,
+        items: [{ itemId: 11, quantity: 4 }, { itemId: 11, quantity: 4 }],
+        cashier: 'Gudang',
+      })
+    ).rejects.toThrow('tercantum lebih dari sekali');
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects more than is still outstanding on the line', async () => {
+    useTx(fakeTx());
+
+    await expect(
+      purchaseOrderService.receive({ orderId: 1, items: [{ itemId: 11, quantity: 7 }], cashier: 'Gudang' })
+    ).rejects.toThrow('melebihi sisa pesanan (sisa 6)');
+  });
+
+  it('fails when a concurrent receipt already took the remaining quantity', async () => {
+    const tx = useTx(fakeTx(false));
+
+    await expect(
+      purchaseOrderService.receive({ orderId: 1, items: [{ itemId: 11, quantity: 6 }], cashier: 'Gudang' })
+    ).rejects.toThrow('melebihi sisa pesanan');
+    expect(tx.purchaseOrderItem.updateMany).toHaveBeenCalledWith({
+      where: { id: 11, received_qty: { lte: 4 } },
+      data: { received_qty: { increment: 6 } },
+    });
+  });
+
+  it('adds the received value to what is owed to the supplier', async () => {
+    const tx = useTx(fakeTx());
+
+    await purchaseOrderService.receive({ orderId: 1, items: [{ itemId: 11, quantity: 6 }], cashier: 'Gudang' });
+
+    expect(tx.purchaseOrder.updateMany).toHaveBeenCalledWith({
+      where: { id: 1, status: { in: ['OPEN', 'PARTIAL'] } },
+      data: expect.objectContaining({ received_amount: { increment: '900000.0000' } }),
+    });
+    expect(tx.purchaseOrder.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { status: 'RECEIVED' } });
+  });
+
+  it('decides the status from the lines as stored after the increments', async () => {
+    const tx = useTx(fakeTx(true, 9));
+
+    await purchaseOrderService.receive({ orderId: 1, items: [{ itemId: 11, quantity: 6 }], cashier: 'Gudang' });
+
+    expect(tx.purchaseOrder.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { status: 'PARTIAL' } });
+  });
+
+  it('fails when the order was cancelled meanwhile', async () => {
+    const tx = useTx(fakeTx());
+    tx.purchaseOrder.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(
+      purchaseOrderService.receive({ orderId: 1, items: [{ itemId: 11, quantity: 6 }], cashier: 'Gudang' })
+    ).rejects.toThrow('Status PO-2026-000001 sudah berubah');
+    expect(tx.purchaseOrder.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('PurchaseOrderService.cancel', () => {
+  it('cancels only while the order is still OPEN', async () => {
+    const client = useTx(fakeTx(true, 4, 'OPEN'));
+    client.purchaseOrder.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(purchaseOrderService.cancel(1)).rejects.toThrow('Status PO-2026-000001 sudah berubah');
+    expect(client.purchaseOrder.updateMany).toHaveBeenCalledWith({
+      where: { id: 1, status: 'OPEN' },
+      data: { status: 'CANCELLED' },
+    });
+  });
+});
+
+describe('PurchaseOrderService.pay', () => {
+  it('rejects paying more than the outstanding payable', async () => {
+    const tx = useTx(fakeTx());
+
+    await expect(
+      purchaseOrderService.pay({ orderId: 1, amount: 400_001, method: 'TRANSFER', cashier: 'Admin' })
+    ).rejects.toThrow('sisa Rp 400000.00');
+    expect(tx.supplierPayment.create).not.toHaveBeenCalled();
+  });
+
+  it('increments paid_amount only while it still leaves room for the payment', async () => {
+    const tx = useTx(fakeTx());
+
+    await purchaseOrderService.pay({ orderId: 1, amount: 400_000, method: 'TRANSFER', cashier: 'Admin' });
+
+    expect(tx.purchaseOrder.updateMany).toHaveBeenCalledWith({
+      where: { id: 1, paid_amount: { lte: '200000.0000' } },
+      data: { paid_amount: { increment: '400000.0000' } },
+    });
+    expect(tx.supplierPayment.create).toHaveBeenCalled();
+  });
+
+  it('fails when a concurrent payment already settled the payable', async () => {
+    const tx = useTx(fakeTx(false));
+
+    await expect(
+      purchaseOrderService.pay({ orderId: 1, amount: 400_000, method: 'TRANSFER', cashier: 'Admin' })
+    ).rejects.toThrow('hutang sudah berubah');
+    expect(tx.supplierPayment.create).not.toHaveBeenCalled();
+  });
+});
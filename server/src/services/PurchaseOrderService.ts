@@ -0,0 +1,314 @@
+// PurchaseOrderService: Purchase orders to suppliers, goods receipt and supplier payments
+// Received goods come into stock through the stock ledger at their purchase cost, which
+// re-averages the product's harga modal (HPP); their value is owed to the supplier until paid
+
+import { Decimal } from 'decimal.js';
+import { prisma } from '../lib/prisma.js';
+import { nextDocumentNumber } from '../lib/documentNumber.js';
+import { moveStock } from '../lib/stockMovements.js';
+import { registerUnits, type UnitIdentifiers } from '../lib/productUnits.js';
+import type { PaymentMethod, PurchaseOrderStatus, SupplierPayment } from '@prisma/client';
+
+const PURCHASE_ORDER_PREFIX = 'PO';
+const SUPPLIER_PAYMENT_PREFIX = 'BYS';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PurchaseOrderInput {
+  supplierId: number;
+  items: Array<{ productId: number; quantity: number; unitCost: number }>;
+  notes?: string | undefined;
+  cashier: string;
+}
+
+export interface ReceiveInput {
+  orderId: number;
+  // Lines arriving now; products with track_units list one entry per unit
+  items: Array<{ itemId: number; quantity: number; units?: UnitIdentifiers[] | undefined }>;
+  supplierInvoiceNo?: string | undefined;
+  cashier: string;
+}
+
+export interface SupplierPaymentInput {
+  orderId: number;
+  amount: number;
+  method: PaymentMethod;
+  cashier: string;
+  notes?: string | undefined;
+}
+
+export interface OrderFilter {
+  supplierId?: number | undefined;
+  status?: PurchaseOrderStatus | undefined;
+}
+
+const orderInclude = {
+  supplier: { select: { id: true, name: true, payment_terms_days: true } },
+  items: {
+    include: { product: { select: { id: true, sku: true, name: true, category: true, track_units: true } } },
+    orderBy: { id: 'asc' as const },
+  },
+  payments: { orderBy: { paid_at: 'asc' as const } },
+};
+
+// ============================================================================
+// PURCHASE ORDER SERVICE CLASS
+// ============================================================================
+
+export class PurchaseOrderService {
+
+  // --------------------------------------------------------------------------
+  // A. Create a purchase order (nothing moves until the goods are received)
+  // --------------------------------------------------------------------------
+  async createOrder(input: PurchaseOrderInput) {
+    const { supplierId, items, notes, cashier } = input;
+
+    const productIds = items.map((item) => item.productId);
+    if (new Set(productIds).size !== productIds.length) {
+      throw new Error('Produk yang sama tercantum lebih dari sekali');
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      const supplier = await tx.supplier.findUnique({ where: { id: supplierId } });
+      if (!supplier) {
+        throw new Error(`Supplier dengan ID ${supplierId} tidak ditemukan`);
+      }
+      if (!supplier.is_active) {
+        throw new Error(`Supplier "${supplier.name}" tidak aktif`);
+      }
+
+      const products = await tx.product.findMany({ where: { id: { in: productIds } } });
+      const lines = items.map((item) => {
+        const product = products.find((p) => p.id === item.productId);
+        if (!product) {
+          throw new Error(`Produk dengan ID ${item.productId} tidak ditemukan`);
+        }
+        const unitCost = new Decimal(item.unitCost);
+        return { product, quantity: item.quantity, unitCost, lineTotal: unitCost.times(item.quantity) };
+      });
+
+      const total = lines.reduce((sum, line) => sum.plus(line.lineTotal), new Decimal(0));
+
+      return tx.purchaseOrder.create({
+        data: {
+          po_no: await nextDocumentNumber(tx, PURCHASE_ORDER_PREFIX),
+          supplier_id: supplier.id,
+          total_amount: total.toFixed(4),
+          notes: notes ?? null,
+          created_by: cashier,
+          items: {
+            create: lines.map((line) => ({
+              product_id: line.product.id,
+              quantity: line.quantity,
+              unit_cost: line.unitCost.toFixed(4),
+              line_total: line.lineTotal.toFixed(4),
+            })),
+          },
+        },
+        include: orderInclude,
+      });
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // B. List / detail
+  // --------------------------------------------------------------------------
+  async listOrders(filter: OrderFilter) {
+    return prisma.purchaseOrder.findMany({
+      where: {
+        ...(filter.supplierId !== undefined ? { supplier_id: filter.supplierId } : {}),
+        ...(filter.status ? { status: filter.status } : {}),
+      },
+      include: orderInclude,
+      orderBy: { id: 'desc' },
+    });
+  }
+
+  async getOrder(orderId: number) {
+    const order = await prisma.purchaseOrder.findUnique({ where: { id: orderId }, include: orderInclude });
+    if (!order) {
+      throw new Error(`Purchase order dengan ID ${orderId} tidak ditemukan`);
+    }
+    return order;
+  }
+
+  // --------------------------------------------------------------------------
+  // C. Receive goods (partial receipts allowed)
+  // --------------------------------------------------------------------------
+  async receive(input: ReceiveInput) {
+    const { orderId, items, supplierInvoiceNo, cashier } = input;
+
+    // Each line is checked against what is still outstanding once, so it may appear only once
+    const itemIds = items.map((item) => item.itemId);
+    if (new Set(itemIds).size !== itemIds.length) {
+      throw new Error('Baris PO yang sama tercantum lebih dari sekali');
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      const order = await tx.purchaseOrder.findUnique({
+        where: { id: orderId },
+        include: { supplier: true, items: { include: { product: true } } },
+      });
+      if (!order) {
+        throw new Error(`Purchase order dengan ID ${orderId} tidak ditemukan`);
+      }
+      if (order.status !== 'OPEN' && order.status !== 'PARTIAL') {
+        throw new Error(`Purchase order ${order.po_no} tidak dapat menerima barang (status: ${order.status})`);
+      }
+
+      let receivedValue = new Decimal(0);
+
+      for (const incoming of items) {
+        const line = order.items.find((item) => item.id === incoming.itemId);
+        if (!line) {
+          throw new Error(`Baris PO dengan ID ${incoming.itemId} tidak ditemukan pada ${order.po_no}`);
+        }
+
+        const remaining = line.quantity - line.received_qty;
+        if (incoming.quantity > remaining) {
+          throw new Error(`Penerimaan "${line.product.name}" melebihi sisa pesanan (sisa ${remaining})`);
+        }
+
+        // Serial-tracked products register each unit; the count must match
+        const units = incoming.units ?? [];
+        if (line.product.track_units) {
+          if (units.length !== incoming.quantity) {
+            throw new Error(`Daftarkan ${incoming.quantity} nomor unit untuk produk "${line.product.name}"`);
+          }
+          await registerUnits(tx, line.product, units);
+        } else if (units.length > 0) {
+          throw new Error(`Produk "${line.product.name}" tidak dicatat per unit`);
+        }
+
+        await moveStock(tx, {
+          productId: line.product.id,
+          type: 'RESTOCK',
+          quantity: incoming.quantity,
+          createdBy: cashier,
+          reason: `Penerimaan ${order.po_no}`,
+          referenceType: 'PURCHASE_ORDER',
+          referenceId: order.id,
+          unitCost: new Decimal(line.unit_cost.toString()),
+        });
+
+        // Guarded: a concurrent receipt of the same line can't push it past the ordered quantity
+        const received = await tx.purchaseOrderItem.updateMany({
+          where: { id: line.id, received_qty: { lte: line.quantity - incoming.quantity } },
+          data: { received_qty: { increment: incoming.quantity } },
+        });
+        if (received.count === 0) {
+          throw new Error(`Penerimaan "${line.product.name}" melebihi sisa pesanan`);
+        }
+
+        receivedValue = receivedValue.plus(new Decimal(line.unit_cost.toString()).times(incoming.quantity));
+      }
+
+      // Payment terms run from the first delivery
+      const now = new Date();
+      const dueDate = order.due_date ?? new Date(now.getTime() + order.supplier.payment_terms_days * DAY_MS);
+
+      // Guarded on the status read above (a cancel may have committed meanwhile); the row lock
+      // also makes a concurrent receipt of this PO wait until this one commits
+      const { count } = await tx.purchaseOrder.updateMany({
+        where: { id: order.id, status: { in: ['OPEN', 'PARTIAL'] } },
+        data: {
+          received_amount: { increment: receivedValue.toFixed(4) },
+          due_date: dueDate,
+          ...(supplierInvoiceNo ? { supplier_invoice_no: supplierInvoiceNo } : {}),
+        },
+      });
+      if (count === 0) {
+        throw new Error(`Status ${order.po_no} sudah berubah, muat ulang data`);
+      }
+
+      // Re-read under the lock: other lines may have been received by a receipt that just committed
+      const lines = await tx.purchaseOrderItem.findMany({
+        where: { purchase_order_id: order.id },
+        select: { quantity: true, received_qty: true },
+      });
+      const fullyReceived = lines.every((line) => line.received_qty >= line.quantity);
+
+      await tx.purchaseOrder.update({
+        where: { id: order.id },
+        data: { status: fullyReceived ? 'RECEIVED' : 'PARTIAL' },
+      });
+
+      return tx.purchaseOrder.findUniqueOrThrow({ where: { id: order.id }, include: orderInclude });
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // D. Pay the supplier for goods received
+  // --------------------------------------------------------------------------
+  async pay(input: SupplierPaymentInput): Promise<SupplierPayment> {
+    const { orderId, amount, method, cashier, notes } = input;
+
+    return await prisma.$transaction(async (tx) => {
+      const order = await tx.purchaseOrder.findUnique({ where: { id: orderId } });
+      if (!order) {
+        throw new Error(`Purchase order dengan ID ${orderId} tidak ditemukan`);
+      }
+
+      const outstanding = new Decimal(order.received_amount.toString()).minus(order.paid_amount.toString());
+      const paid = new Decimal(amount);
+      if (paid.gt(outstanding)) {
+        throw new Error(`Pembayaran melebihi hutang ${order.po_no} (sisa Rp ${outstanding.toFixed(2)})`);
+      }
+
+      // Guarded increment: a concurrent payment must not push paid_amount past what was received
+      // (received_amount only grows, so the value read above is a safe ceiling)
+      const { count } = await tx.purchaseOrder.updateMany({
+        where: { id: order.id, paid_amount: { lte: new Decimal(order.received_amount.toString()).minus(paid).toFixed(4) } },
+        data: { paid_amount: { increment: paid.toFixed(4) } },
+      });
+      if (count === 0) {
+        throw new Error(`Pembayaran melebihi hutang ${order.po_no}; hutang sudah berubah, muat ulang data`);
+      }
+
+      const payment = await tx.supplierPayment.create({
+        data: {
+          payment_no: await nextDocumentNumber(tx, SUPPLIER_PAYMENT_PREFIX),
+          supplier_id: order.supplier_id,
+          purchase_order_id: order.id,
+          amount: paid.toFixed(4),
+          method,
+          cashier,
+          notes: notes ?? null,
+        },
+      });
+
+      return payment;
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // E. Cancel an order before any goods arrived
+  // --------------------------------------------------------------------------
+  async cancel(orderId: number) {
+    const order = await prisma.purchaseOrder.findUnique({ where: { id: orderId } });
+    if (!order) {
+      throw new Error(`Purchase order dengan ID ${orderId} tidak ditemukan`);
+    }
+    if (order.status !== 'OPEN') {
+      throw new Error(`Hanya PO yang belum menerima barang yang dapat dibatalkan (status: ${order.status})`);
+    }
+
+    // Guarded: a receipt committed after the read above moved the order past OPEN
+    const { count } = await prisma.purchaseOrder.updateMany({
+      where: { id: orderId, status: 'OPEN' },
+      data: { status: 'CANCELLED' },
+    });
+    if (count === 0) {
+      throw new Error(`Status ${order.po_no} sudah berubah, muat ulang data`);
+    }
+
+    return prisma.purchaseOrder.findUniqueOrThrow({ where: { id: orderId }, include: orderInclude });
+  }
+}
+
+// Export singleton instance
+export const purchaseOrderService = new PurchaseOrderService();
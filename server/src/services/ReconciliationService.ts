@@ -0,0 +1,129 @@
+// ReconciliationService: Checks that installment schedules add up to their contract
+// Σ amount_due must equal principal + interest, and the stored splits must match each side
+// Every schedule version is checked: v1 against the contract, later ones against their restructure
+
+import { Decimal } from 'decimal.js';
+import { prisma } from '../lib/prisma.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ReconciliationIssue =
+  | 'AMOUNT_DUE_MISMATCH'  // Σ amount_due ≠ principal_amount + total_interest
+  | 'PRINCIPAL_MISMATCH'   // Σ principal_portion ≠ principal_amount
+  | 'INTEREST_MISMATCH'    // Σ interest_portion ≠ total_interest
+  | 'MISSING_SPLIT';       // Installments created before portions were stored
+
+export interface ContractReconciliation {
+  contractId: number;
+  scheduleVersion: number;
+  transactionId: number;
+  customerName: string | null;
+  expectedTotal: string;
+  scheduledTotal: string;
+  difference: string; // scheduled - expected (positive = over-collected)
+  issues: ReconciliationIssue[];
+}
+
+export interface ReconciliationReport {
+  checked: number;
+  mismatched: number;
+  totalDifference: string;
+  contracts: ContractReconciliation[];
+}
+
+// ============================================================================
+// RECONCILIATION SERVICE CLASS
+// ============================================================================
+
+export class ReconciliationService {
+
+  // --------------------------------------------------------------------------
+  // A. Flag every contract whose schedule does not match its totals
+  // --------------------------------------------------------------------------
+  async reconcileContracts(): Promise<ReconciliationReport> {
+    const contracts = await prisma.creditContract.findMany({
+      include: {
+        transaction: { select: { customer_name: true } },
+        installments: {
+          select: { schedule_version: true, amount_due: true, principal_portion: true, interest_portion: true },
+        },
+        restructures: {
+          select: { schedule_version: true, principal_amount: true, total_interest: true },
+        },
+      },
+      orderBy: { id: 'asc' },
+    });
+
+    const flagged: ContractReconciliation[] = [];
+    let totalDifference = new Decimal(0);
+
+    let checked = 0;
+
+    for (const contract of contracts) {
+      const versions = [
+        { scheduleVersion: 1, principal: contract.principal_amount, interest: contract.total_interest },
+        ...contract.restructures.map((r) => ({
+          scheduleVersion: r.schedule_version,
+          principal: r.principal_amount,
+          interest: r.total_interest,
+        })),
+      ];
+
+      for (const version of versions) {
+        checked++;
+        const principal = new Decimal(version.principal.toString());
+        const interest = new Decimal(version.interest.toString());
+        const expectedTotal = principal.plus(interest);
+
+        let scheduledTotal = new Decimal(0);
+        let scheduledPrincipal = new Decimal(0);
+        let scheduledInterest = new Decimal(0);
+
+        for (const inst of contract.installments) {
+          if (inst.schedule_version !== version.scheduleVersion) continue;
+          scheduledTotal = scheduledTotal.plus(inst.amount_due.toString());
+          scheduledPrincipal = scheduledPrincipal.plus(inst.principal_portion.toString());
+          scheduledInterest = scheduledInterest.plus(inst.interest_portion.toString());
+        }
+
+        const issues: ReconciliationIssue[] = [];
+        if (!scheduledTotal.eq(expectedTotal)) issues.push('AMOUNT_DUE_MISMATCH');
+
+        if (scheduledPrincipal.isZero() && scheduledInterest.isZero()) {
+          issues.push('MISSING_SPLIT');
+        } else {
+          if (!scheduledPrincipal.eq(principal)) issues.push('PRINCIPAL_MISMATCH');
+          if (!scheduledInterest.eq(interest)) issues.push('INTEREST_MISMATCH');
+        }
+
+        if (issues.length === 0) continue;
+
+        const difference = scheduledTotal.minus(expectedTotal);
+        totalDifference = totalDifference.plus(difference);
+
+        flagged.push({
+          contractId: contract.id,
+          scheduleVersion: version.scheduleVersion,
+          transactionId: contract.transaction_id,
+          customerName: contract.transaction.customer_name,
+          expectedTotal: expectedTotal.toFixed(2),
+          scheduledTotal: scheduledTotal.toFixed(2),
+          difference: difference.toFixed(2),
+          issues,
+        });
+      }
+    }
+
+    return {
+      checked, // Schedule versions checked
+      mismatched: flagged.length,
+      totalDifference: totalDifference.toFixed(2),
+      contracts: flagged,
+    };
+  }
+}
+
+// Export singleton instance
+export const reconciliationService = new ReconciliationService();
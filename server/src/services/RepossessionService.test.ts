@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest';
+import { repossessionService } from './RepossessionService.js';
+import { useClient } from '../testing/prismaMock.js';
+
+vi.mock('../lib/prisma.js', () => import('../testing/prismaMock.js'));
+vi.mock('../lib/stockMovements.js', () => ({ moveStock: vi.fn(async () => ({})) }));
+
+const chair = { id: 5, sku: 'KRS-01', name: 'Kursi Tamu', track_units: false, category: 'FURNITURE', sub_category: 'Kursi', attributes: {} };
+
+// Cart with 4 chairs (line 21) and a table (line 22); 3 chairs were taken back already
+function fakeTx() {
+  return {
+    $queryRaw: vi.fn(async () => []),
+    creditContract: {
+      findUnique: vi.fn(async () => ({
+        id: 1,
+        schedule_version: 1,
+        transaction: {
+          id: 7,
+          status: 'ACTIVE',
+          product: chair,
+          items: [
+            { id: 21, quantity: 4, units: null, product: chair },
+            { id: 22, quantity: 1, units: null, product: { ...chair, id: 6, sku: 'MJA-01', name: 'Meja Tamu' } },
+          ],
+        },
+        installments: [],
+        repossessions: [{ id: 2, repossession_no: 'TRK-2026-000002', transaction_item_id: 21, quantity: 3 }],
+      })),
+    },
+    documentSequence: { upsert: vi.fn(async () => ({ last_value: 3 })) },
+    product: { create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({ id: 40, ...data })) },
+    repossession: { create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({ id: 3, ...data })) },
+  };
+}
+
+const input = {
+  contractId: 1,
+  repossessedAt: new Date('2026-10-19T00:00:00'),
+  condition: 'GOOD' as const,
+  assessedValue: 0,
+  creditedAmount: 0,
+  resalePrice: 250_000,
+  quantity: 1,
+  cashier: 'Kasir',
+};
+
+describe('RepossessionService.repossess', () => {
+  it('takes back another line of a contract that was repossessed before', async () => {
+    const tx = useClient(fakeTx());
+
+    await repossessionService.repossess({ ...input, transactionItemId: 22 });
+
+    expect(tx.repossession.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ contract_id: 1, transaction_item_id: 22, quantity: 1 }),
+    });
+  });
+
+  it('takes back what is still with the customer on a partly repossessed line', async () => {
+    const tx = useClient(fakeTx());
+
+    await repossessionService.repossess({ ...input, transactionItemId: 21 });
+
+    expect(tx.repossession.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ transaction_item_id: 21, quantity: 1 }),
+    });
+  });
+
+  it('refuses more than is still with the customer', async () => {
+    const tx = useClient(fakeTx());
+
+    await expect(
+      repossessionService.repossess({ ...input, transactionItemId: 21, quantity: 2 })
+    ).rejects.toThrow('melebihi sisa di customer (1)');
+    expect(tx.repossession.create).not.toHaveBeenCalled();
+  });
+
+  it('locks the contract before counting earlier repossessions', async () => {
+    const tx = useClient(fakeTx());
+
+    await repossessionService.repossess({ ...input, transactionItemId: 22 });
+
+    expect(tx.$queryRaw.mock.invocationCallOrder[0]!).toBeLessThan(
+      tx.creditContract.findUnique.mock.invocationCallOrder[0]!
+    );
+  });
+});
@@ -0,0 +1,282 @@
+// RepossessionService: Tarik barang from defaulted contracts
+// The assessed unit is credited against the debt (installment payment for ACTIVE contracts,
+// recovery for written-off ones) and returns to inventory as its own second-hand product
+
+import { Decimal } from 'decimal.js';
+import { prisma } from '../lib/prisma.js';
+import { nextDocumentNumber } from '../lib/documentNumber.js';
+import { lockContract } from '../lib/contractLock.js';
+import { moveStock } from '../lib/stockMovements.js';
+import { paymentService } from './PaymentService.js';
+import { writeOffService } from './WriteOffService.js';
+import type { ItemCondition, Repossession } from '@prisma/client';
+
+const REPOSSESSION_PREFIX = 'TRK';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RepossessionInput {
+  contractId: number;
+  repossessedAt: Date;
+  condition: ItemCondition;
+  conditionNotes?: string | undefined;
+  assessedValue: number;
+  creditedAmount: number; // At most the assessed value
+  resalePrice: number; // Selling price of one second-hand unit
+  transactionItemId?: number | undefined; // Cart line taken back (required unless the sale predates carts)
+  quantity: number; // Pieces taken back from that line
+  unitId?: number | undefined; // Serial-tracked products: which unit (default: the first one sold on the line)
+  cashier: string;
+}
+
+// ============================================================================
+// REPOSSESSION SERVICE CLASS
+// ============================================================================
+
+export class RepossessionService {
+
+  // --------------------------------------------------------------------------
+  // A. Repossess a unit of a contract
+  // A multi-item contract can be repossessed line by line, up to what was sold on each line
+  // --------------------------------------------------------------------------
+  async repossess(input: RepossessionInput) {
+    const {
+      contractId,
+      repossessedAt,
+      condition,
+      conditionNotes,
+      assessedValue,
+      creditedAmount,
+      resalePrice,
+      transactionItemId,
+      quantity,
+      unitId,
+      cashier,
+    } = input;
+
+    if (creditedAmount > assessedValue) {
+      throw new Error('Nilai yang dikreditkan tidak boleh melebihi nilai taksiran');
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      // Two repossessions of the same line must not both see its quantity as still with the customer
+      await lockContract(tx, contractId);
+
+      const contract = await tx.creditContract.findUnique({
+        where: { id: contractId },
+        include: {
+          transaction: {
+            include: {
+              product: true,
+              items: { include: { product: true }, orderBy: { id: 'asc' } },
+            },
+          },
+          installments: { orderBy: { installment_nth: 'asc' } },
+          repossessions: true,
+        },
+      });
+
+      if (!contract) {
+        throw new Error(`Kontrak dengan ID ${contractId} tidak ditemukan`);
+      }
+
+      const status = contract.transaction.status;
+      if (status !== 'ACTIVE' && status !== 'BAD_DEBT') {
+        throw new Error(`Barang tidak dapat ditarik dari kontrak berstatus ${status}`);
+      }
+
+      // The cart line being taken back; sales from before carts only have the main product
+      const { items } = contract.transaction;
+      let line: (typeof items)[number] | null = null;
+      if (items.length > 0) {
+        if (transactionItemId === undefined) {
+          throw new Error('Pilih barang pada kontrak ini yang ditarik');
+        }
+        line = items.find((item) => item.id === transactionItemId) ?? null;
+      }
+      if (transactionItemId !== undefined && !line) {
+        throw new Error(`Baris transaksi dengan ID ${transactionItemId} tidak ditemukan pada kontrak ini`);
+      }
+
+      const original = line ? line.product : contract.transaction.product;
+      const soldQty = line ? line.quantity : 1;
+      const earlier = contract.repossessions.filter((r) => r.transaction_item_id === (line?.id ?? null));
+      const takenQty = earlier.reduce((sum, r) => sum + r.quantity, 0);
+      if (takenQty >= soldQty) {
+        throw new Error(
+          `"${original.name}" pada kontrak ini sudah ditarik (${earlier.map((r) => r.repossession_no).join(', ')})`
+        );
+      }
+      if (quantity > soldQty - takenQty) {
+        throw new Error(
+          `Jumlah yang ditarik (${quantity}) melebihi sisa di customer (${soldQty - takenQty}) untuk "${original.name}"`
+        );
+      }
+      if (original.track_units && quantity !== 1) {
+        throw new Error(`"${original.name}" ditarik per unit (nomor seri)`);
+      }
+
+      // Serial-tracked products: the unit the customer actually holds, sold on this line
+      const lineUnitIds = ((line?.units ?? null) as Array<{ unitId: number }> | null)?.map((u) => u.unitId);
+      if (unitId !== undefined && lineUnitIds && !lineUnitIds.includes(unitId)) {
+        throw new Error(`Unit dengan ID ${unitId} tidak terjual pada baris "${original.name}"`);
+      }
+      const unit = original.track_units
+        ? await tx.productUnit.findFirst({
+            where: {
+              product_id: original.id,
+              sold_transaction_id: contract.transaction.id,
+              status: { in: ['SOLD', 'WARRANTY'] },
+              ...(unitId !== undefined ? { id: unitId } : lineUnitIds ? { id: { in: lineUnitIds } } : {}),
+            },
+            orderBy: { id: 'asc' },
+          })
+        : null;
+
+      if (original.track_units && !unit) {
+        throw new Error(
+          unitId !== undefined
+            ? `Unit dengan ID ${unitId} tidak ditemukan pada kontrak ini`
+            : 'Unit yang terjual pada kontrak ini tidak ditemukan'
+        );
+      }
+
+      const now = new Date();
+      const repossessionNo = await nextDocumentNumber(tx, REPOSSESSION_PREFIX, now);
+      const notes = `Tarik barang ${repossessionNo}`;
+
+      // ----------------------------------------------------------------------
+      // Step 1: Credit the assessed value against the debt
+      // ----------------------------------------------------------------------
+      let paymentId: number | null = null;
+      let receiptNo: string | null = null;
+
+      if (creditedAmount > 0) {
+        if (status === 'BAD_DEBT') {
+          const recovery = await writeOffService.applyRecovery(tx, {
+            contractId,
+            amount: creditedAmount,
+            method: 'REPOSSESSION',
+            cashier,
+            notes,
+          });
+          ({ paymentId, receiptNo } = recovery);
+        } else {
+          const firstOpen = contract.installments.find(
+            (inst) => inst.schedule_version === contract.schedule_version && inst.status !== 'PAID'
+          );
+          if (!firstOpen) {
+            throw new Error('Tidak ada angsuran yang tersisa untuk dikreditkan');
+          }
+          const payment = await paymentService.applyPayment(tx, {
+            installmentId: firstOpen.id,
+            amount: creditedAmount,
+            method: 'REPOSSESSION',
+            cashier,
+            notes,
+          });
+          ({ paymentId, receiptNo } = payment);
+        }
+      }
+
+      // ----------------------------------------------------------------------
+      // Step 2: The unit returns to stock as a separate second-hand product
+      // ----------------------------------------------------------------------
+      const resaleProduct = await tx.product.create({
+        data: {
+          sku: `${original.sku}-${repossessionNo}`,
+          name: `${original.name} (Bekas)`,
+          // Cost basis is what was credited to the customer; both selling prices are the resale price
+          base_price: new Decimal(creditedAmount).div(quantity).toFixed(4),
+          cash_price: new Decimal(resalePrice).toFixed(4),
+          credit_price: new Decimal(resalePrice).toFixed(4),
+          stock_qty: 0, // Booked in through the stock ledger below
+          category: original.category,
+          sub_category: original.sub_category,
+          attributes: {
+            ...(original.attributes as Record<string, unknown>),
+            condition,
+            ...(conditionNotes ? { condition_notes: conditionNotes } : {}),
+            repossession_no: repossessionNo,
+          },
+          is_second_hand: true,
+          track_units: unit !== null,
+        },
+      });
+
+      // The physical unit (same serial numbers) moves over to the second-hand product
+      if (unit) {
+        await tx.productUnit.update({
+          where: { id: unit.id },
+          data: { product_id: resaleProduct.id, status: 'REPOSSESSED', sold_transaction_id: null },
+        });
+      }
+
+      // ----------------------------------------------------------------------
+      // Step 3: Repossession record
+      // ----------------------------------------------------------------------
+      const repossession = await tx.repossession.create({
+        data: {
+          repossession_no: repossessionNo,
+          contract_id: contractId,
+          product_id: original.id,
+          resale_product_id: resaleProduct.id,
+          transaction_item_id: line?.id ?? null,
+          quantity,
+          repossessed_at: repossessedAt,
+          condition,
+          condition_notes: conditionNotes ?? null,
+          assessed_value: new Decimal(assessedValue).toFixed(4),
+          credited_amount: new Decimal(creditedAmount).toFixed(4),
+          resale_price: new Decimal(resalePrice).toFixed(4),
+          payment_id: paymentId,
+          unit_id: unit?.id ?? null,
+          created_by: cashier,
+          created_at: now,
+        },
+      });
+
+      await moveStock(tx, {
+        productId: resaleProduct.id,
+        type: 'REPOSSESSION',
+        quantity,
+        createdBy: cashier,
+        reason: notes,
+        referenceType: 'REPOSSESSION',
+        referenceId: repossession.id,
+      });
+
+      return {
+        repossession,
+        receiptNo,
+        resaleProduct: {
+          id: resaleProduct.id,
+          sku: resaleProduct.sku,
+          name: resaleProduct.name,
+          price: new Decimal(resalePrice).toFixed(2),
+        },
+      };
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // B. Repossessions of a contract, oldest first (empty while the goods are with the customer)
+  // --------------------------------------------------------------------------
+  async getByContract(contractId: number): Promise<Repossession[]> {
+    const contract = await prisma.creditContract.findUnique({
+      where: { id: contractId },
+      include: { repossessions: { orderBy: { id: 'asc' } } },
+    });
+
+    if (!contract) {
+      throw new Error(`Kontrak dengan ID ${contractId} tidak ditemukan`);
+    }
+
+    return contract.repossessions;
+  }
+}
+
+// Export singleton instance
+export const repossessionService = new RepossessionService();
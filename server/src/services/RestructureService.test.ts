@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest';
+import { restructureService } from './RestructureService.js';
+import { useClient } from '../testing/prismaMock.js';
+
+vi.mock('../lib/prisma.js', () => import('../testing/prismaMock.js'));
+
+// 1.000.000 flat over 3 months at 2%: the 1st is paid, the 2nd is overdue with Rp 5.000
+// received and Rp 10.000 penalty, the 3rd is not due yet
+function fakeClient() {
+  const installment = (nth: number, dueDate: string, principal: number, overrides: Record<string, unknown> = {}) => ({
+    id: nth,
+    installment_nth: nth,
+    schedule_version: 1,
+    due_date: new Date(`${dueDate}T00:00:00`),
+    amount_due: String(principal + 20000),
+    principal_portion: String(principal),
+    interest_portion: '20000',
+    amount_paid: '0',
+    penalty_accrued: '0',
+    penalty_paid: '0',
+    discount_amount: '0',
+    status: 'UNPAID',
+    ...overrides,
+  });
+
+  return {
+    $queryRaw: vi.fn(async () => []),
+    creditContract: {
+      findUnique: vi.fn(async () => ({
+        id: 1,
+        schedule_version: 1,
+        due_date_day: 5,
+        total_interest: '60000',
+        tenor_months: 3,
+        monthly_installment: '353334',
+        transaction: {
+          status: 'ACTIVE',
+          scheme_snapshot: {
+            id: 1,
+            name: 'Reguler',
+            interest_rate: '2',
+            min_dp_percent: '10',
+            tenor_options: [3],
+            penalty_fee_daily: '1000',
+          },
+        },
+        installments: [
+          installment(1, '2026-08-05', 333334, { amount_paid: '353334', status: 'PAID' }),
+          installment(2, '2026-09-05', 333334, { amount_paid: '5000', penalty_accrued: '10000', status: 'PARTIAL' }),
+          installment(3, '2026-11-05', 333332),
+        ],
+        restructures: [],
+      })),
+    },
+    holiday: { findMany: vi.fn(async () => []) },
+  };
+}
+
+const terms = { contractId: 1, type: 'EXTEND_TENOR' as const, tenorMonths: 6, deferMonths: 0 };
+
+describe('RestructureService.preview', () => {
+  it('capitalizes overdue interest and penalties and drops future interest', async () => {
+    useClient(fakeClient());
+    vi.useFakeTimers({ now: new Date('2026-10-19T10:00:00'), toFake: ['Date'] });
+
+    const preview = await restructureService.preview(terms).finally(() => vi.useRealTimers());
+
+    expect(preview.scheduleVersion).toBe(2);
+    expect(preview.previousRemainingInstallments).toBe(2);
+    expect(preview.outstandingPrincipal).toBe('666666.00');
+    expect(preview.capitalizedInterest).toBe('15000.00');
+    expect(preview.capitalizedPenalty).toBe('10000.00');
+    expect(preview.waivedInterest).toBe('20000.00');
+    // 666.666 + 15.000 + 10.000
+    expect(preview.principal).toBe('691666.00');
+    expect(preview.schedule).toHaveLength(6);
+    expect(preview.schedule[0]!.dueDate).toEqual(new Date('2026-11-05T00:00:00'));
+  });
+
+  it('requires a longer tenor than what is left when extending', async () => {
+    useClient(fakeClient());
+
+    await expect(restructureService.preview({ ...terms, tenorMonths: 2 })).rejects.toThrow(
+      'Tenor baru harus lebih panjang dari sisa angsuran (2 bulan)'
+    );
+  });
+});
+
+describe('RestructureService.restructure', () => {
+  it('locks the contract before building the plan', async () => {
+    const client = useClient(fakeClient());
+
+    // Stops at the first write; only the order of the reads matters here
+    await expect(
+      restructureService.restructure({ ...terms, reason: 'Usaha sepi', approvedBy: 'Manajer', cashier: 'Kasir' })
+    ).rejects.toThrow();
+
+    expect(client.$queryRaw.mock.invocationCallOrder[0]!).toBeLessThan(
+      client.creditContract.findUnique.mock.invocationCallOrder[0]!
+    );
+  });
+});
@@ -0,0 +1,291 @@
+// RestructureService: Contract restructuring (reschedule) with versioned installment schedules
+// Open installments of the current schedule are kept as SUPERSEDED and the outstanding
+// balance is rescheduled as a new schedule version; stock and the transaction are untouched
+
+import { Decimal } from 'decimal.js';
+import { prisma, type TransactionClient } from '../lib/prisma.js';
+import { nextDocumentNumber } from '../lib/documentNumber.js';
+import { lockContract } from '../lib/contractLock.js';
+import { parseSchemeSnapshot } from '../lib/schemeSnapshot.js';
+import { getInstallmentBalance } from '../lib/installmentBalance.js';
+import { creditService } from './CreditService.js';
+import { calendarService } from './CalendarService.js';
+import type { ContractRestructure, InterestMethod, RestructureType } from '@prisma/client';
+
+const RESTRUCTURE_PREFIX = 'RST';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RestructureTermsInput {
+  contractId: number;
+  type: RestructureType;
+  tenorMonths: number; // Number of installments in the new schedule
+  deferMonths: number; // Months without installments before the new schedule starts
+  interestRate?: number; // % per month, defaults to the scheme snapshot rate
+}
+
+export interface RestructureInput extends RestructureTermsInput {
+  reason: string;
+  approvedBy: string;
+  cashier: string;
+}
+
+export interface RestructurePreview {
+  contractId: number;
+  type: RestructureType;
+  scheduleVersion: number; // Version the restructure would create
+  previousMonthlyInstallment: string;
+  previousRemainingInstallments: number;
+  outstandingPrincipal: string;
+  capitalizedInterest: string; // Overdue interest carried into the new principal
+  capitalizedPenalty: string; // Unpaid penalties carried into the new principal
+  waivedInterest: string; // Future interest of the old schedule that is dropped
+  principal: string;
+  interestMethod: InterestMethod;
+  interestRate: string;
+  interestAmount: string;
+  totalLoan: string;
+  monthlyInstallment: string;
+  tenorMonths: number;
+  deferMonths: number;
+  schedule: Array<{
+    installmentNth: number;
+    dueDate: Date;
+    amountDue: string;
+    principal: string;
+    interest: string;
+  }>;
+}
+
+// ============================================================================
+// RESTRUCTURE SERVICE CLASS
+// ============================================================================
+
+export class RestructureService {
+
+  // --------------------------------------------------------------------------
+  // A. Preview the new schedule without saving anything
+  // --------------------------------------------------------------------------
+  async preview(input: RestructureTermsInput): Promise<RestructurePreview> {
+    const { preview } = await this.buildPlan(prisma, input, new Date());
+    return preview;
+  }
+
+  // --------------------------------------------------------------------------
+  // B. Restructure: supersede the open installments and create the new version
+  // --------------------------------------------------------------------------
+  async restructure(input: RestructureInput) {
+    const { reason, approvedBy, cashier } = input;
+
+    return await prisma.$transaction(async (tx) => {
+      // A payment landing between the plan and the update would be superseded with its installment
+      await lockContract(tx, input.contractId);
+
+      const now = new Date();
+      const { preview, plan, openInstallmentIds } = await this.buildPlan(tx, input, now);
+
+      await tx.installment.updateMany({
+        where: { id: { in: openInstallmentIds } },
+        data: { status: 'SUPERSEDED' },
+      });
+
+      const installments = [];
+      for (const [index, line] of plan.lines.entries()) {
+        installments.push(await tx.installment.create({
+          data: {
+            contract_id: input.contractId,
+            installment_nth: line.installmentNth,
+            schedule_version: preview.scheduleVersion,
+            due_date: plan.dueDates[index]!,
+            amount_due: line.amountDue.toFixed(4),
+            principal_portion: line.principal.toFixed(4),
+            interest_portion: line.interest.toFixed(4),
+            status: 'UNPAID',
+          },
+        }));
+      }
+
+      const restructure = await tx.contractRestructure.create({
+        data: {
+          restructure_no: await nextDocumentNumber(tx, RESTRUCTURE_PREFIX, now),
+          contract_id: input.contractId,
+          schedule_version: preview.scheduleVersion,
+          type: input.type,
+          previous_monthly_installment: preview.previousMonthlyInstallment,
+          previous_remaining_installments: preview.previousRemainingInstallments,
+          outstanding_principal: plan.outstandingPrincipal.toFixed(4),
+          capitalized_interest: plan.capitalizedInterest.toFixed(4),
+          capitalized_penalty: plan.capitalizedPenalty.toFixed(4),
+          principal_amount: plan.principal.toFixed(4),
+          interest_rate: plan.interestRate.toFixed(2),
+          interest_method: preview.interestMethod,
+          total_interest: plan.interestAmount.toFixed(4),
+          monthly_installment: plan.monthlyInstallment.toFixed(4),
+          tenor_months: input.tenorMonths,
+          defer_months: input.deferMonths,
+          reason,
+          approved_by: approvedBy,
+          created_by: cashier,
+          created_at: now,
+        },
+      });
+
+      await tx.creditContract.update({
+        where: { id: input.contractId },
+        data: { schedule_version: preview.scheduleVersion },
+      });
+
+      return { restructure, installments, preview };
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // C. Restructure history of a contract (oldest first)
+  // --------------------------------------------------------------------------
+  async getHistory(contractId: number): Promise<ContractRestructure[]> {
+    const contract = await prisma.creditContract.findUnique({ where: { id: contractId } });
+    if (!contract) {
+      throw new Error(`Kontrak dengan ID ${contractId} tidak ditemukan`);
+    }
+
+    return prisma.contractRestructure.findMany({
+      where: { contract_id: contractId },
+      orderBy: { schedule_version: 'asc' },
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Helper: Outstanding balance of the current schedule and the new schedule
+  // Overdue interest and unpaid penalties are capitalized; future interest is dropped
+  // --------------------------------------------------------------------------
+  private async buildPlan(db: TransactionClient, input: RestructureTermsInput, asOf: Date) {
+    const { contractId, type, tenorMonths, deferMonths } = input;
+
+    const contract = await db.creditContract.findUnique({
+      where: { id: contractId },
+      include: {
+        transaction: true,
+        installments: { orderBy: { installment_nth: 'asc' } },
+        restructures: { orderBy: { schedule_version: 'desc' }, take: 1 },
+      },
+    });
+
+    if (!contract) {
+      throw new Error(`Kontrak dengan ID ${contractId} tidak ditemukan`);
+    }
+
+    if (contract.transaction.status !== 'ACTIVE') {
+      throw new Error(`Kontrak tidak aktif (status: ${contract.transaction.status})`);
+    }
+
+    const openInstallments = contract.installments.filter(
+      (inst) => inst.schedule_version === contract.schedule_version && inst.status !== 'PAID'
+    );
+
+    if (openInstallments.length === 0) {
+      throw new Error('Tidak ada angsuran yang tersisa untuk direstrukturisasi');
+    }
+
+    const today = new Date(asOf);
+    today.setHours(0, 0, 0, 0);
+
+    let outstandingPrincipal = new Decimal(0);
+    let capitalizedInterest = new Decimal(0);
+    let capitalizedPenalty = new Decimal(0);
+    let waivedInterest = new Decimal(0);
+
+    for (const inst of openInstallments) {
+      const balance = getInstallmentBalance(contract, inst);
+      outstandingPrincipal = outstandingPrincipal.plus(balance.principal);
+      capitalizedPenalty = capitalizedPenalty.plus(balance.penalty);
+      if (inst.due_date <= today) {
+        capitalizedInterest = capitalizedInterest.plus(balance.interest);
+      } else {
+        waivedInterest = waivedInterest.plus(balance.interest);
+      }
+    }
+
+    const snapshot = parseSchemeSnapshot(contract.transaction.scheme_snapshot);
+    const interestRate = new Decimal(input.interestRate ?? snapshot.interest_rate);
+    const principal = outstandingPrincipal.plus(capitalizedInterest).plus(capitalizedPenalty);
+    const { interestAmount, monthlyInstallment, lines } = creditService.buildSchedule(
+      snapshot.interest_method,
+      principal,
+      interestRate,
+      tenorMonths
+    );
+
+    // Terms must match the kind of relief being recorded
+    const previousMonthly = new Decimal(
+      (contract.restructures[0]?.monthly_installment ?? contract.monthly_installment).toString()
+    );
+    if (type === 'EXTEND_TENOR' && tenorMonths <= openInstallments.length) {
+      throw new Error(
+        `Tenor baru harus lebih panjang dari sisa angsuran (${openInstallments.length} bulan)`
+      );
+    }
+    if (type === 'REDUCE_INSTALLMENT' && monthlyInstallment.gte(previousMonthly)) {
+      throw new Error(
+        `Cicilan baru Rp ${monthlyInstallment.toFixed(0)} tidak lebih kecil dari cicilan sekarang ` +
+        `Rp ${previousMonthly.toFixed(0)}`
+      );
+    }
+    if (type === 'DEFERMENT' && deferMonths < 1) {
+      throw new Error('Penundaan minimal 1 bulan');
+    }
+
+    const dueDates = await calendarService.monthlyDueDates(
+      db,
+      asOf,
+      contract.due_date_day,
+      tenorMonths,
+      deferMonths
+    );
+
+    const plan = {
+      outstandingPrincipal,
+      capitalizedInterest,
+      capitalizedPenalty,
+      principal,
+      interestRate,
+      interestAmount,
+      monthlyInstallment,
+      lines,
+      dueDates,
+    };
+
+    const preview: RestructurePreview = {
+      contractId: contract.id,
+      type,
+      scheduleVersion: contract.schedule_version + 1,
+      previousMonthlyInstallment: previousMonthly.toFixed(2),
+      previousRemainingInstallments: openInstallments.length,
+      outstandingPrincipal: outstandingPrincipal.toFixed(2),
+      capitalizedInterest: capitalizedInterest.toFixed(2),
+      capitalizedPenalty: capitalizedPenalty.toFixed(2),
+      waivedInterest: waivedInterest.toFixed(2),
+      principal: principal.toFixed(2),
+      interestMethod: snapshot.interest_method,
+      interestRate: interestRate.toFixed(2),
+      interestAmount: interestAmount.toFixed(2),
+      totalLoan: principal.plus(interestAmount).toFixed(2),
+      monthlyInstallment: monthlyInstallment.toFixed(2),
+      tenorMonths,
+      deferMonths,
+      schedule: lines.map((line, index) => ({
+        installmentNth: line.installmentNth,
+        dueDate: dueDates[index]!,
+        amountDue: line.amountDue.toFixed(2),
+        principal: line.principal.toFixed(2),
+        interest: line.interest.toFixed(2),
+      })),
+    };
+
+    return { preview, plan, openInstallmentIds: openInstallments.map((inst) => inst.id) };
+  }
+}
+
+// Export singleton instance
+export const restructureService = new RestructureService();
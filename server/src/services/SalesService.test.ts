@@ -0,0 +1,140 @@
+import { describe, expect, it, vi } from 'vitest';
+import { salesService } from './SalesService.js';
+import { useClient } from '../testing/prismaMock.js';
+
+vi.mock('../lib/prisma.js', () => import('../testing/prismaMock.js'));
+
+// A rice cooker with its own cash price, 5 on the shelf
+function fakeClient(customer: unknown = null) {
+  const row = {
+    id: 1,
+    sku: 'ELK-001',
+    name: 'Rice Cooker',
+    category: 'ELECTRONIC',
+    sub_category: 'Dapur',
+    base_price: '300000.0000',
+    cash_price: '450000.0000',
+    credit_price: null,
+    stock_qty: 5,
+    is_active: true,
+    track_units: false,
+  };
+
+  return {
+    stocktakeItem: { findFirst: vi.fn(async () => null) },
+    product: {
+      findMany: vi.fn(async () => [{ ...row }]),
+      findUnique: vi.fn(async () => ({ ...row })),
+      findUniqueOrThrow: vi.fn(async () => ({ ...row })),
+      updateMany: vi.fn(async ({ data }: { data: { stock_qty: { increment: number } } }) => {
+        row.stock_qty += data.stock_qty.increment;
+        return { count: 1 };
+      }),
+    },
+    pricingRule: { findMany: vi.fn(async () => []) },
+    customer: { findUnique: vi.fn(async () => customer) },
+    documentSequence: { upsert: vi.fn(async () => ({ last_value: 7 })) },
+    transaction: {
+      create: vi.fn(async ({ data }: { data: { created_at: Date } }) => ({ id: 42, ...data })),
+    },
+    stockMovement: { create: vi.fn(async () => ({})) },
+  };
+}
+
+describe('SalesService.createCashSale', () => {
+  it('sells at the cash price, issues an invoice and takes the stock out', async () => {
+    const client = useClient(fakeClient());
+
+    const sale = await salesService.createCashSale({
+      items: [{ productId: 1, quantity: 2, discount: 50_000 }],
+      method: 'CASH',
+      cashier: 'Sari',
+    });
+
+    expect(sale).toMatchObject({
+      transactionId: 42,
+      invoiceNo: expect.stringMatching(/^INV-\d{4}-000007$/),
+      customer: null,
+      total: '850000.00',
+    });
+    expect(client.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        sale_type: 'CASH',
+        status: 'PAID',
+        dp_amount: 0,
+        total_price: '850000.0000',
+        customerId: null,
+        cashier: 'Sari',
+      }),
+    });
+    expect(client.stockMovement.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        product_id: 1,
+        type: 'SALE',
+        quantity: -2,
+        reference_type: 'TRANSACTION',
+        reference_id: 42,
+      }),
+    });
+  });
+
+  it('copies the registered customer onto the sale', async () => {
+    const client = useClient(fakeClient({ id: 9, name: 'Budi', phone: '08123456789', nik: '3201010101010001' }));
+
+    const sale = await salesService.createCashSale({
+      items: [{ productId: 1, quantity: 1 }],
+      customerId: 9,
+      method: 'QRIS',
+      cashier: 'Sari',
+    });
+
+    expect(sale.customer).toEqual({ id: 9, name: 'Budi', phone: '08123456789' });
+    expect(client.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ customerId: 9, customer_name: 'Budi', customer_ktp: '3201010101010001' }),
+    });
+  });
+
+  it('refuses an unknown customer before anything is stored', async () => {
+    const client = useClient(fakeClient());
+
+    await expect(
+      salesService.createCashSale({ items: [{ productId: 1, quantity: 1 }], customerId: 9, method: 'CASH', cashier: 'Sari' })
+    ).rejects.toThrow('Customer dengan ID 9 tidak ditemukan');
+    expect(client.transaction.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('SalesService.getReport', () => {
+  const sale = (id: number, saleType: 'CASH' | 'CREDIT', status: string, total: string) => ({
+    id,
+    sale_type: saleType,
+    status,
+    invoice_no: saleType === 'CASH' ? `INV-2025-00000${id}` : null,
+    created_at: new Date('2025-06-01T10:00:00'),
+    customer_name: null,
+    total_price: total,
+    product: { name: 'Rice Cooker', sku: 'ELK-001', base_price: '300000.0000' },
+    items: [{ quantity: 1, unit_cost: '300000.0000' }],
+    contract: saleType === 'CREDIT' ? { id: id + 100 } : null,
+  });
+
+  it('totals cash and credit sales apart and leaves voided sales out', async () => {
+    useClient({
+      transaction: {
+        findMany: vi.fn(async () => [
+          sale(1, 'CASH', 'PAID', '450000.0000'),
+          sale(2, 'CREDIT', 'ACTIVE', '540000.0000'),
+          sale(3, 'CASH', 'VOID', '450000.0000'),
+        ]),
+      },
+    });
+
+    const report = await salesService.getReport();
+
+    expect(report.cash).toEqual({ count: 1, revenue: '450000.00', cost: '300000.00', margin: '150000.00' });
+    expect(report.credit).toEqual({ count: 1, revenue: '540000.00', cost: '300000.00', margin: '240000.00' });
+    expect(report.total.count).toBe(2);
+    expect(report.voidCount).toBe(1);
+    expect(report.sales).toHaveLength(3);
+  });
+});
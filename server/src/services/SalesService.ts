@@ -0,0 +1,201 @@
+// SalesService: Cash (tunai) sales and the sales report across cash and credit
+// A cash sale is paid in full at the counter: no contract, no installments, only an invoice
+
+import { Decimal } from 'decimal.js';
+import { prisma } from '../lib/prisma.js';
+import { nextDocumentNumber } from '../lib/documentNumber.js';
+import { cartItemRows, cartSummary, decrementCartStock, loadCart, type CartItemInput } from '../lib/cartItems.js';
+import type { PaymentMethod, SaleType, TransactionStatus } from '@prisma/client';
+
+const INVOICE_PREFIX = 'INV';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CashSaleInput {
+  items: CartItemInput[];
+  customerId?: number | undefined; // Optional: walk-in buyers are not registered
+  method: PaymentMethod;
+  cashier: string;
+}
+
+export interface SalesReportRow {
+  transactionId: number;
+  saleType: SaleType;
+  invoiceNo: string | null;
+  contractId: number | null;
+  soldAt: Date;
+  customerName: string | null;
+  productName: string; // First cart line
+  productSku: string;
+  itemCount: number; // Units across all lines
+  totalPrice: string;
+  cost: string; // Harga modal of the units sold
+  margin: string; // totalPrice - cost (interest on credit sales not included)
+  status: TransactionStatus;
+}
+
+export interface SalesTotals {
+  count: number;
+  revenue: string;
+  cost: string;
+  margin: string;
+}
+
+export interface SalesReport {
+  from: string | null;
+  to: string | null;
+  cash: SalesTotals;
+  credit: SalesTotals;
+  total: SalesTotals;
+  voidCount: number; // Voided sales are listed but not counted in the totals
+  sales: SalesReportRow[];
+}
+
+// ============================================================================
+// SALES SERVICE CLASS
+// ============================================================================
+
+export class SalesService {
+
+  // --------------------------------------------------------------------------
+  // A. Cash sale: decrement stock and issue the invoice
+  // --------------------------------------------------------------------------
+  async createCashSale(input: CashSaleInput) {
+    const { items, customerId, method, cashier } = input;
+
+    return await prisma.$transaction(async (tx) => {
+      const cart = await loadCart(tx, items, 'CASH');
+
+      const customer = customerId !== undefined
+        ? await tx.customer.findUnique({ where: { id: customerId } })
+        : null;
+
+      if (customerId !== undefined && !customer) {
+        throw new Error(`Customer dengan ID ${customerId} tidak ditemukan`);
+      }
+
+      const now = new Date();
+      const invoiceNo = await nextDocumentNumber(tx, INVOICE_PREFIX, now);
+
+      const transaction = await tx.transaction.create({
+        data: {
+          sale_type: 'CASH',
+          customerId: customer?.id ?? null,
+          productId: cart.lines[0]!.product.id,
+          customer_name: customer?.name ?? null,
+          customer_phone: customer?.phone ?? null,
+          customer_ktp: customer?.nik ?? null,
+          total_price: cart.total.toFixed(4),
+          dp_amount: 0,
+          status: 'PAID',
+          invoice_no: invoiceNo,
+          payment_method: method,
+          cashier,
+          created_at: now,
+          items: { create: cartItemRows(cart) },
+        },
+      });
+
+      await decrementCartStock(tx, cart, transaction.id, cashier);
+
+      return {
+        transactionId: transaction.id,
+        invoiceNo,
+        soldAt: transaction.created_at,
+        customer: customer ? { id: customer.id, name: customer.name, phone: customer.phone } : null,
+        items: cartSummary(cart),
+        total: cart.total.toFixed(2),
+        method,
+        cashier,
+      };
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // B. Sales report (cash and credit) for a period
+  // --------------------------------------------------------------------------
+  async getReport(from?: Date, to?: Date): Promise<SalesReport> {
+    const transactions = await prisma.transaction.findMany({
+      where: {
+        created_at: {
+          ...(from ? { gte: from } : {}),
+          ...(to ? { lte: to } : {}),
+        },
+      },
+      include: {
+        product: { select: { name: true, sku: true, base_price: true } },
+        items: { select: { quantity: true, unit_cost: true } },
+        contract: { select: { id: true } },
+      },
+      orderBy: { created_at: 'desc' },
+    });
+
+    const totals: Record<SaleType, { count: number; revenue: Decimal; cost: Decimal }> = {
+      CASH: { count: 0, revenue: new Decimal(0), cost: new Decimal(0) },
+      CREDIT: { count: 0, revenue: new Decimal(0), cost: new Decimal(0) },
+    };
+    let voidCount = 0;
+
+    const rows = transactions.map((transaction): SalesReportRow => {
+      const revenue = new Decimal(transaction.total_price.toString());
+      // Sales from before cart lines existed: one unit at the product's current cost
+      const cost = transaction.items.length > 0
+        ? transaction.items.reduce((sum, item) => sum.plus(new Decimal(item.unit_cost.toString()).mul(item.quantity)), new Decimal(0))
+        : new Decimal(transaction.product.base_price.toString());
+
+      if (transaction.status === 'VOID') {
+        voidCount++;
+      } else {
+        const bucket = totals[transaction.sale_type];
+        bucket.count++;
+        bucket.revenue = bucket.revenue.plus(revenue);
+        bucket.cost = bucket.cost.plus(cost);
+      }
+
+      return {
+        transactionId: transaction.id,
+        saleType: transaction.sale_type,
+        invoiceNo: transaction.invoice_no,
+        contractId: transaction.contract?.id ?? null,
+        soldAt: transaction.created_at,
+        customerName: transaction.customer_name,
+        productName: transaction.product.name,
+        productSku: transaction.product.sku,
+        // Sales from before cart lines existed were always a single unit
+        itemCount: transaction.items.reduce((sum, item) => sum + item.quantity, 0) || 1,
+        totalPrice: revenue.toFixed(2),
+        cost: cost.toFixed(2),
+        margin: revenue.minus(cost).toFixed(2),
+        status: transaction.status,
+      };
+    });
+
+    return {
+      from: from?.toISOString() ?? null,
+      to: to?.toISOString() ?? null,
+      cash: this.toTotals(totals.CASH.count, totals.CASH.revenue, totals.CASH.cost),
+      credit: this.toTotals(totals.CREDIT.count, totals.CREDIT.revenue, totals.CREDIT.cost),
+      total: this.toTotals(
+        totals.CASH.count + totals.CREDIT.count,
+        totals.CASH.revenue.plus(totals.CREDIT.revenue),
+        totals.CASH.cost.plus(totals.CREDIT.cost)
+      ),
+      voidCount,
+      sales: rows,
+    };
+  }
+
+  private toTotals(count: number, revenue: Decimal, cost: Decimal): SalesTotals {
+    return {
+      count,
+      revenue: revenue.toFixed(2),
+      cost: cost.toFixed(2),
+      margin: revenue.minus(cost).toFixed(2),
+    };
+  }
+}
+
+// Export singleton instance
+export const salesService = new SalesService();
@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest';
+import { schemeService, type SchemeInput } from './SchemeService.js';
+import { useClient } from '../testing/prismaMock.js';
+
+vi.mock('../lib/prisma.js', () => import('../testing/prismaMock.js'));
+
+const input: SchemeInput = {
+  name: 'Reguler',
+  interest_method: 'FLAT',
+  interest_rate: 2,
+  min_dp_percent: 20,
+  tenor_options: [12, 3, 6],
+  penalty_fee_daily: 1000,
+  penalty_grace_days: 3,
+  early_payoff_discount_percent: 50,
+  eligible_categories: [],
+  eligible_sub_categories: [],
+  min_price: null,
+  max_price: null,
+  valid_from: null,
+  valid_until: null,
+  customer_types: [],
+  charges: [],
+};
+
+function fakeClient(existing: unknown = null) {
+  return {
+    loanScheme: {
+      findFirst: vi.fn(async () => existing),
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({ id: 1, ...data })),
+      findMany: vi.fn(async () => [
+        {
+          id: 1,
+          name: 'Reguler',
+          interest_method: 'FLAT',
+          interest_rate: '2',
+          min_dp_percent: '20',
+          tenor_options: [3],
+          is_active: true,
+          charges: [],
+        },
+      ]),
+    },
+  };
+}
+
+describe('SchemeService.createScheme', () => {
+  it('stores the tenor options in ascending order', async () => {
+    const client = useClient(fakeClient());
+
+    await schemeService.createScheme(input);
+
+    expect(client.loanScheme.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ tenor_options: [3, 6, 12], interest_rate: '2', min_price: null }),
+    });
+  });
+
+  it('refuses a name already used by another scheme, whatever the case', async () => {
+    const client = useClient(fakeClient({ id: 2, name: 'REGULER' }));
+
+    await expect(schemeService.createScheme(input)).rejects.toThrow('Nama skema "Reguler" sudah dipakai');
+    expect(client.loanScheme.findFirst).toHaveBeenCalledWith({
+      where: { name: { equals: 'Reguler', mode: 'insensitive' } },
+    });
+    expect(client.loanScheme.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('SchemeService.previewSchemes', () => {
+  it('raises a DP below the minimum to the scheme minimum', async () => {
+    useClient(fakeClient());
+
+    const [preview] = await schemeService.previewSchemes(1_000_000, 100_000);
+
+    // 20% of 1.000.000; the remaining 800.000 at 2% flat for 3 months
+    expect(preview?.dp).toBe('200000.00');
+    expect(preview?.principal).toBe('800000.00');
+    expect(preview?.options).toEqual([
+      { tenorMonths: 3, monthlyInstallment: '282667.00', interestAmount: '48000.00', totalLoan: '848000.00' },
+    ]);
+  });
+});
@@ -0,0 +1,233 @@
+// SchemeService: Loan scheme (skema kredit) administration and price previews
+// Editing a scheme never touches existing transactions: they keep their scheme_snapshot
+
+import { Decimal } from 'decimal.js';
+import { prisma } from '../lib/prisma.js';
+import { creditService } from './CreditService.js';
+import { getIneligibilityReasons, isWithinValidity } from '../lib/schemeEligibility.js';
+import { applyCharges, parseSchemeCharges, type SchemeCharge } from '../lib/schemeCharges.js';
+import { getSellingPrice } from '../lib/productPricing.js';
+import type { CategoryType, CustomerType, InterestMethod, LoanScheme } from '@prisma/client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SchemeInput {
+  name: string;
+  interest_method: InterestMethod;
+  interest_rate: number;
+  min_dp_percent: number;
+  tenor_options: number[];
+  penalty_fee_daily: number;
+  penalty_grace_days: number;
+  early_payoff_discount_percent: number;
+  eligible_categories: CategoryType[];
+  eligible_sub_categories: string[];
+  min_price: number | null;
+  max_price: number | null;
+  valid_from: Date | null;
+  valid_until: Date | null;
+  customer_types: CustomerType[];
+  charges: SchemeCharge[];
+}
+
+export interface EligibleSchemesInput {
+  productIds: number[]; // Every product in the cart must be eligible
+  customerId?: number;
+  price?: number; // Defaults to the sum of the products' prices
+}
+
+export interface SchemePreview {
+  schemeId: number;
+  name: string;
+  interestMethod: InterestMethod;
+  interestRate: string;
+  isActive: boolean;
+  dp: string;
+  upfrontCharges: string;
+  principal: string; // Includes financed charges
+  options: Array<{
+    tenorMonths: number;
+    monthlyInstallment: string;
+    interestAmount: string;
+    totalLoan: string;
+  }>;
+}
+
+// ============================================================================
+// SCHEME SERVICE CLASS
+// ============================================================================
+
+export class SchemeService {
+
+  // --------------------------------------------------------------------------
+  // A. List schemes
+  // Default is what the POS may offer now: active and inside the promo window
+  // --------------------------------------------------------------------------
+  async listSchemes(includeInactive = false): Promise<LoanScheme[]> {
+    const schemes = await prisma.loanScheme.findMany({
+      where: includeInactive ? {} : { is_active: true },
+      orderBy: [{ is_active: 'desc' }, { name: 'asc' }],
+    });
+    if (includeInactive) return schemes;
+
+    const now = new Date();
+    return schemes.filter((scheme) => isWithinValidity(scheme, now));
+  }
+
+  // --------------------------------------------------------------------------
+  // B. Create / update a scheme
+  // --------------------------------------------------------------------------
+  async createScheme(input: SchemeInput): Promise<LoanScheme> {
+    await this.assertUniqueName(input.name);
+    return prisma.loanScheme.create({ data: this.toData(input) });
+  }
+
+  async updateScheme(id: number, input: SchemeInput): Promise<LoanScheme> {
+    await this.findOrThrow(id);
+    await this.assertUniqueName(input.name, id);
+    return prisma.loanScheme.update({ where: { id }, data: this.toData(input) });
+  }
+
+  // --------------------------------------------------------------------------
+  // C. Activate / deactivate (schemes are never deleted: snapshots refer to them)
+  // --------------------------------------------------------------------------
+  async setActive(id: number, isActive: boolean): Promise<LoanScheme> {
+    await this.findOrThrow(id);
+    return prisma.loanScheme.update({ where: { id }, data: { is_active: isActive } });
+  }
+
+  // --------------------------------------------------------------------------
+  // D. Schemes a cashier may offer for these products and customer today
+  // --------------------------------------------------------------------------
+  async getEligibleSchemes(input: EligibleSchemesInput): Promise<LoanScheme[]> {
+    const { productIds, customerId, price } = input;
+
+    const products = await prisma.product.findMany({ where: { id: { in: productIds } } });
+    const missingId = productIds.find((id) => !products.some((product) => product.id === id));
+    if (missingId !== undefined) {
+      throw new Error(`Produk dengan ID ${missingId} tidak ditemukan`);
+    }
+
+    let customerType: CustomerType | null = null;
+    if (customerId !== undefined) {
+      const customer = await prisma.customer.findUnique({ where: { id: customerId } });
+      if (!customer) {
+        throw new Error(`Customer dengan ID ${customerId} tidak ditemukan`);
+      }
+      customerType = customer.customer_type;
+    }
+
+    const schemes = await this.listSchemes();
+
+    // Default: one unit of each product at its credit selling price
+    const rules = price === undefined ? await prisma.pricingRule.findMany({ where: { is_active: true } }) : [];
+    const total = price !== undefined
+      ? new Decimal(price)
+      : products.reduce((sum, product) => sum.plus(getSellingPrice(product, rules, 'CREDIT')), new Decimal(0));
+
+    return schemes.filter((scheme) =>
+      products.every((product) =>
+        getIneligibilityReasons(scheme, {
+          category: product.category,
+          subCategory: product.sub_category,
+          price: total,
+          customerType,
+        }).length === 0
+      )
+    );
+  }
+
+  // --------------------------------------------------------------------------
+  // E. Preview: what a sample price costs under every scheme and tenor
+  // DP defaults to each scheme's minimum
+  // --------------------------------------------------------------------------
+  async previewSchemes(price: number, dp?: number): Promise<SchemePreview[]> {
+    const schemes = await this.listSchemes(true);
+    const priceDecimal = new Decimal(price);
+
+    return schemes.map((scheme) => {
+      const minDp = priceDecimal
+        .mul(scheme.min_dp_percent.toString())
+        .div(100)
+        .toDecimalPlaces(0, Decimal.ROUND_CEIL);
+      const dpDecimal = dp !== undefined ? Decimal.max(new Decimal(dp), minDp) : minDp;
+      const charges = applyCharges(parseSchemeCharges(scheme.charges), priceDecimal);
+      const principal = Decimal.max(0, priceDecimal.minus(dpDecimal)).plus(charges.financedTotal);
+      const interestRate = new Decimal(scheme.interest_rate.toString());
+
+      return {
+        schemeId: scheme.id,
+        name: scheme.name,
+        interestMethod: scheme.interest_method,
+        interestRate: interestRate.toFixed(2),
+        isActive: scheme.is_active,
+        dp: dpDecimal.toFixed(2),
+        upfrontCharges: charges.upfrontTotal.toFixed(2),
+        principal: principal.toFixed(2),
+        options: (scheme.tenor_options as number[]).map((tenorMonths) => {
+          const schedule = creditService.buildSchedule(
+            scheme.interest_method,
+            principal,
+            interestRate,
+            tenorMonths
+          );
+          return {
+            tenorMonths,
+            monthlyInstallment: schedule.monthlyInstallment.toFixed(2),
+            interestAmount: schedule.interestAmount.toFixed(2),
+            totalLoan: principal.plus(schedule.interestAmount).toFixed(2),
+          };
+        }),
+      };
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Helpers
+  // --------------------------------------------------------------------------
+  private async findOrThrow(id: number): Promise<LoanScheme> {
+    const scheme = await prisma.loanScheme.findUnique({ where: { id } });
+    if (!scheme) {
+      throw new Error(`Skema kredit dengan ID ${id} tidak ditemukan`);
+    }
+    return scheme;
+  }
+
+  private async assertUniqueName(name: string, exceptId?: number): Promise<void> {
+    const existing = await prisma.loanScheme.findFirst({
+      where: {
+        name: { equals: name, mode: 'insensitive' },
+        ...(exceptId !== undefined ? { NOT: { id: exceptId } } : {}),
+      },
+    });
+    if (existing) {
+      throw new Error(`Nama skema "${name}" sudah dipakai`);
+    }
+  }
+
+  private toData(input: SchemeInput) {
+    return {
+      name: input.name,
+      interest_method: input.interest_method,
+      interest_rate: input.interest_rate.toString(),
+      min_dp_percent: input.min_dp_percent.toString(),
+      tenor_options: [...input.tenor_options].sort((a, b) => a - b),
+      penalty_fee_daily: input.penalty_fee_daily.toString(),
+      penalty_grace_days: input.penalty_grace_days,
+      early_payoff_discount_percent: input.early_payoff_discount_percent.toString(),
+      eligible_categories: input.eligible_categories,
+      eligible_sub_categories: input.eligible_sub_categories,
+      min_price: input.min_price?.toString() ?? null,
+      max_price: input.max_price?.toString() ?? null,
+      valid_from: input.valid_from,
+      valid_until: input.valid_until,
+      customer_types: input.customer_types,
+      charges: input.charges,
+    };
+  }
+}
+
+// Export singleton instance
+export const schemeService = new SchemeService();
@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from 'vitest';
+import { stockService } from './StockService.js';
+import { useClient } from '../testing/prismaMock.js';
+
+vi.mock('../lib/prisma.js', () => import('../testing/prismaMock.js'));
+
+const createdAt = new Date('2025-01-10T08:00:00');
+const product = (id: number, stockQty: number) => ({
+  id,
+  sku: `SKU-0${id}`,
+  name: `Produk ${id}`,
+  stock_qty: stockQty,
+  base_price: '100000.0000',
+  created_at: createdAt,
+});
+
+// 1: 10 on hand, 4 on the ledger; 2: already has an OPENING row; 3: fewer on hand than the ledger
+function fakeClient() {
+  return {
+    product: { findMany: vi.fn(async () => [product(1, 10), product(2, 5), product(3, 1)]) },
+    stockMovement: {
+      groupBy: vi.fn(async () => [
+        { product_id: 1, _sum: { quantity: 4 } },
+        { product_id: 2, _sum: { quantity: 5 } },
+        { product_id: 3, _sum: { quantity: 3 } },
+      ]),
+      findMany: vi.fn(async () => [{ product_id: 2 }]),
+      create: vi.fn(async () => ({})),
+    },
+  };
+}
+
+describe('StockService.backfillOpeningStock', () => {
+  it('books the stock no movement explains as an opening balance at product creation', async () => {
+    const client = useClient(fakeClient());
+
+    const result = await stockService.backfillOpeningStock('Admin');
+
+    expect(result).toEqual({
+      checked: 3,
+      backfilled: [{ productId: 1, sku: 'SKU-01', name: 'Produk 1', quantity: 6 }],
+    });
+    expect(client.stockMovement.create).toHaveBeenCalledTimes(1);
+    expect(client.stockMovement.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        product_id: 1,
+        type: 'OPENING',
+        quantity: 6,
+        balance_after: 6,
+        unit_cost: '100000.0000',
+        created_at: createdAt,
+      }),
+    });
+  });
+});
@@ -0,0 +1,281 @@
+// StockService: Stock ledger (kartu stok) per product, manual adjustments, ledger checks
+// and inventory valuation at weighted-average cost (HPP)
+// stock_qty must equal Σ stock_movements.quantity; products that drift are flagged
+
+import { Decimal } from 'decimal.js';
+import { prisma } from '../lib/prisma.js';
+import { moveStock } from '../lib/stockMovements.js';
+import type { CategoryType, Product, StockMovement } from '@prisma/client';
+
+const HISTORY_LIMIT = 200;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StockAdjustmentInput {
+  productId: number;
+  quantity: number; // Signed delta: + found / returned, - damaged / lost
+  reason: string;
+  cashier: string;
+}
+
+export interface ProductStockHistory {
+  product: Pick<Product, 'id' | 'sku' | 'name' | 'stock_qty' | 'track_units'>;
+  ledgerQty: number; // Σ quantity over all movements
+  inSync: boolean;
+  movements: StockMovement[]; // Newest first
+}
+
+export interface StockLedgerMismatch {
+  productId: number;
+  sku: string;
+  name: string;
+  stockQty: number;
+  ledgerQty: number;
+  difference: number; // stock_qty - ledger (positive = stock without a movement)
+}
+
+export interface StockLedgerReport {
+  checked: number;
+  mismatched: number;
+  products: StockLedgerMismatch[];
+}
+
+export interface OpeningBackfillResult {
+  checked: number;
+  backfilled: Array<{ productId: number; sku: string; name: string; quantity: number }>;
+}
+
+export interface ValuationRow {
+  productId: number;
+  sku: string;
+  name: string;
+  category: CategoryType;
+  subCategory: string;
+  isSecondHand: boolean;
+  stockQty: number;
+  averageCost: string; // HPP per unit
+  value: string; // stockQty × averageCost
+}
+
+export interface InventoryValuation {
+  asOf: Date;
+  totalQty: number;
+  totalValue: string;
+  byCategory: Array<{ category: CategoryType; qty: number; value: string }>;
+  products: ValuationRow[]; // Highest value first
+}
+
+// ============================================================================
+// STOCK SERVICE CLASS
+// ============================================================================
+
+export class StockService {
+
+  // --------------------------------------------------------------------------
+  // A. Movement history of a product, with its ledger balance
+  // --------------------------------------------------------------------------
+  async getHistory(productId: number): Promise<ProductStockHistory> {
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      select: { id: true, sku: true, name: true, stock_qty: true, track_units: true },
+    });
+    if (!product) {
+      throw new Error(`Produk dengan ID ${productId} tidak ditemukan`);
+    }
+
+    const [movements, ledger] = await Promise.all([
+      prisma.stockMovement.findMany({
+        where: { product_id: productId },
+        orderBy: { id: 'desc' },
+        take: HISTORY_LIMIT,
+      }),
+      prisma.stockMovement.aggregate({
+        where: { product_id: productId },
+        _sum: { quantity: true },
+      }),
+    ]);
+
+    const ledgerQty = ledger._sum.quantity ?? 0;
+    return { product, ledgerQty, inSync: ledgerQty === product.stock_qty, movements };
+  }
+
+  // --------------------------------------------------------------------------
+  // B. Manual correction (damaged, lost, miscounted)
+  // --------------------------------------------------------------------------
+  async adjustStock(input: StockAdjustmentInput): Promise<Product> {
+    const { productId, quantity, reason, cashier } = input;
+
+    return await prisma.$transaction(async (tx) => {
+      const product = await tx.product.findUnique({ where: { id: productId } });
+      if (!product) {
+        throw new Error(`Produk dengan ID ${productId} tidak ditemukan`);
+      }
+
+      // Per-unit stock follows its units: restock registers them, sales and voids move them
+      if (product.track_units) {
+        throw new Error(`Stok produk "${product.name}" dicatat per unit dan tidak dapat dikoreksi manual`);
+      }
+
+      return moveStock(tx, {
+        productId,
+        type: 'ADJUSTMENT',
+        quantity,
+        createdBy: cashier,
+        reason,
+      });
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // C. Flag every product whose stock_qty doesn't match its ledger
+  // --------------------------------------------------------------------------
+  async reconcileStock(): Promise<StockLedgerReport> {
+    const [products, ledger] = await Promise.all([
+      prisma.product.findMany({
+        select: { id: true, sku: true, name: true, stock_qty: true },
+        orderBy: { id: 'asc' },
+      }),
+      prisma.stockMovement.groupBy({
+        by: ['product_id'],
+        _sum: { quantity: true },
+      }),
+    ]);
+
+    const ledgerQty = new Map(ledger.map((row) => [row.product_id, row._sum.quantity ?? 0]));
+
+    const flagged: StockLedgerMismatch[] = [];
+    for (const product of products) {
+      const qty = ledgerQty.get(product.id) ?? 0;
+      if (qty === product.stock_qty) continue;
+
+      flagged.push({
+        productId: product.id,
+        sku: product.sku,
+        name: product.name,
+        stockQty: product.stock_qty,
+        ledgerQty: qty,
+        difference: product.stock_qty - qty,
+      });
+    }
+
+    return {
+      checked: products.length,
+      mismatched: flagged.length,
+      products: flagged,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // D. Inventory valuation: stock on hand at weighted-average cost
+  // --------------------------------------------------------------------------
+  async valuation(category?: CategoryType): Promise<InventoryValuation> {
+    const products = await prisma.product.findMany({
+      where: { stock_qty: { gt: 0 }, ...(category ? { category } : {}) },
+      select: {
+        id: true,
+        sku: true,
+        name: true,
+        category: true,
+        sub_category: true,
+        is_second_hand: true,
+        stock_qty: true,
+        base_price: true,
+      },
+    });
+
+    let totalQty = 0;
+    let totalValue = new Decimal(0);
+    const categories = new Map<CategoryType, { qty: number; value: Decimal }>();
+
+    const rows = products.map((product) => {
+      const averageCost = new Decimal(product.base_price.toString());
+      const value = averageCost.times(product.stock_qty);
+
+      totalQty += product.stock_qty;
+      totalValue = totalValue.plus(value);
+      const bucket = categories.get(product.category) ?? { qty: 0, value: new Decimal(0) };
+      categories.set(product.category, { qty: bucket.qty + product.stock_qty, value: bucket.value.plus(value) });
+
+      return { product, averageCost, value };
+    });
+
+    rows.sort((a, b) => b.value.comparedTo(a.value));
+
+    return {
+      asOf: new Date(),
+      totalQty,
+      totalValue: totalValue.toFixed(2),
+      byCategory: [...categories.entries()].map(([cat, bucket]) => ({
+        category: cat,
+        qty: bucket.qty,
+        value: bucket.value.toFixed(2),
+      })),
+      products: rows.map(({ product, averageCost, value }) => ({
+        productId: product.id,
+        sku: product.sku,
+        name: product.name,
+        category: product.category,
+        subCategory: product.sub_category,
+        isSecondHand: product.is_second_hand,
+        stockQty: product.stock_qty,
+        averageCost: averageCost.toFixed(2),
+        value: value.toFixed(2),
+      })),
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // E. Opening balance for stock that predates the ledger
+  // Products without an OPENING movement get one for the stock no movement explains,
+  // dated at product creation so it comes first on the kartu stok. stock_qty is not touched
+  // --------------------------------------------------------------------------
+  async backfillOpeningStock(createdBy: string): Promise<OpeningBackfillResult> {
+    return await prisma.$transaction(async (tx) => {
+      // One connection per transaction: the queries run one after another
+      const products = await tx.product.findMany({
+        select: { id: true, sku: true, name: true, stock_qty: true, base_price: true, created_at: true },
+        orderBy: { id: 'asc' },
+      });
+      const ledger = await tx.stockMovement.groupBy({
+        by: ['product_id'],
+        _sum: { quantity: true },
+      });
+      const opened = await tx.stockMovement.findMany({
+        where: { type: 'OPENING' },
+        select: { product_id: true },
+        distinct: ['product_id'],
+      });
+
+      const ledgerQty = new Map(ledger.map((row) => [row.product_id, row._sum.quantity ?? 0]));
+      const hasOpening = new Set(opened.map((row) => row.product_id));
+
+      const backfilled: OpeningBackfillResult['backfilled'] = [];
+      for (const product of products) {
+        // Less stock than the ledger is drift, not a missing opening balance: left to reconcileStock
+        const missing = product.stock_qty - (ledgerQty.get(product.id) ?? 0);
+        if (hasOpening.has(product.id) || missing <= 0) continue;
+
+        await tx.stockMovement.create({
+          data: {
+            product_id: product.id,
+            type: 'OPENING',
+            quantity: missing,
+            balance_after: missing,
+            unit_cost: product.base_price,
+            reason: 'Saldo awal sebelum kartu stok',
+            created_by: createdBy,
+            created_at: product.created_at,
+          },
+        });
+        backfilled.push({ productId: product.id, sku: product.sku, name: product.name, quantity: missing });
+      }
+
+      return { checked: products.length, backfilled };
+    });
+  }
+}
+
+// Export singleton instance
+export const stockService = new StockService();
@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from 'vitest';
+import { stocktakeService } from './StocktakeService.js';
+import { useClient } from '../testing/prismaMock.js';
+
+vi.mock('../lib/prisma.js', () => import('../testing/prismaMock.js'));
+
+// Counted 8 against a stock of 10; a PO receipt of 3 arrived after the count
+function fakeClient(status = 'SUBMITTED') {
+  const row = { id: 1, sku: 'FRN-001', name: 'Kursi Plastik', stock_qty: 13, base_price: '50000.0000', track_units: false };
+  const stocktake = {
+    id: 5,
+    stocktake_no: 'OPN-2025-000005',
+    status,
+    submitted_by: 'Sari',
+    created_at: new Date('2025-06-01T08:00:00'),
+    items: [
+      {
+        id: 51,
+        product_id: 1,
+        system_qty: 10,
+        counted_qty: 8,
+        counted_stock: 10,
+        counted_units: null,
+        counted_at: new Date('2025-06-01T09:00:00'),
+        variance: null,
+        product: row,
+      },
+    ],
+  };
+
+  return {
+    stocktake: {
+      findUnique: vi.fn(async () => stocktake),
+      update: vi.fn(async () => stocktake),
+    },
+    stocktakeItem: { update: vi.fn(async () => ({})) },
+    product: {
+      findUnique: vi.fn(async () => ({ ...row })),
+      findUniqueOrThrow: vi.fn(async () => ({ ...row })),
+      updateMany: vi.fn(async ({ data }: { data: { stock_qty: { increment: number } } }) => {
+        row.stock_qty += data.stock_qty.increment;
+        return { count: 1 };
+      }),
+    },
+    stockMovement: { create: vi.fn(async () => ({})) },
+  };
+}
+
+describe('StocktakeService.getStocktake', () => {
+  it('compares the count with the stock it was taken against', async () => {
+    useClient(fakeClient('COUNTING'));
+
+    const stocktake = await stocktakeService.getStocktake(5);
+
+    expect(stocktake.items[0]?.variance).toBe(-2);
+    expect(stocktake.summary).toEqual({ products: 1, counted: 1, withVariance: 1 });
+  });
+});
+
+describe('StocktakeService.post', () => {
+  it('books only the shortfall found on the shelf and keeps later receipts', async () => {
+    const client = useClient(fakeClient());
+
+    await stocktakeService.post(5, 'Pak Joko');
+
+    expect(client.stockMovement.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        product_id: 1,
+        type: 'STOCKTAKE',
+        quantity: -2,
+        balance_after: 11,
+        reference_type: 'STOCKTAKE',
+        reference_id: 5,
+        created_by: 'Pak Joko',
+      }),
+    });
+    expect(client.stocktakeItem.update).toHaveBeenCalledWith({
+      where: { id: 51 },
+      data: { counted_qty: 8, variance: -2 },
+    });
+    expect(client.stocktake.update).toHaveBeenCalledWith({
+      where: { id: 5 },
+      data: expect.objectContaining({ status: 'POSTED', approved_by: 'Pak Joko' }),
+    });
+  });
+
+  it('refuses approval by the person who counted', async () => {
+    const client = useClient(fakeClient());
+
+    await expect(stocktakeService.post(5, 'Sari')).rejects.toThrow(
+      'Stock opname harus disetujui oleh orang lain selain petugas yang menghitung'
+    );
+    expect(client.stockMovement.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses a session that was not submitted', async () => {
+    useClient(fakeClient('COUNTING'));
+
+    await expect(stocktakeService.post(5, 'Pak Joko')).rejects.toThrow(
+      'Stock opname OPN-2025-000005 belum diajukan untuk disetujui (status: COUNTING)'
+    );
+  });
+});
@@ -0,0 +1,378 @@
+// StocktakeService: Stock opname sessions (physical warehouse count)
+// A session snapshots stock per product, collects counted quantities (or scanned units for
+// per-unit products) and, once a supervisor approves, books the variances on the stock ledger.
+// Products in an open session can't be sold (see lib/stocktakeLock), but goods can still arrive
+// (PO receipts, repossessions, voids): each count remembers the stock it was taken against
+
+import { z } from 'zod';
+import { prisma, type TransactionClient } from '../lib/prisma.js';
+import { nextDocumentNumber } from '../lib/documentNumber.js';
+import { moveStock } from '../lib/stockMovements.js';
+import { SELLABLE_UNIT_STATUSES, unitLabel } from '../lib/productUnits.js';
+import { OPEN_STOCKTAKE_STATUSES } from '../lib/stocktakeLock.js';
+import type { CategoryType, StocktakeStatus, UnitStatus } from '@prisma/client';
+
+const STOCKTAKE_PREFIX = 'OPN';
+
+// A unit missed by an earlier count can turn up again
+const COUNTABLE_UNIT_STATUSES: UnitStatus[] = [...SELLABLE_UNIT_STATUSES, 'MISSING'];
+
+const countedUnitsSchema = z.array(z.number().int());
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StocktakeOpenInput {
+  category?: CategoryType | undefined; // Omit to count every product
+  notes?: string | undefined;
+  cashier: string;
+}
+
+export interface CountInput {
+  stocktakeId: number;
+  items: Array<{ productId: number; countedQty: number }>;
+  cashier: string;
+}
+
+export interface ScanInput {
+  stocktakeId: number;
+  code: string; // Serial number, IMEI, engine or chassis number
+  cashier: string;
+}
+
+const stocktakeInclude = {
+  items: {
+    include: {
+      product: {
+        select: { id: true, sku: true, name: true, category: true, sub_category: true, stock_qty: true, track_units: true },
+      },
+    },
+    orderBy: { id: 'asc' as const },
+  },
+};
+
+function countedUnitIds(value: unknown): number[] {
+  return value === null ? [] : countedUnitsSchema.parse(value);
+}
+
+// ============================================================================
+// STOCKTAKE SERVICE CLASS
+// ============================================================================
+
+export class StocktakeService {
+
+  // --------------------------------------------------------------------------
+  // A. Open a session for a category or for all active products
+  // --------------------------------------------------------------------------
+  async open(input: StocktakeOpenInput) {
+    const { category, notes, cashier } = input;
+
+    return await prisma.$transaction(async (tx) => {
+      // One open session per product: a category session overlaps an all-products one
+      const overlapping = await tx.stocktake.findFirst({
+        where: {
+          status: { in: OPEN_STOCKTAKE_STATUSES },
+          ...(category ? { OR: [{ category }, { category: null }] } : {}),
+        },
+      });
+      if (overlapping) {
+        throw new Error(`Stock opname ${overlapping.stocktake_no} masih berjalan untuk produk yang sama`);
+      }
+
+      const products = await tx.product.findMany({
+        where: { is_active: true, ...(category ? { category } : {}) },
+        orderBy: [{ sub_category: 'asc' }, { name: 'asc' }],
+      });
+      if (products.length === 0) {
+        throw new Error('Tidak ada produk aktif untuk dihitung');
+      }
+
+      const stocktake = await tx.stocktake.create({
+        data: {
+          stocktake_no: await nextDocumentNumber(tx, STOCKTAKE_PREFIX),
+          category: category ?? null,
+          notes: notes ?? null,
+          created_by: cashier,
+          items: {
+            create: products.map((product) => ({ product_id: product.id, system_qty: product.stock_qty })),
+          },
+        },
+        include: stocktakeInclude,
+      });
+
+      return this.withVariances(stocktake);
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // B. List / detail (variances against the current stock_qty until posted)
+  // --------------------------------------------------------------------------
+  async listStocktakes(status?: StocktakeStatus) {
+    return prisma.stocktake.findMany({
+      where: status ? { status } : {},
+      include: { _count: { select: { items: true } } },
+      orderBy: { id: 'desc' },
+    });
+  }
+
+  async getStocktake(stocktakeId: number) {
+    const stocktake = await prisma.stocktake.findUnique({ where: { id: stocktakeId }, include: stocktakeInclude });
+    if (!stocktake) {
+      throw new Error(`Stock opname dengan ID ${stocktakeId} tidak ditemukan`);
+    }
+    return this.withVariances(stocktake);
+  }
+
+  // --------------------------------------------------------------------------
+  // C. Record counted quantities (products without unit tracking)
+  // --------------------------------------------------------------------------
+  async recordCounts(input: CountInput) {
+    const { stocktakeId, items, cashier } = input;
+
+    await prisma.$transaction(async (tx) => {
+      const stocktake = await this.findCounting(tx, stocktakeId);
+
+      for (const count of items) {
+        const item = stocktake.items.find((row) => row.product_id === count.productId);
+        if (!item) {
+          throw new Error(`Produk dengan ID ${count.productId} tidak termasuk dalam ${stocktake.stocktake_no}`);
+        }
+        if (item.product.track_units) {
+          throw new Error(`Produk "${item.product.name}" dicatat per unit: scan nomor unitnya`);
+        }
+
+        await tx.stocktakeItem.update({
+          where: { id: item.id },
+          data: {
+            counted_qty: count.countedQty,
+            counted_stock: item.product.stock_qty,
+            counted_by: cashier,
+            counted_at: new Date(),
+          },
+        });
+      }
+    });
+
+    return this.getStocktake(stocktakeId);
+  }
+
+  // --------------------------------------------------------------------------
+  // D. Scan a unit (products with unit tracking): each scan counts one unit
+  // --------------------------------------------------------------------------
+  async scanUnit(input: ScanInput) {
+    const { stocktakeId, code, cashier } = input;
+
+    await prisma.$transaction(async (tx) => {
+      const stocktake = await this.findCounting(tx, stocktakeId);
+
+      const unit = await tx.productUnit.findFirst({
+        where: { OR: [{ serial_no: code }, { imei: code }, { engine_no: code }, { chassis_no: code }] },
+      });
+      if (!unit) {
+        throw new Error(`Unit dengan nomor ${code} tidak ditemukan`);
+      }
+
+      const item = stocktake.items.find((row) => row.product_id === unit.product_id);
+      if (!item) {
+        throw new Error(`Unit ${unitLabel(unit)} bukan produk yang dihitung di ${stocktake.stocktake_no}`);
+      }
+      if (!COUNTABLE_UNIT_STATUSES.includes(unit.status)) {
+        throw new Error(`Unit ${unitLabel(unit)} tidak seharusnya ada di gudang (status: ${unit.status})`);
+      }
+
+      const scanned = countedUnitIds(item.counted_units);
+      if (scanned.includes(unit.id)) {
+        throw new Error(`Unit ${unitLabel(unit)} sudah di-scan`);
+      }
+      scanned.push(unit.id);
+
+      await tx.stocktakeItem.update({
+        where: { id: item.id },
+        data: {
+          counted_units: scanned,
+          counted_qty: scanned.length,
+          counted_stock: item.product.stock_qty,
+          counted_by: cashier,
+          counted_at: new Date(),
+        },
+      });
+    });
+
+    return this.getStocktake(stocktakeId);
+  }
+
+  // --------------------------------------------------------------------------
+  // E. Counting done: hand the session to a supervisor
+  // --------------------------------------------------------------------------
+  async submit(stocktakeId: number, cashier: string) {
+    const stocktake = await this.findCounting(prisma, stocktakeId);
+
+    // Per-unit products with nothing scanned were counted as empty
+    const uncounted = stocktake.items.filter((item) => item.counted_qty === null && !item.product.track_units);
+    if (uncounted.length > 0) {
+      throw new Error(`${uncounted.length} produk belum dihitung (${uncounted.slice(0, 3).map((item) => item.product.name).join(', ')})`);
+    }
+
+    await prisma.stocktake.update({
+      where: { id: stocktakeId },
+      data: { status: 'SUBMITTED', submitted_by: cashier, submitted_at: new Date() },
+    });
+
+    return this.getStocktake(stocktakeId);
+  }
+
+  // --------------------------------------------------------------------------
+  // F. Supervisor sends the count back for a recount
+  // --------------------------------------------------------------------------
+  async reopen(stocktakeId: number) {
+    const stocktake = await prisma.stocktake.findUnique({ where: { id: stocktakeId } });
+    if (!stocktake) {
+      throw new Error(`Stock opname dengan ID ${stocktakeId} tidak ditemukan`);
+    }
+    if (stocktake.status !== 'SUBMITTED') {
+      throw new Error(`Stock opname ${stocktake.stocktake_no} tidak menunggu persetujuan (status: ${stocktake.status})`);
+    }
+
+    await prisma.stocktake.update({
+      where: { id: stocktakeId },
+      data: { status: 'COUNTING', submitted_by: null, submitted_at: null },
+    });
+
+    return this.getStocktake(stocktakeId);
+  }
+
+  // --------------------------------------------------------------------------
+  // G. Approve and post: every variance becomes a STOCKTAKE movement
+  // --------------------------------------------------------------------------
+  async post(stocktakeId: number, approvedBy: string) {
+    await prisma.$transaction(async (tx) => {
+      const stocktake = await tx.stocktake.findUnique({ where: { id: stocktakeId }, include: stocktakeInclude });
+      if (!stocktake) {
+        throw new Error(`Stock opname dengan ID ${stocktakeId} tidak ditemukan`);
+      }
+      if (stocktake.status !== 'SUBMITTED') {
+        throw new Error(`Stock opname ${stocktake.stocktake_no} belum diajukan untuk disetujui (status: ${stocktake.status})`);
+      }
+      if (approvedBy === stocktake.submitted_by) {
+        throw new Error('Stock opname harus disetujui oleh orang lain selain petugas yang menghitung');
+      }
+
+      for (const item of stocktake.items) {
+        const product = await tx.product.findUniqueOrThrow({ where: { id: item.product_id } });
+        const countedQty = item.counted_qty ?? 0;
+
+        // Units follow the count: unscanned ones go missing, found ones come back into stock
+        if (product.track_units) {
+          // A unit that arrived after the last scan was never on the shelf being counted
+          const countedAt = item.counted_at ?? stocktake.created_at;
+          const moved = await tx.stockMovement.findFirst({
+            where: { product_id: product.id, created_at: { gt: countedAt } },
+          });
+          if (moved) {
+            throw new Error(
+              `Stok "${product.name}" berubah sejak dihitung (${moved.type}); kembalikan opname untuk di-scan ulang`
+            );
+          }
+
+          const scanned = countedUnitIds(item.counted_units);
+          await tx.productUnit.updateMany({
+            where: { product_id: product.id, status: { in: SELLABLE_UNIT_STATUSES }, id: { notIn: scanned } },
+            data: { status: 'MISSING' },
+          });
+          await tx.productUnit.updateMany({
+            where: { id: { in: scanned }, status: 'MISSING' },
+            data: { status: 'IN_STOCK' },
+          });
+        }
+
+        // Movements booked after the count stay: only the difference found on the shelf is adjusted
+        const variance = countedQty - (item.counted_stock ?? product.stock_qty);
+        if (variance !== 0) {
+          await moveStock(tx, {
+            productId: product.id,
+            type: 'STOCKTAKE',
+            quantity: variance,
+            createdBy: approvedBy,
+            reason: `Stock opname ${stocktake.stocktake_no}`,
+            referenceType: 'STOCKTAKE',
+            referenceId: stocktake.id,
+          });
+        }
+
+        await tx.stocktakeItem.update({
+          where: { id: item.id },
+          data: { counted_qty: countedQty, variance },
+        });
+      }
+
+      await tx.stocktake.update({
+        where: { id: stocktake.id },
+        data: { status: 'POSTED', approved_by: approvedBy, posted_at: new Date() },
+      });
+    });
+
+    return this.getStocktake(stocktakeId);
+  }
+
+  // --------------------------------------------------------------------------
+  // H. Cancel an open session (stock untouched, sales unlocked)
+  // --------------------------------------------------------------------------
+  async cancel(stocktakeId: number) {
+    const stocktake = await prisma.stocktake.findUnique({ where: { id: stocktakeId } });
+    if (!stocktake) {
+      throw new Error(`Stock opname dengan ID ${stocktakeId} tidak ditemukan`);
+    }
+    if (!OPEN_STOCKTAKE_STATUSES.includes(stocktake.status)) {
+      throw new Error(`Stock opname ${stocktake.stocktake_no} sudah selesai (status: ${stocktake.status})`);
+    }
+
+    await prisma.stocktake.update({ where: { id: stocktakeId }, data: { status: 'CANCELLED' } });
+    return this.getStocktake(stocktakeId);
+  }
+
+  // --------------------------------------------------------------------------
+  // Helpers
+  // --------------------------------------------------------------------------
+  private async findCounting(client: TransactionClient, stocktakeId: number) {
+    const stocktake = await client.stocktake.findUnique({ where: { id: stocktakeId }, include: stocktakeInclude });
+    if (!stocktake) {
+      throw new Error(`Stock opname dengan ID ${stocktakeId} tidak ditemukan`);
+    }
+    if (stocktake.status !== 'COUNTING') {
+      throw new Error(`Stock opname ${stocktake.stocktake_no} tidak dalam tahap penghitungan (status: ${stocktake.status})`);
+    }
+    return stocktake;
+  }
+
+  // Posted sessions keep the variance they booked; open ones compare with the stock at count time
+  private withVariances<T extends {
+    status: StocktakeStatus;
+    items: Array<{
+      counted_qty: number | null;
+      counted_stock: number | null;
+      variance: number | null;
+      product: { stock_qty: number };
+    }>;
+  }>(stocktake: T) {
+    const items = stocktake.items.map((item) => ({
+      ...item,
+      variance: stocktake.status === 'POSTED' || item.counted_qty === null
+        ? item.variance
+        : item.counted_qty - (item.counted_stock ?? item.product.stock_qty),
+    }));
+
+    return {
+      ...stocktake,
+      items,
+      summary: {
+        products: items.length,
+        counted: items.filter((item) => item.counted_qty !== null).length,
+        withVariance: items.filter((item) => item.variance !== null && item.variance !== 0).length,
+      },
+    };
+  }
+}
+
+// Export singleton instance
+export const stocktakeService = new StocktakeService();
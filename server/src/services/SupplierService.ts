@@ -0,0 +1,115 @@
+// SupplierService: Supplier registry and accounts payable (hutang dagang) per supplier
+// What we owe = value of goods received on purchase orders - payments made
+
+import { Decimal } from 'decimal.js';
+import { prisma } from '../lib/prisma.js';
+import type { Supplier } from '@prisma/client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SupplierInput {
+  name: string;
+  contact_person: string | null;
+  phone: string | null;
+  address: string | null;
+  payment_terms_days: number;
+  is_active: boolean;
+}
+
+export interface SupplierWithPayable extends Supplier {
+  payable: {
+    outstanding: string; // Received - paid, over all purchase orders
+    overdue: string; // Outstanding on orders past their due date
+    openOrders: number; // Orders with goods still to come or money still owed
+  };
+}
+
+// ============================================================================
+// SUPPLIER SERVICE CLASS
+// ============================================================================
+
+export class SupplierService {
+
+  // --------------------------------------------------------------------------
+  // A. Suppliers with what we owe each of them
+  // --------------------------------------------------------------------------
+  async listSuppliers(): Promise<SupplierWithPayable[]> {
+    const [suppliers, orders] = await Promise.all([
+      prisma.supplier.findMany({ orderBy: { name: 'asc' } }),
+      prisma.purchaseOrder.findMany({
+        where: { status: { not: 'CANCELLED' } },
+        select: { supplier_id: true, status: true, received_amount: true, paid_amount: true, due_date: true },
+      }),
+    ]);
+
+    const now = new Date();
+
+    return suppliers.map((supplier) => {
+      let outstanding = new Decimal(0);
+      let overdue = new Decimal(0);
+      let openOrders = 0;
+
+      for (const order of orders) {
+        if (order.supplier_id !== supplier.id) continue;
+
+        const owed = new Decimal(order.received_amount.toString()).minus(order.paid_amount.toString());
+        outstanding = outstanding.plus(owed);
+        if (owed.gt(0) && order.due_date && order.due_date < now) {
+          overdue = overdue.plus(owed);
+        }
+        if (owed.gt(0) || order.status !== 'RECEIVED') openOrders++;
+      }
+
+      return {
+        ...supplier,
+        payable: {
+          outstanding: outstanding.toFixed(2),
+          overdue: overdue.toFixed(2),
+          openOrders,
+        },
+      };
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // B. Create / update a supplier; names are unique
+  // --------------------------------------------------------------------------
+  async createSupplier(input: SupplierInput): Promise<Supplier> {
+    await this.assertUniqueName(input.name);
+    return prisma.supplier.create({ data: input });
+  }
+
+  async updateSupplier(id: number, input: SupplierInput): Promise<Supplier> {
+    await this.findOrThrow(id);
+    await this.assertUniqueName(input.name, id);
+    return prisma.supplier.update({ where: { id }, data: input });
+  }
+
+  // --------------------------------------------------------------------------
+  // Helpers
+  // --------------------------------------------------------------------------
+  private async findOrThrow(id: number): Promise<Supplier> {
+    const supplier = await prisma.supplier.findUnique({ where: { id } });
+    if (!supplier) {
+      throw new Error(`Supplier dengan ID ${id} tidak ditemukan`);
+    }
+    return supplier;
+  }
+
+  private async assertUniqueName(name: string, exceptId?: number): Promise<void> {
+    const existing = await prisma.supplier.findFirst({
+      where: {
+        name: { equals: name, mode: 'insensitive' },
+        ...(exceptId !== undefined ? { NOT: { id: exceptId } } : {}),
+      },
+    });
+    if (existing) {
+      throw new Error(`Nama supplier "${name}" sudah dipakai`);
+    }
+  }
+}
+
+// Export singleton instance
+export const supplierService = new SupplierService();
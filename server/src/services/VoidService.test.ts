@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from 'vitest';
+import { voidService } from './VoidService.js';
+import { useClient } from '../testing/prismaMock.js';
+
+vi.mock('../lib/prisma.js', () => import('../testing/prismaMock.js'));
+
+function fakeTx(overrides: { scheduleVersion?: number; repossessionNo?: string | null } = {}) {
+  const { scheduleVersion = 1, repossessionNo = null } = overrides;
+  return {
+    $queryRaw: vi.fn(async () => []),
+    creditContract: { findUnique: vi.fn(async () => ({ id: 1 })) },
+    transaction: {
+      findUnique: vi.fn(async () => ({
+        id: 7,
+        status: 'ACTIVE',
+        items: [],
+        contract: { id: 1, schedule_version: scheduleVersion, payments: [] },
+      })),
+    },
+    repossession: {
+      findFirst: vi.fn(async () => (repossessionNo ? { id: 3, repossession_no: repossessionNo } : null)),
+    },
+    payment: { create: vi.fn() },
+  };
+}
+
+const input = { transactionId: 7, reason: 'Salah input', cashier: 'Kasir', refund: true };
+
+describe('VoidService.voidTransaction', () => {
+  it('refuses to void a contract whose goods were repossessed', async () => {
+    const tx = useClient(fakeTx({ repossessionNo: 'TRK-2026-000001' }));
+
+    await expect(voidService.voidTransaction(input)).rejects.toThrow('sudah ditarik (TRK-2026-000001)');
+    expect(tx.repossession.findFirst).toHaveBeenCalledWith({ where: { contract_id: 1 } });
+    expect(tx.payment.create).not.toHaveBeenCalled();
+  });
+
+  it('locks the contract before reading its payments', async () => {
+    const tx = useClient(fakeTx({ scheduleVersion: 2 }));
+
+    await expect(voidService.voidTransaction(input)).rejects.toThrow();
+    expect(tx.creditContract.findUnique).toHaveBeenCalledWith({ where: { transaction_id: 7 }, select: { id: true } });
+    expect(tx.$queryRaw.mock.invocationCallOrder[0]!).toBeLessThan(tx.transaction.findUnique.mock.invocationCallOrder[0]!);
+  });
+
+  it('refuses to void a restructured contract', async () => {
+    useClient(fakeTx({ scheduleVersion: 2 }));
+
+    await expect(voidService.voidTransaction(input)).rejects.toThrow('sudah direstrukturisasi');
+  });
+});
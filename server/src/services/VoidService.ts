@@ -0,0 +1,220 @@
+// VoidService: Cancel (VOID) a credit transaction
+// The units go back to stock and the installments are cancelled; receipts already
+// taken are refunded with reversal rows so the payment ledger stays balanced
+
+import { Decimal } from 'decimal.js';
+import { prisma } from '../lib/prisma.js';
+import { nextDocumentNumber } from '../lib/documentNumber.js';
+import { lockContract } from '../lib/contractLock.js';
+import { parseTransactionCharges } from '../lib/schemeCharges.js';
+import { moveStock } from '../lib/stockMovements.js';
+
+const REVERSAL_PREFIX = 'BTL';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface VoidTransactionInput {
+  transactionId: number;
+  reason: string;
+  cashier: string;
+  refund: boolean; // Must be true when installments have already been paid
+}
+
+export interface VoidTransactionResult {
+  transactionId: number;
+  contractId: number;
+  voidedAt: Date;
+  restocked: Array<{ id: number; name: string; quantity: number; stockQty: number }>;
+  cancelledInstallments: number;
+  downPaymentRefund: string; // DP + upfront charges collected at the sale
+  installmentRefund: string; // Installment receipts refunded
+  refundReceipts: string[];
+}
+
+// ============================================================================
+// VOID SERVICE CLASS
+// ============================================================================
+
+export class VoidService {
+
+  // --------------------------------------------------------------------------
+  // A. Void a transaction
+  // --------------------------------------------------------------------------
+  async voidTransaction(input: VoidTransactionInput): Promise<VoidTransactionResult> {
+    const { transactionId, reason, cashier, refund } = input;
+
+    return await prisma.$transaction(async (tx) => {
+      // Payments and repossessions of this contract wait until the void commits
+      const target = await tx.creditContract.findUnique({ where: { transaction_id: transactionId }, select: { id: true } });
+      if (target) {
+        await lockContract(tx, target.id);
+      }
+
+      const transaction = await tx.transaction.findUnique({
+        where: { id: transactionId },
+        include: {
+          items: true,
+          contract: {
+            include: {
+              payments: {
+                where: { type: 'RECEIPT', reversed_by: null },
+                include: { allocations: true },
+                orderBy: [{ paid_at: 'asc' }, { id: 'asc' }],
+              },
+            },
+          },
+        },
+      });
+
+      if (!transaction) {
+        throw new Error(`Transaksi dengan ID ${transactionId} tidak ditemukan`);
+      }
+
+      if (transaction.status === 'VOID') {
+        throw new Error(`Transaksi #${transaction.id} sudah dibatalkan`);
+      }
+
+      if (transaction.status !== 'ACTIVE' && transaction.status !== 'PENDING') {
+        throw new Error(`Transaksi tidak dapat dibatalkan (status: ${transaction.status})`);
+      }
+
+      const contract = transaction.contract;
+      if (!contract) {
+        throw new Error(`Kontrak untuk transaksi #${transaction.id} tidak ditemukan`);
+      }
+
+      if (contract.schedule_version > 1) {
+        throw new Error('Kontrak sudah direstrukturisasi dan tidak dapat dibatalkan');
+      }
+
+      // The goods are already back in stock as a second-hand product and the credited
+      // value is a non-cash receipt: neither may be returned or refunded again
+      const repossession = await tx.repossession.findFirst({ where: { contract_id: contract.id } });
+      if (repossession) {
+        throw new Error(`Barang kontrak ini sudah ditarik (${repossession.repossession_no}) dan tidak dapat dibatalkan`);
+      }
+
+      const receipts = contract.payments;
+      const paidTotal = receipts.reduce((sum, payment) => sum.plus(payment.amount.toString()), new Decimal(0));
+
+      if (receipts.length > 0 && !refund) {
+        throw new Error(
+          `Sudah ada ${receipts.length} pembayaran angsuran (Rp ${paidTotal.toFixed(0)}). ` +
+          'Pembatalan harus disertai refund'
+        );
+      }
+
+      const now = new Date();
+
+      // ----------------------------------------------------------------------
+      // Step 1: Refund every active receipt with a reversal row
+      // Installments are cancelled below, so their balances are not restored
+      // ----------------------------------------------------------------------
+      const refundReceipts: string[] = [];
+      for (const payment of receipts) {
+        const reversal = await tx.payment.create({
+          data: {
+            receipt_no: await nextDocumentNumber(tx, REVERSAL_PREFIX, now),
+            contract_id: contract.id,
+            type: 'REVERSAL',
+            amount: new Decimal(payment.amount.toString()).neg().toFixed(4),
+            discount_amount: new Decimal(payment.discount_amount.toString()).neg().toFixed(4),
+            method: payment.method,
+            cashier,
+            reason: `Refund pembatalan transaksi: ${reason}`,
+            reversal_of_id: payment.id,
+            paid_at: now,
+          },
+        });
+
+        for (const allocation of payment.allocations) {
+          await tx.paymentAllocation.create({
+            data: {
+              payment_id: reversal.id,
+              installment_id: allocation.installment_id,
+              penalty_amount: new Decimal(allocation.penalty_amount.toString()).neg().toFixed(4),
+              amount: new Decimal(allocation.amount.toString()).neg().toFixed(4),
+              discount_amount: new Decimal(allocation.discount_amount.toString()).neg().toFixed(4),
+              status_before: 'CANCELLED',
+              paid_at_before: null,
+            },
+          });
+        }
+
+        refundReceipts.push(reversal.receipt_no);
+      }
+
+      // ----------------------------------------------------------------------
+      // Step 2: Cancel the installments and void the transaction
+      // ----------------------------------------------------------------------
+      const cancelled = await tx.installment.updateMany({
+        where: { contract_id: contract.id },
+        data: { status: 'CANCELLED' },
+      });
+
+      await tx.transaction.update({
+        where: { id: transaction.id },
+        data: {
+          status: 'VOID',
+          void_reason: reason,
+          voided_by: cashier,
+          voided_at: now,
+        },
+      });
+
+      // ----------------------------------------------------------------------
+      // Step 3: Return the units to stock, per cart line
+      // ----------------------------------------------------------------------
+      // Transactions from before cart lines existed sold a single unit
+      const lines = transaction.items.length > 0
+        ? transaction.items.map((item) => ({
+            productId: item.product_id,
+            quantity: item.quantity,
+            unitCost: new Decimal(item.unit_cost.toString()),
+          }))
+        : [{ productId: transaction.productId, quantity: 1, unitCost: new Decimal(0) }];
+
+      const restocked = [];
+      for (const line of lines) {
+        const product = await moveStock(tx, {
+          productId: line.productId,
+          type: 'VOID_RETURN',
+          quantity: line.quantity,
+          createdBy: cashier,
+          reason,
+          referenceType: 'TRANSACTION',
+          referenceId: transaction.id,
+          // Back in at the cost it went out at; lines from before cost snapshots keep the average
+          unitCost: line.unitCost.gt(0) ? line.unitCost : undefined,
+        });
+        restocked.push({ id: product.id, name: product.name, quantity: line.quantity, stockQty: product.stock_qty });
+      }
+
+      // Serial-tracked units sold on this transaction become sellable again
+      await tx.productUnit.updateMany({
+        where: { sold_transaction_id: transaction.id, status: { in: ['SOLD', 'WARRANTY'] } },
+        data: { status: 'IN_STOCK', sold_transaction_id: null },
+      });
+
+      const upfrontCharges = parseTransactionCharges(transaction.charges)
+        .filter((charge) => charge.collection === 'UPFRONT')
+        .reduce((sum, charge) => sum.plus(charge.amount), new Decimal(0));
+
+      return {
+        transactionId: transaction.id,
+        contractId: contract.id,
+        voidedAt: now,
+        restocked,
+        cancelledInstallments: cancelled.count,
+        downPaymentRefund: new Decimal(transaction.dp_amount.toString()).plus(upfrontCharges).toFixed(2),
+        installmentRefund: paidTotal.toFixed(2),
+        refundReceipts,
+      };
+    });
+  }
+}
+
+// Export singleton instance
+export const voidService = new VoidService();
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+import { WriteOffService } from './WriteOffService.js';
+import { asClient, useClient } from '../testing/prismaMock.js';
+
+vi.mock('../lib/prisma.js', () => import('../testing/prismaMock.js'));
+
+// Written off at Rp 1.000.000, Rp 600.000 already recovered
+function fakeTx() {
+  return {
+    $queryRaw: vi.fn(async () => []),
+    creditContract: {
+      findUnique: vi.fn(async () => ({
+        id: 1,
+        transaction: { status: 'BAD_DEBT' },
+        write_off: { total_amount: '1000000.0000' },
+        payments: [{ amount: '400000.0000' }, { amount: '200000.0000' }],
+      })),
+    },
+    documentSequence: { upsert: vi.fn(async () => ({ last_value: 12 })) },
+    payment: {
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({ id: 30, ...data })),
+    },
+  };
+}
+
+const recovery = { contractId: 1, method: 'CASH' as const, cashier: 'Kasir' };
+
+describe('WriteOffService.applyRecovery', () => {
+  it('records the payment against what is left of the written-off amount', async () => {
+    const tx = fakeTx();
+
+    const result = await new WriteOffService().applyRecovery(asClient(tx), { ...recovery, amount: 150_000 });
+
+    expect(result.totalRecovered).toBe('750000.00');
+    expect(result.remaining).toBe('250000.00');
+    expect(tx.payment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'RECOVERY', amount: '150000.0000' }),
+    });
+  });
+
+  it('refuses more than is left to recover', async () => {
+    const tx = fakeTx();
+
+    await expect(
+      new WriteOffService().applyRecovery(asClient(tx), { ...recovery, amount: 400_001 })
+    ).rejects.toThrow('melebihi sisa hapus buku Rp 400000');
+    expect(tx.payment.create).not.toHaveBeenCalled();
+  });
+
+  it('locks the contract before summing earlier recoveries', async () => {
+    const tx = fakeTx();
+
+    await new WriteOffService().applyRecovery(asClient(tx), { ...recovery, amount: 1_000 });
+
+    expect(tx.$queryRaw.mock.invocationCallOrder[0]!).toBeLessThan(
+      tx.creditContract.findUnique.mock.invocationCallOrder[0]!
+    );
+  });
+});
+
+describe('WriteOffService.writeOff', () => {
+  it('locks the contract before capturing the balance', async () => {
+    const tx = useClient(fakeTx());
+
+    // The contract is already BAD_DEBT, so the write-off stops after reading it
+    await expect(
+      new WriteOffService().writeOff({ contractId: 1, reason: 'Macet', approvedBy: 'Manajer', cashier: 'Kasir' })
+    ).rejects.toThrow('Kontrak tidak aktif (status: BAD_DEBT)');
+    expect(tx.$queryRaw.mock.invocationCallOrder[0]!).toBeLessThan(
+      tx.creditContract.findUnique.mock.invocationCallOrder[0]!
+    );
+  });
+});
@@ -0,0 +1,372 @@
+// WriteOffService: Bad debt write-off (hapus buku kredit macet) and recovery income
+// The balance is frozen on the write-off date; the transaction moves to BAD_DEBT, which
+// stops penalty accrual and regular payments. Money received later is a RECOVERY payment
+
+import { Decimal } from 'decimal.js';
+import { prisma, type TransactionClient } from '../lib/prisma.js';
+import { nextDocumentNumber } from '../lib/documentNumber.js';
+import { lockContract } from '../lib/contractLock.js';
+import { parseSchemeSnapshot } from '../lib/schemeSnapshot.js';
+import { getInstallmentBalance } from '../lib/installmentBalance.js';
+import { penaltyService } from './PenaltyService.js';
+import type { PaymentMethod, Prisma } from '@prisma/client';
+
+const WRITE_OFF_PREFIX = 'HPB';
+const RECEIPT_PREFIX = 'KWT';
+
+// Oldest open installment must be at least this late (3 months of arrears)
+const MIN_DAYS_OVERDUE = 90;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface WriteOffInput {
+  contractId: number;
+  reason: string;
+  approvedBy: string;
+  cashier: string;
+}
+
+export interface RecoveryInput {
+  contractId: number;
+  amount: number;
+  method: PaymentMethod;
+  cashier: string;
+  notes?: string | undefined;
+}
+
+export interface WriteOffPreview {
+  contractId: number;
+  asOf: string;
+  daysOverdue: number;
+  minDaysOverdue: number;
+  outstandingPrincipal: string;
+  outstandingInterest: string;
+  outstandingPenalty: string;
+  totalAmount: string;
+}
+
+export interface WriteOffReportRow {
+  writeOffId: number;
+  writeOffNo: string;
+  contractId: number;
+  transactionId: number;
+  customerName: string | null;
+  customerPhone: string | null;
+  productName: string;
+  items: Array<{ id: number; productName: string; quantity: number; units: Prisma.JsonValue }>; // Cart lines (for tarik barang)
+  writtenOffAt: Date;
+  daysOverdue: number;
+  outstandingPrincipal: string;
+  outstandingInterest: string;
+  outstandingPenalty: string;
+  totalAmount: string;
+  recovered: string;
+  netLoss: string; // totalAmount - recovered
+  reason: string;
+  approvedBy: string;
+  repossessionNos: string[]; // Goods taken back (tarik barang)
+}
+
+export interface WriteOffReport {
+  from: string | null;
+  to: string | null;
+  count: number;
+  totalWrittenOff: string;
+  totalRecovered: string;
+  totalNetLoss: string;
+  writeOffs: WriteOffReportRow[];
+}
+
+// ============================================================================
+// WRITE-OFF SERVICE CLASS
+// ============================================================================
+
+export class WriteOffService {
+
+  // --------------------------------------------------------------------------
+  // A. Preview the balance that would be written off today
+  // --------------------------------------------------------------------------
+  async preview(contractId: number): Promise<WriteOffPreview> {
+    const { preview } = await this.buildWriteOff(prisma, contractId, new Date());
+    return preview;
+  }
+
+  // --------------------------------------------------------------------------
+  // B. Write off: freeze the balance and move the transaction to BAD_DEBT
+  // --------------------------------------------------------------------------
+  async writeOff(input: WriteOffInput) {
+    const { contractId, reason, approvedBy, cashier } = input;
+
+    return await prisma.$transaction(async (tx) => {
+      // A payment committed after the balance is captured would not be in the frozen amount
+      await lockContract(tx, contractId);
+
+      const now = new Date();
+      const { preview, contract, penalties } = await this.buildWriteOff(tx, contractId, now);
+
+      // Store today's penalty so the frozen rows match the captured balance
+      for (const { installmentId, penalty } of penalties) {
+        await tx.installment.update({
+          where: { id: installmentId },
+          data: { penalty_accrued: penalty.toFixed(4) },
+        });
+      }
+
+      const writeOff = await tx.contractWriteOff.create({
+        data: {
+          write_off_no: await nextDocumentNumber(tx, WRITE_OFF_PREFIX, now),
+          contract_id: contractId,
+          outstanding_principal: preview.outstandingPrincipal,
+          outstanding_interest: preview.outstandingInterest,
+          outstanding_penalty: preview.outstandingPenalty,
+          total_amount: preview.totalAmount,
+          days_overdue: preview.daysOverdue,
+          reason,
+          approved_by: approvedBy,
+          created_by: cashier,
+          written_off_at: now,
+        },
+      });
+
+      await tx.transaction.update({
+        where: { id: contract.transaction_id },
+        data: { status: 'BAD_DEBT' },
+      });
+
+      return { writeOff, preview };
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // C. Record a recovery payment on a written-off contract
+  // Not allocated to installments; total recoveries are capped at the written-off amount
+  // --------------------------------------------------------------------------
+  async recordRecovery(input: RecoveryInput) {
+    return await prisma.$transaction((tx) => this.applyRecovery(tx, input));
+  }
+
+  // Inside the caller's transaction; also used for the value of a repossessed unit
+  async applyRecovery(tx: TransactionClient, input: RecoveryInput) {
+    const { contractId, amount, method, cashier, notes } = input;
+
+    // Two recoveries checked against the same total could together exceed the written-off amount
+    await lockContract(tx, contractId);
+
+    const contract = await tx.creditContract.findUnique({
+      where: { id: contractId },
+      include: {
+        transaction: { select: { status: true } },
+        write_off: true,
+        payments: { where: { type: 'RECOVERY' }, select: { amount: true } },
+      },
+    });
+
+    if (!contract) {
+      throw new Error(`Kontrak dengan ID ${contractId} tidak ditemukan`);
+    }
+
+    if (!contract.write_off || contract.transaction.status !== 'BAD_DEBT') {
+      throw new Error('Kontrak belum dihapusbukukan, gunakan pembayaran angsuran biasa');
+    }
+
+    const recovered = contract.payments.reduce(
+      (sum, payment) => sum.plus(payment.amount.toString()),
+      new Decimal(0)
+    );
+    const remaining = new Decimal(contract.write_off.total_amount.toString()).minus(recovered);
+    const amountDecimal = new Decimal(amount);
+
+    if (amountDecimal.gt(remaining)) {
+      throw new Error(
+        `Jumlah pemulihan Rp ${amountDecimal.toFixed(0)} melebihi sisa hapus buku Rp ${remaining.toFixed(0)}`
+      );
+    }
+
+    const now = new Date();
+    const payment = await tx.payment.create({
+      data: {
+        receipt_no: await nextDocumentNumber(tx, RECEIPT_PREFIX, now),
+        contract_id: contractId,
+        type: 'RECOVERY',
+        amount: amountDecimal.toFixed(4),
+        method,
+        cashier,
+        notes: notes ?? null,
+        paid_at: now,
+      },
+    });
+
+    return {
+      paymentId: payment.id,
+      receiptNo: payment.receipt_no,
+      amount: amountDecimal.toFixed(2),
+      totalRecovered: recovered.plus(amountDecimal).toFixed(2),
+      remaining: remaining.minus(amountDecimal).toFixed(2),
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // D. Written-off contracts with their recoveries (optionally by write-off date)
+  // --------------------------------------------------------------------------
+  async getReport(from?: Date, to?: Date): Promise<WriteOffReport> {
+    const writeOffs = await prisma.contractWriteOff.findMany({
+      where: {
+        written_off_at: {
+          ...(from ? { gte: from } : {}),
+          ...(to ? { lte: to } : {}),
+        },
+      },
+      include: {
+        contract: {
+          include: {
+            transaction: {
+              include: {
+                product: { select: { name: true } },
+                items: { include: { product: { select: { name: true } } }, orderBy: { id: 'asc' } },
+              },
+            },
+            payments: { where: { type: 'RECOVERY' }, select: { amount: true } },
+            repossessions: { select: { repossession_no: true }, orderBy: { id: 'asc' } },
+          },
+        },
+      },
+      orderBy: { written_off_at: 'desc' },
+    });
+
+    let totalWrittenOff = new Decimal(0);
+    let totalRecovered = new Decimal(0);
+
+    const rows = writeOffs.map((writeOff): WriteOffReportRow => {
+      const { contract } = writeOff;
+      const total = new Decimal(writeOff.total_amount.toString());
+      const recovered = contract.payments.reduce(
+        (sum, payment) => sum.plus(payment.amount.toString()),
+        new Decimal(0)
+      );
+
+      totalWrittenOff = totalWrittenOff.plus(total);
+      totalRecovered = totalRecovered.plus(recovered);
+
+      return {
+        writeOffId: writeOff.id,
+        writeOffNo: writeOff.write_off_no,
+        contractId: contract.id,
+        transactionId: contract.transaction_id,
+        customerName: contract.transaction.customer_name,
+        customerPhone: contract.transaction.customer_phone,
+        productName: contract.transaction.product.name,
+        items: contract.transaction.items.map((item) => ({
+          id: item.id,
+          productName: item.product.name,
+          quantity: item.quantity,
+          units: item.units,
+        })),
+        writtenOffAt: writeOff.written_off_at,
+        daysOverdue: writeOff.days_overdue,
+        outstandingPrincipal: new Decimal(writeOff.outstanding_principal.toString()).toFixed(2),
+        outstandingInterest: new Decimal(writeOff.outstanding_interest.toString()).toFixed(2),
+        outstandingPenalty: new Decimal(writeOff.outstanding_penalty.toString()).toFixed(2),
+        totalAmount: total.toFixed(2),
+        recovered: recovered.toFixed(2),
+        netLoss: total.minus(recovered).toFixed(2),
+        reason: writeOff.reason,
+        approvedBy: writeOff.approved_by,
+        repossessionNos: contract.repossessions.map((r) => r.repossession_no),
+      };
+    });
+
+    return {
+      from: from?.toISOString() ?? null,
+      to: to?.toISOString() ?? null,
+      count: rows.length,
+      totalWrittenOff: totalWrittenOff.toFixed(2),
+      totalRecovered: totalRecovered.toFixed(2),
+      totalNetLoss: totalWrittenOff.minus(totalRecovered).toFixed(2),
+      writeOffs: rows,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Helper: Outstanding balance of the current schedule as of the write-off date
+  // Penalties are recomputed to that date instead of relying on the last accrual run
+  // --------------------------------------------------------------------------
+  private async buildWriteOff(db: TransactionClient, contractId: number, asOf: Date) {
+    const contract = await db.creditContract.findUnique({
+      where: { id: contractId },
+      include: {
+        transaction: true,
+        installments: { orderBy: { due_date: 'asc' } },
+      },
+    });
+
+    if (!contract) {
+      throw new Error(`Kontrak dengan ID ${contractId} tidak ditemukan`);
+    }
+
+    if (contract.transaction.status !== 'ACTIVE') {
+      throw new Error(`Kontrak tidak aktif (status: ${contract.transaction.status})`);
+    }
+
+    const openInstallments = contract.installments.filter(
+      (inst) => inst.schedule_version === contract.schedule_version && inst.status !== 'PAID'
+    );
+
+    const oldest = openInstallments[0];
+    if (!oldest) {
+      throw new Error('Tidak ada angsuran yang tersisa untuk dihapusbukukan');
+    }
+
+    const { daysOverdue } = penaltyService.calculatePenalty(oldest.due_date, asOf, new Decimal(0));
+    if (daysOverdue < MIN_DAYS_OVERDUE) {
+      throw new Error(
+        `Hapus buku hanya untuk tunggakan minimal ${MIN_DAYS_OVERDUE} hari (angsuran tertua terlambat ${daysOverdue} hari)`
+      );
+    }
+
+    const snapshot = parseSchemeSnapshot(contract.transaction.scheme_snapshot);
+    const dailyFee = new Decimal(snapshot.penalty_fee_daily);
+
+    let principal = new Decimal(0);
+    let interest = new Decimal(0);
+    let penaltyTotal = new Decimal(0);
+    const penalties: Array<{ installmentId: number; penalty: Decimal }> = [];
+
+    for (const inst of openInstallments) {
+      const calculation = penaltyService.calculatePenalty(
+        inst.due_date,
+        asOf,
+        dailyFee,
+        snapshot.penalty_grace_days
+      );
+      const accrued = calculation.penalizedDays > 0
+        ? calculation.penalty
+        : new Decimal(inst.penalty_accrued.toString());
+      if (!accrued.eq(inst.penalty_accrued.toString())) {
+        penalties.push({ installmentId: inst.id, penalty: accrued });
+      }
+
+      const balance = getInstallmentBalance(contract, inst);
+      principal = principal.plus(balance.principal);
+      interest = interest.plus(balance.interest);
+      penaltyTotal = penaltyTotal.plus(Decimal.max(0, accrued.minus(inst.penalty_paid.toString())));
+    }
+
+    const preview: WriteOffPreview = {
+      contractId: contract.id,
+      asOf: asOf.toISOString(),
+      daysOverdue,
+      minDaysOverdue: MIN_DAYS_OVERDUE,
+      outstandingPrincipal: principal.toFixed(2),
+      outstandingInterest: interest.toFixed(2),
+      outstandingPenalty: penaltyTotal.toFixed(2),
+      totalAmount: principal.plus(interest).plus(penaltyTotal).toFixed(2),
+    };
+
+    return { preview, contract, penalties };
+  }
+}
+
+// Export singleton instance
+export const writeOffService = new WriteOffService();
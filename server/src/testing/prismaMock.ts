@@ -0,0 +1,25 @@
+// Stand-in for lib/prisma in service tests. Each test file routes the real module here:
+//   vi.mock('../lib/prisma.js', () => import('../testing/prismaMock.js'));
+// and hands the service a fake client with useClient(); calls made outside and inside
+// prisma.$transaction both reach that fake
+import { vi, type Mock } from 'vitest';
+import type { TransactionClient } from '../lib/prisma.js';
+
+type FakeClient = Record<string, unknown>;
+
+export const prisma: FakeClient & { $transaction: Mock } = { $transaction: vi.fn() };
+
+export function useClient<T extends FakeClient>(client: T): T {
+  for (const key of Object.keys(prisma)) {
+    if (key !== '$transaction') delete prisma[key];
+  }
+  Object.assign(prisma, client);
+  prisma.$transaction.mockReset();
+  prisma.$transaction.mockImplementation(async (fn: (tx: T) => unknown) => fn(client));
+  return client;
+}
+
+// Services take the Prisma transaction client type; the fakes only carry what is called
+export function asClient(client: FakeClient): TransactionClient {
+  return client as unknown as TransactionClient;
+}